@@ -34,6 +34,11 @@ class MockTransport implements IMessageTransport {
     return true;
   }
 
+  async sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string): Promise<boolean> {
+    this.logger.info(`📤 [MOCK SEND] attachment to ${threadId}${caption ? ` with caption "${caption}"` : ''}`);
+    return true;
+  }
+
   async sendMultiBubble(threadId: string, bubbles: string[], isGroup: boolean, batched?: boolean): Promise<boolean> {
     for (const bubble of bubbles) {
       await this.sendMessage(threadId, bubble, isGroup);
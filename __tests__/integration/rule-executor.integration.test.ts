@@ -0,0 +1,139 @@
+/**
+ * Integration tests for RuleExecutor with RuleEngine and Scheduler
+ */
+import { RuleExecutor } from '../../src/rules/RuleExecutor';
+import { RuleEngine, Rule } from '../../src/rules/RuleEngine';
+import { Scheduler } from '../../src/scheduler/Scheduler';
+import { MockLogger } from '../mocks/MockLogger';
+import { MockTransport } from '../mocks/MockTransport';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('RuleExecutor Integration', () => {
+  let ruleExecutor: RuleExecutor;
+  let ruleEngine: RuleEngine;
+  let scheduler: Scheduler;
+  let logger: MockLogger;
+  let mockTransport: MockTransport;
+
+  const schedulerDbPath = path.join(__dirname, 'test-rule-executor-scheduler.db');
+  const rulesDbPath = path.join(__dirname, 'test-rule-executor-rules.db');
+
+  const message = {
+    sender: '+15551234567',
+    content: 'hello there',
+    thread_id: '+15551234567',
+    is_group: false
+  };
+
+  const makeRule = (action: Rule['action']): Rule => ({
+    rule_id: `rule-${action.type}`,
+    rule_type: 'auto_reply',
+    name: `Rule ${action.type}`,
+    enabled: true,
+    conditions: [{ field: 'content', operator: 'contains', value: 'hello' }],
+    action,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  });
+
+  beforeEach(() => {
+    [schedulerDbPath, rulesDbPath].forEach(dbPath => {
+      if (fs.existsSync(dbPath)) {
+        fs.unlinkSync(dbPath);
+      }
+    });
+
+    logger = new MockLogger();
+    mockTransport = new MockTransport();
+    scheduler = new Scheduler(schedulerDbPath, mockTransport, logger);
+    ruleEngine = new RuleEngine(rulesDbPath, logger);
+    ruleExecutor = new RuleExecutor(ruleEngine, scheduler, mockTransport, logger);
+  });
+
+  afterEach(() => {
+    scheduler.close();
+    ruleEngine.close();
+
+    [schedulerDbPath, rulesDbPath].forEach(dbPath => {
+      if (fs.existsSync(dbPath)) {
+        fs.unlinkSync(dbPath);
+      }
+    });
+  });
+
+  test('should return null when no rule matches', async () => {
+    const result = await ruleExecutor.execute(message);
+    expect(result).toBeNull();
+    expect(mockTransport.sentMessages.length).toBe(0);
+  });
+
+  test('should drop message for block action', async () => {
+    ruleEngine.setRule(makeRule({ type: 'block', parameters: {} }));
+
+    const result = await ruleExecutor.execute(message);
+    expect(result?.action_taken).toBe('blocked');
+    expect(result?.handled).toBe(true);
+    expect(mockTransport.sentMessages.length).toBe(0);
+  });
+
+  test('should send reply through transport for reply action', async () => {
+    ruleEngine.setRule(makeRule({ type: 'reply', parameters: { message: 'Auto hi!' } }));
+
+    const result = await ruleExecutor.execute(message);
+    expect(result?.action_taken).toBe('replied');
+    expect(result?.handled).toBe(true);
+    expect(mockTransport.getLastMessage()).toEqual({
+      threadId: message.thread_id,
+      text: 'Auto hi!',
+      isGroup: false
+    });
+  });
+
+  test('should not mark message handled when reply send fails', async () => {
+    ruleEngine.setRule(makeRule({ type: 'reply', parameters: { message: 'Auto hi!' } }));
+    mockTransport.shouldFail = true;
+
+    const result = await ruleExecutor.execute(message);
+    expect(result?.success).toBe(false);
+    expect(result?.handled).toBe(false);
+  });
+
+  test('should relay message to forward_to and continue processing', async () => {
+    ruleEngine.setRule(makeRule({ type: 'forward', parameters: { forward_to: 'chat123456' } }));
+
+    const result = await ruleExecutor.execute(message);
+    expect(result?.action_taken).toBe('forwarded');
+    expect(result?.handled).toBe(false);
+    expect(mockTransport.getLastMessage()?.threadId).toBe('chat123456');
+    expect(mockTransport.getLastMessage()?.isGroup).toBe(true);
+    expect(mockTransport.getLastMessage()?.text).toContain('hello there');
+  });
+
+  test('should schedule reply through scheduler for schedule_reply action', async () => {
+    ruleEngine.setRule(makeRule({
+      type: 'schedule_reply',
+      parameters: { message: 'Later!', delay_seconds: 120 }
+    }));
+
+    const before = Date.now();
+    const result = await ruleExecutor.execute(message);
+    expect(result?.action_taken).toBe('reply_scheduled');
+    expect(result?.handled).toBe(true);
+
+    const pending = scheduler.getPendingMessages();
+    expect(pending.length).toBe(1);
+    expect(pending[0].message_text).toBe('Later!');
+    expect(new Date(pending[0].send_at).getTime()).toBeGreaterThanOrEqual(before + 120000);
+    expect(mockTransport.sentMessages.length).toBe(0);
+  });
+
+  test('should fail without handling when required parameter is missing', async () => {
+    ruleEngine.setRule(makeRule({ type: 'forward', parameters: {} }));
+
+    const result = await ruleExecutor.execute(message);
+    expect(result?.success).toBe(false);
+    expect(result?.handled).toBe(false);
+    expect(result?.error).toContain('forward_to');
+  });
+});
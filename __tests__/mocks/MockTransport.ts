@@ -7,6 +7,7 @@ import { IMessageTransport, IncomingMessage } from '../../src/interfaces/IMessag
 export class MockTransport implements IMessageTransport {
   public sentMessages: Array<{ threadId: string; text: string; isGroup: boolean }> = [];
   public sentMultiBubbles: Array<{ threadId: string; bubbles: string[]; isGroup: boolean }> = [];
+  public sentAttachments: Array<{ threadId: string; file: string | Buffer; isGroup: boolean; caption?: string }> = [];
   public shouldFail: boolean = false;
 
   async start(): Promise<void> {
@@ -31,6 +32,15 @@ export class MockTransport implements IMessageTransport {
     return true;
   }
 
+  async sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string): Promise<boolean> {
+    if (this.shouldFail) {
+      return false;
+    }
+
+    this.sentAttachments.push({ threadId, file, isGroup, caption });
+    return true;
+  }
+
   async sendMultiBubble(threadId: string, bubbles: string[], isGroup: boolean): Promise<boolean> {
     if (this.shouldFail) {
       return false;
@@ -50,6 +60,7 @@ export class MockTransport implements IMessageTransport {
   clear(): void {
     this.sentMessages = [];
     this.sentMultiBubbles = [];
+    this.sentAttachments = [];
     this.shouldFail = false;
   }
 
@@ -0,0 +1,55 @@
+import { decodeAttributedBody, attributedBodyToText } from '../../src/transports/AttributedBodyDecoder';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// attributedBody blobs in the chat.db typedstream layout (hex encoded)
+const loadFixture = (name: string): Buffer => {
+  const hex = fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'attributed-body', `${name}.hex`), 'utf8');
+  return Buffer.from(hex.trim(), 'hex');
+};
+
+describe('AttributedBodyDecoder', () => {
+  it('should decode plain text', () => {
+    const decoded = decodeAttributedBody(loadFixture('plain'));
+
+    expect(decoded).toEqual({ text: 'Hello world', mentions: [], links: [] });
+  });
+
+  it('should decode long text with multi-byte characters', () => {
+    const decoded = decodeAttributedBody(loadFixture('long-emoji'));
+
+    expect(decoded?.text.startsWith('Long message with an emoji 🎉 ')).toBe(true);
+    expect(decoded?.text.length).toBeGreaterThan(127);
+  });
+
+  it('should decode NSMutableString content (edited messages)', () => {
+    expect(attributedBodyToText(loadFixture('edited-mutable'))).toBe('fixed the typo');
+  });
+
+  it('should extract mention ranges', () => {
+    const decoded = decodeAttributedBody(loadFixture('mention'));
+
+    expect(decoded?.text).toBe('hey Sam are you coming?');
+    expect(decoded?.mentions).toEqual([{ start: 4, length: 3, handle: '+15551234567' }]);
+    expect(decoded?.text.substr(4, 3)).toBe('Sam');
+  });
+
+  it('should extract link attributes', () => {
+    const decoded = decodeAttributedBody(loadFixture('link'));
+
+    expect(decoded?.links).toEqual([{ start: 6, length: 21, url: 'https://example.com/x' }]);
+  });
+
+  it('should fall back to scanning for the text when the stream is truncated', () => {
+    const blob = loadFixture('plain');
+    const truncated = blob.subarray(0, blob.indexOf('NSDictionary'));
+
+    expect(attributedBodyToText(truncated)).toBe('Hello world');
+  });
+
+  it('should return null for empty or unrelated blobs', () => {
+    expect(decodeAttributedBody(null)).toBeNull();
+    expect(decodeAttributedBody(Buffer.alloc(0))).toBeNull();
+    expect(decodeAttributedBody(Buffer.from('not a typedstream'))).toBeNull();
+  });
+});
@@ -3,6 +3,8 @@ import { Scheduler } from '../../src/scheduler/Scheduler';
 import { MockLogger } from '../mocks/MockLogger';
 import { MockTransport } from '../mocks/MockTransport';
 import { EdgeCommandWrapper } from '../../src/interfaces/ICommands';
+import { OutboundAttachmentStager } from '../../src/attachments/OutboundAttachmentStager';
+import { DeliveryWindowPolicy } from '../../src/delivery/DeliveryWindowPolicy';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -187,6 +189,135 @@ describe('CommandHandler', () => {
     });
   });
 
+  describe('send_message_now command', () => {
+    const replyCommand: EdgeCommandWrapper = {
+      command_id: 'cmd_reply',
+      command_type: 'send_message_now',
+      payload: {
+        thread_id: '+15551234567',
+        text: 'Friday works!',
+        reply_to_guid: 'GUID-5'
+      }
+    };
+
+    it('should reply in-thread when the transport supports it', async () => {
+      const replies: Array<{ threadId: string; text: string; replyToGuid: string }> = [];
+      (mockTransport as any).sendReply = async (threadId: string, text: string, _isGroup: boolean, replyToGuid: string) => {
+        replies.push({ threadId, text, replyToGuid });
+        return true;
+      };
+
+      const result = await commandHandler.executeCommand(replyCommand);
+
+      expect(result).toEqual({ success: true });
+      expect(replies).toEqual([{ threadId: '+15551234567', text: 'Friday works!', replyToGuid: 'GUID-5' }]);
+      expect(mockTransport.sentMessages).toEqual([]);
+    });
+
+    it('should say a send was only queued when the transport queues sends', async () => {
+      (mockTransport as any).queuesSends = true;
+
+      const result = await commandHandler.executeCommand({
+        command_id: 'cmd_queued',
+        command_type: 'send_message_now',
+        payload: { thread_id: '+15551234567', text: 'On my way' }
+      });
+
+      expect(result).toEqual({ success: true, details: { queued: true } });
+    });
+
+    it('should fall back to a normal send when the transport cannot reply in-thread', async () => {
+      const result = await commandHandler.executeCommand(replyCommand);
+
+      expect(result).toEqual({ success: true, details: { reply_fallback: true } });
+      expect(mockTransport.getLastMessage()).toEqual({ threadId: '+15551234567', text: 'Friday works!', isGroup: false });
+      expect(mockLogger.infoMessages.some(msg => msg.includes('cannot reply in-thread'))).toBe(true);
+    });
+
+    describe('during quiet hours', () => {
+      const quietUntil = new Date(Date.now() + 60 * 60 * 1000);
+      const sendCommand: EdgeCommandWrapper = {
+        command_id: 'cmd_quiet',
+        command_type: 'send_message_now',
+        payload: { thread_id: '+15551234567', text: 'Morning check-in' }
+      };
+
+      beforeEach(() => {
+        const deliveryWindow = { getDeferral: () => quietUntil } as unknown as DeliveryWindowPolicy;
+        commandHandler = new CommandHandler(
+          scheduler, mockTransport, mockLogger, undefined, undefined, undefined, undefined, deliveryWindow
+        );
+      });
+
+      it('should defer a normal send to the end of quiet hours', async () => {
+        const result = await commandHandler.executeCommand(sendCommand);
+
+        expect(result.success).toBe(true);
+        expect(result.details?.deferred_until).toBe(quietUntil.toISOString());
+        expect(mockTransport.sentMessages).toEqual([]);
+
+        const pending = scheduler.getPendingMessages();
+        expect(pending).toHaveLength(1);
+        expect(pending[0]).toMatchObject({ message_text: 'Morning check-in', command_id: 'cmd_quiet' });
+      });
+
+      it('should keep the reply target of a deferred send', async () => {
+        await commandHandler.executeCommand({
+          ...sendCommand,
+          payload: { ...sendCommand.payload, reply_to_guid: 'GUID-5' }
+        });
+
+        expect(scheduler.getPendingMessages()[0]).toMatchObject({ message_text: 'Morning check-in', reply_to_guid: 'GUID-5' });
+      });
+
+      it('should send immediate-priority messages right away', async () => {
+        const result = await commandHandler.executeCommand({ ...sendCommand, priority: 'immediate' });
+
+        expect(result.success).toBe(true);
+        expect(mockTransport.getLastMessage()?.text).toBe('Morning check-in');
+        expect(scheduler.getPendingMessages()).toEqual([]);
+      });
+    });
+  });
+
+  describe('send_attachment command', () => {
+    const pngBase64 = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      Buffer.alloc(32)
+    ]).toString('base64');
+
+    it('should stage an inline file and send it with its caption', async () => {
+      const stagingDir = path.join(__dirname, `test-outbound-${Date.now()}`);
+      commandHandler = new CommandHandler(
+        scheduler, mockTransport, mockLogger, undefined, undefined, undefined,
+        new OutboundAttachmentStager(mockLogger, { directory: stagingDir })
+      );
+
+      const result = await commandHandler.executeCommand({
+        command_id: 'cmd_attachment',
+        command_type: 'send_attachment',
+        payload: { thread_id: '+15551234567', data_base64: pngBase64, caption: 'look at this' }
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTransport.sentAttachments).toHaveLength(1);
+      expect(mockTransport.sentAttachments[0]).toMatchObject({ threadId: '+15551234567', caption: 'look at this' });
+      expect(String(mockTransport.sentAttachments[0].file)).toMatch(/\.png$/);
+
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+    });
+
+    it('should fail when attachment sending is not configured', async () => {
+      const result = await commandHandler.executeCommand({
+        command_id: 'cmd_attachment',
+        command_type: 'send_attachment',
+        payload: { thread_id: '+15551234567', data_base64: pngBase64 }
+      });
+
+      expect(result).toEqual({ success: false, error: 'Attachment sending not configured' });
+    });
+  });
+
   describe('schedule_message command', () => {
     it('should handle group chat messages', async () => {
       const command: EdgeCommandWrapper = {
@@ -0,0 +1,126 @@
+import { CommandLedger } from '../../src/commands/CommandLedger';
+import { MockLogger } from '../mocks/MockLogger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('CommandLedger', () => {
+  let ledger: CommandLedger;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+
+  const command = {
+    command_id: 'cmd_123',
+    command_type: 'send_message_now',
+    payload: { thread_id: '+15551234567', text: 'Hello' }
+  };
+
+  beforeEach(() => {
+    testDbPath = path.join(__dirname, `test-ledger-${Date.now()}.db`);
+    mockLogger = new MockLogger();
+    ledger = new CommandLedger(testDbPath, mockLogger);
+  });
+
+  afterEach(() => {
+    ledger.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  describe('claim', () => {
+    it('should claim a new command', () => {
+      const claim = ledger.claim(command);
+
+      expect(claim.duplicate).toBe(false);
+      expect(claim.entry.status).toBe('received');
+    });
+
+    it('should report duplicates with the cached result', () => {
+      ledger.claim(command);
+      ledger.markExecuting(command.command_id);
+      ledger.complete(command.command_id, false, 'Failed to send', { reason: 'transport' });
+
+      const claim = ledger.claim(command);
+
+      expect(claim.duplicate).toBe(true);
+      expect(claim.entry.status).toBe('failed');
+      expect(claim.entry.error).toBe('Failed to send');
+      expect(claim.entry.details).toEqual({ reason: 'transport' });
+      expect(claim.entry.delivery_count).toBe(2);
+    });
+
+    it('should report in-flight duplicates', () => {
+      ledger.claim(command);
+      ledger.markExecuting(command.command_id);
+
+      const claim = ledger.claim(command);
+
+      expect(claim.duplicate).toBe(true);
+      expect(claim.entry.status).toBe('executing');
+    });
+  });
+
+  describe('persistence', () => {
+    it('should persist last command ID across restarts', () => {
+      expect(ledger.getLastCommandId()).toBeNull();
+
+      ledger.setLastCommandId('cmd_1');
+      ledger.setLastCommandId('cmd_2');
+      ledger.close();
+
+      ledger = new CommandLedger(testDbPath, mockLogger);
+      expect(ledger.getLastCommandId()).toBe('cmd_2');
+    });
+
+    it('should still treat commands as duplicates after restart', () => {
+      ledger.claim(command);
+      ledger.complete(command.command_id, true);
+      ledger.close();
+
+      ledger = new CommandLedger(testDbPath, mockLogger);
+      const claim = ledger.claim(command);
+
+      expect(claim.duplicate).toBe(true);
+      expect(claim.entry.status).toBe('completed');
+    });
+
+    it('should mark commands interrupted by a restart as failed', () => {
+      ledger.claim(command);
+      ledger.markExecuting(command.command_id);
+      ledger.close();
+
+      ledger = new CommandLedger(testDbPath, mockLogger);
+      const entry = ledger.get(command.command_id);
+
+      expect(entry?.status).toBe('failed');
+      expect(entry?.error).toContain('Interrupted');
+    });
+  });
+
+  describe('getStats', () => {
+    it('should count statuses and suppressed duplicates', () => {
+      ledger.claim(command);
+      ledger.complete(command.command_id, true);
+      ledger.claim(command);
+      ledger.claim({ ...command, command_id: 'cmd_456' });
+
+      const stats = ledger.getStats();
+
+      expect(stats.total).toBe(2);
+      expect(stats.completed).toBe(1);
+      expect(stats.in_flight).toBe(1);
+      expect(stats.duplicates_suppressed).toBe(1);
+    });
+  });
+
+  describe('prune', () => {
+    it('should keep recent entries', () => {
+      ledger.claim(command);
+      ledger.complete(command.command_id, true);
+
+      expect(ledger.prune(7)).toBe(0);
+      expect(ledger.get(command.command_id)).not.toBeNull();
+    });
+  });
+});
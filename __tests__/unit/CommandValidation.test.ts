@@ -0,0 +1,221 @@
+import { validateCommandSafe, isValidCommandId } from '../../src/validation/command.validation';
+
+describe('Command validation', () => {
+  const futureIso = () => new Date(Date.now() + 60000).toISOString();
+
+  describe('command wrapper', () => {
+    it('should accept backend-style command IDs', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd_1234567890',
+        command_type: 'send_message_now',
+        payload: { thread_id: '+15551234567', text: 'Hello' }
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown command types', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd_1',
+        command_type: 'format_disk',
+        payload: {}
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.issues?.[0].field).toBe('command_type');
+    });
+
+    it('should reject command IDs with forbidden characters', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd"; drop',
+        command_type: 'emit_event',
+        payload: { event_type: 'ping' }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.issues?.some(issue => issue.field === 'command_id')).toBe(true);
+    });
+
+    it('should only treat well-formed command IDs as ledger keys', () => {
+      expect(isValidCommandId('cmd_1234567890')).toBe(true);
+      expect(isValidCommandId(undefined)).toBe(false);
+      expect(isValidCommandId('')).toBe(false);
+      expect(isValidCommandId(42)).toBe(false);
+      expect(isValidCommandId('cmd"; drop')).toBe(false);
+    });
+  });
+
+  describe('payload validation', () => {
+    it('should report structured per-field errors', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd_2',
+        command_type: 'schedule_message',
+        payload: { thread_id: 'test-thread', send_at: 'not-a-date' }
+      });
+
+      expect(result.success).toBe(false);
+      const fields = result.issues?.map(issue => issue.field);
+      expect(fields).toContain('payload.message_text');
+      expect(fields).toContain('payload.send_at');
+      expect(result.securityViolation).toBe(false);
+    });
+
+    it('should accept past send_at timestamps', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd_3',
+        command_type: 'schedule_message',
+        payload: {
+          thread_id: 'test-thread',
+          message_text: 'Reminder',
+          send_at: new Date(Date.now() - 1000).toISOString()
+        }
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject send_at more than a year out', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd_4',
+        command_type: 'schedule_message',
+        payload: {
+          thread_id: 'test-thread',
+          message_text: 'Reminder',
+          send_at: new Date(Date.now() + 2 * 365 * 24 * 60 * 60 * 1000).toISOString()
+        }
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should validate set_rule using RuleAction parameters', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd-rule-1',
+        command_type: 'set_rule',
+        payload: {
+          rule_type: 'auto_reply',
+          rule_config: {
+            name: 'Greeting',
+            conditions: [{ field: 'content', operator: 'contains', value: 'hello' }],
+            action: { type: 'reply', parameters: { message: 'Hi!' } }
+          }
+        }
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should validate context_update and context_reset', () => {
+      expect(validateCommandSafe({
+        command_id: 'cmd_5',
+        command_type: 'context_update',
+        payload: { chat_guid: 'iMessage;+;chat123', thread_id: 'chat123', app_id: 'trip_planner' }
+      }).success).toBe(true);
+
+      expect(validateCommandSafe({
+        command_id: 'cmd_6',
+        command_type: 'context_reset',
+        payload: { thread_id: 'chat123' }
+      }).success).toBe(false);
+    });
+
+    it('should validate upload_retry and emit_event', () => {
+      expect(validateCommandSafe({
+        command_id: 'cmd_7',
+        command_type: 'upload_retry',
+        payload: { attachment_guid: 'at_0_ABC-123', retry_count: 1 }
+      }).success).toBe(true);
+
+      expect(validateCommandSafe({
+        command_id: 'cmd_8',
+        command_type: 'emit_event',
+        payload: { event_type: 'room created!' }
+      }).success).toBe(false);
+    });
+
+    it('should require exactly one file source for send_attachment', () => {
+      expect(validateCommandSafe({
+        command_id: 'cmd_13',
+        command_type: 'send_attachment',
+        payload: { thread_id: '+15551234567', url: 'https://cdn.example.com/cat.png', caption: 'cat' }
+      }).success).toBe(true);
+
+      expect(validateCommandSafe({
+        command_id: 'cmd_14',
+        command_type: 'send_attachment',
+        payload: { thread_id: '+15551234567', url: 'http://cdn.example.com/cat.png' }
+      }).success).toBe(false);
+
+      expect(validateCommandSafe({
+        command_id: 'cmd_15',
+        command_type: 'send_attachment',
+        payload: { thread_id: '+15551234567', url: 'https://cdn.example.com/cat.png', data_base64: 'iVBORw0K' }
+      }).success).toBe(false);
+    });
+
+    it('should require a ROWID range or time window for replay_messages', () => {
+      expect(validateCommandSafe({
+        command_id: 'cmd_9',
+        command_type: 'replay_messages',
+        payload: { from_rowid: 100, to_rowid: 200, dry_run: true }
+      }).success).toBe(true);
+
+      expect(validateCommandSafe({
+        command_id: 'cmd_10',
+        command_type: 'replay_messages',
+        payload: { since: '2026-01-01T00:00:00Z', thread_id: '+15551234567' }
+      }).success).toBe(true);
+
+      expect(validateCommandSafe({
+        command_id: 'cmd_11',
+        command_type: 'replay_messages',
+        payload: { thread_id: '+15551234567' }
+      }).success).toBe(false);
+
+      expect(validateCommandSafe({
+        command_id: 'cmd_12',
+        command_type: 'replay_messages',
+        payload: { from_rowid: 200, to_rowid: 100 }
+      }).success).toBe(false);
+    });
+  });
+
+  describe('security violations', () => {
+    it('should flag AppleScript injection in message text', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd_9',
+        command_type: 'send_message_now',
+        payload: { thread_id: '+15551234567', text: 'do shell script "rm -rf ~"' }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.securityViolation).toBe(true);
+      expect(result.issues).toContainEqual({
+        field: 'payload.text',
+        message: 'Message contains forbidden AppleScript commands',
+        code: 'security_violation'
+      });
+    });
+
+    it('should flag forbidden characters in thread IDs', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd_10',
+        command_type: 'schedule_message',
+        payload: { thread_id: 'chat" & quit', message_text: 'Hi', send_at: futureIso() }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.securityViolation).toBe(true);
+    });
+
+    it('should flag injection inside notify_text', () => {
+      const result = validateCommandSafe({
+        command_id: 'cmd_11',
+        command_type: 'context_reset',
+        payload: { chat_guid: 'chat123', thread_id: 'chat123', notify_text: 'tell application "Finder" to quit' }
+      });
+
+      expect(result.securityViolation).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { DeliveryWindowPolicy, getNextAllowedTime } from '../../src/delivery/DeliveryWindowPolicy';
+import { HandleResolver } from '../../src/identity/HandleResolver';
+import { Scheduler } from '../../src/scheduler/Scheduler';
+import { MockLogger } from '../mocks/MockLogger';
+import { MockTransport } from '../mocks/MockTransport';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('getNextAllowedTime', () => {
+  const window = { timezone: 'America/New_York', quiet_start: '22:00', quiet_end: '08:00' };
+
+  it('should leave sends outside quiet hours alone', () => {
+    const at = new Date('2026-03-02T15:00:00Z');  // 10:00 in New York
+    expect(getNextAllowedTime(window, at)).toEqual(at);
+  });
+
+  it('should defer sends inside quiet hours that wrap past midnight', () => {
+    // 03:00 in New York → 08:00 the same morning
+    expect(getNextAllowedTime(window, new Date('2026-03-02T08:00:00Z')).toISOString())
+      .toBe('2026-03-02T13:00:00.000Z');
+    // 23:15 in New York → 08:00 the next morning
+    expect(getNextAllowedTime(window, new Date('2026-03-03T04:15:00Z')).toISOString())
+      .toBe('2026-03-03T13:00:00.000Z');
+  });
+
+  it('should use the recipient timezone, not the server timezone', () => {
+    const at = new Date('2026-03-02T08:00:00Z');  // 03:00 in New York, 17:00 in Tokyo
+    expect(getNextAllowedTime({ ...window, timezone: 'Asia/Tokyo' }, at)).toEqual(at);
+  });
+
+  it('should land on the local end of quiet hours across a DST change', () => {
+    // US clocks spring forward at 02:00 on 2026-03-08; 01:00 EST → 08:00 EDT
+    expect(getNextAllowedTime(window, new Date('2026-03-08T06:00:00Z')).toISOString())
+      .toBe('2026-03-08T12:00:00.000Z');
+  });
+});
+
+describe('DeliveryWindowPolicy', () => {
+  let policy: DeliveryWindowPolicy;
+  let handles: HandleResolver;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = path.join(__dirname, `test-windows-${Date.now()}.db`);
+    mockLogger = new MockLogger();
+    handles = new HandleResolver(testDbPath, mockLogger);
+    policy = new DeliveryWindowPolicy(testDbPath, mockLogger, {
+      enabled: true,
+      defaults: { timezone: 'America/New_York', quiet_start: '22:00', quiet_end: '08:00' },
+      personas: { sage: { quiet_start: '21:00' } },
+      getPersonaId: () => 'luna'
+    }, handles);
+  });
+
+  afterEach(() => {
+    policy.close();
+    handles.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should resolve thread over persona over global', () => {
+    policy = new DeliveryWindowPolicy(testDbPath, mockLogger, {
+      enabled: true,
+      defaults: { timezone: 'America/New_York' },
+      personas: { sage: { quiet_start: '21:00' } },
+      getPersonaId: () => 'sage'
+    }, handles);
+    policy.setThreadWindow('+15551234567', false, { timezone: 'Europe/London' });
+
+    expect(policy.resolve('+15551234567', false)).toEqual({
+      timezone: 'Europe/London',
+      quiet_start: '21:00',
+      quiet_end: '08:00'
+    });
+    expect(policy.resolve('+15559999999', false).timezone).toBe('America/New_York');
+  });
+
+  it('should share a window between all handles of a contact', () => {
+    handles.link('+15551234567', 'alex@example.com');
+    policy.setThreadWindow('alex@example.com', false, { timezone: 'Asia/Tokyo' });
+
+    expect(policy.resolve('(555) 123-4567', false).timezone).toBe('Asia/Tokyo');
+  });
+
+  it('should keep recorded fields when only some are updated', () => {
+    policy.setThreadWindow('+15551234567', false, { timezone: 'Asia/Tokyo' });
+    const stored = policy.setThreadWindow('+15551234567', false, { quiet_end: '09:00' });
+
+    expect(stored).toMatchObject({ timezone: 'Asia/Tokyo', quiet_end: '09:00' });
+    expect(policy.clearThreadWindow('+15551234567', false)).toBe(true);
+    expect(policy.resolve('+15551234567', false).timezone).toBe('America/New_York');
+  });
+
+  it('should never defer when disabled', () => {
+    policy = new DeliveryWindowPolicy(testDbPath, mockLogger, {
+      enabled: false,
+      defaults: { timezone: 'America/New_York', quiet_start: '22:00', quiet_end: '08:00' }
+    });
+
+    expect(policy.getDeferral('+15551234567', false, new Date('2026-03-02T08:00:00Z'))).toBeNull();
+  });
+
+  describe('with the scheduler', () => {
+    let scheduler: Scheduler;
+    let mockTransport: MockTransport;
+    const schedulerDbPath = path.join(__dirname, `test-windows-scheduler-${Date.now()}.db`);
+
+    // Quiet hours around the current time in UTC
+    const hhmm = (date: Date) => date.toISOString().substring(11, 16);
+
+    beforeEach(() => {
+      policy.setThreadWindow('+15551234567', false, {
+        timezone: 'UTC',
+        quiet_start: hhmm(new Date(Date.now() - 60 * 60 * 1000)),
+        quiet_end: hhmm(new Date(Date.now() + 60 * 60 * 1000))
+      });
+      mockTransport = new MockTransport();
+      scheduler = new Scheduler(schedulerDbPath, mockTransport, mockLogger, undefined, policy);
+    });
+
+    afterEach(() => {
+      scheduler.close();
+
+      if (fs.existsSync(schedulerDbPath)) {
+        fs.unlinkSync(schedulerDbPath);
+      }
+    });
+
+    it('should defer a due message to the end of quiet hours', async () => {
+      const scheduleId = scheduler.scheduleMessage('+15551234567', 'Reminder', new Date(Date.now() - 1000), false);
+
+      await scheduler.checkNow();
+
+      const message = scheduler.getMessage(scheduleId)!;
+      expect(mockTransport.sentMessages).toEqual([]);
+      expect(message.status).toBe('pending');
+      expect(message.send_at.getTime()).toBeGreaterThan(Date.now() + 55 * 60 * 1000);
+    });
+
+    it('should send messages that bypass quiet hours', async () => {
+      const scheduleId = scheduler.scheduleMessage('+15551234567', 'Urgent', new Date(Date.now() - 1000), false, 'cmd_1', true);
+
+      await scheduler.checkNow();
+
+      expect(mockTransport.getLastMessage()?.text).toBe('Urgent');
+      expect(scheduler.getMessage(scheduleId)?.status).toBe('sent');
+    });
+  });
+});
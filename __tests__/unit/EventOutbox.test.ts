@@ -0,0 +1,94 @@
+import { EventOutbox } from '../../src/events/EventOutbox';
+import { MockLogger } from '../mocks/MockLogger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('EventOutbox', () => {
+  let outbox: EventOutbox;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+
+  const makeEvent = (id: string) => ({
+    event_id: id,
+    event_type: 'rule_triggered',
+    thread_id: 'test-thread',
+    details: { rule_id: 'rule-1', action_taken: 'replied' }
+  });
+
+  beforeEach(() => {
+    testDbPath = path.join(__dirname, `test-outbox-${Date.now()}.db`);
+    mockLogger = new MockLogger();
+    outbox = new EventOutbox(testDbPath, mockLogger, { maxSize: 3, maxAttempts: 2, baseBackoffMs: 60000 });
+  });
+
+  afterEach(() => {
+    outbox.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should return enqueued events as due', () => {
+    outbox.enqueue(makeEvent('evt_1'));
+    outbox.enqueue(makeEvent('evt_2'));
+
+    const due = outbox.getDueEvents();
+    expect(due.map(event => event.event_id)).toEqual(['evt_1', 'evt_2']);
+    expect(due[0].details).toEqual({ rule_id: 'rule-1', action_taken: 'replied' });
+  });
+
+  it('should persist events across restarts', () => {
+    outbox.enqueue(makeEvent('evt_1'));
+    outbox.close();
+
+    outbox = new EventOutbox(testDbPath, mockLogger);
+    expect(outbox.getStats().pending).toBe(1);
+    expect(outbox.getDueEvents()[0].event_id).toBe('evt_1');
+  });
+
+  it('should remove acknowledged events', () => {
+    outbox.enqueue(makeEvent('evt_1'));
+    outbox.enqueue(makeEvent('evt_2'));
+
+    const removed = outbox.acknowledge(['evt_1', 'evt_unknown']);
+
+    expect(removed).toBe(1);
+    expect(outbox.getDueEvents().map(event => event.event_id)).toEqual(['evt_2']);
+  });
+
+  it('should back off events after a delivery attempt', () => {
+    outbox.enqueue(makeEvent('evt_1'));
+
+    outbox.markAttempted(['evt_1']);
+
+    expect(outbox.getDueEvents().length).toBe(0);
+    expect(outbox.getStats().pending).toBe(1);
+  });
+
+  it('should dead-letter events that exhaust their attempts', () => {
+    outbox.enqueue(makeEvent('evt_1'));
+
+    outbox.markAttempted(['evt_1'], 'timeout');
+    outbox.markAttempted(['evt_1'], 'timeout');
+
+    const stats = outbox.getStats();
+    expect(stats.pending).toBe(0);
+    expect(stats.dead_letter).toBe(1);
+
+    const [deadLetter] = outbox.getDeadLetters();
+    expect(deadLetter.event_id).toBe('evt_1');
+    expect(deadLetter.reason).toBe('max_attempts');
+    expect(deadLetter.last_error).toBe('timeout');
+  });
+
+  it('should dead-letter the oldest events when full', () => {
+    ['evt_1', 'evt_2', 'evt_3', 'evt_4'].forEach(id => outbox.enqueue(makeEvent(id)));
+
+    const stats = outbox.getStats();
+    expect(stats.pending).toBe(3);
+    expect(stats.dead_letter).toBe(1);
+    expect(outbox.getDeadLetters()[0].event_id).toBe('evt_1');
+    expect(outbox.getDeadLetters()[0].reason).toBe('overflow');
+  });
+});
@@ -0,0 +1,183 @@
+import { FailoverTransport, TransportSwitch, FailoverStats } from '../../src/transports/FailoverTransport';
+import { IMessageTransport, IncomingMessage } from '../../src/interfaces/IMessageTransport';
+import { MockLogger } from '../mocks/MockLogger';
+
+class FakeTransport implements IMessageTransport {
+  healthy = true;
+  cursor = 0;
+  stopped = false;
+  inbox: IncomingMessage[] = [];
+
+  start = jest.fn(async () => {
+    if (this.startError) {
+      throw this.startError;
+    }
+  });
+  setCursor = jest.fn((rowId: number) => {
+    this.cursor = rowId;
+  });
+  sendMessage = jest.fn(async () => true);
+  sendAttachment = jest.fn(async () => true);
+  sendMultiBubble = jest.fn(async () => true);
+
+  constructor(private readonly name: string, private readonly startError: Error | null = null) {}
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  isHealthy(): boolean {
+    return this.healthy;
+  }
+
+  getCursor(): number {
+    return this.cursor;
+  }
+
+  async pollNewMessages(): Promise<IncomingMessage[]> {
+    const messages = this.inbox.splice(0, this.inbox.length);
+    messages.forEach(() => this.cursor++);
+    return messages;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+}
+
+function message(text: string): IncomingMessage {
+  return {
+    threadId: '+15551234567',
+    sender: '+15551234567',
+    text,
+    timestamp: new Date(),
+    isGroup: false,
+    participants: ['+15551234567']
+  };
+}
+
+describe('FailoverTransport', () => {
+  let mockLogger: MockLogger;
+  let primaries: FakeTransport[];
+  let fallbacks: FakeTransport[];
+  let primaryErrors: Array<Error | null>;
+  let switches: Array<{ event: TransportSwitch; stats: FailoverStats }>;
+  let transport: FailoverTransport;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockLogger = new MockLogger();
+    primaries = [];
+    fallbacks = [];
+    primaryErrors = [];
+    switches = [];
+
+    transport = new FailoverTransport(
+      () => {
+        const primary = new FakeTransport('NativeBridgeTransport', primaryErrors.shift() ?? null);
+        primaries.push(primary);
+        return primary;
+      },
+      () => {
+        const fallback = new FakeTransport('AppleScriptTransport');
+        fallbacks.push(fallback);
+        return fallback;
+      },
+      mockLogger,
+      { healthCheckIntervalMs: 1000, recoveryIntervalMs: 10000 }
+    );
+    transport.onSwitch((event, stats) => switches.push({ event, stats }));
+  });
+
+  afterEach(() => {
+    transport.stop();
+    jest.useRealTimers();
+  });
+
+  it('should run on the primary while it is healthy', async () => {
+    await transport.start();
+    primaries[0].inbox.push(message('hi'));
+
+    expect((await transport.pollNewMessages()).map(m => m.text)).toEqual(['hi']);
+    await transport.sendMessage('+15551234567', 'hello', false);
+    expect(primaries[0].sendMessage).toHaveBeenCalledWith('+15551234567', 'hello', false);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(fallbacks).toHaveLength(0);
+    expect(transport.getStats()).toMatchObject({ active: 'primary', failovers_total: 0 });
+  });
+
+  it('should start on the fallback when the primary cannot start', async () => {
+    primaryErrors.push(new Error('Native bridge executable not found'));
+    await transport.start();
+
+    expect(primaries[0].stopped).toBe(true);
+    expect(fallbacks).toHaveLength(1);
+    expect(transport.getName()).toBe('FailoverTransport(AppleScriptTransport)');
+    expect(switches[0].event).toMatchObject({
+      direction: 'failover',
+      from: 'NativeBridgeTransport',
+      to: 'AppleScriptTransport',
+      reason: 'start failed: Native bridge executable not found'
+    });
+    expect(switches[0].stats).toMatchObject({ active: 'fallback', failovers_total: 1 });
+  });
+
+  it('should fail over from the primary cursor when the primary dies, keeping what it already read', async () => {
+    await transport.start();
+    primaries[0].cursor = 41;
+    primaries[0].inbox.push(message('read by the helper before it died'));
+    primaries[0].healthy = false;
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(primaries[0].stopped).toBe(true);
+    expect(fallbacks[0].setCursor).toHaveBeenCalledWith(42);
+    expect(fallbacks[0].start).toHaveBeenCalled();
+    expect(switches.map(s => s.event)).toEqual([
+      expect.objectContaining({ direction: 'failover', cursor: 42, reason: 'NativeBridgeTransport is unhealthy' })
+    ]);
+
+    fallbacks[0].inbox.push(message('polled from chat.db'));
+    expect((await transport.pollNewMessages()).map(m => m.text)).toEqual([
+      'read by the helper before it died',
+      'polled from chat.db'
+    ]);
+  });
+
+  it('should switch back once the primary starts again, resuming from the fallback cursor', async () => {
+    primaryErrors.push(new Error('spawn failed'), new Error('spawn failed'));
+    await transport.start();
+    fallbacks[0].cursor = 100;
+
+    // First retry still fails - stay on the fallback without reporting a switch
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(primaries).toHaveLength(2);
+    expect(primaries[1].stopped).toBe(true);
+    expect(fallbacks[0].stopped).toBe(false);
+    expect(switches).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(primaries).toHaveLength(3);
+    expect(primaries[2].setCursor).toHaveBeenCalledWith(100);
+    expect(fallbacks[0].stopped).toBe(true);
+    expect(switches[1].event).toMatchObject({ direction: 'recovery', from: 'AppleScriptTransport', to: 'NativeBridgeTransport', cursor: 100 });
+    expect(switches[1].stats).toMatchObject({ active: 'primary', failovers_total: 1, recoveries_total: 1 });
+
+    await transport.sendMessage('+15551234567', 'back', false);
+    expect(primaries[2].sendMessage).toHaveBeenCalled();
+    expect(fallbacks[0].sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should fail to start when the fallback cannot start either', async () => {
+    primaryErrors.push(new Error('spawn failed'));
+    const failing = new FailoverTransport(
+      () => new FakeTransport('NativeBridgeTransport', primaryErrors.shift() ?? null),
+      () => new FakeTransport('AppleScriptTransport', new Error('Cannot connect to Messages.app')),
+      mockLogger
+    );
+
+    await expect(failing.start()).rejects.toThrow('Cannot connect to Messages.app');
+    failing.stop();
+  });
+});
@@ -0,0 +1,49 @@
+import { GroupRosterTracker } from '../../src/transports/GroupRosterTracker';
+
+describe('GroupRosterTracker', () => {
+  let tracker: GroupRosterTracker;
+
+  beforeEach(() => {
+    tracker = new GroupRosterTracker();
+  });
+
+  it('should only record the first observation of a group', () => {
+    const changes = tracker.observe({ threadId: 'chat1', displayName: 'Book club', participants: ['+1', '+2'] });
+
+    expect(changes).toEqual([]);
+    expect(tracker.getDisplayName('chat1')).toBe('Book club');
+    expect(tracker.size()).toBe(1);
+  });
+
+  it('should report joins and leaves', () => {
+    tracker.observe({ threadId: 'chat1', displayName: null, participants: ['+1', '+2'] });
+
+    const timestamp = new Date('2026-01-01T00:00:00Z');
+    const changes = tracker.observe(
+      { threadId: 'chat1', displayName: null, participants: ['+1', '+3'] },
+      { actor: '+1', timestamp }
+    );
+
+    expect(changes).toEqual([
+      { kind: 'member_added', threadId: 'chat1', handle: '+3', actor: '+1', timestamp },
+      { kind: 'member_removed', threadId: 'chat1', handle: '+2', actor: '+1', timestamp }
+    ]);
+  });
+
+  it('should report renames, including clearing the name', () => {
+    tracker.observe({ threadId: 'chat1', displayName: 'Book club', participants: ['+1'] });
+
+    const [renamed] = tracker.observe({ threadId: 'chat1', displayName: 'Book club 📚', participants: ['+1'] });
+    expect(renamed).toMatchObject({ kind: 'renamed', displayName: 'Book club 📚', previousDisplayName: 'Book club' });
+
+    const [cleared] = tracker.observe({ threadId: 'chat1', displayName: '', participants: ['+1'] });
+    expect(cleared).toMatchObject({ kind: 'renamed', displayName: undefined, previousDisplayName: 'Book club 📚' });
+    expect(tracker.getDisplayName('chat1')).toBeUndefined();
+  });
+
+  it('should report nothing when the roster is unchanged', () => {
+    tracker.observe({ threadId: 'chat1', displayName: 'Book club', participants: ['+1', '+2'] });
+
+    expect(tracker.observe({ threadId: 'chat1', displayName: 'Book club', participants: ['+2', '+1'] })).toEqual([]);
+  });
+});
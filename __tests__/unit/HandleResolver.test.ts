@@ -0,0 +1,98 @@
+import { HandleResolver } from '../../src/identity/HandleResolver';
+import { normalizeHandle, isEmailHandle } from '../../src/identity/handles';
+import { EmailSenderGate } from '../../src/validation/EmailSenderGate';
+import { MockLogger } from '../mocks/MockLogger';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('normalizeHandle', () => {
+  it('should canonicalize phone numbers to E.164', () => {
+    expect(normalizeHandle('+13105551234')).toBe('+13105551234');
+    expect(normalizeHandle('13105551234')).toBe('+13105551234');
+    expect(normalizeHandle('(310) 555-1234')).toBe('+13105551234');
+    expect(normalizeHandle('tel:+1 310-555-1234')).toBe('+13105551234');
+    expect(normalizeHandle('020 7946 0958', 'GB')).toBe('+442079460958');
+    expect(normalizeHandle('0044 20 7946 0958', 'GB')).toBe('+442079460958');
+  });
+
+  it('should lowercase emails and strip handle prefixes', () => {
+    expect(normalizeHandle('e:Foo@Bar.com')).toBe('foo@bar.com');
+    expect(isEmailHandle('e:foo@bar.com')).toBe(true);
+    expect(isEmailHandle('+13105551234')).toBe(false);
+  });
+
+  it('should leave unrecognized handles alone', () => {
+    expect(normalizeHandle('chat123456')).toBe('chat123456');
+    expect(normalizeHandle('12345')).toBe('12345');
+  });
+});
+
+describe('HandleResolver', () => {
+  let resolver: HandleResolver;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+  let chatDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = path.join(__dirname, `test-handles-${Date.now()}.db`);
+    chatDbPath = path.join(__dirname, `test-handles-chat-${Date.now()}.db`);
+    mockLogger = new MockLogger();
+    resolver = new HandleResolver(testDbPath, mockLogger);
+  });
+
+  afterEach(() => {
+    resolver.close();
+
+    for (const file of [testDbPath, chatDbPath]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  });
+
+  it('should treat differently formatted numbers as the same person', () => {
+    expect(resolver.isSamePerson('(310) 555-1234', '+13105551234')).toBe(true);
+    expect(resolver.isSamePerson('+13105551234', '+13105559999')).toBe(false);
+  });
+
+  it('should resolve linked email aliases to the phone number and persist links', () => {
+    resolver.link('+13105551234', 'E:Foo@Bar.com');
+
+    expect(resolver.resolve('foo@bar.com')).toBe('+13105551234');
+    expect(resolver.isEmailOnly('foo@bar.com')).toBe(false);
+    expect(resolver.isEmailOnly('someone@else.com')).toBe(true);
+
+    resolver.close();
+    resolver = new HandleResolver(testDbPath, mockLogger);
+
+    expect(resolver.isSamePerson('foo@bar.com', '310-555-1234')).toBe(true);
+    expect(resolver.listAliases()).toEqual([
+      expect.objectContaining({ handle: '+13105551234', alias: 'foo@bar.com', source: 'manual' })
+    ]);
+  });
+
+  it('should link handles chat.db groups under one person_centric_id', () => {
+    const chatDb = new Database(chatDbPath);
+    chatDb.exec(`
+      CREATE TABLE handle (ROWID INTEGER PRIMARY KEY, id TEXT, person_centric_id TEXT);
+      INSERT INTO handle (ROWID, id, person_centric_id) VALUES
+        (1, 'foo@bar.com', 'PERSON-1'),
+        (2, '+13105551234', 'PERSON-1'),
+        (3, '+13105559999', NULL);
+    `);
+    chatDb.close();
+
+    expect(resolver.loadChatDbLinks(chatDbPath)).toBe(1);
+    expect(resolver.resolve('foo@bar.com')).toBe('+13105551234');
+    expect(resolver.isSamePerson('+13105559999', 'foo@bar.com')).toBe(false);
+  });
+
+  it('should let email senders linked to a phone number past the email gate', () => {
+    const gate = new EmailSenderGate(mockLogger, resolver);
+    resolver.link('+13105551234', 'foo@bar.com');
+
+    expect(gate.check('foo@bar.com', 'luna')).toBeNull();
+    expect(gate.check('stranger@bar.com', 'luna')).not.toBeNull();
+  });
+});
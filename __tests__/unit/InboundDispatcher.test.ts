@@ -0,0 +1,108 @@
+import { InboundDispatcher } from '../../src/pipeline/InboundDispatcher';
+import { IncomingMessage } from '../../src/interfaces/IMessageTransport';
+import { MockLogger } from '../mocks/MockLogger';
+
+describe('InboundDispatcher', () => {
+  let mockLogger: MockLogger;
+
+  const makeMessage = (threadId: string, text: string): IncomingMessage => ({
+    threadId,
+    sender: threadId,
+    text,
+    timestamp: new Date(),
+    isGroup: false,
+    participants: [threadId]
+  });
+
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+  };
+
+  beforeEach(() => {
+    mockLogger = new MockLogger();
+  });
+
+  it('should process messages in the same thread one at a time, in order', async () => {
+    const events: string[] = [];
+    const dispatcher = new InboundDispatcher(mockLogger, async (message) => {
+      events.push(`start ${message.text}`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      events.push(`end ${message.text}`);
+    }, { maxConcurrency: 3, maxQueueDepth: 10, overflowPolicy: 'pause_polling' });
+
+    dispatcher.dispatch([makeMessage('+1', 'a'), makeMessage('+1', 'b')]);
+    await dispatcher.onIdle();
+
+    expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('should run different threads in parallel up to maxConcurrency', async () => {
+    const gate = deferred();
+    const started: string[] = [];
+    const dispatcher = new InboundDispatcher(mockLogger, async (message) => {
+      started.push(message.threadId);
+      await gate.promise;
+    }, { maxConcurrency: 2, maxQueueDepth: 10, overflowPolicy: 'pause_polling' });
+
+    dispatcher.dispatch([makeMessage('+1', 'a'), makeMessage('+2', 'b'), makeMessage('+3', 'c')]);
+
+    expect(started).toEqual(['+1', '+2']);
+    expect(dispatcher.getStats()).toMatchObject({ queued: 1, in_flight: 2 });
+
+    gate.resolve();
+    await dispatcher.onIdle();
+    expect(started).toEqual(['+1', '+2', '+3']);
+  });
+
+  it('should shed the oldest queued message when full', async () => {
+    const gate = deferred();
+    const processed: string[] = [];
+    const dispatcher = new InboundDispatcher(mockLogger, async (message) => {
+      await gate.promise;
+      processed.push(message.text);
+    }, { maxConcurrency: 1, maxQueueDepth: 2, overflowPolicy: 'shed_oldest' });
+
+    dispatcher.dispatch([makeMessage('+1', 'running')]);
+    const shed = dispatcher.dispatch([makeMessage('+2', 'a'), makeMessage('+3', 'b'), makeMessage('+2', 'c')]);
+
+    expect(shed.map(message => message.text)).toEqual(['a']);
+    expect(dispatcher.getStats().shed_total).toBe(1);
+
+    gate.resolve();
+    await dispatcher.onIdle();
+    expect(processed).toEqual(['running', 'b', 'c']);
+  });
+
+  it('should ask polling to pause when full instead of dropping', async () => {
+    const gate = deferred();
+    const dispatcher = new InboundDispatcher(mockLogger, async () => {
+      await gate.promise;
+    }, { maxConcurrency: 1, maxQueueDepth: 2, overflowPolicy: 'pause_polling' });
+
+    const shed = dispatcher.dispatch(['a', 'b', 'c'].map(text => makeMessage('+1', text)));
+
+    expect(shed).toEqual([]);
+    expect(dispatcher.shouldPausePolling()).toBe(true);
+
+    gate.resolve();
+    await dispatcher.onIdle();
+    expect(dispatcher.shouldPausePolling()).toBe(false);
+  });
+
+  it('should keep processing after a handler error', async () => {
+    const processed: string[] = [];
+    const dispatcher = new InboundDispatcher(mockLogger, async (message) => {
+      if (message.text === 'bad') {
+        throw new Error('boom');
+      }
+      processed.push(message.text);
+    }, { maxConcurrency: 1, maxQueueDepth: 10, overflowPolicy: 'pause_polling' });
+
+    dispatcher.dispatch([makeMessage('+1', 'bad'), makeMessage('+1', 'good')]);
+    await dispatcher.onIdle();
+
+    expect(processed).toEqual(['good']);
+  });
+});
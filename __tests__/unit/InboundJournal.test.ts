@@ -0,0 +1,108 @@
+import { InboundJournal } from '../../src/pipeline/InboundJournal';
+import { IncomingMessage } from '../../src/types/message.types';
+import { MockLogger } from '../mocks/MockLogger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('InboundJournal', () => {
+  let journal: InboundJournal;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+
+  const message = (overrides: Partial<IncomingMessage> = {}): IncomingMessage => ({
+    guid: 'GUID-1',
+    threadId: '+15551234567',
+    sender: '+15551234567',
+    text: 'are we still on for tonight?',
+    timestamp: new Date(),
+    isGroup: false,
+    participants: [],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    testDbPath = path.join(__dirname, `test-journal-${Date.now()}.db`);
+    mockLogger = new MockLogger();
+    journal = new InboundJournal(testDbPath, mockLogger);
+  });
+
+  afterEach(() => {
+    journal.close();
+
+    for (const file of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  });
+
+  it('should move an entry through received, forwarded and responded', () => {
+    const id = journal.record(message());
+    expect(journal.get(id)?.status).toBe('received');
+
+    journal.markForwarded([id]);
+    expect(journal.get(id)?.status).toBe('forwarded');
+
+    journal.markResponded([id]);
+    expect(journal.get(id)?.status).toBe('responded');
+    expect(journal.getStats()).toEqual({ received: 0, forwarded: 0, responded: 1, failed: 0 });
+  });
+
+  it('should keep failed entries failed when handling finishes', () => {
+    const id = journal.record(message());
+
+    journal.markFailed([id], 'Backend unavailable');
+    journal.markResponded([id]);
+
+    expect(journal.get(id)).toMatchObject({ status: 'failed', error: 'Backend unavailable' });
+  });
+
+  it('should return the existing entry for a message_guid seen before', () => {
+    const first = journal.record(message());
+    const second = journal.record(message({ text: 'same guid' }));
+
+    expect(second).toBe(first);
+    expect(journal.list()).toHaveLength(1);
+  });
+
+  it('should replay unhandled messages after a restart', () => {
+    const attachmentDate = new Date('2026-01-01T00:00:00Z');
+    const unhandled = journal.record(message({
+      attachments: [{ id: 1, guid: 'ATT-1', createdAt: attachmentDate }]
+    }));
+    const forwarded = journal.record(message({ guid: 'GUID-2' }));
+    const stale = journal.record(message({ guid: 'GUID-3', timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000) }));
+    journal.markForwarded([forwarded]);
+    journal.close();
+
+    journal = new InboundJournal(testDbPath, mockLogger);
+    const replay = journal.recoverInterrupted(60 * 60);
+
+    expect(replay).toHaveLength(1);
+    expect(replay[0]).toMatchObject({ guid: 'GUID-1', journalIds: [unhandled] });
+    expect(replay[0].timestamp).toBeInstanceOf(Date);
+    expect(replay[0].attachments?.[0].createdAt).toEqual(attachmentDate);
+    expect(journal.get(forwarded)).toMatchObject({ status: 'failed', error: 'Interrupted after forwarding to backend' });
+    expect(journal.get(stale)).toMatchObject({ status: 'failed', error: 'Too old to replay' });
+  });
+
+  it('should re-drive a failed entry', () => {
+    const id = journal.record(message());
+    journal.markFailed([id], 'Backend unavailable');
+
+    const redriven = journal.redrive(id);
+
+    expect(redriven).toMatchObject({ text: 'are we still on for tonight?', journalIds: [id] });
+    expect(journal.get(id)).toMatchObject({ status: 'received', error: null, attempts: 1 });
+    expect(journal.redrive('missing')).toBeNull();
+  });
+
+  it('should list entries by status', () => {
+    const failed = journal.record(message({ guid: 'GUID-A' }));
+    journal.record(message({ guid: 'GUID-B' }));
+    journal.markFailed([failed], 'boom');
+
+    expect(journal.list({ status: 'failed' }).map(entry => entry.journal_id)).toEqual([failed]);
+    expect(journal.list({ status: 'failed' })[0].text).toBe('are we still on for tonight?');
+  });
+});
@@ -0,0 +1,53 @@
+import { planReplay, ReplayRules } from '../../src/pipeline/InboundReplay';
+import { IncomingMessage } from '../../src/types/message.types';
+
+describe('InboundReplay', () => {
+  const now = new Date('2026-03-01T12:00:00Z').getTime();
+
+  const message = (overrides: Partial<IncomingMessage> = {}): IncomingMessage => ({
+    guid: 'GUID-1',
+    threadId: '+15551234567',
+    sender: '+15551234567',
+    text: 'did you get my last message?',
+    timestamp: new Date(now - 10 * 60 * 1000),
+    isGroup: false,
+    participants: [],
+    ...overrides
+  });
+
+  const rules: ReplayRules = {
+    isOwnHandle: sender => sender === '+15559999999',
+    maxAgeSeconds: 6 * 60 * 60,
+    isEmailSender: sender => sender.includes('@'),
+    isHandled: candidate => candidate.guid === 'GUID-HANDLED',
+    now
+  };
+
+  it('should replay messages that pass the live checks and summarize the rest', () => {
+    const { toReplay, summary } = planReplay([
+      message(),
+      message({ guid: 'GUID-OWN', sender: '+15559999999' }),
+      message({ guid: 'GUID-OLD', timestamp: new Date(now - 7 * 60 * 60 * 1000) }),
+      message({ guid: 'GUID-EMAIL', sender: 'someone@icloud.com' }),
+      message({ guid: 'GUID-HANDLED' })
+    ], rules, false);
+
+    expect(toReplay.map(candidate => candidate.guid)).toEqual(['GUID-1']);
+    expect(summary).toMatchObject({
+      dry_run: false,
+      matched: 5,
+      replayed: 1,
+      skipped: { stale: 1, own_number: 1, email_sender: 1, already_handled: 1 }
+    });
+    expect(summary.messages.map(entry => entry.action)).toEqual([
+      'replay', 'own_number', 'stale', 'email_sender', 'already_handled'
+    ]);
+  });
+
+  it('should report the same plan for a dry run', () => {
+    const { toReplay, summary } = planReplay([message()], rules, true);
+
+    expect(toReplay).toHaveLength(1);
+    expect(summary).toMatchObject({ dry_run: true, replayed: 1 });
+  });
+});
@@ -0,0 +1,86 @@
+import { MessageCoalescer } from '../../src/pipeline/MessageCoalescer';
+import { IncomingMessage } from '../../src/interfaces/IMessageTransport';
+import { MockLogger } from '../mocks/MockLogger';
+
+describe('MessageCoalescer', () => {
+  let coalescer: MessageCoalescer;
+  let released: IncomingMessage[];
+
+  const makeMessage = (text: string, overrides: Partial<IncomingMessage> = {}): IncomingMessage => ({
+    threadId: '+15551234567',
+    sender: '+15551234567',
+    text,
+    timestamp: new Date(),
+    isGroup: false,
+    participants: ['+15551234567'],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    released = [];
+    coalescer = new MessageCoalescer(
+      new MockLogger(),
+      (message) => released.push(message),
+      { windowMs: 1500, maxWaitMs: 5000, maxMessages: 5 }
+    );
+  });
+
+  afterEach(() => {
+    coalescer.clear();
+    jest.useRealTimers();
+  });
+
+  it('should merge fragments sent within the window', () => {
+    coalescer.add([makeMessage('hey')]);
+    jest.advanceTimersByTime(1000);
+    coalescer.add([makeMessage('so')]);
+    jest.advanceTimersByTime(1000);
+    coalescer.add([makeMessage('question')]);
+
+    expect(released.length).toBe(0);
+    jest.advanceTimersByTime(1500);
+
+    expect(released.length).toBe(1);
+    expect(released[0].text).toBe('hey\nso\nquestion');
+    expect(released[0].coalesced?.map(part => part.text)).toEqual(['hey', 'so', 'question']);
+  });
+
+  it('should cut the window short when a message looks complete', () => {
+    coalescer.add([makeMessage('hey'), makeMessage('are you free tonight?')]);
+
+    expect(released.length).toBe(1);
+    expect(released[0].text).toBe('hey\nare you free tonight?');
+  });
+
+  it('should not hold a batch longer than maxWaitMs', () => {
+    for (let i = 0; i < 4; i++) {
+      coalescer.add([makeMessage(`part ${i}`)]);
+      jest.advanceTimersByTime(1400);
+    }
+
+    expect(released.length).toBe(1);
+    expect(released[0].coalesced?.length).toBe(4);
+  });
+
+  it('should release attachments immediately, after flushing held text', () => {
+    coalescer.add([makeMessage('look')]);
+    coalescer.add([makeMessage('', {
+      attachments: [{ id: 1, guid: 'att-1', isOutgoing: false }] as any
+    })]);
+
+    expect(released.map(message => message.text)).toEqual(['look', '']);
+    expect(released[0].coalesced).toBeUndefined();
+  });
+
+  it('should not merge messages from different senders', () => {
+    coalescer.add([
+      makeMessage('hi', { threadId: 'chat123', sender: '+1' }),
+      makeMessage('yo', { threadId: 'chat123', sender: '+2' })
+    ]);
+
+    expect(released.map(message => message.text)).toEqual(['hi']);
+    jest.advanceTimersByTime(1500);
+    expect(released.map(message => message.text)).toEqual(['hi', 'yo']);
+  });
+});
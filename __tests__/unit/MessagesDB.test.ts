@@ -469,6 +469,227 @@ describe('MessagesDB', () => {
 
       messagesDB.close();
     });
+
+    it('should decode messages that only have an attributedBody', async () => {
+      testDb.exec('ALTER TABLE message ADD COLUMN attributedBody BLOB');
+
+      const chatId = 1;
+      const handleId = 1;
+
+      testDb.prepare('INSERT INTO chat (ROWID, chat_identifier) VALUES (?, ?)').run(chatId, '+15551234567');
+      testDb.prepare('INSERT INTO handle (ROWID, id) VALUES (?, ?)').run(handleId, '+15551234567');
+
+      const messagesDB = new MessagesDB(testDbPath, testAttachmentsDir, mockLogger);
+
+      const blob = Buffer.from(
+        fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'attributed-body', 'plain.hex'), 'utf8').trim(),
+        'hex'
+      );
+      testDb.prepare('INSERT INTO message (ROWID, text, attributedBody, date, is_from_me, handle_id) VALUES (?, ?, ?, ?, ?, ?)').run(
+        10, null, blob, 694224000000000000, 0, handleId
+      );
+      testDb.prepare('INSERT INTO chat_message_join (chat_id, message_id) VALUES (?, ?)').run(chatId, 10);
+
+      const messages = await messagesDB.pollNewMessages();
+
+      expect(messages.length).toBe(1);
+      expect(messages[0].text).toBe('Hello world');
+
+      messagesDB.close();
+    });
+
+    it('should report tapbacks as reactions instead of messages', async () => {
+      testDb.exec(`
+        ALTER TABLE message ADD COLUMN associated_message_type INTEGER DEFAULT 0;
+        ALTER TABLE message ADD COLUMN associated_message_guid TEXT;
+      `);
+
+      const chatId = 1;
+      const handleId = 1;
+
+      testDb.prepare('INSERT INTO chat (ROWID, chat_identifier) VALUES (?, ?)').run(chatId, '+15551234567');
+      testDb.prepare('INSERT INTO handle (ROWID, id) VALUES (?, ?)').run(handleId, '+15551234567');
+
+      const messagesDB = new MessagesDB(testDbPath, testAttachmentsDir, mockLogger);
+
+      const appleDate = 694224000000000000;
+      const insert = testDb.prepare(
+        'INSERT INTO message (ROWID, text, date, is_from_me, handle_id, associated_message_type, associated_message_guid) VALUES (?, ?, ?, ?, ?, ?, ?)'
+      );
+      insert.run(10, 'Loved “see you soon”', appleDate, 0, handleId, 2000, 'p:0/GUID-1');
+      insert.run(11, 'Removed a like from “ok”', appleDate, 0, handleId, 3001, 'bp:GUID-2');
+      insert.run(12, 'Regular message', appleDate, 0, handleId, 0, null);
+      [10, 11, 12].forEach(id => {
+        testDb.prepare('INSERT INTO chat_message_join (chat_id, message_id) VALUES (?, ?)').run(chatId, id);
+      });
+
+      const messages = await messagesDB.pollNewMessages();
+      const reactions = messagesDB.drainReactions();
+
+      expect(messages.map(message => message.text)).toEqual(['Regular message']);
+      expect(reactions).toEqual([
+        expect.objectContaining({ kind: 'love', removed: false, targetMessageGuid: 'GUID-1', targetPartIndex: 0, sender: '+15551234567' }),
+        expect.objectContaining({ kind: 'like', removed: true, targetMessageGuid: 'GUID-2' })
+      ]);
+      expect(messagesDB.drainReactions()).toEqual([]);
+
+      messagesDB.close();
+    });
+
+    it('should detect edits and unsends of polled messages', async () => {
+      testDb.exec(`
+        ALTER TABLE message ADD COLUMN guid TEXT;
+        ALTER TABLE message ADD COLUMN attributedBody BLOB;
+        ALTER TABLE message ADD COLUMN date_edited INTEGER DEFAULT 0;
+        ALTER TABLE message ADD COLUMN date_retracted INTEGER DEFAULT 0;
+      `);
+
+      const chatId = 1;
+      const handleId = 1;
+
+      testDb.prepare('INSERT INTO chat (ROWID, chat_identifier) VALUES (?, ?)').run(chatId, '+15551234567');
+      testDb.prepare('INSERT INTO handle (ROWID, id) VALUES (?, ?)').run(handleId, '+15551234567');
+
+      const messagesDB = new MessagesDB(testDbPath, testAttachmentsDir, mockLogger);
+
+      const appleDate = 694224000000000000;
+      testDb.prepare('INSERT INTO message (ROWID, guid, text, date, is_from_me, handle_id) VALUES (?, ?, ?, ?, ?, ?)').run(
+        10, 'GUID-10', 'Helo world', appleDate, 0, handleId
+      );
+      testDb.prepare('INSERT INTO chat_message_join (chat_id, message_id) VALUES (?, ?)').run(chatId, 10);
+
+      const messages = await messagesDB.pollNewMessages();
+      expect(messages[0].guid).toBe('GUID-10');
+      expect(messagesDB.pollCorrections()).toEqual([]);
+
+      // Edit: the new text lives in attributedBody
+      const edited = Buffer.from(
+        fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'attributed-body', 'plain.hex'), 'utf8').trim(),
+        'hex'
+      );
+      testDb.prepare('UPDATE message SET attributedBody = ?, date_edited = ? WHERE ROWID = 10').run(edited, appleDate + 1000);
+
+      const [edit] = messagesDB.pollCorrections();
+      expect(edit).toMatchObject({ kind: 'edited', messageGuid: 'GUID-10', text: 'Hello world', sender: '+15551234567' });
+      expect(messagesDB.pollCorrections()).toEqual([]);
+
+      testDb.prepare('UPDATE message SET date_retracted = ? WHERE ROWID = 10').run(appleDate + 2000);
+
+      const [unsend] = messagesDB.pollCorrections();
+      expect(unsend).toMatchObject({ kind: 'unsent', messageGuid: 'GUID-10' });
+      expect(messagesDB.pollCorrections()).toEqual([]);
+
+      messagesDB.close();
+    });
+
+    it('should attach the quoted message to inline replies', async () => {
+      testDb.exec(`
+        ALTER TABLE message ADD COLUMN guid TEXT;
+        ALTER TABLE message ADD COLUMN thread_originator_guid TEXT;
+      `);
+
+      const chatId = 1;
+      const handleId = 1;
+
+      testDb.prepare('INSERT INTO chat (ROWID, chat_identifier) VALUES (?, ?)').run(chatId, '+15551234567');
+      testDb.prepare('INSERT INTO handle (ROWID, id) VALUES (?, ?)').run(handleId, '+15551234567');
+
+      // The quoted message was sent by us before polling started
+      const appleDate = 694224000000000000;
+      const insert = testDb.prepare(
+        'INSERT INTO message (ROWID, guid, text, date, is_from_me, handle_id, thread_originator_guid) VALUES (?, ?, ?, ?, ?, ?, ?)'
+      );
+      insert.run(5, 'GUID-5', 'Want to grab dinner Friday?', appleDate, 1, handleId, null);
+
+      const messagesDB = new MessagesDB(testDbPath, testAttachmentsDir, mockLogger);
+
+      insert.run(10, 'GUID-10', 'Yes!', appleDate, 0, handleId, 'GUID-5');
+      insert.run(11, 'GUID-11', 'Also this', appleDate, 0, handleId, 'GUID-MISSING');
+      [10, 11].forEach(id => {
+        testDb.prepare('INSERT INTO chat_message_join (chat_id, message_id) VALUES (?, ?)').run(chatId, id);
+      });
+
+      const messages = await messagesDB.pollNewMessages();
+
+      expect(messages[0].replyTo).toEqual({ guid: 'GUID-5', text: 'Want to grab dinner Friday?' });
+      expect(messages[1].replyTo).toEqual({ guid: 'GUID-MISSING' });
+
+      messagesDB.close();
+    });
+
+    it('should report group renames and member changes instead of system rows', async () => {
+      testDb.exec(`
+        ALTER TABLE message ADD COLUMN item_type INTEGER DEFAULT 0;
+        CREATE TABLE chat_handle_join (chat_id INTEGER, handle_id INTEGER);
+        INSERT INTO chat (ROWID, chat_identifier, display_name) VALUES (1, 'chat123', 'Ski trip');
+        INSERT INTO handle (ROWID, id) VALUES (1, '+15551111111'), (2, '+15552222222'), (3, '+15553333333');
+        INSERT INTO chat_handle_join (chat_id, handle_id) VALUES (1, 1), (1, 2);
+      `);
+
+      const messagesDB = new MessagesDB(testDbPath, testAttachmentsDir, mockLogger);
+
+      // +1555111 adds +1555333 and renames the group
+      testDb.exec(`
+        INSERT INTO chat_handle_join (chat_id, handle_id) VALUES (1, 3);
+        UPDATE chat SET display_name = 'Ski trip 2026' WHERE ROWID = 1;
+      `);
+      const appleDate = 694224000000000000;
+      const insert = testDb.prepare(
+        'INSERT INTO message (ROWID, text, date, is_from_me, handle_id, item_type) VALUES (?, ?, ?, ?, ?, ?)'
+      );
+      insert.run(10, null, appleDate, 0, 1, 1);
+      insert.run(11, 'welcome!', appleDate, 0, 1, 0);
+      [10, 11].forEach(id => {
+        testDb.prepare('INSERT INTO chat_message_join (chat_id, message_id) VALUES (?, ?)').run(1, id);
+      });
+
+      const messages = await messagesDB.pollNewMessages();
+      const changes = messagesDB.drainGroupChanges();
+
+      expect(messages.map(message => message.text)).toEqual(['welcome!']);
+      expect(messages[0].groupName).toBe('Ski trip 2026');
+      expect(changes).toEqual([
+        expect.objectContaining({ kind: 'member_added', threadId: 'chat123', handle: '+15553333333', actor: '+15551111111' }),
+        expect.objectContaining({ kind: 'renamed', displayName: 'Ski trip 2026', previousDisplayName: 'Ski trip' })
+      ]);
+      expect(messagesDB.drainGroupChanges()).toEqual([]);
+
+      messagesDB.close();
+    });
+  });
+
+  describe('readMessages', () => {
+    it('should re-read a ROWID range or time window without moving the poll cursor', async () => {
+      testDb.prepare('INSERT INTO chat (ROWID, chat_identifier) VALUES (?, ?)').run(1, '+15551234567');
+      testDb.prepare('INSERT INTO handle (ROWID, id) VALUES (?, ?)').run(1, '+15551234567');
+
+      const appleDate = 694224000000000000; // 2023-01-01
+      const insert = testDb.prepare('INSERT INTO message (ROWID, text, date, is_from_me, handle_id) VALUES (?, ?, ?, ?, ?)');
+      insert.run(10, 'first', appleDate, 0, 1);
+      insert.run(11, 'from me', appleDate, 1, 1);
+      insert.run(12, 'second', appleDate + 60 * 1000000000, 0, 1);
+      insert.run(13, 'third', appleDate + 120 * 1000000000, 0, 1);
+      [10, 11, 12, 13].forEach(id => {
+        testDb.prepare('INSERT INTO chat_message_join (chat_id, message_id) VALUES (?, ?)').run(1, id);
+      });
+
+      const messagesDB = new MessagesDB(testDbPath, testAttachmentsDir, mockLogger);
+
+      const byRowId = messagesDB.readMessages({ fromRowId: 10, toRowId: 12, limit: 100 });
+      expect(byRowId.map(message => message.text)).toEqual(['first', 'second']);
+
+      const since = new Date(byRowId[1].timestamp.getTime());
+      const byTime = messagesDB.readMessages({ since, limit: 100 });
+      expect(byTime.map(message => message.text)).toEqual(['second', 'third']);
+
+      expect(messagesDB.readMessages({ fromRowId: 10, limit: 1 })).toHaveLength(1);
+      expect(messagesDB.readMessages({ fromRowId: 10, threadId: '+15550000000', limit: 100 })).toEqual([]);
+
+      // Polling still starts after the newest row
+      expect(await messagesDB.pollNewMessages()).toEqual([]);
+
+      messagesDB.close();
+    });
   });
 
   describe('close', () => {
@@ -0,0 +1,151 @@
+import { EventEmitter } from 'events';
+import { NativeHelperSupervisor, NativeHelperAlert, NativeHelperStatus } from '../../src/transports/NativeHelperSupervisor';
+import { NativeBridgeClient } from '../../src/transports/NativeBridgeClient';
+import { MockLogger } from '../mocks/MockLogger';
+
+class FakeBridgeClient extends EventEmitter {
+  start = jest.fn(async () => {});
+  stop = jest.fn();
+
+  crash(code: number = 1): void {
+    this.emit('exit', { code, signal: null });
+  }
+}
+
+/**
+ * Let time pass with the helper heartbeating every 10s
+ */
+async function runHealthy(client: FakeBridgeClient, ms: number): Promise<void> {
+  for (let elapsed = 0; elapsed < ms; elapsed += 10000) {
+    await jest.advanceTimersByTimeAsync(Math.min(10000, ms - elapsed));
+    client.emit('log', { event: 'heartbeat' });
+  }
+}
+
+describe('NativeHelperSupervisor', () => {
+  let client: FakeBridgeClient;
+  let mockLogger: MockLogger;
+  let supervisor: NativeHelperSupervisor;
+  let alerts: NativeHelperAlert[];
+  let statuses: NativeHelperStatus[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    client = new FakeBridgeClient();
+    mockLogger = new MockLogger();
+    alerts = [];
+    statuses = [];
+    supervisor = new NativeHelperSupervisor(client as unknown as NativeBridgeClient, mockLogger, {
+      heartbeatTimeoutMs: 30000,
+      baseBackoffMs: 1000,
+      maxBackoffMs: 60000,
+      maxRestarts: 3,
+      crashLoopWindowMs: 10 * 60 * 1000,
+      onStatusChange: (status) => statuses.push(status)
+    });
+    supervisor.onAlert((alert) => alerts.push(alert));
+  });
+
+  afterEach(() => {
+    supervisor.stop();
+    jest.useRealTimers();
+  });
+
+  it('should restart the helper after it exits, backing off per recent restart', async () => {
+    await supervisor.start();
+    expect(supervisor.getStatus().state).toBe('running');
+
+    client.crash();
+    expect(supervisor.getStatus()).toMatchObject({ state: 'restarting', last_restart_reason: 'exited (code 1, signal null)' });
+    expect(supervisor.isHealthy()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(client.start).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(client.start).toHaveBeenCalledTimes(2);
+    expect(supervisor.getStatus()).toMatchObject({ state: 'running', restarts_total: 1 });
+
+    // Second crash in the window waits twice as long
+    client.crash();
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(client.start).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(client.start).toHaveBeenCalledTimes(3);
+    expect(statuses.map(status => status.state)).toEqual(['starting', 'running', 'restarting', 'running', 'restarting', 'running']);
+  });
+
+  it('should restart a helper that stops sending heartbeats', async () => {
+    await supervisor.start();
+
+    await jest.advanceTimersByTimeAsync(20000);
+    client.emit('log', { event: 'heartbeat', last_row_id: '12' });
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(client.stop).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(client.stop).toHaveBeenCalledTimes(1);
+    expect(supervisor.getStatus()).toMatchObject({ state: 'restarting', last_restart_reason: 'missed heartbeat' });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(client.start).toHaveBeenCalledTimes(2);
+    expect(supervisor.getStatus().state).toBe('running');
+  });
+
+  it('should retry a restart that fails to spawn', async () => {
+    await supervisor.start();
+    client.start.mockRejectedValueOnce(new Error('spawn EACCES'));
+
+    client.crash();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(supervisor.getStatus()).toMatchObject({ state: 'restarting', last_restart_reason: 'failed to restart: spawn EACCES' });
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(client.start).toHaveBeenCalledTimes(3);
+    expect(supervisor.getStatus()).toMatchObject({ state: 'running', restarts_total: 2 });
+  });
+
+  it('should give up and alert when the helper keeps crashing', async () => {
+    await supervisor.start();
+
+    for (let i = 0; i < 3; i++) {
+      client.crash();
+      await runHealthy(client, 60000);
+    }
+    expect(alerts).toHaveLength(0);
+
+    client.crash(9);
+    expect(supervisor.getStatus().state).toBe('crash_loop');
+    expect(supervisor.isHealthy()).toBe(false);
+    expect(alerts).toEqual([expect.objectContaining({
+      kind: 'crash_loop',
+      restarts: 3,
+      last_reason: 'exited (code 9, signal null)'
+    })]);
+
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(client.start).toHaveBeenCalledTimes(4);
+  });
+
+  it('should forget restarts older than the crash-loop window', async () => {
+    await supervisor.start();
+
+    for (let i = 0; i < 3; i++) {
+      client.crash();
+      await runHealthy(client, 5 * 60 * 1000);
+    }
+
+    client.crash();
+    expect(supervisor.getStatus().state).toBe('restarting');
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('should not restart after stop()', async () => {
+    await supervisor.start();
+    client.crash();
+    supervisor.stop();
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(client.start).toHaveBeenCalledTimes(1);
+    expect(supervisor.getStatus().state).toBe('stopped');
+  });
+});
@@ -0,0 +1,53 @@
+import { OutboundAttachmentStager, sniffMimeType } from '../../src/attachments/OutboundAttachmentStager';
+import { MockLogger } from '../mocks/MockLogger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('OutboundAttachmentStager', () => {
+  let stager: OutboundAttachmentStager;
+  let mockLogger: MockLogger;
+  let stagingDir: string;
+
+  const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(64)]);
+
+  beforeEach(() => {
+    stagingDir = path.join(__dirname, `test-outbound-${Date.now()}`);
+    mockLogger = new MockLogger();
+    stager = new OutboundAttachmentStager(mockLogger, { directory: stagingDir, maxBytes: 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  });
+
+  it('should write base64 files to the staging directory using the sniffed type', async () => {
+    const staged = await stager.stageBase64(png.toString('base64'), 'image/jpeg');
+
+    expect(staged.mimeType).toBe('image/png');
+    expect(staged.sizeBytes).toBe(png.length);
+    expect(path.dirname(staged.path)).toBe(stagingDir);
+    expect(fs.readFileSync(staged.path)).toEqual(png);
+  });
+
+  it('should reject oversized and disallowed files', async () => {
+    await expect(stager.stageBuffer(Buffer.alloc(2048, 1))).rejects.toThrow('byte limit');
+    await expect(stager.stageBuffer(Buffer.from('#!/bin/sh\necho hi'), 'text/x-shellscript'))
+      .rejects.toThrow('not allowed');
+    await expect(stager.stageFromUrl('http://example.com/cat.png')).rejects.toThrow('HTTPS');
+  });
+
+  it('should sweep staged files after the retention period', async () => {
+    const staged = await stager.stageBuffer(png);
+
+    expect(stager.cleanup(Date.now())).toBe(0);
+    expect(stager.cleanup(Date.now() + 11 * 60 * 1000)).toBe(1);
+    expect(fs.existsSync(staged.path)).toBe(false);
+  });
+
+  it('should recognize common formats by their magic bytes', () => {
+    expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(sniffMimeType(Buffer.from('%PDF-1.7'))).toBe('application/pdf');
+    expect(sniffMimeType(Buffer.from('\0\0\0\x18ftypheic', 'latin1'))).toBe('image/heic');
+    expect(sniffMimeType(Buffer.from('hello'))).toBeUndefined();
+  });
+});
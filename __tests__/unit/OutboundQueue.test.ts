@@ -0,0 +1,198 @@
+import { OutboundQueue, OutboundItem } from '../../src/delivery/OutboundQueue';
+import { QueuedTransport } from '../../src/transports/QueuedTransport';
+import { OutboundAttachmentStager } from '../../src/attachments/OutboundAttachmentStager';
+import { MockLogger } from '../mocks/MockLogger';
+import { MockTransport } from '../mocks/MockTransport';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('OutboundQueue', () => {
+  let queue: OutboundQueue;
+  let transport: QueuedTransport;
+  let inner: MockTransport;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+  let deadLetters: Array<{ item: OutboundItem; error: string }>;
+
+  // Let delivery promises settle (lanes chain several awaits)
+  const flush = async () => {
+    for (let i = 0; i < 20; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  const createQueue = () => {
+    queue = new OutboundQueue(testDbPath, mockLogger, {
+      maxAttempts: 3,
+      baseBackoffMs: 1000,
+      jitterRatio: 0
+    });
+    queue.onDeadLetter((item, error) => deadLetters.push({ item, error }));
+    transport = new QueuedTransport(inner, queue, mockLogger);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    testDbPath = path.join(__dirname, `test-outbound-${Date.now()}.db`);
+    mockLogger = new MockLogger();
+    inner = new MockTransport();
+    deadLetters = [];
+    createQueue();
+    await transport.start();
+  });
+
+  afterEach(() => {
+    queue.close();
+    jest.useRealTimers();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should deliver queued sends through the wrapped transport in order', async () => {
+    await transport.sendMessage('+15551234567', 'first', false);
+    await transport.sendMultiBubble('+15551234567', ['second', 'third'], false);
+    await flush();
+
+    expect(inner.sentMessages.map(m => m.text)).toEqual(['first', 'second', 'third']);
+    expect(queue.getStats()).toMatchObject({ pending: 0, delivered_total: 3 });
+  });
+
+  it('should retry a failed send before later messages in the same thread', async () => {
+    inner.shouldFail = true;
+    await transport.sendMessage('+15551234567', 'one', false);
+    await transport.sendMessage('+15551234567', 'two', false);
+    await flush();
+
+    expect(inner.sentMessages).toEqual([]);
+    expect(queue.list()[0]).toMatchObject({ attempts: 1, last_error: 'MockTransport failed to send' });
+
+    inner.shouldFail = false;
+    await jest.advanceTimersByTimeAsync(1000);
+    await flush();
+
+    expect(inner.sentMessages.map(m => m.text)).toEqual(['one', 'two']);
+    expect(queue.getStats()).toMatchObject({ pending: 0, retried_total: 1 });
+  });
+
+  it('should not hold up other threads while one is retrying', async () => {
+    const send = inner.sendMessage.bind(inner);
+    jest.spyOn(inner, 'sendMessage').mockImplementation(async (threadId, text, isGroup) =>
+      threadId === '+15550000000' ? false : send(threadId, text, isGroup)
+    );
+
+    await transport.sendMessage('+15550000000', 'stuck', false);
+    await transport.sendMessage('+15551234567', 'fine', false);
+    await flush();
+
+    expect(inner.sentMessages.map(m => m.text)).toEqual(['fine']);
+    expect(queue.getStats().pending).toBe(1);
+  });
+
+  it('should dead-letter a send after max attempts and report it', async () => {
+    inner.shouldFail = true;
+    await transport.sendMessage('+15551234567', 'never arrives', false, { commandId: 'cmd_never' });
+    await flush();
+    await jest.advanceTimersByTimeAsync(1000);   // attempt 2
+    await flush();
+    await jest.advanceTimersByTimeAsync(2000);   // attempt 3
+    await flush();
+
+    expect(queue.getStats()).toMatchObject({ pending: 0, dead_letter: 1 });
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0].item).toMatchObject({ thread_id: '+15551234567', attempts: 3 });
+    expect(deadLetters[0].item.payload.text).toBe('never arrives');
+    expect(deadLetters[0].item.command_id).toBe('cmd_never');
+    expect(queue.getDeadLetters()[0]).toMatchObject({ last_error: 'MockTransport failed to send', command_id: 'cmd_never' });
+  });
+
+  it('should dead-letter permanent failures without retrying', async () => {
+    jest.spyOn(inner, 'sendMessage').mockRejectedValue(new Error('Message exceeds 5000 character limit'));
+
+    await transport.sendMessage('+15551234567', 'x'.repeat(6000), false);
+    await flush();
+
+    expect(inner.sendMessage).toHaveBeenCalledTimes(1);
+    expect(queue.getStats().dead_letter).toBe(1);
+    expect(deadLetters[0].item.attempts).toBe(1);
+  });
+
+  it('should resume multi-bubble sends at the bubble that failed', async () => {
+    const send = inner.sendMessage.bind(inner);
+    let calls = 0;
+    jest.spyOn(inner, 'sendMessage').mockImplementation(async (threadId, text, isGroup) =>
+      ++calls === 2 ? false : send(threadId, text, isGroup)
+    );
+
+    await transport.sendMultiBubble('+15551234567', ['one', 'two', 'three'], false);
+    await flush();
+    expect(inner.sentMessages.map(m => m.text)).toEqual(['one']);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await flush();
+
+    expect(inner.sentMessages.map(m => m.text)).toEqual(['one', 'two', 'three']);
+    expect(queue.getStats()).toMatchObject({ pending: 0, retried_total: 1 });
+  });
+
+  it('should retry a failed caption without re-sending its attachment', async () => {
+    const filePath = path.join(__dirname, `test-outbound-attachment-${Date.now()}.png`);
+    fs.writeFileSync(filePath, 'png bytes');
+    jest.spyOn(inner, 'sendMessage').mockResolvedValueOnce(false);
+
+    try {
+      await transport.sendAttachment('+15551234567', filePath, false, 'the topo');
+      await flush();
+      await jest.advanceTimersByTimeAsync(1000);
+      await flush();
+
+      expect(inner.sentAttachments).toEqual([{ threadId: '+15551234567', file: filePath, isGroup: false, caption: undefined }]);
+      expect(inner.sendMessage).toHaveBeenCalledTimes(2);
+      expect(inner.sentMessages.map(m => m.text)).toEqual(['the topo']);
+    } finally {
+      fs.rmSync(filePath, { force: true });
+    }
+  });
+
+  it('should keep staged files that are still queued when sweeping', async () => {
+    const stagingDir = path.join(__dirname, `test-outbound-staging-${Date.now()}`);
+    const stager = new OutboundAttachmentStager(mockLogger, {
+      directory: stagingDir,
+      isQueued: (filePath) => queue.hasPendingAttachment(filePath)
+    });
+    const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(64)]);
+    transport = new QueuedTransport(inner, queue, mockLogger, stager);
+
+    try {
+      inner.shouldFail = true;
+      await transport.sendAttachment('+15551234567', png, false);
+      await flush();
+      const [queued] = queue.list();
+
+      const afterRetention = Date.now() + 11 * 60 * 1000;
+      expect(stager.cleanup(afterRetention)).toBe(0);
+      expect(fs.existsSync(queued.payload.file_path!)).toBe(true);
+
+      inner.shouldFail = false;
+      await jest.advanceTimersByTimeAsync(1000);
+      await flush();
+      expect(inner.sentAttachments).toHaveLength(1);
+      expect(stager.cleanup(afterRetention)).toBe(1);
+    } finally {
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should deliver sends queued before a restart', async () => {
+    transport.stop();
+    await transport.sendMessage('+15551234567', 'queued while down', false);
+    queue.close();
+
+    createQueue();
+    await transport.start();
+    await flush();
+
+    expect(inner.sentMessages.map(m => m.text)).toEqual(['queued while down']);
+  });
+});
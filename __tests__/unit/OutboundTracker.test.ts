@@ -0,0 +1,103 @@
+import { OutboundTracker } from '../../src/transports/OutboundTracker';
+import { MockLogger } from '../mocks/MockLogger';
+import Database from 'better-sqlite3';
+
+describe('OutboundTracker', () => {
+  const appleDate = 694224000000000000;
+  let db: Database.Database;
+  let mockLogger: MockLogger;
+
+  const insertSent = (rowId: number, guid: string, text: string, chatId: number = 1) => {
+    db.prepare('INSERT INTO message (ROWID, guid, text, date, is_from_me) VALUES (?, ?, ?, ?, 1)').run(rowId, guid, text, appleDate);
+    db.prepare('INSERT INTO chat_message_join (chat_id, message_id) VALUES (?, ?)').run(chatId, rowId);
+  };
+
+  beforeEach(() => {
+    mockLogger = new MockLogger();
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE message (
+        ROWID INTEGER PRIMARY KEY,
+        guid TEXT,
+        text TEXT,
+        attributedBody BLOB,
+        date INTEGER,
+        is_from_me INTEGER DEFAULT 0,
+        is_delivered INTEGER DEFAULT 0,
+        is_read INTEGER DEFAULT 0,
+        date_delivered INTEGER DEFAULT 0,
+        date_read INTEGER DEFAULT 0,
+        error INTEGER DEFAULT 0
+      );
+      CREATE TABLE chat (ROWID INTEGER PRIMARY KEY, chat_identifier TEXT);
+      CREATE TABLE chat_message_join (chat_id INTEGER, message_id INTEGER);
+      INSERT INTO chat (ROWID, chat_identifier) VALUES (1, '+15551234567'), (2, 'chat123');
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should require the receipt columns', () => {
+    expect(OutboundTracker.isSupported(new Set(['guid', 'attributedBody', 'is_delivered', 'is_read', 'date_delivered', 'date_read', 'error']))).toBe(true);
+    expect(OutboundTracker.isSupported(new Set(['guid', 'is_delivered']))).toBe(false);
+  });
+
+  it('should report delivered then read for a matched send', () => {
+    const tracker = new OutboundTracker(db, mockLogger);
+
+    tracker.expect('+15551234567', 'See you at 7 ');
+    insertSent(10, 'GUID-10', 'See you at 7');
+    expect(tracker.poll()).toEqual([]);
+    expect(tracker.getStats()).toEqual({ awaiting_match: 0, tracked: 1 });
+
+    db.prepare('UPDATE message SET is_delivered = 1, date_delivered = ? WHERE ROWID = 10').run(appleDate + 1000000000);
+    const [delivered] = tracker.poll();
+    expect(delivered).toMatchObject({ status: 'delivered', messageGuid: 'GUID-10', threadId: '+15551234567', text: 'See you at 7' });
+    expect(tracker.poll()).toEqual([]);
+
+    db.prepare('UPDATE message SET is_read = 1, date_read = ? WHERE ROWID = 10').run(appleDate + 2000000000);
+    const [read] = tracker.poll();
+    expect(read).toMatchObject({ status: 'read', messageGuid: 'GUID-10' });
+    expect(read.timestamp.getTime() - read.sentAt.getTime()).toBe(2000);
+    expect(tracker.getStats().tracked).toBe(0);
+  });
+
+  it('should report failures with the error code', () => {
+    const tracker = new OutboundTracker(db, mockLogger);
+
+    tracker.expect('chat123', 'hello group');
+    insertSent(10, 'GUID-10', 'hello group', 2);
+    tracker.poll();
+
+    db.prepare('UPDATE message SET error = 22 WHERE ROWID = 10').run();
+    expect(tracker.poll()).toEqual([
+      expect.objectContaining({ status: 'failed', messageGuid: 'GUID-10', errorCode: 22 })
+    ]);
+    expect(tracker.poll()).toEqual([]);
+  });
+
+  it('should ignore sent rows that do not match an expected send', () => {
+    insertSent(5, 'GUID-OLD', 'before the tracker started');
+    const tracker = new OutboundTracker(db, mockLogger);
+
+    tracker.expect('+15551234567', 'from the agent');
+    insertSent(10, 'GUID-10', 'typed by hand');
+    insertSent(11, 'GUID-11', 'from the agent', 2);  // Same text, different chat
+    db.prepare('UPDATE message SET is_delivered = 1').run();
+
+    expect(tracker.poll()).toEqual([]);
+    expect(tracker.getStats()).toEqual({ awaiting_match: 1, tracked: 0 });
+  });
+
+  it('should give up on sends that never reach chat.db', () => {
+    const tracker = new OutboundTracker(db, mockLogger, { matchWindowMs: -1 });
+
+    tracker.expect('+15551234567', 'lost');
+    tracker.poll();
+
+    expect(tracker.getStats().awaiting_match).toBe(0);
+    expect(mockLogger.warnMessages.some(msg => msg.includes('never appeared in chat.db'))).toBe(true);
+  });
+});
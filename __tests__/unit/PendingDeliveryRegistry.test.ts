@@ -0,0 +1,90 @@
+import { PendingDeliveryRegistry, PendingDelivery } from '../../src/delivery/PendingDeliveryRegistry';
+import { MockLogger } from '../mocks/MockLogger';
+
+describe('PendingDeliveryRegistry', () => {
+  let registry: PendingDeliveryRegistry;
+  let mockLogger: MockLogger;
+  let delivered: PendingDelivery[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockLogger = new MockLogger();
+    delivered = [];
+    registry = new PendingDeliveryRegistry(mockLogger, async (delivery) => {
+      delivered.push(delivery);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    registry.drain();
+    jest.useRealTimers();
+  });
+
+  it('should deliver a burst after its delay', async () => {
+    registry.schedule('+15551234567', false, ['one', 'two'], 2000, 'cancel');
+
+    jest.advanceTimersByTime(1999);
+    expect(delivered.length).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(delivered.length).toBe(1);
+    expect(delivered[0].messages).toEqual(['one', 'two']);
+    expect(registry.size()).toBe(0);
+  });
+
+  it('should cancel a burst when the user keeps talking', async () => {
+    registry.schedule('+15551234567', false, ['stale'], 2000, 'cancel');
+    registry.schedule('+15559999999', false, ['other thread'], 2000, 'cancel');
+
+    const cancelled = registry.onInboundMessage('+15551234567');
+
+    expect(cancelled.length).toBe(1);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(delivered.map(d => d.thread_id)).toEqual(['+15559999999']);
+  });
+
+  it('should drop interrupted supersede bursts only when a newer reply is sent', async () => {
+    registry.schedule('+15551234567', false, ['stale'], 2000, 'supersede');
+
+    registry.onInboundMessage('+15551234567');
+    expect(registry.list()[0].interrupted).toBe(true);
+
+    registry.supersede('+15551234567');
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(delivered.length).toBe(0);
+  });
+
+  it('should still send an interrupted supersede burst if no reply replaces it', async () => {
+    registry.schedule('+15551234567', false, ['still relevant'], 2000, 'supersede');
+
+    registry.onInboundMessage('+15551234567');
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(delivered.length).toBe(1);
+  });
+
+  it('should ignore inbound messages for the none policy', async () => {
+    registry.schedule('+15551234567', false, ['always'], 2000, 'none');
+
+    registry.onInboundMessage('+15551234567');
+    registry.supersede('+15551234567');
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(delivered.length).toBe(1);
+  });
+
+  it('should cancel by ID and drain the rest', async () => {
+    const first = registry.schedule('+15551234567', false, ['a'], 2000, 'none');
+    registry.schedule('+15551234567', false, ['b'], 3000, 'none');
+
+    expect(registry.cancel(first.id)).toBe(true);
+    expect(registry.cancel('missing')).toBe(false);
+
+    const drained = registry.drain();
+    expect(drained.map(d => d.messages[0])).toEqual(['b']);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(delivered.length).toBe(0);
+  });
+});
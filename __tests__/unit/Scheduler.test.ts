@@ -258,6 +258,20 @@ describe('Scheduler', () => {
       });
     });
 
+    it('should send a deferred reply in-thread', async () => {
+      const replies: Array<{ threadId: string; text: string; replyToGuid: string }> = [];
+      (mockTransport as any).sendReply = async (threadId: string, text: string, _isGroup: boolean, replyToGuid: string) => {
+        replies.push({ threadId, text, replyToGuid });
+        return true;
+      };
+
+      scheduler.scheduleMessage('test-thread', 'Friday works!', new Date(Date.now() - 1000), false, undefined, false, 'GUID-5');
+      await scheduler.checkNow();
+
+      expect(replies).toEqual([{ threadId: 'test-thread', text: 'Friday works!', replyToGuid: 'GUID-5' }]);
+      expect(mockTransport.sentMessages).toEqual([]);
+    });
+
     it('should not send future messages', () => {
       // Schedule message 60 seconds in the future
       scheduler.scheduleMessage(
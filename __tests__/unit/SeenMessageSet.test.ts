@@ -0,0 +1,51 @@
+import { SeenMessageSet } from '../../src/pipeline/SeenMessageSet';
+import { MockLogger } from '../mocks/MockLogger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('SeenMessageSet', () => {
+  let seen: SeenMessageSet;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = path.join(__dirname, `test-seen-${Date.now()}.db`);
+    mockLogger = new MockLogger();
+    seen = new SeenMessageSet(testDbPath, mockLogger, { cacheSize: 2 });
+  });
+
+  afterEach(() => {
+    seen.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should flag a GUID the second time it is seen', () => {
+    expect(seen.checkAndMark('GUID-1', '+15551234567')).toBe(false);
+    expect(seen.checkAndMark('GUID-1', '+15551234567')).toBe(true);
+    expect(seen.getStats()).toEqual({ tracked: 1, suppressed_total: 1 });
+  });
+
+  it('should remember GUIDs evicted from the in-memory cache and across restarts', () => {
+    ['GUID-1', 'GUID-2', 'GUID-3'].forEach(guid => seen.checkAndMark(guid, 'chat123'));
+    expect(seen.checkAndMark('GUID-1', 'chat123')).toBe(true);
+
+    seen.close();
+    seen = new SeenMessageSet(testDbPath, mockLogger);
+
+    expect(seen.checkAndMark('GUID-2', 'chat123')).toBe(true);
+    expect(seen.checkAndMark('GUID-4', 'chat123')).toBe(false);
+  });
+
+  it('should keep only the newest maxEntries GUIDs', () => {
+    seen.close();
+    seen = new SeenMessageSet(testDbPath, mockLogger, { maxEntries: 2, cacheSize: 1 });
+    ['GUID-1', 'GUID-2', 'GUID-3'].forEach(guid => seen.checkAndMark(guid, 'chat123'));
+
+    expect(seen.prune()).toBe(1);
+    expect(seen.getStats().tracked).toBe(2);
+    expect(seen.checkAndMark('GUID-1', 'chat123')).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import WebSocket from 'ws';
+import { SimulatorTransport } from '../../src/transports/SimulatorTransport';
+import { validateConfig } from '../../src/config';
+import { Config } from '../../src/types/config.types';
+import { MockLogger } from '../mocks/MockLogger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('SimulatorTransport', () => {
+  let transport: SimulatorTransport;
+  let testDbPath: string;
+  let attachmentsPath: string;
+  let baseUrl: string;
+
+  const post = (route: string, body: any) => fetch(`${baseUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  beforeEach(async () => {
+    testDbPath = path.join(__dirname, `test-simulator-${Date.now()}.db`);
+    attachmentsPath = path.join(__dirname, `test-simulator-attachments-${Date.now()}`);
+    transport = new SimulatorTransport(testDbPath, new MockLogger(), { port: 0, attachmentsPath });
+    await transport.start();
+    baseUrl = transport.getAddress();
+  });
+
+  afterEach(() => {
+    transport.stop();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    fs.rmSync(attachmentsPath, { recursive: true, force: true });
+  });
+
+  it('should deliver injected messages on the next poll', async () => {
+    const response = await post('/messages', { sender: '+15551234567', text: 'hey there' });
+    const { guid, thread_id } = await response.json() as any;
+
+    expect(response.status).toBe(201);
+    expect(thread_id).toBe('+15551234567');
+
+    const messages = await transport.pollNewMessages();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ guid, threadId: '+15551234567', sender: '+15551234567', text: 'hey there', isGroup: false });
+    expect(await transport.pollNewMessages()).toEqual([]);
+  });
+
+  it('should write injected attachments to disk', async () => {
+    await post('/attachments', {
+      sender: '+15551234567',
+      thread_id: 'chat123',
+      participants: ['+15559876543'],
+      filename: 'photo.png',
+      data_base64: Buffer.from('not really a png').toString('base64')
+    });
+
+    const [message] = await transport.pollNewMessages();
+    expect(message).toMatchObject({ isGroup: true, participants: ['+15551234567', '+15559876543'] });
+    expect(message.attachments![0]).toMatchObject({ filename: 'photo.png', mimeType: 'image/png' });
+    expect(fs.readFileSync(message.attachments![0].absolutePath!, 'utf8')).toBe('not really a png');
+  });
+
+  it('should reject invalid injections', async () => {
+    const response = await post('/reactions', { sender: '+15551234567', target_guid: 'x', kind: 'hug' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json() as any).error).toContain('kind');
+  });
+
+  it('should record sends and let tapbacks target them', async () => {
+    await transport.sendMultiBubble('+15551234567', ['hi', 'how are you?'], false);
+
+    const { sends } = await (await fetch(`${baseUrl}/sends?thread_id=%2B15551234567`)).json() as any;
+    expect(sends).toHaveLength(1);
+    expect(sends[0]).toMatchObject({ kind: 'bubbles', bubbles: ['hi', 'how are you?'] });
+
+    await post('/reactions', { sender: '+15551234567', target_guid: sends[0].guid, kind: 'love' });
+    const [reaction] = await transport.pollReactions();
+    expect(reaction).toMatchObject({ threadId: '+15551234567', targetMessageGuid: sends[0].guid, kind: 'love', removed: false });
+  });
+
+  it('should push sends to WebSocket clients and accept injections from them', async () => {
+    const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/ws`);
+    const frames: any[] = [];
+    socket.on('message', (data) => frames.push(JSON.parse(data.toString())));
+    await new Promise(resolve => socket.once('open', resolve));
+
+    socket.send(JSON.stringify({ type: 'message', sender: '+15551234567', text: 'over the socket' }));
+    await transport.sendMessage('+15551234567', 'got it', false);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    socket.close();
+
+    expect(frames).toContainEqual(expect.objectContaining({ type: 'injected', thread_id: '+15551234567' }));
+    expect(frames).toContainEqual(expect.objectContaining({ type: 'sent', send: expect.objectContaining({ text: 'got it' }) }));
+    expect((await transport.pollNewMessages())[0].text).toBe('over the socket');
+  });
+});
+
+describe('validateConfig in simulator mode', () => {
+  const configFor = (transportMode: string) => ({
+    imessage: { db_path: '/nonexistent/Library/Messages/chat.db', transport_mode: transportMode }
+  }) as unknown as Config;
+
+  it('should not require a Messages database', () => {
+    expect(() => validateConfig(configFor('simulator'))).not.toThrow();
+  });
+
+  it('should still require one for Messages.app transports', () => {
+    expect(() => validateConfig(configFor('native_helper'))).toThrow('Messages database not found');
+  });
+});
@@ -0,0 +1,189 @@
+import { SyntheticChatDb, MACOS_VERSIONS } from '../../src/simulator/SyntheticChatDb';
+import { SyntheticChatDbSender } from '../../src/simulator/SyntheticChatDbSender';
+import { ChatDbScriptPlayer } from '../../src/simulator/ChatDbScript';
+import { MessagesDB } from '../../src/transports/MessagesDB';
+import { AppleScriptTransport } from '../../src/transports/AppleScriptTransport';
+import { MockLogger } from '../mocks/MockLogger';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe.each(MACOS_VERSIONS)('MessagesDB on a synthetic %s chat.db', (macosVersion) => {
+  let chatDb: SyntheticChatDb;
+  let messagesDB: MessagesDB;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+  let attachmentsPath: string;
+
+  beforeEach(() => {
+    testDbPath = path.join(__dirname, `test-chatdb-${macosVersion}-${Date.now()}.db`);
+    attachmentsPath = path.join(__dirname, `test-chatdb-attachments-${Date.now()}`);
+    mockLogger = new MockLogger();
+    chatDb = new SyntheticChatDb(testDbPath, { macosVersion, attachmentsPath });
+    chatDb.ensureChat('chat100', { displayName: 'Climbing', participants: ['+15551111111', '+15552222222'] });
+    messagesDB = new MessagesDB(testDbPath, attachmentsPath, mockLogger);
+  });
+
+  afterEach(() => {
+    messagesDB.close();
+    chatDb.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    fs.rmSync(attachmentsPath, { recursive: true, force: true });
+  });
+
+  it('should poll 1:1 and group messages through the real joins', async () => {
+    chatDb.insertMessage({ thread_id: '+15553333333', text: 'hey 👋' });
+    chatDb.insertMessage({ thread_id: 'chat100', sender: '+15551111111', text: 'who is in for saturday?' });
+    chatDb.insertMessage({ thread_id: 'chat100', text: 'not me', from_me: true });
+
+    const messages = await messagesDB.pollNewMessages();
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toMatchObject({ threadId: '+15553333333', sender: '+15553333333', text: 'hey 👋', isGroup: false });
+    expect(messages[1]).toMatchObject({
+      threadId: 'chat100',
+      sender: '+15551111111',
+      text: 'who is in for saturday?',
+      isGroup: true,
+      groupName: 'Climbing',
+      participants: ['+15551111111', '+15552222222']
+    });
+  });
+
+  it('should resolve attachments and inline replies', async () => {
+    const original = chatDb.insertMessage({ thread_id: '+15553333333', text: 'send me the topo' });
+    chatDb.insertMessage({
+      thread_id: '+15553333333',
+      reply_to_guid: original.guid,
+      attachments: [{ filename: 'topo.png', data: Buffer.from('png bytes') }]
+    });
+
+    const [, reply] = await messagesDB.pollNewMessages();
+
+    expect(reply.replyTo).toEqual({ guid: original.guid, text: 'send me the topo' });
+    expect(reply.attachments).toHaveLength(1);
+    expect(reply.attachments![0]).toMatchObject({ transferName: 'topo.png', mimeType: 'image/png', uti: 'public.png' });
+    expect(fs.readFileSync(reply.attachments![0].absolutePath!, 'utf8')).toBe('png bytes');
+  });
+
+  it('should report tapbacks separately from messages', async () => {
+    const target = chatDb.insertMessage({ thread_id: 'chat100', text: 'see you there', from_me: true });
+    chatDb.insertReaction({ thread_id: 'chat100', sender: '+15552222222', target_guid: target.guid, kind: 'love' });
+
+    expect(await messagesDB.pollNewMessages()).toEqual([]);
+    expect(messagesDB.drainReactions()).toEqual([
+      expect.objectContaining({ threadId: 'chat100', sender: '+15552222222', targetMessageGuid: target.guid, kind: 'love', removed: false })
+    ]);
+  });
+
+  it('should only allow emoji tapbacks from Sequoia on', async () => {
+    const target = chatDb.insertMessage({ thread_id: '+15553333333', text: 'done', from_me: true });
+    const react = () => chatDb.insertReaction({ thread_id: '+15553333333', target_guid: target.guid, kind: 'emoji', emoji: '🔥' });
+
+    if (macosVersion !== 'sequoia') {
+      expect(react).toThrow('Emoji tapbacks need macOS Sequoia');
+      return;
+    }
+
+    react();
+    await messagesDB.pollNewMessages();
+    expect(messagesDB.drainReactions()[0]).toMatchObject({ kind: 'emoji', emoji: '🔥' });
+  });
+
+  it('should report group renames, joins and leaves', async () => {
+    chatDb.renameGroup('chat100', 'Climbing crew', '+15551111111');
+    chatDb.addMember('chat100', '+15554444444', '+15551111111');
+    chatDb.removeMember('chat100', '+15552222222', '+15552222222');
+
+    await messagesDB.pollNewMessages();
+    const changes = messagesDB.drainGroupChanges();
+
+    expect(changes).toContainEqual(expect.objectContaining({ kind: 'renamed', displayName: 'Climbing crew', previousDisplayName: 'Climbing' }));
+    expect(changes).toContainEqual(expect.objectContaining({ kind: 'member_added', handle: '+15554444444' }));
+    expect(changes).toContainEqual(expect.objectContaining({ kind: 'member_removed', handle: '+15552222222' }));
+  });
+
+  it('should report edits and unsends of polled messages', async () => {
+    const edited = chatDb.insertMessage({ thread_id: '+15553333333', text: 'meet at 6' });
+    const unsent = chatDb.insertMessage({ thread_id: '+15553333333', text: 'oops' });
+    await messagesDB.pollNewMessages();
+
+    chatDb.editMessage(edited.guid, 'meet at 7');
+    chatDb.unsendMessage(unsent.guid);
+
+    expect(messagesDB.pollCorrections()).toEqual([
+      expect.objectContaining({ kind: 'edited', messageGuid: edited.guid, text: 'meet at 7' }),
+      expect.objectContaining({ kind: 'unsent', messageGuid: unsent.guid })
+    ]);
+  });
+
+  it('should re-read history by thread without moving the cursor', async () => {
+    chatDb.insertMessage({ thread_id: '+15553333333', text: 'one' });
+    chatDb.insertMessage({ thread_id: 'chat100', sender: '+15551111111', text: 'two' });
+    await messagesDB.pollNewMessages();
+
+    const history = messagesDB.readMessages({ threadId: 'chat100', limit: 10 });
+
+    expect(history.map(message => message.text)).toEqual(['two']);
+  });
+});
+
+describe('AppleScriptTransport on a synthetic chat.db', () => {
+  let chatDb: SyntheticChatDb;
+  let transport: AppleScriptTransport;
+  let mockLogger: MockLogger;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = path.join(__dirname, `test-chatdb-transport-${Date.now()}.db`);
+    mockLogger = new MockLogger();
+    chatDb = new SyntheticChatDb(testDbPath);
+    transport = new AppleScriptTransport(testDbPath, __dirname, mockLogger, new SyntheticChatDbSender(chatDb, mockLogger));
+    await transport.start();
+  });
+
+  afterEach(() => {
+    transport.stop();
+    chatDb.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should write sends to chat.db and report their receipts', async () => {
+    await transport.sendMessage('+15553333333', 'on my way', false);
+    expect(await transport.pollReceipts()).toEqual([
+      expect.objectContaining({ status: 'delivered', threadId: '+15553333333', text: 'on my way' })
+    ]);
+
+    const player = new ChatDbScriptPlayer(chatDb, mockLogger);
+    player.apply({ type: 'read', thread_id: '+15553333333', text: 'on my way' });
+
+    expect(await transport.pollReceipts()).toEqual([expect.objectContaining({ status: 'read' })]);
+  });
+
+  it('should play scripted events at their offsets', async () => {
+    jest.useFakeTimers();
+    try {
+      const player = new ChatDbScriptPlayer(chatDb, mockLogger);
+      const done = player.play([
+        { type: 'message', at_ms: 0, thread_id: '+15553333333', guid: 'MSG-1', text: 'first' },
+        { type: 'edit', at_ms: 5000, guid: 'MSG-1', text: 'first (edited)' },
+        { type: 'edit', at_ms: 6000, guid: 'NO-SUCH-GUID', text: 'ignored' }
+      ]);
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect((await transport.pollNewMessages()).map(message => message.text)).toEqual(['first']);
+
+      await jest.advanceTimersByTimeAsync(6000);
+      await done;
+      expect(await transport.pollCorrections()).toEqual([expect.objectContaining({ kind: 'edited', text: 'first (edited)' })]);
+      expect(mockLogger.errorMessages.some(msg => msg.includes('No message with guid NO-SUCH-GUID'))).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
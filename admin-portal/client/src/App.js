@@ -5,6 +5,7 @@ import Dashboard from './pages/Dashboard';
 import Logs from './pages/Logs';
 import Config from './pages/Config';
 import Scheduled from './pages/Scheduled';
+import Inbound from './pages/Inbound';
 import Rules from './pages/Rules';
 import Plans from './pages/Plans';
 import TestTools from './pages/TestTools';
@@ -47,6 +48,13 @@ function App() {
             >
               Scheduled
             </Link>
+            <Link
+              to="/inbound"
+              className={activeTab === 'inbound' ? 'active' : ''}
+              onClick={() => setActiveTab('inbound')}
+            >
+              Inbound
+            </Link>
             <Link
               to="/rules"
               className={activeTab === 'rules' ? 'active' : ''}
@@ -84,6 +92,7 @@ function App() {
             <Route path="/logs" element={<Logs />} />
             <Route path="/config" element={<Config />} />
             <Route path="/scheduled" element={<Scheduled />} />
+            <Route path="/inbound" element={<Inbound />} />
             <Route path="/rules" element={<Rules />} />
             <Route path="/plans" element={<Plans />} />
             <Route path="/personas" element={<Personas />} />
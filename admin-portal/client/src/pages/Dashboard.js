@@ -128,6 +128,22 @@ function Dashboard() {
               {stats.http_fallback_active ? 'Active' : 'Inactive'}
             </div>
           </div>
+
+          {stats.native_helper_state && (
+            <div className="stat-card">
+              <div className="stat-label">Native Helper</div>
+              <div className="stat-value" style={{ fontSize: '1.2rem' }}>
+                <span className={`status-indicator ${stats.native_helper_state === 'running' ? 'online' : 'offline'}`}></span>
+                {stats.native_helper_state.replace('_', ' ')}
+              </div>
+              {stats.native_helper_restarts > 0 && (
+                <div className="stat-label">
+                  {stats.native_helper_restarts} restart(s){stats.native_helper_last_restart_reason && ` - last: ${stats.native_helper_last_restart_reason}`}
+                </div>
+              )}
+              {stats.transport && <div className="stat-label">{stats.transport}</div>}
+            </div>
+          )}
         </div>
 
         <h3>Statistics</h3>
@@ -151,6 +167,46 @@ function Dashboard() {
             <div className="stat-label">Messages Sent</div>
             <div className="stat-value">{stats.messages_sent || 0}</div>
           </div>
+
+          <div className="stat-card">
+            <div className="stat-label">Event Outbox</div>
+            <div className="stat-value">{stats.event_outbox_pending || 0}</div>
+            {stats.event_outbox_dead_letter > 0 && (
+              <div className="stat-label">{stats.event_outbox_dead_letter} dead-lettered</div>
+            )}
+          </div>
+
+          <div className="stat-card">
+            <div className="stat-label">Pending Bursts</div>
+            <div className="stat-value">{stats.pending_bursts || 0}</div>
+          </div>
+
+          <div className="stat-card">
+            <div className="stat-label">Outbound Queue</div>
+            <div className="stat-value">{stats.outbound_queue_pending || 0}</div>
+            {stats.outbound_queue_dead_letter > 0 && (
+              <div className="stat-label">{stats.outbound_queue_dead_letter} failed to send</div>
+            )}
+          </div>
+
+          <div className="stat-card">
+            <div className="stat-label">Unhandled Inbound</div>
+            <div className="stat-value">{stats.inbound_journal_unhandled || 0}</div>
+            {stats.inbound_journal_failed > 0 && (
+              <div className="stat-label">{stats.inbound_journal_failed} failed</div>
+            )}
+            {stats.inbound_duplicates_suppressed > 0 && (
+              <div className="stat-label">{stats.inbound_duplicates_suppressed} duplicates skipped</div>
+            )}
+          </div>
+
+          <div className="stat-card">
+            <div className="stat-label">Delivered / Read</div>
+            <div className="stat-value">{stats.outbound_delivered || 0} / {stats.outbound_read || 0}</div>
+            {stats.outbound_failed > 0 && (
+              <div className="stat-label">{stats.outbound_failed} failed</div>
+            )}
+          </div>
         </div>
 
         <h3>Configuration</h3>
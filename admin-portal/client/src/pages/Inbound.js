@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/api';
+
+function Inbound() {
+  const [entries, setEntries] = useState([]);
+  const [status, setStatus] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(null);
+  const [fromRowId, setFromRowId] = useState('');
+  const [toRowId, setToRowId] = useState('');
+  const [replayResult, setReplayResult] = useState(null);
+  const [replaying, setReplaying] = useState(false);
+
+  const loadEntries = async () => {
+    try {
+      const response = await apiService.getInboundJournal(status);
+      setEntries(response.data);
+      setError(null);
+    } catch (err) {
+      setError('Failed to load inbound journal: ' + err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const redrive = async (id) => {
+    if (!window.confirm('Process this message again? The backend may reply a second time.')) {
+      return;
+    }
+
+    try {
+      await apiService.redriveInboundMessage(id);
+      loadEntries();
+    } catch (err) {
+      alert('Failed to re-drive message: ' + err.message);
+    }
+  };
+
+  const replay = async (dryRun) => {
+    if (!fromRowId && !toRowId) {
+      alert('Please enter a ROWID range');
+      return;
+    }
+    if (!dryRun && !window.confirm('Forward the missed messages in this range to the backend?')) {
+      return;
+    }
+
+    setReplaying(true);
+    try {
+      const response = await apiService.replayMessages({
+        from_rowid: fromRowId ? parseInt(fromRowId, 10) : undefined,
+        to_rowid: toRowId ? parseInt(toRowId, 10) : undefined,
+        dry_run: dryRun,
+      });
+      setReplayResult(response.data);
+      if (!dryRun) {
+        loadEntries();
+      }
+    } catch (err) {
+      alert('Failed to replay messages: ' + (err.response?.data?.error || err.message));
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+    const interval = setInterval(loadEntries, 10000); // Refresh every 10 seconds
+    return () => clearInterval(interval);
+  }, [status]);
+
+  const formatDate = (dateString) => {
+    const date = new Date(dateString);
+    return date.toLocaleString();
+  };
+
+  const getStatusColor = (entryStatus) => {
+    switch (entryStatus) {
+      case 'received':
+        return '#ffd93d';
+      case 'forwarded':
+        return '#4dabf7';
+      case 'responded':
+        return '#6bcf7f';
+      case 'failed':
+        return '#ff6b6b';
+      default:
+        return '#b0b0b0';
+    }
+  };
+
+  if (loading) {
+    return <div className="loading">Loading inbound journal...</div>;
+  }
+
+  return (
+    <div className="inbound">
+      <div className="card">
+        <h2>Inbound Journal</h2>
+
+        {error && <div className="error">{error}</div>}
+
+        <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+          <select value={status} onChange={(e) => setStatus(e.target.value)}>
+            <option value="">All</option>
+            <option value="received">Received</option>
+            <option value="forwarded">Forwarded</option>
+            <option value="responded">Responded</option>
+            <option value="failed">Failed</option>
+          </select>
+          <button className="button button-secondary" onClick={loadEntries}>
+            🔄 Refresh
+          </button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p style={{ color: '#666', textAlign: 'center', padding: '2rem' }}>
+            No journaled messages
+          </p>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Status</th>
+                  <th>Thread ID</th>
+                  <th>Sender</th>
+                  <th>Message</th>
+                  <th>Received At</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.journal_id}>
+                    <td>
+                      <span
+                        style={{
+                          color: getStatusColor(entry.status),
+                          fontWeight: 'bold',
+                          textTransform: 'uppercase',
+                        }}
+                      >
+                        {entry.status}
+                      </span>
+                      {entry.attempts > 0 && (
+                        <div style={{ color: '#888', fontSize: '0.8rem' }}>re-driven {entry.attempts}×</div>
+                      )}
+                    </td>
+                    <td>
+                      <code style={{ fontSize: '0.8rem' }}>
+                        {entry.thread_id.length > 30
+                          ? entry.thread_id.substring(0, 30) + '...'
+                          : entry.thread_id}
+                      </code>
+                    </td>
+                    <td>{entry.sender}</td>
+                    <td style={{ maxWidth: '300px' }}>
+                      {entry.text.length > 100
+                        ? entry.text.substring(0, 100) + '...'
+                        : entry.text}
+                    </td>
+                    <td>{formatDate(entry.received_at)}</td>
+                    <td>
+                      {entry.status !== 'received' && (
+                        <button
+                          className="button button-secondary"
+                          onClick={() => redrive(entry.journal_id)}
+                          style={{ padding: '0.5rem 1rem', fontSize: '0.85rem' }}
+                        >
+                          Re-drive
+                        </button>
+                      )}
+                      {entry.error && (
+                        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginTop: '0.5rem' }}>
+                          {entry.error}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div style={{ marginTop: '1rem', color: '#666', fontSize: '0.85rem' }}>
+          Showing {entries.length} journaled message(s)
+        </div>
+      </div>
+
+      <div className="card">
+        <h2>Replay from chat.db</h2>
+        <p style={{ color: '#888', fontSize: '0.9rem', marginBottom: '1rem' }}>
+          Re-read a message ROWID range and forward anything that was missed. Stale, own-number,
+          email and already-handled messages are skipped.
+        </p>
+
+        <div style={{ display: 'flex', gap: '1rem', marginBottom: '1rem' }}>
+          <input
+            type="number"
+            className="input"
+            placeholder="From ROWID"
+            value={fromRowId}
+            onChange={(e) => setFromRowId(e.target.value)}
+          />
+          <input
+            type="number"
+            className="input"
+            placeholder="To ROWID"
+            value={toRowId}
+            onChange={(e) => setToRowId(e.target.value)}
+          />
+          <button className="button button-secondary" onClick={() => replay(true)} disabled={replaying}>
+            Dry Run
+          </button>
+          <button className="button button-primary" onClick={() => replay(false)} disabled={replaying}>
+            ♻️ Replay
+          </button>
+        </div>
+
+        {replayResult && (
+          <div style={{ color: '#888', fontSize: '0.9rem' }}>
+            {replayResult.dry_run ? 'Would replay' : 'Replayed'} {replayResult.replayed} of{' '}
+            {replayResult.matched} message(s) — skipped {replayResult.skipped.stale} stale,{' '}
+            {replayResult.skipped.already_handled} already handled, {replayResult.skipped.email_sender} email,{' '}
+            {replayResult.skipped.own_number} own number
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Inbound;
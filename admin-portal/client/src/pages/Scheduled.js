@@ -3,6 +3,8 @@ import { apiService } from '../services/api';
 
 function Scheduled() {
   const [messages, setMessages] = useState([]);
+  const [bursts, setBursts] = useState([]);
+  const [failedSends, setFailedSends] = useState([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
 
@@ -18,6 +20,33 @@ function Scheduled() {
     }
   };
 
+  const loadBursts = async () => {
+    try {
+      const response = await apiService.getPendingDeliveries();
+      setBursts(response.data);
+    } catch (err) {
+      setError('Failed to load pending bursts: ' + err.message);
+    }
+  };
+
+  const loadFailedSends = async () => {
+    try {
+      const response = await apiService.getOutboundDeadLetters();
+      setFailedSends(response.data);
+    } catch (err) {
+      setError('Failed to load failed sends: ' + err.message);
+    }
+  };
+
+  const cancelBurst = async (id) => {
+    try {
+      await apiService.cancelPendingDelivery(id);
+      loadBursts();
+    } catch (err) {
+      alert('Failed to cancel burst: ' + err.message);
+    }
+  };
+
   const cancelMessage = async (id) => {
     if (!window.confirm('Are you sure you want to cancel this scheduled message?')) {
       return;
@@ -34,8 +63,17 @@ function Scheduled() {
 
   useEffect(() => {
     loadMessages();
-    const interval = setInterval(loadMessages, 10000); // Refresh every 10 seconds
-    return () => clearInterval(interval);
+    loadBursts();
+    loadFailedSends();
+    const interval = setInterval(() => {
+      loadMessages();
+      loadFailedSends();
+    }, 10000); // Refresh every 10 seconds
+    const burstInterval = setInterval(loadBursts, 2000); // Bursts only wait a few seconds
+    return () => {
+      clearInterval(interval);
+      clearInterval(burstInterval);
+    };
   }, []);
 
   const formatDate = (dateString) => {
@@ -64,6 +102,104 @@ function Scheduled() {
 
   return (
     <div className="scheduled">
+      <div className="card">
+        <h2>Pending Bursts</h2>
+
+        {bursts.length === 0 ? (
+          <p style={{ color: '#666', textAlign: 'center', padding: '1rem' }}>
+            No bursts waiting to send
+          </p>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Thread ID</th>
+                  <th>Messages</th>
+                  <th>Interrupt</th>
+                  <th>Sends At</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bursts.map((burst) => (
+                  <tr key={burst.id}>
+                    <td>
+                      <code style={{ fontSize: '0.8rem' }}>
+                        {burst.thread_id.length > 30
+                          ? burst.thread_id.substring(0, 30) + '...'
+                          : burst.thread_id}
+                      </code>
+                    </td>
+                    <td style={{ maxWidth: '300px' }}>
+                      {burst.messages.join(' / ')}
+                    </td>
+                    <td>
+                      {burst.policy}
+                      {burst.interrupted && (
+                        <div style={{ color: '#ffd93d', fontSize: '0.8rem' }}>interrupted</div>
+                      )}
+                    </td>
+                    <td>{formatDate(burst.send_at)}</td>
+                    <td>
+                      <button
+                        className="button button-danger"
+                        onClick={() => cancelBurst(burst.id)}
+                        style={{ padding: '0.5rem 1rem', fontSize: '0.85rem' }}
+                      >
+                        Cancel
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {failedSends.length > 0 && (
+        <div className="card">
+          <h2>Failed Sends</h2>
+
+          <div style={{ overflowX: 'auto' }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Thread ID</th>
+                  <th>Message</th>
+                  <th>Attempts</th>
+                  <th>Error</th>
+                  <th>Gave Up At</th>
+                </tr>
+              </thead>
+              <tbody>
+                {failedSends.map((item) => (
+                  <tr key={item.id}>
+                    <td>
+                      <code style={{ fontSize: '0.8rem' }}>
+                        {item.thread_id.length > 30
+                          ? item.thread_id.substring(0, 30) + '...'
+                          : item.thread_id}
+                      </code>
+                    </td>
+                    <td style={{ maxWidth: '300px' }}>
+                      {item.payload.text
+                        || (item.payload.bubbles && item.payload.bubbles.join(' / '))
+                        || item.payload.caption
+                        || item.kind}
+                    </td>
+                    <td>{item.attempts}</td>
+                    <td style={{ color: '#ff6b6b', fontSize: '0.85rem' }}>{item.last_error}</td>
+                    <td>{formatDate(item.dead_lettered_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <div className="card">
         <h2>Scheduled Messages</h2>
 
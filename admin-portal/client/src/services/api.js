@@ -59,6 +59,24 @@ export const apiService = {
   getScheduledMessages: () => api.get('/api/scheduled'),
   cancelScheduledMessage: (id) => api.delete(`/api/scheduled/${id}`),
 
+  // Pending burst deliveries
+  getPendingDeliveries: () => api.get('/api/deliveries/pending'),
+  cancelPendingDelivery: (id) => api.delete(`/api/deliveries/pending/${id}`),
+  getOutboundDeadLetters: () => api.get('/api/deliveries/dead-letter'),
+
+  // Inbound message journal
+  getInboundJournal: (status) => api.get('/api/inbound', { params: status ? { status } : {} }),
+  redriveInboundMessage: (id) => api.post(`/api/inbound/${id}/redrive`),
+  replayMessages: (options) => api.post('/api/replay', options),
+
+  // Handle aliases
+  getHandleAliases: () => api.get('/api/handles/aliases'),
+  linkHandles: (handle, alias) => api.post('/api/handles/aliases', { handle, alias }),
+
+  // Quiet hours
+  getDeliveryWindows: () => api.get('/api/delivery-windows'),
+  setDeliveryWindow: (window) => api.post('/api/delivery-windows', window),
+
   // Rules
   getRules: () => api.get('/api/rules'),
   enableRule: (id) => api.put(`/api/rules/${id}/enable`),
@@ -24,6 +24,23 @@ export interface AdminStats {
   backend_url: string;
   imessage_poll_interval: number;
   performance_profile: string;
+  event_outbox_pending: number;
+  event_outbox_dead_letter: number;
+  event_outbox_oldest_age_seconds: number | null;
+  pending_bursts: number;
+  outbound_delivered: number;
+  outbound_read: number;
+  outbound_failed: number;
+  inbound_journal_failed: number;
+  inbound_journal_unhandled: number;
+  inbound_duplicates_suppressed: number;
+  outbound_queue_pending: number;
+  outbound_queue_dead_letter: number;
+  outbound_queue_retried: number;
+  native_helper_state: string | null;  // null outside native_helper mode
+  native_helper_restarts: number;
+  native_helper_last_restart_reason: string | null;
+  transport: string;
 }
 
 export interface IAdminInterface {
@@ -32,6 +49,16 @@ export interface IAdminInterface {
   getRules(): Promise<any[]>;
   getPlans(): Promise<any[]>;
   cancelScheduledMessage(scheduleId: string): Promise<void>;
+  getPendingDeliveries(): Promise<any[]>;
+  cancelPendingDelivery(deliveryId: string): Promise<void>;
+  getOutboundDeadLetters(limit?: number): Promise<any[]>;
+  getInboundJournal(status?: string, limit?: number): Promise<any[]>;
+  redriveInboundMessage(journalId: string): Promise<void>;
+  replayMessages(options: Record<string, any>): Promise<any>;
+  getHandleAliases(): Promise<any[]>;
+  linkHandles(handle: string, alias: string): Promise<void>;
+  getDeliveryWindows(): Promise<any[]>;
+  setDeliveryWindow(window: Record<string, any>): Promise<any>;
   enableRule(ruleId: string): Promise<void>;
   disableRule(ruleId: string): Promise<void>;
   sendTestMessage(threadId: string, text: string): Promise<void>;
@@ -183,6 +210,112 @@ export class AdminServer {
       }
     });
 
+    // Pending burst deliveries
+    this.app.get('/api/deliveries/pending', async (req: Request, res: Response) => {
+      try {
+        const deliveries = await this.adminInterface.getPendingDeliveries();
+        res.json(deliveries);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    this.app.delete('/api/deliveries/pending/:id', async (req: Request, res: Response) => {
+      try {
+        await this.adminInterface.cancelPendingDelivery(req.params.id);
+        res.json({ success: true });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Outbound sends the queue gave up on
+    this.app.get('/api/deliveries/dead-letter', async (req: Request, res: Response) => {
+      try {
+        const limit = parseInt(req.query.limit as string) || 100;
+        const items = await this.adminInterface.getOutboundDeadLetters(limit);
+        res.json(items);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Inbound message journal
+    this.app.get('/api/inbound', async (req: Request, res: Response) => {
+      try {
+        const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+        const limit = parseInt(req.query.limit as string) || 100;
+        const entries = await this.adminInterface.getInboundJournal(status, limit);
+        res.json(entries);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    this.app.post('/api/inbound/:id/redrive', async (req: Request, res: Response) => {
+      try {
+        await this.adminInterface.redriveInboundMessage(req.params.id);
+        res.json({ success: true });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Re-read a ROWID range / time window from chat.db (dry_run reports without forwarding)
+    this.app.post('/api/replay', async (req: Request, res: Response) => {
+      try {
+        const summary = await this.adminInterface.replayMessages(req.body || {});
+        res.json(summary);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Handle aliases (phone / email handles of the same person)
+    this.app.get('/api/handles/aliases', async (req: Request, res: Response) => {
+      try {
+        const aliases = await this.adminInterface.getHandleAliases();
+        res.json(aliases);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    this.app.post('/api/handles/aliases', async (req: Request, res: Response) => {
+      try {
+        const { handle, alias } = req.body || {};
+        if (!handle || !alias) {
+          return res.status(400).json({ error: 'handle and alias are required' });
+        }
+        await this.adminInterface.linkHandles(handle, alias);
+        res.json({ success: true });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Per-thread / per-contact quiet hours
+    this.app.get('/api/delivery-windows', async (req: Request, res: Response) => {
+      try {
+        const windows = await this.adminInterface.getDeliveryWindows();
+        res.json(windows);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    this.app.post('/api/delivery-windows', async (req: Request, res: Response) => {
+      try {
+        if (!req.body?.thread_id) {
+          return res.status(400).json({ error: 'thread_id is required' });
+        }
+        const window = await this.adminInterface.setDeliveryWindow(req.body);
+        res.json(window);
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
     // Rules
     this.app.get('/api/rules', async (req: Request, res: Response) => {
       try {
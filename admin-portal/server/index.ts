@@ -6,6 +6,8 @@
 
 import { EdgeAgent } from '../../src/index';
 import { AdminServer, IAdminInterface } from './AdminServer';
+import { InboundJournalStatus } from '../../src/pipeline/InboundJournal';
+import { ReplayMessagesPayloadSchema, SetDeliveryWindowPayloadSchema } from '../../src/validation/command.validation';
 import * as path from 'path';
 
 /**
@@ -22,6 +24,55 @@ class EdgeAgentAdminAdapter implements IAdminInterface {
     return this.agent.getScheduledMessages();
   }
 
+  async getPendingDeliveries() {
+    return this.agent.getPendingDeliveries();
+  }
+
+  async cancelPendingDelivery(deliveryId: string) {
+    return this.agent.cancelPendingDelivery(deliveryId);
+  }
+
+  async getOutboundDeadLetters(limit?: number) {
+    return this.agent.getOutboundDeadLetters(limit);
+  }
+
+  async getInboundJournal(status?: string, limit?: number) {
+    return this.agent.getInboundJournal(status as InboundJournalStatus | undefined, limit);
+  }
+
+  async redriveInboundMessage(journalId: string) {
+    return this.agent.redriveInboundMessage(journalId);
+  }
+
+  async replayMessages(options: Record<string, any>) {
+    const parsed = ReplayMessagesPayloadSchema.safeParse(options);
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map(issue => issue.message).join('; '));
+    }
+    return this.agent.replayMessages(parsed.data);
+  }
+
+  async getHandleAliases() {
+    return this.agent.getHandleAliases();
+  }
+
+  async linkHandles(handle: string, alias: string) {
+    return this.agent.linkHandles(handle, alias);
+  }
+
+  async getDeliveryWindows() {
+    return this.agent.getDeliveryWindows();
+  }
+
+  async setDeliveryWindow(window: Record<string, any>) {
+    const parsed = SetDeliveryWindowPayloadSchema.safeParse(window);
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map(issue => issue.message).join('; '));
+    }
+    const { thread_id, timezone, quiet_start, quiet_end } = parsed.data;
+    return this.agent.setDeliveryWindow(thread_id, { timezone, quiet_start, quiet_end });
+  }
+
   async getRules() {
     return this.agent.getRules();
   }
@@ -19,11 +19,24 @@ struct AttachmentPayload: Codable {
     let absolute_path: String?
 }
 
+struct ReplyPayload: Codable {
+    let guid: String
+    let text: String?
+}
+
 struct MessagePayload: Codable {
     let id: Int64
+    let guid: String?
     let thread_id: String
     let sender: String
     let text: String
+    let attributed_body: String?
+    let associated_message_type: Int?
+    let associated_message_guid: String?
+    let associated_message_emoji: String?
+    let item_type: Int?
+    let chat_name: String?
+    let reply_to: ReplyPayload?
     let timestamp: String
     let participants: [String]
     let is_group: Bool
@@ -41,6 +54,7 @@ struct Options {
     let pollInterval: TimeInterval
     let stateFile: URL?
     let maxMessageAgeSeconds: TimeInterval?
+    let heartbeatInterval: TimeInterval?
 
     static func parse() -> Options {
         var dbPath = NSString(string: "~/Library/Messages/chat.db").expandingTildeInPath
@@ -48,6 +62,7 @@ struct Options {
         var pollInterval: TimeInterval = 0.5
         var stateFile: URL?
         var maxMessageAgeSeconds: TimeInterval?
+        var heartbeatInterval: TimeInterval?
 
         var iterator = CommandLine.arguments.makeIterator()
         _ = iterator.next() // skip executable
@@ -74,6 +89,10 @@ struct Options {
                 if let value = iterator.next(), let seconds = Double(value) {
                     maxMessageAgeSeconds = seconds
                 }
+            case "--heartbeat-interval-ms":
+                if let value = iterator.next(), let ms = Double(value), ms > 0 {
+                    heartbeatInterval = ms / 1000.0
+                }
             default:
                 continue
             }
@@ -84,7 +103,8 @@ struct Options {
             attachmentsPath: attachmentsPath,
             pollInterval: pollInterval,
             stateFile: stateFile,
-            maxMessageAgeSeconds: maxMessageAgeSeconds
+            maxMessageAgeSeconds: maxMessageAgeSeconds,
+            heartbeatInterval: heartbeatInterval
         )
     }
 }
@@ -100,6 +120,8 @@ final class MessagesHelper {
         return formatter
     }()
     private var running = true
+    private var lastHeartbeat = Date.distantPast
+    private var hasEmojiColumn = false  // message.associated_message_emoji (macOS Sequoia+)
 
     init(options: Options) {
         self.options = options
@@ -112,10 +134,12 @@ final class MessagesHelper {
     func run() {
         do {
             try openDatabase()
+            hasEmojiColumn = messageColumns().contains("associated_message_emoji")
             loadLastRowId()
             while running {
                 autoreleasepool {
                     pollOnce()
+                    emitHeartbeatIfDue()
                 }
                 Thread.sleep(forTimeInterval: options.pollInterval)
             }
@@ -137,6 +161,23 @@ final class MessagesHelper {
         }
     }
 
+    private func messageColumns() -> Set<String> {
+        guard let db = db else { return [] }
+        var stmt: OpaquePointer?
+        var columns = Set<String>()
+
+        if sqlite3_prepare_v2(db, "PRAGMA table_info(message)", -1, &stmt, nil) == SQLITE_OK {
+            while sqlite3_step(stmt) == SQLITE_ROW {
+                if let name = sqlite3_column_text(stmt, 1) {
+                    columns.insert(String(cString: name))
+                }
+            }
+        }
+
+        sqlite3_finalize(stmt)
+        return columns
+    }
+
     private func loadLastRowId() {
         if let stateFile = options.stateFile,
            let data = try? Data(contentsOf: stateFile),
@@ -171,7 +212,15 @@ final class MessagesHelper {
                m.date,
                m.is_from_me,
                c.chat_identifier,
-               h.id as sender
+               h.id as sender,
+               m.attributedBody,
+               m.associated_message_type,
+               m.associated_message_guid,
+               m.guid,
+               m.thread_originator_guid,
+               m.item_type,
+               c.display_name,
+               \(hasEmojiColumn ? "m.associated_message_emoji" : "NULL")
         FROM message m
         JOIN chat_message_join cmj ON m.ROWID = cmj.message_id
         JOIN chat c ON cmj.chat_id = c.ROWID
@@ -196,6 +245,28 @@ final class MessagesHelper {
             let threadId = sqlite3_column_text(stmt, 4).flatMap { String(cString: $0) } ?? ""
             let sender = sqlite3_column_text(stmt, 5).flatMap { String(cString: $0) } ?? "unknown"
 
+            // Edited / rich messages have NULL text; forward the typedstream blob for the TS decoder
+            var attributedBody: String? = nil
+            if sqlite3_column_type(stmt, 1) == SQLITE_NULL, let blob = sqlite3_column_blob(stmt, 6) {
+                let length = Int(sqlite3_column_bytes(stmt, 6))
+                attributedBody = Data(bytes: blob, count: length).base64EncodedString()
+            }
+
+            // Tapbacks (2000-3007) are parsed into reactions on the TS side
+            let associatedType = Int(sqlite3_column_int64(stmt, 7))
+            let associatedGuid = sqlite3_column_text(stmt, 8).flatMap { String(cString: $0) }
+            let guid = sqlite3_column_text(stmt, 9).flatMap { String(cString: $0) }
+            let associatedEmoji = sqlite3_column_text(stmt, 13).flatMap { String(cString: $0) }
+
+            // Inline replies point at the quoted message by guid
+            let replyTo = sqlite3_column_text(stmt, 10)
+                .flatMap { String(cString: $0) }
+                .map { ReplyPayload(guid: $0, text: fetchMessageText(guid: $0)) }
+
+            // Group renames / joins / leaves (1-3) are diffed into roster changes on the TS side
+            let itemType = Int(sqlite3_column_int64(stmt, 11))
+            let chatName = sqlite3_column_text(stmt, 12).flatMap { String(cString: $0) }
+
             // Always advance cursor past this message, even if stale
             lastRowId = rowId
 
@@ -223,9 +294,17 @@ final class MessagesHelper {
 
             let payload = MessagePayload(
                 id: rowId,
+                guid: guid,
                 thread_id: threadId,
                 sender: sender,
                 text: text,
+                attributed_body: attributedBody,
+                associated_message_type: associatedType != 0 ? associatedType : nil,
+                associated_message_guid: associatedGuid,
+                associated_message_emoji: associatedEmoji,
+                item_type: itemType != 0 ? itemType : nil,
+                chat_name: chatName,
+                reply_to: replyTo,
                 timestamp: timestamp,
                 participants: participants,
                 is_group: isGroup,
@@ -265,6 +344,24 @@ final class MessagesHelper {
         return results
     }
 
+    private func fetchMessageText(guid: String) -> String? {
+        guard let db = db else { return nil }
+        let query = "SELECT text FROM message WHERE guid = ? LIMIT 1"
+
+        var stmt: OpaquePointer?
+        var result: String?
+
+        if sqlite3_prepare_v2(db, query, -1, &stmt, nil) == SQLITE_OK {
+            sqlite3_bind_text(stmt, 1, guid, -1, SQLITE_TRANSIENT_BRIDGE)
+            if sqlite3_step(stmt) == SQLITE_ROW, let text = sqlite3_column_text(stmt, 0) {
+                result = String(cString: text)
+            }
+        }
+
+        sqlite3_finalize(stmt)
+        return result
+    }
+
     private func fetchAttachments(for messageId: Int64) -> [AttachmentPayload] {
         guard let db = db else { return [] }
         let query = """
@@ -380,6 +477,14 @@ final class MessagesHelper {
         }
     }
 
+    // Lets the supervisor tell a stuck poll loop from a quiet chat.db
+    private func emitHeartbeatIfDue() {
+        guard let interval = options.heartbeatInterval,
+              Date().timeIntervalSince(lastHeartbeat) >= interval else { return }
+        lastHeartbeat = Date()
+        emitLog(type: "log", payload: ["event": "heartbeat", "last_row_id": String(lastRowId)])
+    }
+
     private func emitLog(type: String, payload: [String: String]) {
         let envelope = Envelope(type: type, payload: payload)
         if let data = try? encoder.encode(envelope),
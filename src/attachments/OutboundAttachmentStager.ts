@@ -0,0 +1,213 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ILogger } from '../interfaces/ILogger';
+
+export interface OutboundAttachmentOptions {
+  directory: string;          // Managed staging directory (created if missing)
+  maxBytes: number;           // Largest file we will send
+  allowedMimeTypes: string[];
+  retentionMs: number;        // Staged files are kept this long so Messages.app can finish copying them
+  downloadTimeoutMs: number;
+  isQueued?: (filePath: string) => boolean;  // Files still waiting to be sent are never swept
+}
+
+export interface StagedAttachment {
+  path: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+export const DEFAULT_OUTBOUND_ATTACHMENT_DIR = path.join(os.tmpdir(), 'edge-agent-outbound');
+
+const DEFAULT_OPTIONS: Omit<OutboundAttachmentOptions, 'isQueued'> = {
+  directory: DEFAULT_OUTBOUND_ATTACHMENT_DIR,
+  maxBytes: 25 * 1024 * 1024, // 25MB
+  allowedMimeTypes: [
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/heic',
+    'image/webp',
+    'application/pdf',
+    'video/mp4',
+    'video/quicktime',
+    'audio/mp4',
+    'audio/mpeg'
+  ],
+  retentionMs: 10 * 60 * 1000,
+  downloadTimeoutMs: 30000
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/heic': '.heic',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+  'video/mp4': '.mp4',
+  'video/quicktime': '.mov',
+  'audio/mp4': '.m4a',
+  'audio/mpeg': '.mp3'
+};
+
+/**
+ * OutboundAttachmentStager - Puts files we are about to send on disk
+ *
+ * Messages.app can only send files by path, so downloaded and base64 payloads
+ * are written to a managed directory first. The type is taken from the file's
+ * magic bytes where recognizable (not the claimed type) and checked against
+ * the allowlist along with the size limit. Messages.app copies the file
+ * asynchronously, so staged files are swept after a retention period rather
+ * than deleted right after the send. Files an outbound queue item still points
+ * at (e.g. waiting out a retry backoff or a restart) are kept until the item is
+ * delivered or dead-lettered.
+ */
+export class OutboundAttachmentStager {
+  private options: OutboundAttachmentOptions;
+
+  constructor(
+    private readonly logger: ILogger,
+    options: Partial<OutboundAttachmentOptions> = {}
+  ) {
+    this.options = {
+      directory: options.directory ?? DEFAULT_OPTIONS.directory,
+      maxBytes: options.maxBytes ?? DEFAULT_OPTIONS.maxBytes,
+      allowedMimeTypes: options.allowedMimeTypes ?? DEFAULT_OPTIONS.allowedMimeTypes,
+      retentionMs: options.retentionMs ?? DEFAULT_OPTIONS.retentionMs,
+      downloadTimeoutMs: options.downloadTimeoutMs ?? DEFAULT_OPTIONS.downloadTimeoutMs,
+      isQueued: options.isQueued
+    };
+  }
+
+  /**
+   * Download a file and stage it
+   */
+  async stageFromUrl(url: string, declaredMimeType?: string): Promise<StagedAttachment> {
+    if (!url.startsWith('https://')) {
+      throw new Error('Attachment URL must use HTTPS');
+    }
+
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      timeout: this.options.downloadTimeoutMs,
+      maxContentLength: this.options.maxBytes,
+      maxRedirects: 3
+    });
+
+    const contentType = String(response.headers['content-type'] || '').split(';')[0].trim();
+    return this.stageBuffer(Buffer.from(response.data), declaredMimeType || contentType || undefined);
+  }
+
+  /**
+   * Decode a base64 payload and stage it
+   */
+  async stageBase64(data: string, declaredMimeType?: string): Promise<StagedAttachment> {
+    // Reject before decoding: base64 is 4/3 the size of the file
+    if (Math.floor(data.length * 3 / 4) > this.options.maxBytes + 2) {
+      throw new Error(`Attachment exceeds ${this.options.maxBytes} byte limit`);
+    }
+
+    return this.stageBuffer(Buffer.from(data, 'base64'), declaredMimeType);
+  }
+
+  /**
+   * Check and write raw bytes to the staging directory
+   */
+  async stageBuffer(buffer: Buffer, declaredMimeType?: string): Promise<StagedAttachment> {
+    if (buffer.length === 0) {
+      throw new Error('Attachment is empty');
+    }
+    if (buffer.length > this.options.maxBytes) {
+      throw new Error(`Attachment exceeds ${this.options.maxBytes} byte limit`);
+    }
+
+    const mimeType = sniffMimeType(buffer) || declaredMimeType?.toLowerCase();
+    if (!mimeType || !this.options.allowedMimeTypes.includes(mimeType)) {
+      throw new Error(`Attachment type ${mimeType || 'unknown'} is not allowed`);
+    }
+
+    this.cleanup();
+    await fs.promises.mkdir(this.options.directory, { recursive: true });
+
+    const filePath = path.join(this.options.directory, `${uuidv4()}${EXTENSIONS[mimeType] || ''}`);
+    await fs.promises.writeFile(filePath, buffer);
+
+    this.logger.debug(`📎 Staged ${mimeType} attachment (${buffer.length} bytes) at ${filePath}`);
+    return { path: filePath, mimeType, sizeBytes: buffer.length };
+  }
+
+  /**
+   * Delete staged files older than the retention period that are no longer
+   * queued for sending; returns how many were removed
+   */
+  cleanup(now: number = Date.now()): number {
+    if (!fs.existsSync(this.options.directory)) {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const name of fs.readdirSync(this.options.directory)) {
+      const filePath = path.join(this.options.directory, name);
+      try {
+        if (now - fs.statSync(filePath).mtimeMs > this.options.retentionMs && !this.options.isQueued?.(filePath)) {
+          fs.unlinkSync(filePath);
+          removed++;
+        }
+      } catch (error: any) {
+        this.logger.warn(`Failed to clean up staged attachment ${filePath}: ${error.message}`);
+      }
+    }
+
+    if (removed > 0) {
+      this.logger.debug(`🧹 Removed ${removed} staged outbound attachment(s)`);
+    }
+    return removed;
+  }
+}
+
+/**
+ * MIME type from a file's magic bytes, for the formats we allow
+ */
+export function sniffMimeType(buffer: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => buffer.subarray(start, end).toString('latin1');
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (ascii(0, 4) === 'GIF8') {
+    return 'image/gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ascii(0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  if (ascii(0, 3) === 'ID3' || (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+    return 'audio/mpeg';
+  }
+
+  // ISO base media (ftyp box): HEIC, MP4, MOV, M4A
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) {
+      return 'image/heic';
+    }
+    if (brand === 'qt  ') {
+      return 'video/quicktime';
+    }
+    if (brand === 'M4A ') {
+      return 'audio/mp4';
+    }
+    return 'video/mp4';
+  }
+
+  return undefined;
+}
@@ -132,7 +132,10 @@ export class RailwayClient implements IBackendClient {
           reply_bubbles: response.data.reply_bubbles,
           reflex_message: response.data.reflex_message,
           burst_messages: response.data.burst_messages,
-          burst_delay_ms: response.data.burst_delay_ms
+          burst_delay_ms: response.data.burst_delay_ms,
+          burst_interrupt: response.data.burst_interrupt,
+          responses: Array.isArray(response.data.responses) ? response.data.responses : undefined,
+          commands: Array.isArray(response.data.commands) ? response.data.commands : undefined
         };
       } catch (error: any) {
         lastError = error;
@@ -296,30 +299,46 @@ export class RailwayClient implements IBackendClient {
 
   /**
    * Sync with backend - send events and receive commands
-   * NOTE: This is deprecated in the new WebSocket-based architecture.
-   * Kept for backward compatibility but returns empty response.
+   * Used as the HTTP fallback while the WebSocket is disconnected.
    */
   async sync(request: SyncRequest): Promise<SyncResponse> {
-    // No-op in new WebSocket architecture - commands come via WebSocket
-    // Silently return empty response to avoid log spam
+    const headers: any = {};
+    if (this.edgeAgentId) {
+      headers['X-Edge-Agent-Id'] = this.edgeAgentId;
+    }
+
+    const response = await this.client.post('/edge/sync', request, { headers });
+    const data = response.data || {};
+
     return {
-      commands: [],
-      ack_events: []
+      commands: Array.isArray(data.commands) ? data.commands : [],
+      ack_events: Array.isArray(data.ack_events) ? data.ack_events : [],
+      config_updates: data.config_updates
     };
   }
 
   /**
    * Acknowledge command execution
-   * NOTE: This is deprecated - acknowledgments now sent via WebSocket.
-   * Kept for backward compatibility but does nothing.
+   * Used for commands that arrived over HTTP sync or finished while the
+   * WebSocket was down; details carry e.g. per-field validation errors.
    */
   async acknowledgeCommand(
     commandId: string,
     success: boolean,
-    error?: string
+    error?: string,
+    details?: Record<string, any>
   ): Promise<void> {
-    // No-op - acknowledgments now sent via WebSocket
-    // Silently return to avoid log spam
+    const headers: any = {};
+    if (this.edgeAgentId) {
+      headers['X-Edge-Agent-Id'] = this.edgeAgentId;
+    }
+
+    await this.client.post('/edge/ack_command', {
+      command_id: commandId,
+      success,
+      error: error ?? null,
+      details
+    }, { headers });
   }
 
   /**
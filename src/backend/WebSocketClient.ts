@@ -1,6 +1,6 @@
 import WebSocket from 'ws';
 import { ILogger } from '../interfaces/ILogger';
-import { EdgeCommandWrapper } from '../interfaces/ICommands';
+import { EdgeCommandWrapper, EdgeEventWrapper } from '../interfaces/ICommands';
 
 /**
  * WebSocket client for real-time communication with backend
@@ -26,6 +26,7 @@ export class WebSocketClient {
   private onCommandCallback: ((command: EdgeCommandWrapper) => Promise<void>) | null = null;
   private onConnectedCallback: (() => void) | null = null;
   private onDisconnectedCallback: (() => void) | null = null;
+  private onEventAckCallback: ((eventIds: string[]) => void) | null = null;
 
   constructor(
     backendUrl: string,
@@ -68,6 +69,13 @@ export class WebSocketClient {
     this.onDisconnectedCallback = callback;
   }
 
+  /**
+   * Register callback for event acknowledgments from backend
+   */
+  onEventAck(callback: (eventIds: string[]) => void): void {
+    this.onEventAckCallback = callback;
+  }
+
   /**
    * Connect to WebSocket server
    */
@@ -190,6 +198,10 @@ export class WebSocketClient {
           this.logger.info('Received config update:', message.data);
           break;
 
+        case 'event_ack':
+          this.handleEventAck(message.data);
+          break;
+
         default:
           this.logger.warn('Unknown message type:', message.type);
       }
@@ -226,6 +238,18 @@ export class WebSocketClient {
     }
   }
 
+  /**
+   * Handle event acknowledgment from backend
+   */
+  private handleEventAck(data: { event_ids?: string[] }): void {
+    const eventIds = Array.isArray(data?.event_ids) ? data.event_ids : [];
+    this.logger.debug(`Received event_ack for ${eventIds.length} event(s)`);
+
+    if (eventIds.length > 0 && this.onEventAckCallback) {
+      this.onEventAckCallback(eventIds);
+    }
+  }
+
   /**
    * Handle WebSocket error
    */
@@ -361,7 +385,7 @@ export class WebSocketClient {
   sendCommandAck(
     commandId: string,
     status: 'completed' | 'failed' | 'received' | 'executing',
-    options?: { error?: string; completedAt?: Date }
+    options?: { error?: string; completedAt?: Date; details?: Record<string, any> }
   ): boolean {
     const completedAt = options?.completedAt ?? (status === 'completed' ? new Date() : undefined);
 
@@ -383,11 +407,23 @@ export class WebSocketClient {
         command_id: commandId,
         status,
         completed_at: completedAt?.toISOString(),
-        error: options?.error
+        error: options?.error,
+        details: options?.details
       }
     });
   }
 
+  /**
+   * Send a batch of edge events to backend
+   * Backend replies with event_ack once they are persisted
+   */
+  sendEvents(events: EdgeEventWrapper[]): boolean {
+    return this.send({
+      type: 'edge_events',
+      data: { events }
+    });
+  }
+
   /**
    * Check if WebSocket is connected
    */
@@ -8,12 +8,16 @@ import {
   UpdatePlanCommand,
   SendMessageNowCommand,
   ContextUpdateCommand,
-  ContextResetCommand
+  ContextResetCommand,
+  SendAttachmentCommand,
+  SetDeliveryWindowCommand
 } from '../interfaces/ICommands';
 import { RuleEngine, Rule } from '../rules/RuleEngine';
 import { PlanManager } from '../plans/PlanManager';
 import { IMessageTransport } from '../interfaces/IMessageTransport';
 import { ContextManager } from '../context/ContextManager';
+import { OutboundAttachmentStager } from '../attachments/OutboundAttachmentStager';
+import { DeliveryWindowPolicy } from '../delivery/DeliveryWindowPolicy';
 
 /**
  * CommandHandler - Processes commands from backend
@@ -25,6 +29,8 @@ export class CommandHandler {
   private ruleEngine: RuleEngine | null = null;
   private planManager: PlanManager | null = null;
   private contextManager: ContextManager | null = null;
+  private attachmentStager: OutboundAttachmentStager | null = null;
+  private deliveryWindow: DeliveryWindowPolicy | null = null;
 
   constructor(
     scheduler: Scheduler,
@@ -32,7 +38,9 @@ export class CommandHandler {
     logger: ILogger,
     ruleEngine?: RuleEngine,
     planManager?: PlanManager,
-    contextManager?: ContextManager
+    contextManager?: ContextManager,
+    attachmentStager?: OutboundAttachmentStager,
+    deliveryWindow?: DeliveryWindowPolicy
   ) {
     this.scheduler = scheduler;
     this.transport = transport;
@@ -40,13 +48,17 @@ export class CommandHandler {
     this.ruleEngine = ruleEngine || null;
     this.planManager = planManager || null;
     this.contextManager = contextManager || null;
+    this.attachmentStager = attachmentStager || null;
+    this.deliveryWindow = deliveryWindow || null;
   }
 
   /**
    * Execute a command from the backend
    * Returns true if successful, false otherwise
    */
-  async executeCommand(command: EdgeCommandWrapper): Promise<{ success: boolean; error?: string }> {
+  async executeCommand(
+    command: EdgeCommandWrapper
+  ): Promise<{ success: boolean; error?: string; details?: Record<string, any> }> {
     try {
       this.logger.info(`Executing command ${command.command_id}: ${command.command_type}`);
 
@@ -72,6 +84,12 @@ export class CommandHandler {
         case 'context_reset':
           return await this.handleContextReset(command);
 
+        case 'send_attachment':
+          return await this.handleSendAttachment(command);
+
+        case 'set_delivery_window':
+          return await this.handleSetDeliveryWindow(command);
+
         default:
           this.logger.warn(`Unknown command type: ${command.command_type}`);
           return {
@@ -93,7 +111,7 @@ export class CommandHandler {
    */
   private async handleSendMessageNow(
     command: EdgeCommandWrapper
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; error?: string; details?: Record<string, any> }> {
     const payload = command.payload as SendMessageNowCommand['payload'];
 
     try {
@@ -107,26 +125,50 @@ export class CommandHandler {
 
       // Parse thread_id to determine if it's a group chat
       const isGroup = payload.thread_id.includes('chat');
+      const bubbleType = payload.bubble_type || 'normal';
+
+      // Normal (non-conversational) bubbles wait out the recipient's quiet hours unless sent as immediate
+      const deferredUntil = bubbleType === 'normal' && command.priority !== 'immediate'
+        ? this.deliveryWindow?.getDeferral(payload.thread_id, isGroup) ?? null
+        : null;
+      if (deferredUntil) {
+        const scheduleId = this.scheduler.scheduleMessage(
+          payload.thread_id,
+          payload.text,
+          deferredUntil,
+          isGroup,
+          command.command_id,
+          false,
+          payload.reply_to_guid
+        );
+        this.logger.info(`🌙 Quiet hours for ${payload.thread_id} - message deferred to ${deferredUntil.toISOString()} (${scheduleId})`);
+        return {
+          success: true,
+          details: { deferred_until: deferredUntil.toISOString(), schedule_id: scheduleId }
+        };
+      }
 
       // Log the immediate send
-      const bubbleType = payload.bubble_type || 'normal';
       this.logger.info('='.repeat(60));
       this.logger.info(`⚡ SENDING ${bubbleType.toUpperCase()} MESSAGE IMMEDIATELY via WebSocket`);
       this.logger.info(`   Thread: ${payload.thread_id}`);
       this.logger.info(`   Text: "${payload.text}"`);
       this.logger.info(`   Type: ${bubbleType}`);
+      if (payload.reply_to_guid) {
+        this.logger.info(`   Reply to: ${payload.reply_to_guid}`);
+      }
       this.logger.info('='.repeat(60));
 
       // Send immediately via transport
-      const sent = await this.transport.sendMessage(
-        payload.thread_id,
-        payload.text,
-        isGroup
-      );
+      const sent = await this.sendNow(payload.thread_id, payload.text, isGroup, payload.reply_to_guid, command.command_id);
 
       if (sent) {
-        this.logger.info(`✅ ${bubbleType.toUpperCase()} message DELIVERED to iMessage via WebSocket`);
-        return { success: true };
+        this.logger.info(`✅ ${bubbleType.toUpperCase()} message sent to Messages.app via WebSocket`);
+        // Tell the backend the reply went out as a plain message, not in-thread
+        return {
+          success: true,
+          details: this.sendDetails(payload.reply_to_guid && !this.transport.sendReply ? { reply_fallback: true } : {})
+        };
       } else {
         return {
           success: false,
@@ -141,6 +183,98 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * Send as an inline reply when requested and supported, otherwise as a normal message
+   */
+  private async sendNow(
+    threadId: string,
+    text: string,
+    isGroup: boolean,
+    replyToGuid: string | undefined,
+    commandId: string
+  ): Promise<boolean> {
+    if (replyToGuid) {
+      if (this.transport.sendReply) {
+        return this.transport.sendReply(threadId, text, isGroup, replyToGuid, { commandId });
+      }
+      this.logger.info(`ℹ️  ${this.transport.getName()} cannot reply in-thread - sending as a normal message`);
+    }
+
+    return this.transport.sendMessage(threadId, text, isGroup, { commandId });
+  }
+
+  /**
+   * Ack details for an accepted send; a queued send has not been delivered yet
+   * (a message_send_failed event with this command_id follows if it never is)
+   */
+  private sendDetails(extra: Record<string, any> = {}): Record<string, any> | undefined {
+    const details = this.transport.queuesSends ? { queued: true, ...extra } : extra;
+    return Object.keys(details).length > 0 ? details : undefined;
+  }
+
+  /**
+   * Handle send_attachment command (download / decode, stage, send)
+   */
+  private async handleSendAttachment(
+    command: EdgeCommandWrapper
+  ): Promise<{ success: boolean; error?: string; details?: Record<string, any> }> {
+    const payload = command.payload as SendAttachmentCommand['payload'];
+
+    if (!this.attachmentStager) {
+      return { success: false, error: 'Attachment sending not configured' };
+    }
+
+    try {
+      const staged = payload.url
+        ? await this.attachmentStager.stageFromUrl(payload.url, payload.mime_type)
+        : await this.attachmentStager.stageBase64(payload.data_base64 || '', payload.mime_type);
+
+      const isGroup = payload.thread_id.includes('chat');
+      this.logger.info(`📎 Sending ${staged.mimeType} attachment (${staged.sizeBytes} bytes) to ${payload.thread_id}`);
+
+      const sent = await this.transport.sendAttachment(
+        payload.thread_id, staged.path, isGroup, payload.caption, { commandId: command.command_id }
+      );
+      if (!sent) {
+        return { success: false, error: 'Failed to send attachment via transport' };
+      }
+
+      this.logger.info(`✅ Attachment sent to Messages.app`);
+      return { success: true, details: this.sendDetails() };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Failed to send attachment: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Handle set_delivery_window command (record a thread's timezone / quiet hours)
+   */
+  private async handleSetDeliveryWindow(
+    command: EdgeCommandWrapper
+  ): Promise<{ success: boolean; error?: string; details?: Record<string, any> }> {
+    const payload = command.payload as SetDeliveryWindowCommand['payload'];
+
+    if (!this.deliveryWindow) {
+      return { success: false, error: 'Delivery windows not configured' };
+    }
+
+    const isGroup = payload.is_group ?? payload.thread_id.includes('chat');
+    if (payload.clear) {
+      this.deliveryWindow.clearThreadWindow(payload.thread_id, isGroup);
+    } else {
+      this.deliveryWindow.setThreadWindow(payload.thread_id, isGroup, {
+        timezone: payload.timezone,
+        quiet_start: payload.quiet_start,
+        quiet_end: payload.quiet_end
+      });
+    }
+
+    return { success: true, details: { window: this.deliveryWindow.resolve(payload.thread_id, isGroup) } };
+  }
+
   /**
    * Handle schedule_message command
    */
@@ -160,13 +294,14 @@ export class CommandHandler {
         };
       }
 
-      // Schedule the message
+      // Schedule the message (immediate priority also skips quiet hours)
       const scheduleId = this.scheduler.scheduleMessage(
         payload.thread_id,
         payload.message_text,
         sendAt,
         payload.is_group || false,
-        command.command_id
+        command.command_id,
+        command.priority === 'immediate'
       );
 
       const now = new Date();
@@ -354,7 +489,7 @@ export class CommandHandler {
 
     if (payload.notify_text) {
       const isGroup = payload.thread_id.includes('chat');
-      await this.transport.sendMessage(payload.thread_id, payload.notify_text, isGroup);
+      await this.transport.sendMessage(payload.thread_id, payload.notify_text, isGroup, { commandId: command.command_id });
     }
 
     return { success: true };
@@ -379,7 +514,7 @@ export class CommandHandler {
 
     if (payload.notify_text) {
       const isGroup = payload.thread_id.includes('chat');
-      await this.transport.sendMessage(payload.thread_id, payload.notify_text, isGroup);
+      await this.transport.sendMessage(payload.thread_id, payload.notify_text, isGroup, { commandId: command.command_id });
     }
 
     return { success: true };
@@ -0,0 +1,225 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../interfaces/ILogger';
+import { EdgeCommandWrapper } from '../interfaces/ICommands';
+
+export type CommandLedgerStatus = 'received' | 'executing' | 'completed' | 'failed';
+
+export interface CommandLedgerEntry {
+  command_id: string;
+  command_type: string;
+  status: CommandLedgerStatus;
+  error: string | null;
+  details: Record<string, any> | null;
+  delivery_count: number;
+  received_at: string;
+  updated_at: string;
+}
+
+export type CommandClaim =
+  | { duplicate: false; entry: CommandLedgerEntry }
+  | { duplicate: true; entry: CommandLedgerEntry };
+
+/**
+ * CommandLedger - Persisted record of every command_id the edge has seen
+ *
+ * The backend may deliver the same command over WebSocket and HTTP sync, and
+ * re-delivers after reconnects. The ledger makes execution idempotent: the
+ * first delivery claims the command_id, later deliveries get the cached result.
+ * It also persists the HTTP sync cursor (last_command_id) across restarts.
+ */
+export class CommandLedger {
+  private db: Database.Database;
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly logger: ILogger
+  ) {
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.initializeSchema();
+    this.recoverInterrupted();
+  }
+
+  /**
+   * Claim a command for execution
+   * Returns duplicate=true (with the existing entry) if the command_id was seen before
+   */
+  claim(command: EdgeCommandWrapper): CommandClaim {
+    const now = new Date().toISOString();
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO command_ledger (
+        command_id, command_type, status, delivery_count, received_at, updated_at
+      ) VALUES (?, ?, 'received', 1, ?, ?)
+    `).run(String(command.command_id), String(command.command_type), now, now);
+
+    if (result.changes === 0) {
+      this.db.prepare(`
+        UPDATE command_ledger SET delivery_count = delivery_count + 1 WHERE command_id = ?
+      `).run(String(command.command_id));
+      return { duplicate: true, entry: this.get(command.command_id)! };
+    }
+
+    return { duplicate: false, entry: this.get(command.command_id)! };
+  }
+
+  /**
+   * Mark a claimed command as executing
+   */
+  markExecuting(commandId: string): void {
+    this.db.prepare(`
+      UPDATE command_ledger SET status = 'executing', updated_at = ? WHERE command_id = ?
+    `).run(new Date().toISOString(), commandId);
+  }
+
+  /**
+   * Record the final result of a command
+   */
+  complete(commandId: string, success: boolean, error?: string, details?: Record<string, any>): void {
+    this.db.prepare(`
+      UPDATE command_ledger
+      SET status = ?, error = ?, details = ?, updated_at = ?
+      WHERE command_id = ?
+    `).run(
+      success ? 'completed' : 'failed',
+      error ?? null,
+      details ? JSON.stringify(details) : null,
+      new Date().toISOString(),
+      commandId
+    );
+  }
+
+  /**
+   * Get a ledger entry by command ID
+   */
+  get(commandId: string): CommandLedgerEntry | null {
+    const row = this.db.prepare(`SELECT * FROM command_ledger WHERE command_id = ?`).get(commandId) as any;
+    return row ? this.rowToEntry(row) : null;
+  }
+
+  /**
+   * Get the persisted HTTP sync cursor
+   */
+  getLastCommandId(): string | null {
+    const row = this.db.prepare(`SELECT value FROM command_ledger_state WHERE key = 'last_command_id'`).get() as any;
+    return row ? row.value : null;
+  }
+
+  /**
+   * Persist the HTTP sync cursor
+   */
+  setLastCommandId(commandId: string): void {
+    this.db.prepare(`
+      INSERT INTO command_ledger_state (key, value, updated_at)
+      VALUES ('last_command_id', ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).run(commandId, new Date().toISOString());
+  }
+
+  /**
+   * Delete finished entries older than maxAgeDays to keep storage bounded
+   */
+  prune(maxAgeDays: number = 7): number {
+    const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    const result = this.db.prepare(`
+      DELETE FROM command_ledger
+      WHERE status IN ('completed', 'failed') AND updated_at < ?
+    `).run(cutoff);
+
+    if (result.changes > 0) {
+      this.logger.info(`🧹 Pruned ${result.changes} command ledger entries older than ${maxAgeDays}d`);
+    }
+
+    return result.changes;
+  }
+
+  /**
+   * Get ledger statistics
+   */
+  getStats(): { total: number; completed: number; failed: number; in_flight: number; duplicates_suppressed: number } {
+    const row = this.db.prepare(`
+      SELECT
+        COUNT(*) as total,
+        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
+        SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+        SUM(CASE WHEN status IN ('received', 'executing') THEN 1 ELSE 0 END) as in_flight,
+        SUM(delivery_count - 1) as duplicates_suppressed
+      FROM command_ledger
+    `).get() as any;
+
+    return {
+      total: row.total,
+      completed: row.completed || 0,
+      failed: row.failed || 0,
+      in_flight: row.in_flight || 0,
+      duplicates_suppressed: row.duplicates_suppressed || 0
+    };
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Commands left in received/executing by a crash or restart are marked failed.
+   * They are NOT re-executed: a send may already have reached iMessage.
+   */
+  private recoverInterrupted(): void {
+    const result = this.db.prepare(`
+      UPDATE command_ledger
+      SET status = 'failed', error = 'Interrupted by edge restart', updated_at = ?
+      WHERE status IN ('received', 'executing')
+    `).run(new Date().toISOString());
+
+    if (result.changes > 0) {
+      this.logger.warn(`⚠️  Marked ${result.changes} interrupted command(s) as failed`);
+    }
+  }
+
+  private rowToEntry(row: any): CommandLedgerEntry {
+    return {
+      command_id: row.command_id,
+      command_type: row.command_type,
+      status: row.status,
+      error: row.error,
+      details: row.details ? JSON.parse(row.details) : null,
+      delivery_count: row.delivery_count,
+      received_at: row.received_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS command_ledger (
+        command_id TEXT PRIMARY KEY,
+        command_type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        details TEXT,
+        delivery_count INTEGER NOT NULL DEFAULT 1,
+        received_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_command_ledger_status
+      ON command_ledger(status, updated_at);
+
+      CREATE TABLE IF NOT EXISTS command_ledger_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+  }
+}
@@ -112,11 +112,37 @@ export function loadConfig(configPath: string = './config.yaml'): Config {
   config.scheduler.check_interval_seconds = config.scheduler.check_interval_seconds ?? profileDefaults.scheduler.check_interval_seconds;
   config.scheduler.adaptive_mode = config.scheduler.adaptive_mode ?? true;  // Phase 3: Enable by default
 
+  // Apply event outbox defaults
+  if (!config.events) {
+    config.events = {};
+  }
+  config.events.outbox_max_size = config.events.outbox_max_size ?? 5000;
+  config.events.max_attempts = config.events.max_attempts ?? 10;
+  config.events.flush_interval_seconds = config.events.flush_interval_seconds ?? 5;
+
+  // Apply inbound coalescing defaults
+  if (!config.coalescing) {
+    config.coalescing = {};
+  }
+  config.coalescing.enabled = config.coalescing.enabled ?? false;
+  config.coalescing.window_ms = config.coalescing.window_ms ?? 1500;
+  config.coalescing.max_wait_ms = config.coalescing.max_wait_ms ?? 5000;
+  config.coalescing.max_messages = config.coalescing.max_messages ?? 5;
+
+  // Apply delivery defaults
+  if (!config.delivery) {
+    config.delivery = {};
+  }
+  config.delivery.burst_interrupt_default = config.delivery.burst_interrupt_default ?? 'cancel';
+
   // Apply performance defaults
   if (!config.performance) {
     config.performance = {};
   }
   config.performance.parallel_message_processing = config.performance.parallel_message_processing ?? true;
+  config.performance.max_concurrent_messages = config.performance.max_concurrent_messages ?? 3;
+  config.performance.max_inbound_queue_depth = config.performance.max_inbound_queue_depth ?? 100;
+  config.performance.inbound_overflow_policy = config.performance.inbound_overflow_policy ?? 'pause_polling';
   config.performance.batch_applescript_sends = config.performance.batch_applescript_sends ?? false;
 
   // Apply WebSocket defaults
@@ -175,7 +201,9 @@ export function loadConfig(configPath: string = './config.yaml'): Config {
  */
 export function validateConfig(config: Config): void {
   // Check if Messages DB exists (runtime check, not schema validation)
-  if (!fs.existsSync(config.imessage.db_path)) {
+  // The simulator has no chat.db and synthetic mode creates its own
+  const needsChatDb = !['simulator', 'synthetic'].includes(config.imessage.transport_mode ?? 'native_helper');
+  if (needsChatDb && !fs.existsSync(config.imessage.db_path)) {
     throw new Error(
       `Messages database not found at ${config.imessage.db_path}. ` +
       'Make sure iMessage is configured and you have Full Disk Access permissions.'
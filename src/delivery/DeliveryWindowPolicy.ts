@@ -0,0 +1,278 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../interfaces/ILogger';
+import { HandleResolver } from '../identity/HandleResolver';
+
+/**
+ * Quiet hours in the recipient's timezone (HH:MM, 24-hour; may wrap past midnight)
+ */
+export interface DeliveryWindow {
+  timezone: string;
+  quiet_start: string;
+  quiet_end: string;
+}
+
+export type DeliveryWindowOverride = Partial<DeliveryWindow>;
+
+export interface ThreadDeliveryWindow extends DeliveryWindowOverride {
+  thread_key: string;
+  updated_at: string;
+}
+
+export interface DeliveryWindowPolicyOptions {
+  enabled: boolean;
+  defaults: DeliveryWindowOverride;  // Global window; unset fields use DEFAULT_WINDOW
+  personas: Record<string, DeliveryWindowOverride>;
+  getPersonaId: () => string;
+}
+
+const DEFAULT_WINDOW: DeliveryWindow = {
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  quiet_start: '22:00',
+  quiet_end: '08:00'
+};
+
+const DEFAULT_OPTIONS: DeliveryWindowPolicyOptions = {
+  enabled: false,
+  defaults: {},
+  personas: {},
+  getPersonaId: () => ''
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * DeliveryWindowPolicy - Keeps non-urgent sends out of the recipient's quiet hours
+ *
+ * The window is resolved thread → persona → global: a thread (or, for 1:1
+ * chats, the contact behind it) can record its own timezone and quiet hours,
+ * which fall back to the active persona's window and then the global one.
+ * Callers ask getDeferral() before a non-urgent send and hold it until the
+ * returned time; urgent sends simply don't ask.
+ */
+export class DeliveryWindowPolicy {
+  private db: Database.Database;
+  private options: DeliveryWindowPolicyOptions;
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly logger: ILogger,
+    options: Partial<DeliveryWindowPolicyOptions> = {},
+    private readonly handles: HandleResolver | null = null
+  ) {
+    this.options = {
+      enabled: options.enabled ?? DEFAULT_OPTIONS.enabled,
+      defaults: options.defaults ?? DEFAULT_OPTIONS.defaults,
+      personas: options.personas ?? DEFAULT_OPTIONS.personas,
+      getPersonaId: options.getPersonaId ?? DEFAULT_OPTIONS.getPersonaId
+    };
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.initializeSchema();
+  }
+
+  /**
+   * The effective window for a thread
+   */
+  resolve(threadId: string, isGroup: boolean): DeliveryWindow {
+    const persona = this.options.personas[this.options.getPersonaId()] ?? {};
+    const thread = this.getThreadWindow(threadId, isGroup);
+
+    return {
+      ...DEFAULT_WINDOW,
+      ...stripUndefined(this.options.defaults),
+      ...stripUndefined(persona),
+      ...stripUndefined({
+        timezone: thread?.timezone,
+        quiet_start: thread?.quiet_start,
+        quiet_end: thread?.quiet_end
+      })
+    };
+  }
+
+  /**
+   * When a non-urgent send to the thread may go out, or null if it can go out at `at`
+   */
+  getDeferral(threadId: string, isGroup: boolean, at: Date = new Date()): Date | null {
+    if (!this.options.enabled) {
+      return null;
+    }
+
+    const next = getNextAllowedTime(this.resolve(threadId, isGroup), at);
+    return next.getTime() > at.getTime() ? next : null;
+  }
+
+  /**
+   * Record a thread's (or contact's) timezone / quiet hours; omitted fields keep
+   * their recorded value, or inherit if none was recorded
+   */
+  setThreadWindow(threadId: string, isGroup: boolean, window: DeliveryWindowOverride): ThreadDeliveryWindow {
+    const threadKey = this.getThreadKey(threadId, isGroup);
+    const updatedAt = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO delivery_windows (thread_key, timezone, quiet_start, quiet_end, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(thread_key) DO UPDATE SET
+        timezone = COALESCE(excluded.timezone, timezone),
+        quiet_start = COALESCE(excluded.quiet_start, quiet_start),
+        quiet_end = COALESCE(excluded.quiet_end, quiet_end),
+        updated_at = excluded.updated_at
+    `).run(threadKey, window.timezone ?? null, window.quiet_start ?? null, window.quiet_end ?? null, updatedAt);
+
+    const stored = this.getThreadWindow(threadId, isGroup)!;
+    this.logger.info(
+      `🌙 Delivery window for ${threadKey}: ${stored.timezone ?? 'inherited timezone'}, ` +
+      `quiet ${stored.quiet_start ?? '(inherited)'}-${stored.quiet_end ?? '(inherited)'}`
+    );
+    return stored;
+  }
+
+  /**
+   * Forget a thread's own window (it inherits the persona / global window again)
+   */
+  clearThreadWindow(threadId: string, isGroup: boolean): boolean {
+    const result = this.db.prepare(`DELETE FROM delivery_windows WHERE thread_key = ?`)
+      .run(this.getThreadKey(threadId, isGroup));
+    return result.changes > 0;
+  }
+
+  /**
+   * All recorded thread windows
+   */
+  listThreadWindows(): ThreadDeliveryWindow[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM delivery_windows ORDER BY updated_at DESC
+    `).all() as any[];
+
+    return rows.map(row => this.rowToWindow(row));
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private getThreadWindow(threadId: string, isGroup: boolean): ThreadDeliveryWindow | null {
+    const row = this.db.prepare(`SELECT * FROM delivery_windows WHERE thread_key = ?`)
+      .get(this.getThreadKey(threadId, isGroup)) as any;
+    return row ? this.rowToWindow(row) : null;
+  }
+
+  /**
+   * 1:1 threads are keyed by the contact, so every handle of a person shares one window
+   */
+  private getThreadKey(threadId: string, isGroup: boolean): string {
+    if (isGroup || !this.handles) {
+      return threadId;
+    }
+    return this.handles.resolve(threadId);
+  }
+
+  private rowToWindow(row: any): ThreadDeliveryWindow {
+    return {
+      thread_key: row.thread_key,
+      timezone: row.timezone ?? undefined,
+      quiet_start: row.quiet_start ?? undefined,
+      quiet_end: row.quiet_end ?? undefined,
+      updated_at: row.updated_at
+    };
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS delivery_windows (
+        thread_key TEXT PRIMARY KEY,
+        timezone TEXT,
+        quiet_start TEXT,
+        quiet_end TEXT,
+        updated_at TEXT NOT NULL
+      );
+    `);
+  }
+}
+
+/**
+ * The first moment at or after `at` outside the window's quiet hours
+ */
+export function getNextAllowedTime(window: DeliveryWindow, at: Date): Date {
+  const start = parseClockTime(window.quiet_start);
+  const end = parseClockTime(window.quiet_end);
+  if (start === end) {
+    return at;  // No quiet hours
+  }
+
+  const local = getLocalSecondsOfDay(at, window.timezone);
+  const localMinute = Math.floor(local / 60);
+  const inQuietHours = start < end
+    ? localMinute >= start && localMinute < end
+    : localMinute >= start || localMinute < end;  // Wraps past midnight
+
+  if (!inQuietHours) {
+    return at;
+  }
+
+  const secondsUntilEnd = ((end * 60 - local) % (MINUTES_PER_DAY * 60) + MINUTES_PER_DAY * 60) % (MINUTES_PER_DAY * 60);
+  const candidate = new Date(at.getTime() + secondsUntilEnd * 1000);
+
+  // A DST change inside the quiet hours moves the local end by an hour
+  const drift = getLocalSecondsOfDay(candidate, window.timezone) - end * 60;
+  return drift !== 0 && Math.abs(drift) <= 3600
+    ? new Date(candidate.getTime() - drift * 1000)
+    : candidate;
+}
+
+/**
+ * Minutes after midnight for an HH:MM time
+ */
+export function parseClockTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time "${value}" (expected HH:MM)`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Whether a string names an IANA timezone this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Seconds since local midnight in a timezone
+ */
+function getLocalSecondsOfDay(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  return get('hour') * 3600 + get('minute') * 60 + get('second');
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,443 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ILogger } from '../interfaces/ILogger';
+
+export type OutboundKind = 'text' | 'bubbles' | 'reply' | 'attachment';
+
+export interface OutboundPayload {
+  text?: string;           // text / reply
+  bubbles?: string[];      // bubbles
+  batched?: boolean;
+  reply_to_guid?: string;  // reply
+  file_path?: string;      // attachment
+  caption?: string;
+}
+
+export interface OutboundItem {
+  id: string;
+  thread_id: string;
+  is_group: boolean;
+  kind: OutboundKind;
+  payload: OutboundPayload;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  command_id: string | null;  // Backend command that queued this send, if any
+}
+
+export interface DeadLetterOutbound extends OutboundItem {
+  dead_lettered_at: string;
+}
+
+/**
+ * Outcome of one delivery attempt; permanent failures are dead-lettered without retrying
+ */
+export type OutboundAttemptResult =
+  | { delivered: true }
+  | { delivered: false; error: string; permanent?: boolean };
+
+export type OutboundDeliverFn = (item: OutboundItem) => Promise<OutboundAttemptResult>;
+
+export interface OutboundQueueOptions {
+  maxAttempts: number;         // Attempts before an item is dead-lettered
+  baseBackoffMs: number;       // First retry delay (doubles per attempt)
+  maxBackoffMs: number;        // Cap on retry delay
+  jitterRatio: number;         // Random +/- fraction applied to each retry delay
+  maxConcurrentLanes: number;  // Threads delivered to at the same time
+  onStatsChange?: (stats: OutboundQueueStats) => void;
+}
+
+export interface OutboundQueueStats {
+  pending: number;
+  active_lanes: number;
+  dead_letter: number;
+  oldest_pending_age_seconds: number | null;
+  delivered_total: number;
+  retried_total: number;
+}
+
+export interface OutboundQueueTimers {
+  setTimer: (callback: () => void, ms: number) => NodeJS.Timeout;
+  clearTimer: (timer: NodeJS.Timeout) => void;
+}
+
+type DeadLetterCallback = (item: OutboundItem, error: string) => void;
+
+const DEFAULT_OPTIONS: Omit<OutboundQueueOptions, 'onStatsChange'> = {
+  maxAttempts: 5,
+  baseBackoffMs: 2000,
+  maxBackoffMs: 60 * 1000,
+  jitterRatio: 0.2,
+  maxConcurrentLanes: 3
+};
+
+/**
+ * OutboundQueue - Durable SQLite queue of messages we are sending
+ *
+ * Every send is written here first and delivered by a lane per thread: a
+ * thread's items go out one at a time in the order they were queued, so a
+ * failed bubble is retried (exponential backoff with jitter) before anything
+ * queued after it. Items that exhaust their attempts or fail permanently move
+ * to a dead-letter table. Delivery is at-least-once: an item in flight when
+ * the process dies is sent again on restart.
+ */
+export class OutboundQueue {
+  private db: Database.Database;
+  private options: OutboundQueueOptions;
+  private deliver: OutboundDeliverFn | null = null;
+  private activeLanes: Set<string> = new Set();
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private deadLetterCallback: DeadLetterCallback | null = null;
+  private deliveredTotal = 0;
+  private retriedTotal = 0;
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly logger: ILogger,
+    options: Partial<OutboundQueueOptions> = {},
+    private readonly timers: OutboundQueueTimers = {
+      setTimer: (callback, ms) => setTimeout(callback, ms),
+      clearTimer: (timer) => clearTimeout(timer)
+    }
+  ) {
+    this.options = {
+      maxAttempts: options.maxAttempts ?? DEFAULT_OPTIONS.maxAttempts,
+      baseBackoffMs: options.baseBackoffMs ?? DEFAULT_OPTIONS.baseBackoffMs,
+      maxBackoffMs: options.maxBackoffMs ?? DEFAULT_OPTIONS.maxBackoffMs,
+      jitterRatio: options.jitterRatio ?? DEFAULT_OPTIONS.jitterRatio,
+      maxConcurrentLanes: options.maxConcurrentLanes ?? DEFAULT_OPTIONS.maxConcurrentLanes,
+      onStatsChange: options.onStatsChange
+    };
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.initializeSchema();
+  }
+
+  /**
+   * Set callback for items that were given up on
+   */
+  onDeadLetter(callback: DeadLetterCallback): void {
+    this.deadLetterCallback = callback;
+  }
+
+  /**
+   * Start delivering (including anything left over from a previous run)
+   */
+  start(deliver: OutboundDeliverFn): void {
+    this.deliver = deliver;
+
+    const { pending } = this.getStats();
+    if (pending > 0) {
+      this.logger.info(`📮 Outbound queue has ${pending} unsent item(s) from previous run`);
+    }
+    this.pump();
+  }
+
+  /**
+   * Stop starting new deliveries; queued items stay for the next start
+   */
+  stop(): void {
+    this.deliver = null;
+    if (this.wakeTimer) {
+      this.timers.clearTimer(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+  }
+
+  /**
+   * Queue an item for delivery
+   */
+  enqueue(threadId: string, isGroup: boolean, kind: OutboundKind, payload: OutboundPayload, commandId?: string): OutboundItem {
+    const now = Date.now();
+    const item: OutboundItem = {
+      id: uuidv4(),
+      thread_id: threadId,
+      is_group: isGroup,
+      kind,
+      payload,
+      attempts: 0,
+      last_error: null,
+      created_at: new Date(now).toISOString(),
+      command_id: commandId ?? null
+    };
+
+    this.db.prepare(`
+      INSERT INTO outbound_queue (
+        id, thread_id, is_group, kind, payload, created_at, attempts, next_attempt_at, command_id
+      ) VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?)
+    `).run(item.id, threadId, isGroup ? 1 : 0, kind, JSON.stringify(payload), now, now, item.command_id);
+
+    this.notifyStats();
+    this.pump();
+    return item;
+  }
+
+  /**
+   * Items waiting to be delivered, oldest first
+   */
+  list(limit: number = 100): OutboundItem[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM outbound_queue ORDER BY seq ASC LIMIT ?
+    `).all(limit) as any[];
+
+    return rows.map(row => this.rowToItem(row));
+  }
+
+  /**
+   * Whether an attachment item waiting to be delivered still needs this file
+   */
+  hasPendingAttachment(filePath: string): boolean {
+    const row = this.db.prepare(`
+      SELECT 1 FROM outbound_queue
+      WHERE kind = 'attachment' AND json_extract(payload, '$.file_path') = ?
+      LIMIT 1
+    `).get(filePath);
+
+    return !!row;
+  }
+
+  /**
+   * Get the most recent dead-lettered items
+   */
+  getDeadLetters(limit: number = 100): DeadLetterOutbound[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM outbound_dead_letter ORDER BY dead_lettered_at DESC LIMIT ?
+    `).all(limit) as any[];
+
+    return rows.map(row => ({
+      ...this.rowToItem(row),
+      dead_lettered_at: new Date(row.dead_lettered_at).toISOString()
+    }));
+  }
+
+  /**
+   * Get queue statistics
+   */
+  getStats(): OutboundQueueStats {
+    const pending = this.db.prepare(`
+      SELECT COUNT(*) as count, MIN(created_at) as oldest FROM outbound_queue
+    `).get() as any;
+    const deadLetter = this.db.prepare(`SELECT COUNT(*) as count FROM outbound_dead_letter`).get() as any;
+
+    return {
+      pending: pending.count,
+      active_lanes: this.activeLanes.size,
+      dead_letter: deadLetter.count,
+      oldest_pending_age_seconds: pending.oldest
+        ? Math.floor((Date.now() - pending.oldest) / 1000)
+        : null,
+      delivered_total: this.deliveredTotal,
+      retried_total: this.retriedTotal
+    };
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.stop();
+    this.db.close();
+  }
+
+  /**
+   * Start a lane for every idle thread whose next item is due,
+   * and wake up again when the earliest retry comes due
+   */
+  private pump(): void {
+    if (!this.deliver) {
+      return;
+    }
+
+    // Head (oldest item) of every thread's lane
+    const heads = this.db.prepare(`
+      SELECT q.* FROM outbound_queue q
+      WHERE q.seq = (SELECT MIN(seq) FROM outbound_queue WHERE thread_id = q.thread_id)
+      ORDER BY q.next_attempt_at ASC, q.seq ASC
+    `).all() as any[];
+
+    const now = Date.now();
+    let nextWakeAt: number | null = null;
+
+    for (const row of heads) {
+      if (this.activeLanes.has(row.thread_id)) {
+        continue;
+      }
+      if (row.next_attempt_at > now) {
+        nextWakeAt = nextWakeAt === null ? row.next_attempt_at : Math.min(nextWakeAt, row.next_attempt_at);
+        continue;
+      }
+      if (this.activeLanes.size >= this.options.maxConcurrentLanes) {
+        break;
+      }
+
+      this.runLane(this.rowToItem(row));
+    }
+
+    if (this.wakeTimer) {
+      this.timers.clearTimer(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+    if (nextWakeAt !== null) {
+      this.wakeTimer = this.timers.setTimer(() => {
+        this.wakeTimer = null;
+        this.pump();
+      }, Math.max(0, nextWakeAt - now));
+    }
+  }
+
+  /**
+   * Deliver one item, record the outcome, then look for more work
+   */
+  private async runLane(item: OutboundItem): Promise<void> {
+    const deliver = this.deliver!;
+    this.activeLanes.add(item.thread_id);
+
+    let result: OutboundAttemptResult;
+    try {
+      result = await deliver(item);
+    } catch (error: any) {
+      result = { delivered: false, error: error.message };
+    }
+
+    try {
+      if (result.delivered) {
+        this.db.prepare(`DELETE FROM outbound_queue WHERE id = ?`).run(item.id);
+        this.deliveredTotal++;
+      } else {
+        this.recordFailure(item, result.error, result.permanent === true);
+      }
+      this.notifyStats();
+    } catch (error: any) {
+      // Database closed during shutdown - the item is delivered again on restart
+      this.logger.warn(`Failed to record outbound delivery ${item.id}: ${error.message}`);
+    } finally {
+      this.activeLanes.delete(item.thread_id);
+    }
+
+    this.pump();
+  }
+
+  /**
+   * Schedule a retry, or dead-letter the item once it is out of attempts
+   */
+  private recordFailure(item: OutboundItem, error: string, permanent: boolean): void {
+    const attempts = item.attempts + 1;
+
+    if (permanent || attempts >= this.options.maxAttempts) {
+      this.db.prepare(`UPDATE outbound_queue SET attempts = ?, last_error = ? WHERE id = ?`)
+        .run(attempts, error, item.id);
+      this.moveToDeadLetter(item.id, permanent ? 'permanent_failure' : 'max_attempts');
+      this.deadLetterCallback?.({ ...item, attempts, last_error: error }, error);
+      return;
+    }
+
+    const delayMs = this.getBackoffMs(attempts);
+    this.db.prepare(`
+      UPDATE outbound_queue SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?
+    `).run(attempts, Date.now() + delayMs, error, item.id);
+    this.retriedTotal++;
+
+    this.logger.warn(
+      `🔁 Send to ${item.thread_id} failed (attempt ${attempts}/${this.options.maxAttempts}): ${error} - retrying in ${Math.round(delayMs / 1000)}s`
+    );
+  }
+
+  /**
+   * Move an item from the queue to the dead-letter table
+   */
+  private moveToDeadLetter(id: string, reason: string): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO outbound_dead_letter (
+        id, thread_id, is_group, kind, payload, created_at, attempts, last_error, command_id, reason, dead_lettered_at
+      )
+      SELECT id, thread_id, is_group, kind, payload, created_at, attempts, last_error, command_id, ?, ?
+      FROM outbound_queue WHERE id = ?
+    `).run(reason, Date.now(), id);
+    this.db.prepare(`DELETE FROM outbound_queue WHERE id = ?`).run(id);
+
+    this.logger.error(`☠️  Outbound item ${id} moved to dead letter (${reason})`);
+  }
+
+  private notifyStats(): void {
+    if (this.options.onStatsChange) {
+      this.options.onStatsChange(this.getStats());
+    }
+  }
+
+  /**
+   * Exponential backoff with +/- jitter for the given attempt count
+   */
+  private getBackoffMs(attempts: number): number {
+    const backoff = Math.min(
+      this.options.baseBackoffMs * Math.pow(2, attempts - 1),
+      this.options.maxBackoffMs
+    );
+    const jitter = backoff * this.options.jitterRatio * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(backoff + jitter));
+  }
+
+  private rowToItem(row: any): OutboundItem {
+    return {
+      id: row.id,
+      thread_id: row.thread_id,
+      is_group: row.is_group === 1,
+      kind: row.kind,
+      payload: JSON.parse(row.payload),
+      attempts: row.attempts,
+      last_error: row.last_error ?? null,
+      created_at: new Date(row.created_at).toISOString(),
+      command_id: row.command_id ?? null
+    };
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS outbound_queue (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        thread_id TEXT NOT NULL,
+        is_group INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT,
+        command_id TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_outbound_queue_thread
+      ON outbound_queue(thread_id, seq);
+
+      CREATE TABLE IF NOT EXISTS outbound_dead_letter (
+        id TEXT PRIMARY KEY,
+        thread_id TEXT NOT NULL,
+        is_group INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        command_id TEXT,
+        reason TEXT NOT NULL,
+        dead_lettered_at INTEGER NOT NULL
+      );
+    `);
+
+    // Queues created before sends carried their command_id
+    for (const table of ['outbound_queue', 'outbound_dead_letter']) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!columns.some(column => column.name === 'command_id')) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN command_id TEXT`);
+      }
+    }
+  }
+}
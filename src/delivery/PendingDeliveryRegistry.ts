@@ -0,0 +1,203 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ILogger } from '../interfaces/ILogger';
+
+/**
+ * What happens to a pending burst when the user sends another message
+ * in the same thread before it goes out:
+ * - cancel:    drop the burst immediately
+ * - supersede: keep it until the backend produces a new reply for the thread
+ *              (the new reply replaces it); if no reply comes, it still sends
+ * - none:      always send as scheduled
+ */
+export type BurstInterruptPolicy = 'cancel' | 'supersede' | 'none';
+
+export interface PendingDelivery {
+  id: string;
+  thread_id: string;
+  is_group: boolean;
+  messages: string[];
+  policy: BurstInterruptPolicy;
+  created_at: string;
+  send_at: string;
+  /** Set once a newer inbound message arrived (supersede policy) */
+  interrupted: boolean;
+}
+
+export interface PendingDeliveryTimers {
+  setTimer: (callback: () => void, ms: number) => NodeJS.Timeout;
+  clearTimer: (timer: NodeJS.Timeout) => void;
+}
+
+type DeliverFn = (delivery: PendingDelivery) => Promise<boolean>;
+
+/**
+ * PendingDeliveryRegistry - Tracks delayed burst deliveries per thread
+ *
+ * Bursts are held on a timer so they can be cancelled when the conversation
+ * moves on, listed in the admin portal, and drained on shutdown.
+ */
+export class PendingDeliveryRegistry {
+  private pending: Map<string, { delivery: PendingDelivery; timer: NodeJS.Timeout }> = new Map();
+
+  constructor(
+    private readonly logger: ILogger,
+    private readonly deliver: DeliverFn,
+    private readonly timers: PendingDeliveryTimers = {
+      setTimer: (callback, ms) => setTimeout(callback, ms),
+      clearTimer: (timer) => clearTimeout(timer)
+    }
+  ) {}
+
+  /**
+   * Schedule a burst for delivery after delayMs
+   */
+  schedule(
+    threadId: string,
+    isGroup: boolean,
+    messages: string[],
+    delayMs: number,
+    policy: BurstInterruptPolicy
+  ): PendingDelivery {
+    const now = Date.now();
+    const delivery: PendingDelivery = {
+      id: uuidv4(),
+      thread_id: threadId,
+      is_group: isGroup,
+      messages,
+      policy,
+      created_at: new Date(now).toISOString(),
+      send_at: new Date(now + delayMs).toISOString(),
+      interrupted: false
+    };
+
+    const timer = this.timers.setTimer(() => {
+      this.fire(delivery.id);
+    }, delayMs);
+
+    this.pending.set(delivery.id, { delivery, timer });
+    this.logger.debug(`Pending delivery ${delivery.id} scheduled for ${threadId} (${messages.length} message(s), policy=${policy})`);
+    return delivery;
+  }
+
+  /**
+   * A new inbound message arrived in the thread
+   * Cancels bursts with the cancel policy and marks supersede bursts as interrupted
+   */
+  onInboundMessage(threadId: string): PendingDelivery[] {
+    const cancelled: PendingDelivery[] = [];
+
+    for (const { delivery } of this.getEntriesForThread(threadId)) {
+      if (delivery.policy === 'cancel') {
+        this.remove(delivery.id);
+        cancelled.push(delivery);
+      } else if (delivery.policy === 'supersede') {
+        delivery.interrupted = true;
+      }
+    }
+
+    if (cancelled.length > 0) {
+      this.logger.info(`🛑 Cancelled ${cancelled.length} pending burst(s) for ${threadId} - user kept talking`);
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * A new reply is about to be sent to the thread
+   * Drops interrupted supersede bursts so the stale burst never follows the new reply
+   */
+  supersede(threadId: string): PendingDelivery[] {
+    const superseded: PendingDelivery[] = [];
+
+    for (const { delivery } of this.getEntriesForThread(threadId)) {
+      if (delivery.policy === 'supersede' && delivery.interrupted) {
+        this.remove(delivery.id);
+        superseded.push(delivery);
+      }
+    }
+
+    if (superseded.length > 0) {
+      this.logger.info(`🔀 Superseded ${superseded.length} pending burst(s) for ${threadId} with a newer reply`);
+    }
+
+    return superseded;
+  }
+
+  /**
+   * Cancel a pending delivery by ID
+   */
+  cancel(id: string): boolean {
+    const removed = this.remove(id);
+    if (removed) {
+      this.logger.info(`🛑 Pending delivery ${id} cancelled`);
+    }
+    return removed;
+  }
+
+  /**
+   * Cancel every pending delivery for a thread
+   */
+  cancelThread(threadId: string): PendingDelivery[] {
+    const cancelled = this.getEntriesForThread(threadId).map(entry => entry.delivery);
+    cancelled.forEach(delivery => this.remove(delivery.id));
+    return cancelled;
+  }
+
+  /**
+   * List pending deliveries (soonest first)
+   */
+  list(): PendingDelivery[] {
+    return Array.from(this.pending.values())
+      .map(entry => ({ ...entry.delivery }))
+      .sort((a, b) => a.send_at.localeCompare(b.send_at));
+  }
+
+  /**
+   * Number of pending deliveries
+   */
+  size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Stop all timers and hand back everything still pending (used on shutdown)
+   */
+  drain(): PendingDelivery[] {
+    const drained = this.list();
+    for (const { timer } of this.pending.values()) {
+      this.timers.clearTimer(timer);
+    }
+    this.pending.clear();
+    return drained;
+  }
+
+  private async fire(id: string): Promise<void> {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return;
+    }
+
+    this.pending.delete(id);
+
+    try {
+      await this.deliver(entry.delivery);
+    } catch (error: any) {
+      this.logger.error(`Pending delivery ${id} failed: ${error.message}`);
+    }
+  }
+
+  private remove(id: string): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.timers.clearTimer(entry.timer);
+    this.pending.delete(id);
+    return true;
+  }
+
+  private getEntriesForThread(threadId: string): Array<{ delivery: PendingDelivery; timer: NodeJS.Timeout }> {
+    return Array.from(this.pending.values()).filter(entry => entry.delivery.thread_id === threadId);
+  }
+}
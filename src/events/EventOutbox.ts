@@ -0,0 +1,299 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../interfaces/ILogger';
+import { EdgeEventWrapper } from '../interfaces/ICommands';
+
+export interface EventOutboxOptions {
+  maxSize: number;          // Max pending events before the oldest are dead-lettered
+  maxAttempts: number;      // Delivery attempts before an event is dead-lettered
+  baseBackoffMs: number;    // First retry delay (doubles per attempt)
+  maxBackoffMs: number;     // Cap on retry delay
+}
+
+export interface EventOutboxStats {
+  pending: number;
+  dead_letter: number;
+  oldest_pending_age_seconds: number | null;
+}
+
+export interface DeadLetterEvent extends EdgeEventWrapper {
+  attempts: number;
+  reason: string;
+  last_error: string | null;
+  created_at: string;
+  dead_lettered_at: string;
+}
+
+const DEFAULT_OPTIONS: EventOutboxOptions = {
+  maxSize: 5000,
+  maxAttempts: 10,
+  baseBackoffMs: 5000,
+  maxBackoffMs: 10 * 60 * 1000
+};
+
+/**
+ * EventOutbox - Durable SQLite queue of edge → backend events
+ *
+ * Events stay in the outbox until the backend acknowledges them (WebSocket
+ * event_ack or HTTP sync ack_events). Every delivery attempt pushes the next
+ * attempt out with exponential backoff; events that exhaust their attempts or
+ * overflow the size cap are moved to a dead-letter table.
+ */
+export class EventOutbox {
+  private db: Database.Database;
+  private options: EventOutboxOptions;
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly logger: ILogger,
+    options: Partial<EventOutboxOptions> = {}
+  ) {
+    this.options = {
+      maxSize: options.maxSize ?? DEFAULT_OPTIONS.maxSize,
+      maxAttempts: options.maxAttempts ?? DEFAULT_OPTIONS.maxAttempts,
+      baseBackoffMs: options.baseBackoffMs ?? DEFAULT_OPTIONS.baseBackoffMs,
+      maxBackoffMs: options.maxBackoffMs ?? DEFAULT_OPTIONS.maxBackoffMs
+    };
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.initializeSchema();
+  }
+
+  /**
+   * Add an event to the outbox
+   */
+  enqueue(event: EdgeEventWrapper): void {
+    const now = Date.now();
+
+    this.db.prepare(`
+      INSERT OR IGNORE INTO event_outbox (
+        event_id, event_type, thread_id, details, created_at, attempts, next_attempt_at
+      ) VALUES (?, ?, ?, ?, ?, 0, ?)
+    `).run(
+      event.event_id,
+      event.event_type,
+      event.thread_id ?? null,
+      JSON.stringify(event.details ?? {}),
+      now,
+      now
+    );
+
+    this.enforceMaxSize();
+  }
+
+  /**
+   * Get events that are due for a delivery attempt (oldest first)
+   */
+  getDueEvents(limit: number = 50): EdgeEventWrapper[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM event_outbox
+      WHERE next_attempt_at <= ?
+      ORDER BY created_at ASC, rowid ASC
+      LIMIT ?
+    `).all(Date.now(), limit) as any[];
+
+    return rows.map(row => this.rowToEvent(row));
+  }
+
+  /**
+   * Record a delivery attempt and schedule the next retry
+   * Events that reach maxAttempts are moved to the dead-letter table
+   */
+  markAttempted(eventIds: string[], error?: string): void {
+    if (eventIds.length === 0) {
+      return;
+    }
+
+    const select = this.db.prepare(`SELECT attempts FROM event_outbox WHERE event_id = ?`);
+    const update = this.db.prepare(`
+      UPDATE event_outbox
+      SET attempts = ?, next_attempt_at = ?, last_error = ?
+      WHERE event_id = ?
+    `);
+
+    const run = this.db.transaction((ids: string[]) => {
+      for (const eventId of ids) {
+        const row = select.get(eventId) as { attempts: number } | undefined;
+        if (!row) {
+          continue;
+        }
+
+        const attempts = row.attempts + 1;
+        if (attempts >= this.options.maxAttempts) {
+          update.run(attempts, Date.now(), error ?? null, eventId);
+          this.moveToDeadLetter(eventId, 'max_attempts');
+          continue;
+        }
+
+        update.run(attempts, Date.now() + this.getBackoffMs(attempts), error ?? null, eventId);
+      }
+    });
+
+    run(eventIds);
+  }
+
+  /**
+   * Remove events the backend has acknowledged
+   */
+  acknowledge(eventIds: string[]): number {
+    if (eventIds.length === 0) {
+      return 0;
+    }
+
+    const stmt = this.db.prepare(`DELETE FROM event_outbox WHERE event_id = ?`);
+    const run = this.db.transaction((ids: string[]) => {
+      let removed = 0;
+      for (const eventId of ids) {
+        removed += stmt.run(eventId).changes;
+      }
+      return removed;
+    });
+
+    return run(eventIds);
+  }
+
+  /**
+   * Get the most recent dead-lettered events
+   */
+  getDeadLetters(limit: number = 100): DeadLetterEvent[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM event_dead_letter
+      ORDER BY dead_lettered_at DESC
+      LIMIT ?
+    `).all(limit) as any[];
+
+    return rows.map(row => ({
+      ...this.rowToEvent(row),
+      attempts: row.attempts,
+      reason: row.reason,
+      last_error: row.last_error,
+      created_at: new Date(row.created_at).toISOString(),
+      dead_lettered_at: new Date(row.dead_lettered_at).toISOString()
+    }));
+  }
+
+  /**
+   * Get outbox statistics
+   */
+  getStats(): EventOutboxStats {
+    const pending = this.db.prepare(`
+      SELECT COUNT(*) as count, MIN(created_at) as oldest FROM event_outbox
+    `).get() as any;
+    const deadLetter = this.db.prepare(`SELECT COUNT(*) as count FROM event_dead_letter`).get() as any;
+
+    return {
+      pending: pending.count,
+      dead_letter: deadLetter.count,
+      oldest_pending_age_seconds: pending.oldest
+        ? Math.floor((Date.now() - pending.oldest) / 1000)
+        : null
+    };
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Dead-letter the oldest events when the outbox exceeds maxSize
+   */
+  private enforceMaxSize(): void {
+    const { count } = this.db.prepare(`SELECT COUNT(*) as count FROM event_outbox`).get() as any;
+    const overflow = count - this.options.maxSize;
+    if (overflow <= 0) {
+      return;
+    }
+
+    const rows = this.db.prepare(`
+      SELECT event_id FROM event_outbox
+      ORDER BY created_at ASC, rowid ASC
+      LIMIT ?
+    `).all(overflow) as { event_id: string }[];
+
+    const run = this.db.transaction(() => {
+      for (const row of rows) {
+        this.moveToDeadLetter(row.event_id, 'overflow');
+      }
+    });
+    run();
+
+    this.logger.warn(`⚠️  Event outbox full (max ${this.options.maxSize}) - dead-lettered ${rows.length} oldest event(s)`);
+  }
+
+  /**
+   * Move an event from the outbox to the dead-letter table
+   */
+  private moveToDeadLetter(eventId: string, reason: string): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO event_dead_letter (
+        event_id, event_type, thread_id, details, created_at, attempts, last_error, reason, dead_lettered_at
+      )
+      SELECT event_id, event_type, thread_id, details, created_at, attempts, last_error, ?, ?
+      FROM event_outbox WHERE event_id = ?
+    `).run(reason, Date.now(), eventId);
+    this.db.prepare(`DELETE FROM event_outbox WHERE event_id = ?`).run(eventId);
+
+    if (reason !== 'overflow') {
+      this.logger.warn(`☠️  Event ${eventId} moved to dead letter (${reason})`);
+    }
+  }
+
+  /**
+   * Exponential backoff for the given attempt count
+   */
+  private getBackoffMs(attempts: number): number {
+    return Math.min(
+      this.options.baseBackoffMs * Math.pow(2, attempts - 1),
+      this.options.maxBackoffMs
+    );
+  }
+
+  private rowToEvent(row: any): EdgeEventWrapper {
+    return {
+      event_id: row.event_id,
+      event_type: row.event_type,
+      thread_id: row.thread_id ?? undefined,
+      details: JSON.parse(row.details)
+    };
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS event_outbox (
+        event_id TEXT PRIMARY KEY,
+        event_type TEXT NOT NULL,
+        thread_id TEXT,
+        details TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_event_outbox_next_attempt
+      ON event_outbox(next_attempt_at);
+
+      CREATE TABLE IF NOT EXISTS event_dead_letter (
+        event_id TEXT PRIMARY KEY,
+        event_type TEXT NOT NULL,
+        thread_id TEXT,
+        details TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        reason TEXT NOT NULL,
+        dead_lettered_at INTEGER NOT NULL
+      );
+    `);
+  }
+}
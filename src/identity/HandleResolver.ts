@@ -0,0 +1,199 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../interfaces/ILogger';
+import { isEmailHandle, normalizeHandle } from './handles';
+
+export type HandleAliasSource = 'manual' | 'chat_db';
+
+export interface HandleAlias {
+  handle: string;
+  alias: string;
+  source: HandleAliasSource;
+  created_at: string;
+}
+
+/**
+ * HandleResolver - Maps every handle of a person to one identity
+ *
+ * Handles are normalized (E.164 / lowercase email) and grouped: chat.db links
+ * handles of the same contact through handle.person_centric_id, and manual
+ * links are kept in a local alias store. Each group resolves to one canonical
+ * handle, preferring a phone number. Compare senders with isSamePerson(),
+ * never with ===.
+ */
+export class HandleResolver {
+  private db: Database.Database;
+  private parent: Map<string, string> = new Map();
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly logger: ILogger,
+    private readonly defaultRegion: string = 'US'
+  ) {
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.initializeSchema();
+    this.loadAliases();
+  }
+
+  /**
+   * Canonical form of a single handle (no alias lookup)
+   */
+  normalize(handle: string): string {
+    return normalizeHandle(handle, this.defaultRegion);
+  }
+
+  /**
+   * Canonical handle of the person behind a handle
+   */
+  resolve(handle: string): string {
+    return this.find(this.normalize(handle));
+  }
+
+  /**
+   * Whether two handles belong to the same person
+   */
+  isSamePerson(a: string, b: string): boolean {
+    return this.resolve(a) === this.resolve(b);
+  }
+
+  /**
+   * Whether the person is only known by email (no linked phone number)
+   */
+  isEmailOnly(handle: string): boolean {
+    return isEmailHandle(this.resolve(handle));
+  }
+
+  /**
+   * Record that two handles belong to the same person
+   */
+  link(handle: string, alias: string, source: HandleAliasSource = 'manual'): void {
+    const normalizedHandle = this.normalize(handle);
+    const normalizedAlias = this.normalize(alias);
+    if (normalizedHandle === normalizedAlias) {
+      return;
+    }
+
+    this.db.prepare(`
+      INSERT OR IGNORE INTO handle_aliases (handle, alias, source, created_at) VALUES (?, ?, ?, ?)
+    `).run(normalizedHandle, normalizedAlias, source, new Date().toISOString());
+    this.union(normalizedHandle, normalizedAlias);
+  }
+
+  /**
+   * Link handles chat.db already knows belong to one contact (handle.person_centric_id).
+   * Returns the number of handles linked; older chat.db schemas have no such column.
+   */
+  loadChatDbLinks(chatDbPath: string): number {
+    const chatDb = new Database(chatDbPath, { readonly: true });
+    try {
+      const columns = chatDb.prepare('PRAGMA table_info(handle)').all() as Array<{ name: string }>;
+      if (!columns.some(column => column.name === 'person_centric_id')) {
+        return 0;
+      }
+
+      const rows = chatDb.prepare(`
+        SELECT id, person_centric_id
+        FROM handle
+        WHERE person_centric_id IS NOT NULL AND person_centric_id != ''
+        ORDER BY person_centric_id, ROWID
+      `).all() as Array<{ id: string; person_centric_id: string }>;
+
+      const firstHandle: Map<string, string> = new Map();
+      let linked = 0;
+      for (const row of rows) {
+        const first = firstHandle.get(row.person_centric_id);
+        if (!first) {
+          firstHandle.set(row.person_centric_id, row.id);
+          continue;
+        }
+        if (!this.isSamePerson(first, row.id)) {
+          this.link(first, row.id, 'chat_db');
+          linked++;
+        }
+      }
+
+      if (linked > 0) {
+        this.logger.info(`🔗 Linked ${linked} handle(s) to contacts from chat.db`);
+      }
+      return linked;
+    } finally {
+      chatDb.close();
+    }
+  }
+
+  /**
+   * All stored handle links
+   */
+  listAliases(): HandleAlias[] {
+    return this.db.prepare(`
+      SELECT handle, alias, source, created_at FROM handle_aliases ORDER BY created_at DESC
+    `).all() as HandleAlias[];
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private loadAliases(): void {
+    const rows = this.db.prepare(`SELECT handle, alias FROM handle_aliases`).all() as Array<{ handle: string; alias: string }>;
+    rows.forEach(row => this.union(row.handle, row.alias));
+  }
+
+  private find(handle: string): string {
+    let root = handle;
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+
+    // Path compression
+    let current = handle;
+    while (current !== root) {
+      const next = this.parent.get(current)!;
+      this.parent.set(current, root);
+      current = next;
+    }
+
+    return root;
+  }
+
+  /**
+   * Merge two groups; a phone number wins as the canonical handle
+   */
+  private union(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) {
+      return;
+    }
+
+    const aIsPhone = !isEmailHandle(rootA);
+    const bIsPhone = !isEmailHandle(rootB);
+    const keepA = aIsPhone !== bIsPhone ? aIsPhone : rootA < rootB;
+
+    this.parent.set(keepA ? rootB : rootA, keepA ? rootA : rootB);
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS handle_aliases (
+        handle TEXT NOT NULL,
+        alias TEXT NOT NULL,
+        source TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (handle, alias)
+      );
+    `);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * iMessage handle normalization
+ *
+ * chat.db and the transports report the same person in many shapes:
+ * "+13105551234", "13105551234", "(310) 555-1234", "e:Foo@Bar.com", "tel:+1...".
+ * normalizeHandle() turns them into one canonical form: E.164 for phone
+ * numbers, lowercase for emails.
+ */
+
+// Country calling codes for the regions a national number may be written in
+const CALLING_CODES: Record<string, string> = {
+  US: '1',
+  CA: '1',
+  GB: '44',
+  IE: '353',
+  AU: '61',
+  NZ: '64',
+  DE: '49',
+  FR: '33',
+  ES: '34',
+  IT: '39',
+  NL: '31',
+  IN: '91',
+  JP: '81',
+  MX: '52',
+  BR: '55'
+};
+
+// URI-style prefixes Messages uses for handles (e: email, p: phone)
+const HANDLE_PREFIX = /^(e:|p:|tel:|mailto:|sms:|imessage:)/i;
+
+/**
+ * Whether a handle is an email Apple ID rather than a phone number
+ */
+export function isEmailHandle(handle: string): boolean {
+  return handle.replace(HANDLE_PREFIX, '').includes('@');
+}
+
+/**
+ * Canonical form of a handle; unrecognized handles are returned trimmed
+ */
+export function normalizeHandle(handle: string, defaultRegion: string = 'US'): string {
+  const stripped = handle.trim().replace(HANDLE_PREFIX, '');
+
+  if (stripped.includes('@')) {
+    return stripped.toLowerCase();
+  }
+
+  return normalizePhoneNumber(stripped, defaultRegion) ?? stripped;
+}
+
+/**
+ * E.164 form of a phone number, or null if it doesn't look like one
+ */
+export function normalizePhoneNumber(phone: string, defaultRegion: string = 'US'): string | null {
+  // Only digits, spaces and phone punctuation
+  if (!/^\+?[\d\s().\-]+$/.test(phone)) {
+    return null;
+  }
+
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) {
+    return null;
+  }
+
+  if (phone.startsWith('+')) {
+    return `+${digits}`;
+  }
+
+  // International dialing prefix written out ("00 44 ...")
+  if (digits.startsWith('00')) {
+    return `+${digits.substring(2)}`;
+  }
+
+  const callingCode = CALLING_CODES[defaultRegion.toUpperCase()] ?? '1';
+
+  // North American numbers: 10 digits, or 11 with the leading 1
+  if (callingCode === '1') {
+    if (digits.length === 10) {
+      return `+1${digits}`;
+    }
+    if (digits.length === 11 && digits.startsWith('1')) {
+      return `+${digits}`;
+    }
+    return null;
+  }
+
+  // Already includes the country code
+  if (digits.startsWith(callingCode) && digits.length > 10) {
+    return `+${digits}`;
+  }
+
+  // National format: drop the trunk prefix
+  return `+${callingCode}${digits.replace(/^0/, '')}`;
+}
@@ -14,7 +14,18 @@ import { RailwayClient } from './backend/RailwayClient';
 import { WebSocketClient } from './backend/WebSocketClient';
 import { Scheduler } from './scheduler/Scheduler';
 import { CommandHandler } from './commands/CommandHandler';
+import { CommandLedger, CommandLedgerEntry } from './commands/CommandLedger';
 import { RuleEngine } from './rules/RuleEngine';
+import { RuleExecutor } from './rules/RuleExecutor';
+import { EventOutbox } from './events/EventOutbox';
+import { PendingDeliveryRegistry, PendingDelivery } from './delivery/PendingDeliveryRegistry';
+import { OutboundQueue, OutboundItem, DeadLetterOutbound } from './delivery/OutboundQueue';
+import { DeliveryWindowPolicy, DeliveryWindowOverride, ThreadDeliveryWindow } from './delivery/DeliveryWindowPolicy';
+import { InboundDispatcher } from './pipeline/InboundDispatcher';
+import { InboundJournal, InboundJournalEntry, InboundJournalStatus } from './pipeline/InboundJournal';
+import { planReplay, InboundReplaySummary } from './pipeline/InboundReplay';
+import { SeenMessageSet } from './pipeline/SeenMessageSet';
+import { MessageCoalescer } from './pipeline/MessageCoalescer';
 import { PlanManager } from './plans/PlanManager';
 import { SentryMonitoring } from './monitoring/sentry';
 import { PostHogAnalytics } from './monitoring/posthog';
@@ -24,17 +35,28 @@ import {
   EdgeEventWrapper,
   EdgeCommandWrapper,
   UploadRetryCommand,
-  EmitEventCommand
+  EmitEventCommand,
+  ReplayMessagesCommand
 } from './interfaces/ICommands';
 import { ContextManager, MiniAppContext } from './context/ContextManager';
 import { AttachmentCache } from './context/AttachmentCache';
 import { AttachmentProcessor } from './attachments/AttachmentProcessor';
 import { PhotoTranscoder } from './attachments/PhotoTranscoder';
-import { BackendAttachmentSummary, BackendMiniAppContext } from './interfaces/IBackendClient';
+import { OutboundAttachmentStager } from './attachments/OutboundAttachmentStager';
+import { BackendAttachmentSummary, BackendMiniAppContext, BackendResponseTarget } from './interfaces/IBackendClient';
 import { KeychainManager } from './utils/keychain';
-import { IMessageTransport, MessageAttachment } from './interfaces/IMessageTransport';
+import { IMessageTransport, MessageAttachment, IncomingReaction, IncomingCorrection, IncomingGroupChange, OutboundReceipt } from './interfaces/IMessageTransport';
 import { NativeBridgeTransport } from './transports/NativeBridgeTransport';
+import { NativeHelperStatus, NativeHelperAlert } from './transports/NativeHelperSupervisor';
+import { QueuedTransport } from './transports/QueuedTransport';
+import { FailoverTransport, TransportSwitch, FailoverStats } from './transports/FailoverTransport';
+import { SimulatorTransport } from './transports/SimulatorTransport';
+import { SyntheticChatDb } from './simulator/SyntheticChatDb';
+import { SyntheticChatDbSender } from './simulator/SyntheticChatDbSender';
+import { ChatDbScriptPlayer, ChatDbEvent, loadChatDbScript } from './simulator/ChatDbScript';
 import { EmailSenderGate } from './validation/EmailSenderGate';
+import { HandleResolver, HandleAlias } from './identity/HandleResolver';
+import { validateCommandSafe, isValidCommandId, CommandValidationIssue } from './validation/command.validation';
 
 /**
  * Main application class
@@ -50,18 +72,32 @@ class EdgeAgent {
   private wsClient: WebSocketClient;
   private scheduler: Scheduler;
   private ruleEngine: RuleEngine;
+  private ruleExecutor: RuleExecutor;
   private planManager: PlanManager;
   private commandHandler: CommandHandler;
+  private commandLedger: CommandLedger;
   private contextManager: ContextManager;
   private attachmentCache: AttachmentCache;
   private attachmentProcessor: AttachmentProcessor;
   private photoTranscoder: PhotoTranscoder;
   private emailSenderGate: EmailSenderGate;
+  private handles: HandleResolver;
+  private eventOutbox: EventOutbox;
+  private pendingDeliveries: PendingDeliveryRegistry;
+  private outboundQueue: OutboundQueue;
+  private deliveryWindow: DeliveryWindowPolicy;
+  private syntheticChatDb: SyntheticChatDb | null = null;
+  private syntheticScript: { player: ChatDbScriptPlayer; events: ChatDbEvent[] } | null = null;
+  private nativeHelperStatus: NativeHelperStatus | null = null;  // Latest state from the helper supervisor
+  private inboundDispatcher: InboundDispatcher;
+  private inboundJournal: InboundJournal;
+  private seenMessages: SeenMessageSet;
+  private messageCoalescer: MessageCoalescer | null = null;
+  private outboundReceipts = { delivered: 0, read: 0, failed: 0 };
   private pollInterval: NodeJS.Timeout | null = null;
   private syncInterval: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
   private startTime: Date = new Date();
-  private pendingEvents: EdgeEventWrapper[] = [];
   private lastCommandId: string | null = null;
   private useWebSocket: boolean = true; // Enable WebSocket by default
 
@@ -95,8 +131,39 @@ class EdgeAgent {
       this.config.imessage.attachments_path ||
       `${process.env.HOME}/Library/Messages/Attachments`;
 
+    const stateDbPath = this.config.database?.state_path || './data/edge-state.db';
+    const outboundAttachments = new OutboundAttachmentStager(this.logger, {
+      maxBytes: this.config.outbound_attachments?.max_bytes,
+      allowedMimeTypes: this.config.outbound_attachments?.allowed_mime_types,
+      isQueued: (filePath) => this.outboundQueue.hasPendingAttachment(filePath)
+    });
+
+    // Outbound send queue (per-thread lanes, retries, dead letter) - every send goes through it
+    const delivery = this.config.delivery || {};
+    this.outboundQueue = new OutboundQueue(
+      stateDbPath,
+      this.logger,
+      {
+        maxAttempts: delivery.max_attempts,
+        baseBackoffMs: delivery.retry_base_ms,
+        maxBackoffMs: delivery.retry_max_ms,
+        maxConcurrentLanes: delivery.max_concurrent_threads,
+        onStatsChange: (stats) => this.healthCheck.setOutboundQueueStats(stats)
+      },
+      {
+        setTimer: (callback, ms) => this.safeSetTimeout(callback, ms),
+        clearTimer: (timer) => this.safeClearTimeout(timer)
+      }
+    );
+    this.outboundQueue.onDeadLetter((item, error) => this.reportSendFailure(item, error));
+
     // Initialize transport
-    this.transport = this.initializeTransport(attachmentsPath);
+    this.transport = new QueuedTransport(
+      this.initializeTransport(attachmentsPath, stateDbPath),
+      this.outboundQueue,
+      this.logger,
+      outboundAttachments
+    );
 
     // Initialize backend client and WebSocket (both use EDGE_SECRET for auth)
     const edgeSecret = process.env.EDGE_SECRET;
@@ -118,9 +185,30 @@ class EdgeAgent {
       this.logger
     );
 
+    // Handle normalization + contact identity (every sender comparison goes through this)
+    this.handles = new HandleResolver(stateDbPath, this.logger, this.config.edge.default_region || 'US');
+
+    // Quiet hours in the recipient's timezone (thread → persona → global)
+    const windows = this.config.delivery_windows || {};
+    this.deliveryWindow = new DeliveryWindowPolicy(
+      stateDbPath,
+      this.logger,
+      {
+        enabled: windows.enabled ?? false,
+        defaults: {
+          timezone: windows.timezone,
+          quiet_start: windows.quiet_start,
+          quiet_end: windows.quiet_end
+        },
+        personas: windows.personas,
+        getPersonaId: () => this.config.edge.persona_id
+      },
+      this.handles
+    );
+
     // Initialize scheduler
     const dbPath = this.config.database?.path || './data/scheduler.db';
-    this.scheduler = new Scheduler(dbPath, this.transport, this.logger, this.posthog);
+    this.scheduler = new Scheduler(dbPath, this.transport, this.logger, this.posthog, this.deliveryWindow);
 
     // Set up scheduler acknowledgment callback for scheduled message execution
     this.scheduler.onAck((commandId, status, options) => {
@@ -129,13 +217,13 @@ class EdgeAgent {
 
     // Initialize rule engine
     const rulesDbPath = this.config.database?.rules_path || './data/rules.db';
-    this.ruleEngine = new RuleEngine(rulesDbPath, this.logger);
+    this.ruleEngine = new RuleEngine(rulesDbPath, this.logger, this.handles);
+    this.ruleExecutor = new RuleExecutor(this.ruleEngine, this.scheduler, this.transport, this.logger);
 
     // Initialize plan manager
     const plansDbPath = this.config.database?.plans_path || './data/plans.db';
     this.planManager = new PlanManager(plansDbPath, this.logger);
 
-    const stateDbPath = this.config.database?.state_path || './data/edge-state.db';
     const keychainManager = new KeychainManager(
       this.config.security?.keychain_service || 'com.ikiro.edge',
       this.config.security?.keychain_account || 'edge-state',
@@ -145,6 +233,24 @@ class EdgeAgent {
     this.contextManager = new ContextManager(stateDbPath, stateKey, this.logger);
     this.attachmentCache = new AttachmentCache(stateDbPath, stateKey, this.logger);
 
+    // Initialize durable event outbox (edge → backend events survive restarts)
+    this.eventOutbox = new EventOutbox(stateDbPath, this.logger, {
+      maxSize: this.config.events?.outbox_max_size,
+      maxAttempts: this.config.events?.max_attempts
+    });
+
+    // Initialize command ledger (idempotent execution + persisted sync cursor)
+    this.commandLedger = new CommandLedger(stateDbPath, this.logger);
+    this.commandLedger.prune();
+    this.lastCommandId = this.commandLedger.getLastCommandId();
+
+    // Initialize inbound journal (polled messages survive crashes until handled)
+    this.inboundJournal = new InboundJournal(stateDbPath, this.logger);
+    this.inboundJournal.prune();
+
+    // Message GUIDs already polled (duplicates after a cursor reset are dropped)
+    this.seenMessages = new SeenMessageSet(stateDbPath, this.logger);
+
     const maxPhotoBytes = 5 * 1024 * 1024;
     this.photoTranscoder = new PhotoTranscoder(this.logger, maxPhotoBytes);
     this.attachmentProcessor = new AttachmentProcessor(
@@ -153,8 +259,51 @@ class EdgeAgent {
       this.photoTranscoder
     );
 
+    // Delayed burst deliveries (tracked timers, cancellable per thread)
+    this.pendingDeliveries = new PendingDeliveryRegistry(
+      this.logger,
+      (delivery) => this.sendPendingBurst(delivery),
+      {
+        setTimer: (callback, ms) => this.safeSetTimeout(callback, ms),
+        clearTimer: (timer) => this.safeClearTimeout(timer)
+      }
+    );
+
+    // Inbound dispatcher (per-thread ordering, bounded concurrency and queue)
+    const performance = this.config.performance || {};
+    this.inboundDispatcher = new InboundDispatcher(
+      this.logger,
+      (message) => this.processMessage(message),
+      {
+        maxConcurrency: performance.parallel_message_processing === false
+          ? 1
+          : (performance.max_concurrent_messages ?? 3),
+        maxQueueDepth: performance.max_inbound_queue_depth ?? 100,
+        overflowPolicy: performance.inbound_overflow_policy ?? 'pause_polling',
+        onStatsChange: (stats) => this.healthCheck.setInboundQueueStats(stats)
+      }
+    );
+
+    // Rapid-fire texts from the same sender are merged before dispatch
+    const coalescing = this.config.coalescing;
+    if (coalescing?.enabled) {
+      this.messageCoalescer = new MessageCoalescer(
+        this.logger,
+        (message) => this.dispatchInbound([message]),
+        {
+          windowMs: coalescing.window_ms ?? 1500,
+          maxWaitMs: coalescing.max_wait_ms ?? 5000,
+          maxMessages: coalescing.max_messages ?? 5
+        },
+        {
+          setTimer: (callback, ms) => this.safeSetTimeout(callback, ms),
+          clearTimer: (timer) => this.safeClearTimeout(timer)
+        }
+      );
+    }
+
     // Initialize email sender gate (phone is primary identifier)
-    this.emailSenderGate = new EmailSenderGate(this.logger);
+    this.emailSenderGate = new EmailSenderGate(this.logger, this.handles);
 
     // Initialize command handler
     this.commandHandler = new CommandHandler(
@@ -163,7 +312,9 @@ class EdgeAgent {
       this.logger,
       this.ruleEngine,
       this.planManager,
-      this.contextManager
+      this.contextManager,
+      outboundAttachments,
+      this.deliveryWindow
     );
 
     // Set up WebSocket callbacks
@@ -171,10 +322,18 @@ class EdgeAgent {
       await this.processCommand(command);
     });
 
+    this.wsClient.onEventAck((eventIds) => {
+      const removed = this.eventOutbox.acknowledge(eventIds);
+      this.logger.debug(`Cleared ${removed} acknowledged event(s) from outbox`);
+    });
+
     this.wsClient.onConnected(() => {
       this.logger.info('🔌 WebSocket connected - real-time command delivery enabled');
       this.healthCheck.setWebSocketConnected(true);
 
+      // Deliver anything that queued up while disconnected
+      this.flushEventOutbox();
+
       // Track WebSocket connection
       this.posthog.trackWebSocketStatus('connected');
 
@@ -202,24 +361,51 @@ class EdgeAgent {
     this.logger.info('Edge Agent initialized with scheduler and WebSocket support');
   }
 
-  private initializeTransport(attachmentsPath: string): IMessageTransport {
+  private initializeTransport(attachmentsPath: string, stateDbPath: string): IMessageTransport {
     const mode = this.config.imessage.transport_mode || 'native_helper';
+    if (mode === 'simulator') {
+      const simulator = this.config.imessage.simulator || {};
+      return new SimulatorTransport(stateDbPath, this.logger, {
+        host: simulator.host,
+        port: simulator.port,
+        attachmentsPath: simulator.attachments_path
+      });
+    }
+
+    if (mode === 'synthetic') {
+      return this.initializeSyntheticTransport(attachmentsPath);
+    }
+
     if (mode === 'native_helper') {
       if (!this.config.imessage.bridge_executable) {
         throw new Error('imessage.bridge_executable is required for native_helper transport mode');
       }
 
-      return new NativeBridgeTransport(
+      const failover = this.config.imessage.failover || {};
+      if (failover.enabled === false) {
+        return this.createNativeBridgeTransport(attachmentsPath);
+      }
+
+      // Fall back to chat.db polling + AppleScript while the helper is down
+      const transport = new FailoverTransport(
+        () => this.createNativeBridgeTransport(attachmentsPath),
+        () => new AppleScriptTransport(this.config.imessage.db_path, attachmentsPath, this.logger),
+        this.logger,
         {
-          executable: this.config.imessage.bridge_executable!,
-          args: this.config.imessage.bridge_args || [],
-          attachmentsPath,
-          dbPath: this.config.imessage.db_path,
-          stateFilePath: './data/messages-helper-rowid',
-          maxMessageAgeSeconds: this.config.imessage.max_message_age_seconds
+          healthCheckIntervalMs: failover.health_check_interval_seconds !== undefined
+            ? failover.health_check_interval_seconds * 1000
+            : undefined,
+          recoveryIntervalMs: failover.recovery_interval_seconds !== undefined
+            ? failover.recovery_interval_seconds * 1000
+            : undefined
         },
-        this.logger
+        {
+          setTimer: (callback, ms) => this.safeSetTimeout(callback, ms),
+          clearTimer: (timer) => this.safeClearTimeout(timer)
+        }
       );
+      transport.onSwitch((event, stats) => this.reportTransportSwitch(event, stats));
+      return transport;
     }
 
     return new AppleScriptTransport(
@@ -229,6 +415,69 @@ class EdgeAgent {
     );
   }
 
+  private createNativeBridgeTransport(attachmentsPath: string): NativeBridgeTransport {
+    const supervisor = this.config.imessage.helper_supervisor || {};
+    const toMs = (seconds: number | undefined) => seconds !== undefined ? seconds * 1000 : undefined;
+    const heartbeatTimeoutMs = toMs(supervisor.heartbeat_timeout_seconds);
+
+    const transport = new NativeBridgeTransport(
+      {
+        executable: this.config.imessage.bridge_executable!,
+        args: this.config.imessage.bridge_args || [],
+        attachmentsPath,
+        dbPath: this.config.imessage.db_path,
+        stateFilePath: './data/messages-helper-rowid',
+        maxMessageAgeSeconds: this.config.imessage.max_message_age_seconds,
+        heartbeatIntervalMs: heartbeatTimeoutMs === 0 ? undefined : toMs(supervisor.heartbeat_interval_seconds) ?? 5000,
+        supervisor: {
+          heartbeatTimeoutMs,
+          maxBackoffMs: toMs(supervisor.max_backoff_seconds),
+          maxRestarts: supervisor.max_restarts,
+          crashLoopWindowMs: toMs(supervisor.crash_loop_window_seconds),
+          onStatusChange: (status) => {
+            this.nativeHelperStatus = status;
+            this.healthCheck.setNativeHelperStatus(status);
+          }
+        }
+      },
+      this.logger,
+      {
+        setTimer: (callback, ms) => this.safeSetTimeout(callback, ms),
+        clearTimer: (timer) => this.safeClearTimeout(timer)
+      }
+    );
+    transport.onHelperAlert((alert) => this.reportHelperAlert(alert));
+    return transport;
+  }
+
+  /**
+   * The real chat.db poller over a generated chat.db; sends are written back as is_from_me rows
+   */
+  private initializeSyntheticTransport(attachmentsPath: string): IMessageTransport {
+    const synthetic = this.config.imessage.synthetic || {};
+    this.syntheticChatDb = new SyntheticChatDb(this.config.imessage.db_path, {
+      macosVersion: synthetic.macos_version,
+      attachmentsPath
+    });
+
+    if (synthetic.script_path) {
+      this.syntheticScript = {
+        player: new ChatDbScriptPlayer(this.syntheticChatDb, this.logger, {
+          setTimer: (callback, ms) => this.safeSetTimeout(callback, ms),
+          clearTimer: (timer) => this.safeClearTimeout(timer)
+        }),
+        events: loadChatDbScript(synthetic.script_path)
+      };
+    }
+
+    return new AppleScriptTransport(
+      this.config.imessage.db_path,
+      attachmentsPath,
+      this.logger,
+      new SyntheticChatDbSender(this.syntheticChatDb, this.logger)
+    );
+  }
+
   /**
    * MEMORY LEAK FIX: Safe setTimeout that tracks timer for cleanup
    */
@@ -242,6 +491,14 @@ class EdgeAgent {
     return timer;
   }
 
+  /**
+   * Clear a timer created with safeSetTimeout
+   */
+  private safeClearTimeout(timer: NodeJS.Timeout): void {
+    clearTimeout(timer);
+    this.activeTimers.delete(timer);
+  }
+
   /**
    * MEMORY LEAK FIX: Safe setInterval that tracks timer for cleanup
    */
@@ -303,8 +560,22 @@ class EdgeAgent {
       // Start message polling loop
       this.isRunning = true;
 
+      // No chat.db behind the simulator, and no Messages.app to restart in either dev mode
+      const mode = this.config.imessage.transport_mode;
+      if (mode !== 'simulator') {
+        this.loadContactLinks();
+      }
+      this.replayInboundJournal();
       this.startPolling();
-      this.startSyncWatchdog();
+      if (mode !== 'simulator' && mode !== 'synthetic') {
+        this.startSyncWatchdog();
+      }
+      if (this.syntheticScript) {
+        const { player, events } = this.syntheticScript;
+        this.logger.info(`🧪 Playing ${events.length} scripted chat.db event(s)`);
+        player.play(events).then(() => this.logger.info('🧪 Chat.db script finished'));
+      }
+      this.startEventOutboxFlush();
 
       // Try to connect WebSocket for real-time commands
       if (this.useWebSocket) {
@@ -358,6 +629,47 @@ class EdgeAgent {
     }, pollIntervalMs);
   }
 
+  /**
+   * Periodically deliver due outbox events over WebSocket
+   * (HTTP sync drains the outbox itself while the WebSocket is down)
+   */
+  private startEventOutboxFlush(): void {
+    const flushIntervalMs = (this.config.events?.flush_interval_seconds ?? 5) * 1000;
+    const stats = this.eventOutbox.getStats();
+    if (stats.pending > 0) {
+      this.logger.info(`📦 Event outbox has ${stats.pending} undelivered event(s) from previous run`);
+    }
+
+    this.safeSetInterval(() => {
+      this.flushEventOutbox();
+    }, flushIntervalMs);
+  }
+
+  /**
+   * Send due outbox events over WebSocket
+   * Events stay in the outbox until the backend replies with event_ack
+   */
+  private flushEventOutbox(): void {
+    if (!this.wsClient.isConnected()) {
+      return;
+    }
+
+    const events = this.eventOutbox.getDueEvents();
+    if (events.length === 0) {
+      return;
+    }
+
+    const sent = this.wsClient.sendEvents(events);
+    this.eventOutbox.markAttempted(
+      events.map(event => event.event_id),
+      sent ? undefined : 'WebSocket send failed'
+    );
+
+    if (sent) {
+      this.logger.debug(`📤 Sent ${events.length} outbox event(s) via WebSocket`);
+    }
+  }
+
   /**
    * Start the iCloud sync watchdog.
    * If no new messages arrive within SYNC_STALE_THRESHOLD_MS, restart Messages.app
@@ -395,9 +707,39 @@ class EdgeAgent {
    * Poll for new messages and process them
    */
   private async pollMessages(): Promise<void> {
+    // Backpressure: leave messages in chat.db until the queue drains
+    if (this.inboundDispatcher.shouldPausePolling()) {
+      this.logger.debug('Inbound queue full - skipping poll');
+      return;
+    }
+
     try {
-      // Get new messages from transport
-      const messages = await this.transport.pollNewMessages();
+      // Get new messages from transport, minus rows reported before (ROWID cursor reset, helper restart)
+      const messages = this.suppressDuplicates(await this.transport.pollNewMessages());
+
+      // Tapbacks are forwarded as events (no LLM turn)
+      if (this.transport.pollReactions) {
+        const reactions = await this.transport.pollReactions();
+        reactions.forEach(reaction => this.handleReaction(reaction));
+      }
+
+      // Edits / unsends of messages we already forwarded
+      if (this.transport.pollCorrections) {
+        const corrections = await this.transport.pollCorrections();
+        corrections.forEach(correction => this.handleCorrection(correction));
+      }
+
+      // Group renames and member joins / leaves
+      if (this.transport.pollGroupChanges) {
+        const changes = await this.transport.pollGroupChanges();
+        changes.forEach(change => this.handleGroupChange(change));
+      }
+
+      // Delivered / read receipts for what we sent
+      if (this.transport.pollReceipts) {
+        const receipts = await this.transport.pollReceipts();
+        receipts.forEach(receipt => this.handleReceipt(receipt));
+      }
 
       if (messages.length === 0) {
         return;
@@ -408,18 +750,168 @@ class EdgeAgent {
       // Reset sync watchdog — we got fresh messages
       this.lastNewMessageTime = new Date();
 
-      // OPTIMIZATION: Process messages in parallel (up to 3 concurrent)
-      // Improves throughput 2-3× when multiple messages arrive together
-      const concurrency = 3;
-      for (let i = 0; i < messages.length; i += concurrency) {
-        const batch = messages.slice(i, i + concurrency);
-        await Promise.all(batch.map(message => this.processMessage(message)));
+      // Write-ahead: journal before anything can drop the message
+      const journaled = messages.map(message => ({
+        ...message,
+        journalIds: [this.inboundJournal.record(message)]
+      }));
+
+      // Same-thread messages run in order; different threads run in parallel
+      if (this.messageCoalescer) {
+        this.messageCoalescer.add(journaled);
+      } else {
+        this.dispatchInbound(journaled);
       }
     } catch (error: any) {
       this.logger.error('Error polling messages:', error.message);
     }
   }
 
+  /**
+   * Drop messages whose chat.db GUID was already polled
+   */
+  private suppressDuplicates(messages: IncomingMessage[]): IncomingMessage[] {
+    const fresh = messages.filter(message => {
+      if (!message.guid || !this.seenMessages.checkAndMark(message.guid, message.threadId)) {
+        return true;
+      }
+      this.logger.warn(`⏭️  Skipping duplicate message ${message.guid} from ${message.sender} (already polled)`);
+      return false;
+    });
+
+    if (fresh.length < messages.length) {
+      this.healthCheck.setDuplicatesSuppressed(this.seenMessages.getStats().suppressed_total);
+    }
+    return fresh;
+  }
+
+  /**
+   * Queue messages for processing; messages shed by the dispatcher are journaled as failed
+   */
+  private dispatchInbound(messages: IncomingMessage[]): void {
+    const shed = this.inboundDispatcher.dispatch(messages);
+    shed.forEach(message => this.inboundJournal.markFailed(message.journalIds, 'Shed by inbound queue overflow'));
+  }
+
+  /**
+   * Link phone / email handles chat.db knows belong to the same contact
+   */
+  private loadContactLinks(): void {
+    try {
+      this.handles.loadChatDbLinks(this.config.imessage.db_path);
+    } catch (error: any) {
+      this.logger.warn(`⚠️  Could not load contact handles from chat.db: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether a handle is this edge's own iMessage account (in any format)
+   */
+  private isOwnHandle(handle: string): boolean {
+    return this.handles.isSamePerson(handle, this.config.edge.user_phone);
+  }
+
+  /**
+   * Re-process messages a crash or restart left unhandled
+   */
+  private replayInboundJournal(): void {
+    const maxAgeSec = this.config.imessage.max_message_age_seconds || 21600;
+    const messages = this.inboundJournal.recoverInterrupted(maxAgeSec);
+    if (messages.length === 0) {
+      return;
+    }
+
+    this.logger.info(`♻️  Replaying ${messages.length} unhandled inbound message(s) from the journal`);
+    this.dispatchInbound(messages);
+  }
+
+  /**
+   * Forward a tapback to the backend as a `reaction` event
+   */
+  private handleReaction(reaction: IncomingReaction): void {
+    if (this.isOwnHandle(reaction.sender)) {
+      return;
+    }
+
+    this.logger.info(`💬 Reaction from ${reaction.sender}: ${reaction.removed ? 'removed ' : ''}${reaction.kind}${reaction.emoji ? ` ${reaction.emoji}` : ''} on ${reaction.targetMessageGuid}`);
+
+    this.addEvent('reaction', reaction.threadId, {
+      sender: reaction.sender,
+      target_message_guid: reaction.targetMessageGuid,
+      target_part_index: reaction.targetPartIndex,
+      reaction: reaction.kind,
+      removed: reaction.removed,
+      emoji: reaction.emoji,
+      is_group: reaction.isGroup,
+      timestamp: Math.floor(reaction.timestamp.getTime() / 1000)
+    });
+  }
+
+  /**
+   * Forward an edit / unsend to the backend so it can correct its memory
+   */
+  private handleCorrection(correction: IncomingCorrection): void {
+    if (correction.kind === 'unsent') {
+      this.logger.info(`↩️  ${correction.sender} unsent message ${correction.messageGuid}`);
+
+      // Don't follow up on something the user took back
+      const cancelled = this.pendingDeliveries.cancelThread(correction.threadId);
+      if (cancelled.length > 0) {
+        this.logger.info(`🛑 Cancelled ${cancelled.length} pending burst(s) for ${correction.threadId} after unsend`);
+      }
+    } else {
+      this.logger.info(`✏️  ${correction.sender} edited message ${correction.messageGuid}: "${(correction.text || '').substring(0, 80)}"`);
+    }
+
+    this.addEvent(correction.kind === 'edited' ? 'message_edited' : 'message_unsent', correction.threadId, {
+      message_guid: correction.messageGuid,
+      sender: correction.sender,
+      is_group: correction.isGroup,
+      text: correction.text,
+      timestamp: Math.floor(correction.timestamp.getTime() / 1000)
+    });
+  }
+
+  /**
+   * Forward a group rename / member change so personas know who is in the chat
+   */
+  private handleGroupChange(change: IncomingGroupChange): void {
+    if (change.kind === 'renamed') {
+      this.logger.info(`👥 Group ${change.threadId} renamed: "${change.previousDisplayName || ''}" → "${change.displayName || ''}"`);
+    } else {
+      this.logger.info(`👥 ${change.handle} ${change.kind === 'member_added' ? 'joined' : 'left'} group ${change.threadId}`);
+    }
+
+    this.addEvent(change.kind === 'renamed' ? 'group_renamed' : `group_${change.kind}`, change.threadId, {
+      handle: change.handle,
+      display_name: change.displayName,
+      previous_display_name: change.previousDisplayName,
+      actor: change.actor,
+      timestamp: Math.floor(change.timestamp.getTime() / 1000)
+    });
+  }
+
+  /**
+   * Report what actually happened to one of our sent messages
+   */
+  private handleReceipt(receipt: OutboundReceipt): void {
+    this.outboundReceipts[receipt.status]++;
+
+    if (receipt.status === 'failed') {
+      this.logger.warn(`❌ Message ${receipt.messageGuid} to ${receipt.threadId} FAILED (error ${receipt.errorCode}): "${receipt.text.substring(0, 50)}"`);
+    } else {
+      this.logger.info(`📬 Message ${receipt.messageGuid} to ${receipt.threadId} ${receipt.status}`);
+    }
+
+    this.addEvent(`message_${receipt.status}`, receipt.threadId, {
+      message_guid: receipt.messageGuid,
+      text: receipt.text,
+      error_code: receipt.errorCode,
+      sent_at: Math.floor(receipt.sentAt.getTime() / 1000),
+      timestamp: Math.floor(receipt.timestamp.getTime() / 1000)
+    });
+  }
+
   /**
    * Process a single message
    */
@@ -438,7 +930,7 @@ class EdgeAgent {
       });
 
       // Filter out messages from the edge client's own phone number to prevent loops
-      if (message.sender === this.config.edge.user_phone) {
+      if (this.isOwnHandle(message.sender)) {
         this.logger.info(`⏭️  Skipping message from edge client's own number (${message.sender}) to prevent loop`);
         return;
       }
@@ -454,6 +946,9 @@ class EdgeAgent {
         return;
       }
 
+      // User kept talking - stale bursts for this thread must not go out
+      this.pendingDeliveries.onInboundMessage(message.threadId);
+
       // Email sender gate: phone number is the primary identifier.
       // If someone messages from an email Apple ID, block and reply locally.
       // No backend cost — handled entirely on edge.
@@ -466,6 +961,25 @@ class EdgeAgent {
         return;
       }
 
+      // Local rules (auto_reply, forward, filter, schedule_reply) run before the backend
+      const ruleResult = await this.ruleExecutor.execute({
+        sender: message.sender,
+        content: message.text.replace(/\uFFFC/g, '').trim(),
+        thread_id: message.threadId,
+        is_group: message.isGroup
+      });
+      if (ruleResult) {
+        this.addEvent('rule_triggered', message.threadId, {
+          rule_id: ruleResult.rule.rule_id,
+          action_taken: ruleResult.action_taken
+        });
+
+        if (ruleResult.handled) {
+          this.logger.info(`ℹ️  Message handled by rule ${ruleResult.rule.rule_id} (${ruleResult.action_taken}) - skipping backend`);
+          return;
+        }
+      }
+
       const activeContext = this.contextManager.getContext(message.threadId);
       const attachmentSummaries = await this.processMessageAttachments(message, activeContext);
 
@@ -489,16 +1003,32 @@ class EdgeAgent {
         participants: message.participants,
         persona_id: this.config.edge.persona_id,             // Persona for this edge node (from config)
         persona_phone: this.config.edge.user_phone,          // This persona's iMessage phone number
+        reply_to: message.replyTo
+          ? { message_guid: message.replyTo.guid, text: message.replyTo.text }
+          : undefined,
         metadata: {
+          message_guid: message.guid,
+          ...(message.groupName && { group_name: message.groupName }),
+          ...(message.replayed && { replayed: true }),
           was_redacted: false,
           redacted_fields: [],
-          filter_reason: 'phase1_transport'
+          filter_reason: 'phase1_transport',
+          ...(message.mentions && { mentions: message.mentions }),
+          ...(message.links && { links: message.links }),
+          ...(message.coalesced && {
+            coalesced_messages: message.coalesced.map(part => ({
+              message_guid: part.guid,
+              text: part.text,
+              timestamp: Math.floor(part.timestamp.getTime() / 1000)
+            }))
+          })
         },
         context: this.buildBackendContext(activeContext),
         attachments: attachmentSummaries.length > 0 ? attachmentSummaries : undefined
       };
 
       const response = await this.backend.sendMessage(backendRequest);
+      this.inboundJournal.markForwarded(message.journalIds);
       this.logger.info(`⬇️  BACKEND RESPONSE: should_respond=${response.should_respond}`);
 
       if (response.mini_app_triggered) {
@@ -515,8 +1045,15 @@ class EdgeAgent {
 
       // Send response if backend wants us to
       if (response.should_respond) {
+        // A newer reply replaces bursts interrupted by this message
+        this.pendingDeliveries.supersede(message.threadId);
+
+        // Multi-target responses (fan-out to several threads in one round trip)
+        if (response.responses && response.responses.length > 0) {
+          await this.deliverResponses(message, response.responses);
+        }
         // NEW: Check for reflex/burst split (fast path)
-        if (response.reflex_message) {
+        else if (response.reflex_message) {
           this.logger.info('-'.repeat(60));
           this.logger.info(`⚡ SENDING REFLEX MESSAGE to ${message.threadId}`);
           this.logger.info(`   Text: "${response.reflex_message}"`);
@@ -535,43 +1072,25 @@ class EdgeAgent {
           });
 
           if (reflexSent) {
-            this.logger.info('✅ Reflex message DELIVERED to iMessage');
+            this.logger.info('✅ Reflex message queued for delivery');
           } else {
-            this.logger.error('❌ FAILED to deliver reflex message to iMessage');
+            this.logger.error('❌ FAILED to queue reflex message');
           }
 
           // Send burst messages after delay (if any)
           if (response.burst_messages && response.burst_messages.length > 0) {
             const delayMs = response.burst_delay_ms || 2000;
-            this.logger.info(`⏳ Will send ${response.burst_messages.length} burst messages after ${delayMs}ms`);
+            const policy = response.burst_interrupt || this.config.delivery?.burst_interrupt_default || 'cancel';
+            this.logger.info(`⏳ Will send ${response.burst_messages.length} burst messages after ${delayMs}ms (interrupt: ${policy})`);
             this.logger.info(`   Burst messages: ${JSON.stringify(response.burst_messages)}`);
 
-            setTimeout(async () => {
-              this.logger.info('-'.repeat(60));
-              this.logger.info(`📤 SENDING BURST MESSAGES to ${message.threadId}`);
-              for (let i = 0; i < response.burst_messages!.length; i++) {
-                this.logger.info(`   [${i + 1}/${response.burst_messages!.length}]: "${response.burst_messages![i]}"`);
-              }
-              this.logger.info('-'.repeat(60));
-
-              const burstSent = await this.transport.sendMultiBubble(
-                message.threadId,
-                response.burst_messages!,
-                message.isGroup
-              );
-
-              // Track burst messages sent
-              this.posthog.trackMessageRelayed('outbound', message.threadId, message.isGroup, {
-                bubbleType: 'burst',
-                success: burstSent,
-              });
-
-              if (burstSent) {
-                this.logger.info('✅ All burst messages DELIVERED to iMessage');
-              } else {
-                this.logger.error('❌ FAILED to deliver burst messages to iMessage');
-              }
-            }, delayMs);
+            this.pendingDeliveries.schedule(
+              message.threadId,
+              message.isGroup,
+              response.burst_messages,
+              delayMs,
+              policy
+            );
           }
         }
         // Legacy multi-bubble response
@@ -596,9 +1115,9 @@ class EdgeAgent {
           });
 
           if (sent) {
-            this.logger.info('✅ All bubbles DELIVERED to iMessage');
+            this.logger.info('✅ All bubbles queued for delivery');
           } else {
-            this.logger.error('❌ FAILED to deliver bubbles to iMessage');
+            this.logger.error('❌ FAILED to queue bubbles');
           }
         }
         // Legacy single bubble
@@ -621,17 +1140,26 @@ class EdgeAgent {
           });
 
           if (sent) {
-            this.logger.info('✅ Response DELIVERED to iMessage');
+            this.logger.info('✅ Response queued for delivery');
           } else {
-            this.logger.error('❌ FAILED to deliver response to iMessage');
+            this.logger.error('❌ FAILED to queue response');
           }
         }
       } else {
         this.logger.info('ℹ️  Backend did not request a response');
       }
 
+      // Inline commands go through the same path as WebSocket commands
+      if (response.commands && response.commands.length > 0) {
+        this.logger.info(`📥 Received ${response.commands.length} inline command(s) from backend`);
+        for (const command of response.commands) {
+          await this.processCommand(command);
+        }
+      }
+
     } catch (error: any) {
       this.logger.error('Error processing message:', error.message);
+      this.inboundJournal.markFailed(message.journalIds, error.message);
 
       // Track error
       this.posthog.trackError(
@@ -643,6 +1171,187 @@ class EdgeAgent {
           component: 'EdgeAgent.processMessage'
         }
       );
+    } finally {
+      // Skipped, handled locally or replied to - nothing left to do (failures stay failed)
+      this.inboundJournal.markResponded(message.journalIds);
+    }
+  }
+
+  /**
+   * Send a burst whose delay elapsed without being cancelled
+   */
+  private async sendPendingBurst(delivery: PendingDelivery): Promise<boolean> {
+    this.logger.info('-'.repeat(60));
+    this.logger.info(`📤 SENDING BURST MESSAGES to ${delivery.thread_id}`);
+    for (let i = 0; i < delivery.messages.length; i++) {
+      this.logger.info(`   [${i + 1}/${delivery.messages.length}]: "${delivery.messages[i]}"`);
+    }
+    this.logger.info('-'.repeat(60));
+
+    const burstSent = await this.transport.sendMultiBubble(
+      delivery.thread_id,
+      delivery.messages,
+      delivery.is_group
+    );
+
+    // Track burst messages sent
+    this.posthog.trackMessageRelayed('outbound', delivery.thread_id, delivery.is_group, {
+      bubbleType: 'burst',
+      success: burstSent,
+    });
+
+    if (burstSent) {
+      this.logger.info('✅ All burst messages queued for delivery');
+    } else {
+      this.logger.error('❌ FAILED to queue burst messages');
+    }
+
+    return burstSent;
+  }
+
+  /**
+   * Tell the backend a reply never made it out (the outbound queue gave up on it)
+   */
+  private reportSendFailure(item: OutboundItem, error: string): void {
+    this.logger.error(`❌ FAILED to deliver ${item.kind} to ${item.thread_id} after ${item.attempts} attempt(s): ${error}`);
+
+    this.addEvent('message_send_failed', item.thread_id, {
+      outbound_id: item.id,
+      command_id: item.command_id ?? undefined,
+      kind: item.kind,
+      text: item.payload.text,
+      bubbles: item.payload.bubbles,
+      caption: item.payload.caption,
+      attempts: item.attempts,
+      error,
+      queued_at: item.created_at
+    });
+
+    this.posthog.trackError('message_send', error, {
+      thread_id: item.thread_id,
+      is_group: item.is_group,
+      component: 'OutboundQueue'
+    });
+  }
+
+  /**
+   * Tell the backend (and /metrics) which transport is receiving messages now
+   */
+  private reportTransportSwitch(event: TransportSwitch, stats: FailoverStats): void {
+    this.healthCheck.setTransportStats(stats);
+
+    this.addEvent('transport_switched', undefined, {
+      direction: event.direction,
+      from: event.from,
+      to: event.to,
+      reason: event.reason,
+      cursor: event.cursor,
+      failovers_total: stats.failovers_total,
+      recoveries_total: stats.recoveries_total,
+      switched_at: event.timestamp.toISOString()
+    });
+
+    if (event.direction === 'failover') {
+      this.posthog.trackError('transport_failover', event.reason, {
+        from: event.from,
+        to: event.to,
+        component: 'FailoverTransport'
+      });
+    }
+  }
+
+  /**
+   * The supervisor gave up restarting the native helper
+   */
+  private reportHelperAlert(alert: NativeHelperAlert): void {
+    this.addEvent('native_helper_alert', undefined, {
+      kind: alert.kind,
+      message: alert.message,
+      restarts: alert.restarts,
+      window_seconds: Math.round(alert.window_ms / 1000),
+      last_reason: alert.last_reason
+    });
+
+    this.sentry.captureMessage(alert.message, 'error', { component: 'NativeHelperSupervisor', kind: alert.kind });
+    this.posthog.trackError('native_helper', alert.message, {
+      kind: alert.kind,
+      component: 'NativeHelperSupervisor'
+    });
+  }
+
+  /**
+   * Hand bursts still waiting at shutdown to the (persistent) scheduler
+   * so they go out after restart instead of being lost
+   */
+  private persistPendingBursts(): void {
+    const drained = this.pendingDeliveries.drain();
+    if (drained.length === 0) {
+      return;
+    }
+
+    for (const delivery of drained) {
+      const sendAt = Math.max(new Date(delivery.send_at).getTime(), Date.now());
+      delivery.messages.forEach((text, index) => {
+        // Space bubbles a second apart so the scheduler keeps their order;
+        // they are part of a live conversation, so quiet hours don't apply
+        this.scheduler.scheduleMessage(
+          delivery.thread_id,
+          text,
+          new Date(sendAt + index * 1000),
+          delivery.is_group,
+          undefined,
+          true
+        );
+      });
+    }
+
+    this.logger.info(`💾 Persisted ${drained.length} pending burst(s) to scheduler before shutdown`);
+  }
+
+  /**
+   * Deliver multi-target responses, reflex entries first
+   * Each entry goes to its chat_guid, a direct thread with its recipient,
+   * or (if neither is set) the thread the message came from
+   */
+  private async deliverResponses(message: IncomingMessage, responses: BackendResponseTarget[]): Promise<void> {
+    const ordered = [
+      ...responses.filter(entry => entry.is_reflex),
+      ...responses.filter(entry => !entry.is_reflex)
+    ];
+
+    this.logger.info('-'.repeat(60));
+    this.logger.info(`📤 SENDING ${ordered.length} RESPONSE(S) from ${message.threadId}`);
+    this.logger.info('-'.repeat(60));
+
+    for (const entry of ordered) {
+      if (!entry.text) {
+        continue;
+      }
+
+      let threadId = message.threadId;
+      let isGroup = message.isGroup;
+      if (entry.chat_guid) {
+        threadId = entry.chat_guid;
+        isGroup = entry.chat_guid === message.threadId ? message.isGroup : entry.chat_guid.includes('chat');
+      } else if (entry.recipient) {
+        threadId = entry.recipient;
+        isGroup = false;
+      }
+      this.pendingDeliveries.supersede(threadId);
+
+      this.logger.info(`   → ${threadId}${entry.is_reflex ? ' (reflex)' : ''}: "${entry.text}"`);
+      const sent = await this.transport.sendMessage(threadId, entry.text, isGroup);
+
+      this.posthog.trackMessageRelayed('outbound', threadId, isGroup, {
+        bubbleType: entry.is_reflex ? 'reflex' : 'single',
+        success: sent,
+      });
+
+      if (sent) {
+        this.logger.info(`✅ Response queued for ${threadId}`);
+      } else {
+        this.logger.error(`❌ FAILED to queue response for ${threadId}`);
+      }
     }
   }
 
@@ -676,11 +1385,12 @@ class EdgeAgent {
       const stats = this.scheduler.getStats();
       const uptimeSeconds = Math.floor((new Date().getTime() - this.startTime.getTime()) / 1000);
 
-      // Prepare sync request
+      // Prepare sync request (due outbox events ride along as pending_events)
+      const pendingEvents = this.eventOutbox.getDueEvents(100);
       const syncRequest = {
         edge_agent_id: edgeAgentId,
         last_command_id: this.lastCommandId,
-        pending_events: this.pendingEvents,
+        pending_events: pendingEvents,
         status: {
           scheduled_messages: stats.pending,
           active_rules: this.commandHandler.getActiveRulesCount(),
@@ -689,14 +1399,18 @@ class EdgeAgent {
       };
 
       // Sync with backend
-      const response = await this.backend.sync(syncRequest);
+      let response;
+      try {
+        response = await this.backend.sync(syncRequest);
+      } finally {
+        // Unacknowledged events are retried with backoff
+        this.eventOutbox.markAttempted(pendingEvents.map(event => event.event_id));
+      }
 
       // Clear acknowledged events
       if (response.ack_events.length > 0) {
-        this.pendingEvents = this.pendingEvents.filter(
-          event => !response.ack_events.includes(event.event_id)
-        );
-        this.logger.debug(`Cleared ${response.ack_events.length} acknowledged events`);
+        const removed = this.eventOutbox.acknowledge(response.ack_events);
+        this.logger.debug(`Cleared ${removed} acknowledged events`);
       }
 
       // Process commands
@@ -728,33 +1442,50 @@ class EdgeAgent {
         this.logger.info(`⚡ Processing IMMEDIATE priority command ${command.command_id}`);
       }
 
-      if (command.command_type === 'upload_retry') {
-        const retryResult = await this.handleUploadRetryCommand(command);
-        await this.acknowledgeCommandResult(command, retryResult.success, retryResult.error);
+      // Single validation gate for every command (WebSocket and HTTP sync).
+      // Invalid commands are rejected before the ledger sees them, so a
+      // missing or malformed command_id never becomes a ledger key.
+      const validation = validateCommandSafe(command);
+      if (!validation.success) {
+        this.rejectInvalidCommand(command, validation.issues || [], validation.errors || [], validation.securityViolation);
+        if (isValidCommandId(command.command_id)) {
+          this.updateLastCommandId(command.command_id);
+        }
+
+        const error = `Command validation failed: ${(validation.errors || []).join('; ')}`;
+        const details = { validation_errors: validation.issues || [] };
+        await this.acknowledgeCommandResult(command, false, error, details);
 
-        // Track command execution
         const durationMs = Date.now() - commandStartTime;
-        this.posthog.trackCommandProcessed(command.command_type, retryResult.success, durationMs);
+        this.posthog.trackCommandProcessed(command.command_type, false, durationMs);
         return;
       }
 
-      if (command.command_type === 'emit_event') {
-        const eventResult = await this.handleEmitEventCommand(command);
-        await this.acknowledgeCommandResult(command, eventResult.success, eventResult.error);
-
-        // Track command execution
-        const durationMs = Date.now() - commandStartTime;
-        this.posthog.trackCommandProcessed(command.command_type, eventResult.success, durationMs);
+      // Idempotency: the same command can arrive via WebSocket, HTTP sync and re-delivery
+      const claim = this.commandLedger.claim(command);
+      if (claim.duplicate) {
+        await this.handleDuplicateCommand(command, claim.entry);
         return;
       }
 
       // Execute command
-      const result = await this.commandHandler.executeCommand(command);
+      this.commandLedger.markExecuting(command.command_id);
+      let result: { success: boolean; error?: string; details?: Record<string, any> };
+      if (command.command_type === 'upload_retry') {
+        result = await this.handleUploadRetryCommand(command);
+      } else if (command.command_type === 'emit_event') {
+        result = await this.handleEmitEventCommand(command);
+      } else if (command.command_type === 'replay_messages') {
+        result = await this.handleReplayMessagesCommand(command);
+      } else {
+        result = await this.commandHandler.executeCommand(command);
+      }
 
       // Update last command ID
-      this.lastCommandId = command.command_id;
+      this.updateLastCommandId(command.command_id);
 
-      await this.acknowledgeCommandResult(command, result.success, result.error);
+      this.commandLedger.complete(command.command_id, result.success, result.error, result.details);
+      await this.acknowledgeCommandResult(command, result.success, result.error, result.details);
 
       // Track command execution
       const durationMs = Date.now() - commandStartTime;
@@ -767,6 +1498,11 @@ class EdgeAgent {
       }
     } catch (error: any) {
       this.logger.error(`Error processing command ${command.command_id}:`, error.message);
+      try {
+        this.commandLedger.complete(command.command_id, false, error.message);
+      } catch (ledgerError: any) {
+        this.logger.error(`Failed to record command ${command.command_id} in ledger:`, ledgerError.message);
+      }
       await this.acknowledgeCommandResult(command, false, error.message);
 
       // Track command error
@@ -784,25 +1520,77 @@ class EdgeAgent {
     }
   }
 
+  /**
+   * Re-send the cached ack for an already-finished command, or skip one still in flight
+   */
+  private async handleDuplicateCommand(command: EdgeCommandWrapper, entry: CommandLedgerEntry): Promise<void> {
+    if (entry.status === 'completed' || entry.status === 'failed') {
+      this.logger.info(`🔁 Duplicate command ${command.command_id} (${entry.status}) - re-sending cached ack`);
+      await this.acknowledgeCommandResult(
+        command,
+        entry.status === 'completed',
+        entry.error ?? undefined,
+        entry.details ?? undefined
+      );
+      return;
+    }
+
+    this.logger.info(`🔁 Duplicate command ${command.command_id} still ${entry.status} - skipping`);
+  }
+
+  /**
+   * Advance and persist the HTTP sync cursor
+   */
+  private updateLastCommandId(commandId: string): void {
+    this.lastCommandId = commandId;
+    this.commandLedger.setLastCommandId(commandId);
+  }
+
+  /**
+   * Log a rejected command and report injection attempts to Sentry
+   */
+  private rejectInvalidCommand(
+    command: EdgeCommandWrapper,
+    issues: CommandValidationIssue[],
+    errors: string[],
+    securityViolation?: boolean
+  ): void {
+    this.logger.warn(`🛑 Rejected invalid command ${command.command_id} (${command.command_type})`);
+    for (const error of errors) {
+      this.logger.warn(`   ${error}`);
+    }
+
+    if (securityViolation) {
+      this.sentry.trackSecurityViolation('command_injection', {
+        command_id: command.command_id,
+        command_type: command.command_type,
+        fields: issues
+          .filter(issue => issue.code === 'security_violation')
+          .map(issue => issue.field)
+      });
+    }
+  }
+
   private async acknowledgeCommandResult(
     command: EdgeCommandWrapper,
     success: boolean,
-    error?: string
+    error?: string,
+    details?: Record<string, any>
   ): Promise<void> {
     const ackSent = this.wsClient.isConnected()
       ? this.wsClient.sendCommandAck(
           command.command_id,
           success ? 'completed' : 'failed',
-          { error }
+          { error, details }
         )
       : false;
 
     if (!ackSent) {
-      await this.backend.acknowledgeCommand(
-        command.command_id,
-        success,
-        error
-      );
+      try {
+        await this.backend.acknowledgeCommand(command.command_id, success, error, details);
+      } catch (ackError: any) {
+        this.logger.error(`Failed to send HTTP ack for command ${command.command_id}:`, ackError.message);
+      }
     }
   }
 
@@ -1130,7 +1918,72 @@ class EdgeAgent {
   }
 
   /**
-   * Add an event to send to backend
+   * Handle replay_messages command from backend
+   */
+  private async handleReplayMessagesCommand(
+    command: EdgeCommandWrapper
+  ): Promise<{ success: boolean; error?: string; details?: Record<string, any> }> {
+    try {
+      const summary = await this.replayMessages(command.payload as ReplayMessagesCommand['payload']);
+      return { success: true, details: summary };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Re-read a ROWID range / time window from chat.db and forward what was missed.
+   * Stale, own-number, email-sender and already-handled messages are skipped;
+   * a dry run only reports what would be replayed.
+   */
+  async replayMessages(payload: ReplayMessagesCommand['payload']): Promise<InboundReplaySummary> {
+    if (!this.transport.readMessages) {
+      throw new Error(`${this.transport.getName()} cannot re-read chat.db history`);
+    }
+
+    const messages = await this.transport.readMessages({
+      fromRowId: payload.from_rowid,
+      toRowId: payload.to_rowid,
+      since: payload.since ? new Date(payload.since) : undefined,
+      until: payload.until ? new Date(payload.until) : undefined,
+      threadId: payload.thread_id,
+      limit: payload.limit || 100
+    });
+
+    const dryRun = payload.dry_run === true;
+    const { toReplay, summary } = planReplay(messages, {
+      isOwnHandle: sender => this.isOwnHandle(sender),
+      maxAgeSeconds: this.config.imessage.max_message_age_seconds || 21600,
+      isEmailSender: sender => this.emailSenderGate.isEmailSender(sender),
+      isHandled: message => {
+        const entry = message.guid ? this.inboundJournal.findByGuid(message.guid) : null;
+        return entry !== null && entry.status !== 'failed';
+      }
+    }, dryRun);
+
+    this.logger.info(
+      `♻️  Replay${dryRun ? ' (dry run)' : ''}: ${summary.matched} message(s) matched, ` +
+      `${summary.replayed} to replay, ${summary.matched - summary.replayed} skipped`
+    );
+
+    if (!dryRun && toReplay.length > 0) {
+      for (const message of toReplay) {
+        // A previously failed entry is re-driven rather than journaled twice
+        const failed = message.guid ? this.inboundJournal.findByGuid(message.guid) : null;
+        if (failed) {
+          this.inboundJournal.redrive(failed.journal_id);
+        }
+        message.replayed = true;
+        message.journalIds = [failed ? failed.journal_id : this.inboundJournal.record(message)];
+      }
+      this.dispatchInbound(toReplay);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Add an event to send to backend (persisted in the outbox until acknowledged)
    */
   private addEvent(eventType: string, threadId: string | undefined, details: Record<string, any>): void {
     const event: EdgeEventWrapper = {
@@ -1140,7 +1993,8 @@ class EdgeAgent {
       details
     };
 
-    this.pendingEvents.push(event);
+    this.eventOutbox.enqueue(event);
+    this.flushEventOutbox();
   }
 
   /**
@@ -1151,10 +2005,23 @@ class EdgeAgent {
 
     this.isRunning = false;
 
+    // Don't start queued messages while shutting down
+    const droppedInbound = (this.messageCoalescer?.clear() ?? 0) + this.inboundDispatcher.clear();
+    if (droppedInbound > 0) {
+      this.logger.warn(`⚠️  ${droppedInbound} queued inbound message(s) left in the journal for replay on restart`);
+    }
+
     // Flush monitoring events before shutdown
     await this.sentry.flush();
     await this.posthog.flush();
 
+    // Keep pending bursts (their timers are cleared below)
+    try {
+      this.persistPendingBursts();
+    } catch (error: any) {
+      this.logger.error('Failed to persist pending bursts:', error.message);
+    }
+
     // MEMORY LEAK FIX: Clear all tracked intervals
     this.activeIntervals.forEach(interval => {
       clearInterval(interval);
@@ -1176,8 +2043,17 @@ class EdgeAgent {
 
     this.contextManager.close();
     this.attachmentCache.close();
+    this.eventOutbox.close();
+    this.commandLedger.close();
+    this.inboundJournal.close();
+    this.seenMessages.close();
+    this.handles.close();
+    this.deliveryWindow.close();
     this.scheduler.stop();
     this.transport.stop();
+    this.outboundQueue.close();
+    this.syntheticScript?.player.stop();
+    this.syntheticChatDb?.close();
 
     // Close monitoring
     this.healthCheck.stop();
@@ -1221,6 +2097,10 @@ class EdgeAgent {
     const stats = this.scheduler.getStats();
     const uptimeSeconds = Math.floor((new Date().getTime() - this.startTime.getTime()) / 1000);
     const activeRules = this.commandHandler.getActiveRulesCount();
+    const outboxStats = this.eventOutbox.getStats();
+    const journalStats = this.inboundJournal.getStats();
+    const seenStats = this.seenMessages.getStats();
+    const outboundStats = this.outboundQueue.getStats();
 
     return {
       uptime_seconds: uptimeSeconds,
@@ -1235,6 +2115,23 @@ class EdgeAgent {
       backend_url: this.config.backend.url,
       imessage_poll_interval: this.config.imessage.poll_interval_seconds,
       performance_profile: this.config.performance?.profile || 'balanced',
+      event_outbox_pending: outboxStats.pending,
+      event_outbox_dead_letter: outboxStats.dead_letter,
+      event_outbox_oldest_age_seconds: outboxStats.oldest_pending_age_seconds,
+      pending_bursts: this.pendingDeliveries.size(),
+      outbound_delivered: this.outboundReceipts.delivered,
+      outbound_read: this.outboundReceipts.read,
+      outbound_failed: this.outboundReceipts.failed,
+      inbound_journal_failed: journalStats.failed,
+      inbound_journal_unhandled: journalStats.received + journalStats.forwarded,
+      inbound_duplicates_suppressed: seenStats.suppressed_total,
+      outbound_queue_pending: outboundStats.pending,
+      outbound_queue_dead_letter: outboundStats.dead_letter,
+      outbound_queue_retried: outboundStats.retried_total,
+      native_helper_state: this.nativeHelperStatus?.state ?? null,
+      native_helper_restarts: this.nativeHelperStatus?.restarts_total ?? 0,
+      native_helper_last_restart_reason: this.nativeHelperStatus?.last_restart_reason ?? null,
+      transport: this.transport.getName(),
     };
   }
 
@@ -1245,6 +2142,78 @@ class EdgeAgent {
     return this.scheduler.getAllScheduled();
   }
 
+  /**
+   * Get bursts waiting for their delay to elapse
+   */
+  async getPendingDeliveries(): Promise<PendingDelivery[]> {
+    return this.pendingDeliveries.list();
+  }
+
+  /**
+   * Cancel a pending burst
+   */
+  async cancelPendingDelivery(deliveryId: string): Promise<void> {
+    if (!this.pendingDeliveries.cancel(deliveryId)) {
+      throw new Error(`Pending delivery ${deliveryId} not found`);
+    }
+  }
+
+  /**
+   * Recent inbound journal entries
+   */
+  async getInboundJournal(status?: InboundJournalStatus, limit?: number): Promise<InboundJournalEntry[]> {
+    return this.inboundJournal.list({ status, limit });
+  }
+
+  /**
+   * Stored links between handles of the same person
+   */
+  async getHandleAliases(): Promise<HandleAlias[]> {
+    return this.handles.listAliases();
+  }
+
+  /**
+   * Record that two handles belong to the same person
+   */
+  async linkHandles(handle: string, alias: string): Promise<void> {
+    this.handles.link(handle, alias);
+    this.logger.info(`🔗 Linked handle ${alias} to ${this.handles.resolve(handle)}`);
+  }
+
+  /**
+   * Recorded per-thread / per-contact delivery windows
+   */
+  async getDeliveryWindows(): Promise<ThreadDeliveryWindow[]> {
+    return this.deliveryWindow.listThreadWindows();
+  }
+
+  /**
+   * Record a thread's timezone / quiet hours
+   */
+  async setDeliveryWindow(threadId: string, window: DeliveryWindowOverride): Promise<ThreadDeliveryWindow> {
+    return this.deliveryWindow.setThreadWindow(threadId, threadId.includes('chat'), window);
+  }
+
+  /**
+   * Process a journaled message again (e.g. after a backend outage)
+   */
+  async redriveInboundMessage(journalId: string): Promise<void> {
+    const message = this.inboundJournal.redrive(journalId);
+    if (!message) {
+      throw new Error(`Inbound journal entry ${journalId} not found`);
+    }
+
+    this.logger.info(`♻️  Re-driving inbound message ${journalId} from ${message.sender}`);
+    this.dispatchInbound([message]);
+  }
+
+  /**
+   * Outbound sends that were given up on
+   */
+  async getOutboundDeadLetters(limit?: number): Promise<DeadLetterOutbound[]> {
+    return this.outboundQueue.getDeadLetters(limit);
+  }
+
   /**
    * Get all rules
    */
@@ -3,7 +3,7 @@
  * Allows for easy mocking and testing
  */
 
-import { SyncRequest, SyncResponse } from './ICommands';
+import { SyncRequest, SyncResponse, EdgeCommandWrapper } from './ICommands';
 
 export interface BackendMessageRequest {
   chat_guid: string;           // Unique conversation ID (e.g., "iMessage;-;+15551234567")
@@ -14,6 +14,10 @@ export interface BackendMessageRequest {
   participants: string[];      // All participants in conversation
   persona_id: string;          // Persona to respond (e.g., "luna", "kael")
   persona_phone?: string;      // Phone number of this persona's iMessage account
+  reply_to?: {                 // Set when the message is an inline reply
+    message_guid: string;      // GUID of the quoted message
+    text?: string;             // Snippet of the quoted text
+  };
   metadata?: {                 // Optional metadata
     is_first_message?: boolean;
     mentioned_luna?: boolean;
@@ -35,18 +39,25 @@ export interface BackendMessageResponse {
   reflex_message?: string;  // Immediate response (sent first, ~100ms target)
   burst_messages?: string[];  // Follow-up messages (sent after delay)
   burst_delay_ms?: number;  // Delay before burst (default: 2000ms)
+  burst_interrupt?: 'cancel' | 'supersede' | 'none';  // What a new inbound message does to a pending burst
   mini_app_triggered?: string | null;
   room_id?: string | null;
-  commands?: any[];
-  responses?: Array<{
-    text: string;
-    recipient?: string | null;
-    chat_guid?: string;
-    is_reflex?: boolean;
-  }>;
+  commands?: EdgeCommandWrapper[];  // Inline commands, executed like WebSocket commands
+  responses?: BackendResponseTarget[];  // Multi-target replies (supersede reply_text/bubbles/reflex)
   context_metadata?: Record<string, any>;
 }
 
+/**
+ * A single reply addressed to a specific thread (chat_guid) or a direct
+ * thread with recipient. Falls back to the originating thread.
+ */
+export interface BackendResponseTarget {
+  text: string;
+  recipient?: string | null;
+  chat_guid?: string;
+  is_reflex?: boolean;
+}
+
 export interface BackendMiniAppContext {
   active_miniapp?: string;
   room_id?: string;
@@ -111,9 +122,9 @@ export interface IBackendClient {
   sync(request: SyncRequest): Promise<SyncResponse>;
 
   /**
-   * Acknowledge command execution
+   * Acknowledge command execution over HTTP (used while the WebSocket is down)
    */
-  acknowledgeCommand(commandId: string, success: boolean, error?: string): Promise<void>;
+  acknowledgeCommand(commandId: string, success: boolean, error?: string, details?: Record<string, any>): Promise<void>;
 
   /**
    * Health check
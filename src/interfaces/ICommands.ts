@@ -43,6 +43,7 @@ export interface SendMessageNowCommand {
     thread_id: string;
     text: string;
     bubble_type?: 'reflex' | 'burst' | 'normal';
+    reply_to_guid?: string;  // Inline reply target; plain send if the transport can't reply in-thread
   };
 }
 
@@ -91,6 +92,42 @@ export interface EmitEventCommand {
   };
 }
 
+export interface SendAttachmentCommand {
+  command_type: 'send_attachment';
+  payload: {
+    thread_id: string;
+    url?: string;          // HTTPS download (exactly one of url / data_base64)
+    data_base64?: string;
+    mime_type?: string;    // Used when the file type can't be detected from its bytes
+    caption?: string;      // Sent as a text bubble after the file
+  };
+}
+
+export interface ReplayMessagesCommand {
+  command_type: 'replay_messages';
+  payload: {
+    from_rowid?: number;   // Inclusive chat.db ROWID range
+    to_rowid?: number;
+    since?: string;        // Inclusive ISO8601 time window
+    until?: string;
+    thread_id?: string;
+    dry_run?: boolean;     // Report what would be replayed without forwarding
+    limit?: number;
+  };
+}
+
+export interface SetDeliveryWindowCommand {
+  command_type: 'set_delivery_window';
+  payload: {
+    thread_id: string;     // 1:1 threads are keyed by contact (all of the person's handles)
+    is_group?: boolean;
+    timezone?: string;     // IANA timezone, e.g. "America/New_York"
+    quiet_start?: string;  // HH:MM local time; omitted fields inherit the persona / global window
+    quiet_end?: string;
+    clear?: boolean;       // Remove the thread's own window
+  };
+}
+
 export type EdgeCommand =
   | ScheduleMessageCommand
   | CancelScheduledCommand
@@ -100,7 +137,10 @@ export type EdgeCommand =
   | ContextUpdateCommand
   | ContextResetCommand
   | UploadRetryCommand
-  | EmitEventCommand;
+  | EmitEventCommand
+  | ReplayMessagesCommand
+  | SendAttachmentCommand
+  | SetDeliveryWindowCommand;
 
 export interface EdgeCommandWrapper {
   command_id: string;
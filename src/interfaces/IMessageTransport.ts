@@ -18,7 +18,13 @@ export interface MessageAttachment {
   isOutgoing?: boolean;
 }
 
+export interface ReplyReference {
+  guid: string;   // GUID of the message being replied to (thread_originator_guid)
+  text?: string;  // Snippet of the quoted message, when it could be found
+}
+
 export interface IncomingMessage {
+  guid?: string;           // message.guid from chat.db (when available)
   threadId: string;        // Chat GUID from Messages DB
   sender: string;          // Phone number or Apple ID
   text: string;            // Message content
@@ -26,9 +32,78 @@ export interface IncomingMessage {
   isGroup: boolean;        // 1:1 vs group chat
   participants: string[];  // All participants in the chat
   attachments?: MessageAttachment[];
+  coalesced?: Array<{ guid?: string; text: string; timestamp: Date }>;  // Original texts when rapid-fire messages were merged
+  mentions?: Array<{ start: number; length: number; handle: string }>;  // From attributedBody (UTF-16 ranges)
+  links?: Array<{ start: number; length: number; url: string }>;        // From attributedBody (UTF-16 ranges)
+  groupName?: string;        // chat.display_name for named group chats
+  replyTo?: ReplyReference;  // Set when the message is an inline reply
+  journalIds?: string[];     // Inbound journal entries this message covers (set by the edge agent)
+  replayed?: boolean;        // Re-read from chat.db by a replay_messages backfill
+}
+
+export type ReactionKind = 'love' | 'like' | 'dislike' | 'laugh' | 'emphasize' | 'question' | 'emoji' | 'sticker';
+
+export interface IncomingReaction {
+  threadId: string;           // Chat the reaction was made in
+  sender: string;             // Who reacted
+  targetMessageGuid: string;  // GUID of the message that was reacted to
+  targetPartIndex: number;    // Part of a multi-part message (0 for plain text)
+  kind: ReactionKind;
+  removed: boolean;           // true when the tapback was taken back
+  emoji?: string;             // For kind === 'emoji'
+  timestamp: Date;
+  isGroup: boolean;
+}
+
+export interface IncomingCorrection {
+  kind: 'edited' | 'unsent';
+  messageGuid: string;  // GUID of the original inbound message
+  threadId: string;
+  sender: string;
+  isGroup: boolean;
+  text?: string;        // New text (edits only)
+  timestamp: Date;      // When the edit / unsend happened
+}
+
+export interface IncomingGroupChange {
+  kind: 'member_added' | 'member_removed' | 'renamed';
+  threadId: string;
+  handle?: string;               // Member who joined / left
+  displayName?: string;          // New group name (renames)
+  previousDisplayName?: string;
+  actor?: string;                // Who made the change, when chat.db records it
+  timestamp: Date;
+}
+
+export interface OutboundReceipt {
+  status: 'delivered' | 'read' | 'failed';
+  messageGuid: string;  // GUID of our sent message in chat.db
+  threadId: string;
+  text: string;
+  errorCode?: number;   // message.error (failures only)
+  sentAt: Date;
+  timestamp: Date;      // When it was delivered / read / failed
+}
+
+export interface MessageHistoryQuery {
+  fromRowId?: number;   // Inclusive chat.db message ROWID range
+  toRowId?: number;
+  since?: Date;         // Inclusive time window
+  until?: Date;
+  threadId?: string;
+  limit: number;
+}
+
+export interface SendOptions {
+  commandId?: string;   // Backend command this send belongs to, reported if it is never delivered
 }
 
 export interface IMessageTransport {
+  /**
+   * Sends resolve once queued for delivery, not once Messages.app accepted them
+   */
+  readonly queuesSends?: boolean;
+
   /**
    * Start monitoring for new messages
    */
@@ -44,16 +119,66 @@ export interface IMessageTransport {
    */
   pollNewMessages(): Promise<IncomingMessage[]>;
 
+  /**
+   * Tapbacks seen since the last call (collected while polling messages)
+   */
+  pollReactions?(): Promise<IncomingReaction[]>;
+
+  /**
+   * Edits and unsends of recently received messages since the last call
+   */
+  pollCorrections?(): Promise<IncomingCorrection[]>;
+
+  /**
+   * Group renames and member joins / leaves since the last call
+   */
+  pollGroupChanges?(): Promise<IncomingGroupChange[]>;
+
+  /**
+   * Delivered / read / failed transitions of our sent messages since the last call
+   */
+  pollReceipts?(): Promise<OutboundReceipt[]>;
+
+  /**
+   * Re-read past inbound messages from chat.db without moving the poll cursor
+   */
+  readMessages?(query: MessageHistoryQuery): Promise<IncomingMessage[]>;
+
+  /**
+   * Whether the transport can still receive messages (e.g. its helper process is alive)
+   */
+  isHealthy?(): boolean;
+
+  /**
+   * chat.db ROWID of the last inbound row this transport has read
+   */
+  getCursor?(): number;
+
+  /**
+   * Resume reading after this chat.db ROWID (call before start())
+   */
+  setCursor?(rowId: number): void;
+
   /**
    * Send a message to a thread
    */
-  sendMessage(threadId: string, text: string, isGroup: boolean): Promise<boolean>;
+  sendMessage(threadId: string, text: string, isGroup: boolean, options?: SendOptions): Promise<boolean>;
+
+  /**
+   * Send a message as an inline reply to another message (if the transport supports it)
+   */
+  sendReply?(threadId: string, text: string, isGroup: boolean, replyToGuid: string, options?: SendOptions): Promise<boolean>;
+
+  /**
+   * Send a photo / file (a path, or raw bytes the transport stages to disk) with an optional caption
+   */
+  sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string, options?: SendOptions): Promise<boolean>;
 
   /**
    * Send multiple message bubbles with natural timing
    * @param batched - If true, sends all bubbles in single AppleScript (5× faster)
    */
-  sendMultiBubble(threadId: string, bubbles: string[], isGroup: boolean, batched?: boolean): Promise<boolean>;
+  sendMultiBubble(threadId: string, bubbles: string[], isGroup: boolean, batched?: boolean, options?: SendOptions): Promise<boolean>;
 
   /**
    * Get transport name for logging
@@ -24,6 +24,17 @@ export class HealthCheckServer {
     websocketConnected: false,
     lastMessageTime: null as Date | null,
     lastCommandTime: null as Date | null,
+    inboundQueueDepth: 0,
+    inboundInFlight: 0,
+    inboundShedTotal: 0,
+    inboundDuplicatesSuppressed: 0,
+    outboundQueueDepth: 0,
+    outboundDeadLetter: 0,
+    transportActive: null as string | null,
+    transportOnFallback: false,
+    transportFailovers: 0,
+    transportRecoveries: 0,
+    nativeHelper: null as { state: string; restarts_total: number; last_restart_reason: string | null } | null,
   };
 
   constructor(config: Config, logger: ILogger) {
@@ -69,9 +80,19 @@ export class HealthCheckServer {
             scheduled_messages: this.metrics.scheduledMessages,
             last_message_time: this.metrics.lastMessageTime?.toISOString() || null,
             last_command_time: this.metrics.lastCommandTime?.toISOString() || null,
+            inbound_queue_depth: this.metrics.inboundQueueDepth,
+            inbound_in_flight: this.metrics.inboundInFlight,
+            inbound_duplicates_suppressed: this.metrics.inboundDuplicatesSuppressed,
+            outbound_queue_depth: this.metrics.outboundQueueDepth,
+            outbound_dead_letter: this.metrics.outboundDeadLetter,
+            transport_failovers: this.metrics.transportFailovers,
+            transport_recoveries: this.metrics.transportRecoveries,
           },
+          native_helper: this.metrics.nativeHelper,
           connectivity: {
             websocket_connected: this.metrics.websocketConnected,
+            transport: this.metrics.transportActive,
+            transport_on_fallback: this.metrics.transportOnFallback,
             backend_url: this.config.backend.url,
           },
           system: {
@@ -138,6 +159,50 @@ export class HealthCheckServer {
           `# TYPE edge_agent_websocket_connected gauge`,
           `edge_agent_websocket_connected ${this.metrics.websocketConnected ? 1 : 0}`,
           ``,
+          `# HELP edge_agent_inbound_queue_depth Inbound messages waiting to be processed`,
+          `# TYPE edge_agent_inbound_queue_depth gauge`,
+          `edge_agent_inbound_queue_depth ${this.metrics.inboundQueueDepth}`,
+          ``,
+          `# HELP edge_agent_inbound_in_flight Inbound messages currently being processed`,
+          `# TYPE edge_agent_inbound_in_flight gauge`,
+          `edge_agent_inbound_in_flight ${this.metrics.inboundInFlight}`,
+          ``,
+          `# HELP edge_agent_inbound_shed_total Inbound messages dropped because the queue was full`,
+          `# TYPE edge_agent_inbound_shed_total counter`,
+          `edge_agent_inbound_shed_total ${this.metrics.inboundShedTotal}`,
+          ``,
+          `# HELP edge_agent_inbound_duplicates_suppressed_total Inbound messages dropped because their GUID was already polled`,
+          `# TYPE edge_agent_inbound_duplicates_suppressed_total counter`,
+          `edge_agent_inbound_duplicates_suppressed_total ${this.metrics.inboundDuplicatesSuppressed}`,
+          ``,
+          `# HELP edge_agent_outbound_queue_depth Outbound sends waiting for delivery or retry`,
+          `# TYPE edge_agent_outbound_queue_depth gauge`,
+          `edge_agent_outbound_queue_depth ${this.metrics.outboundQueueDepth}`,
+          ``,
+          `# HELP edge_agent_outbound_dead_letter Outbound sends given up on after retries`,
+          `# TYPE edge_agent_outbound_dead_letter gauge`,
+          `edge_agent_outbound_dead_letter ${this.metrics.outboundDeadLetter}`,
+          ``,
+          `# HELP edge_agent_transport_on_fallback Receiving through the fallback transport (1=fallback, 0=primary)`,
+          `# TYPE edge_agent_transport_on_fallback gauge`,
+          `edge_agent_transport_on_fallback ${this.metrics.transportOnFallback ? 1 : 0}`,
+          ``,
+          `# HELP edge_agent_transport_failovers_total Switches from the primary to the fallback transport`,
+          `# TYPE edge_agent_transport_failovers_total counter`,
+          `edge_agent_transport_failovers_total ${this.metrics.transportFailovers}`,
+          ``,
+          `# HELP edge_agent_transport_recoveries_total Switches from the fallback back to the primary transport`,
+          `# TYPE edge_agent_transport_recoveries_total counter`,
+          `edge_agent_transport_recoveries_total ${this.metrics.transportRecoveries}`,
+          ``,
+          `# HELP edge_agent_native_helper_up Native helper process running (1=running, 0=stopped, restarting or crash loop)`,
+          `# TYPE edge_agent_native_helper_up gauge`,
+          `edge_agent_native_helper_up ${this.metrics.nativeHelper?.state === 'running' ? 1 : 0}`,
+          ``,
+          `# HELP edge_agent_native_helper_restarts_total Native helper restarts by the supervisor`,
+          `# TYPE edge_agent_native_helper_restarts_total counter`,
+          `edge_agent_native_helper_restarts_total ${this.metrics.nativeHelper?.restarts_total ?? 0}`,
+          ``,
           `# HELP edge_agent_memory_mb Memory usage in MB`,
           `# TYPE edge_agent_memory_mb gauge`,
           `edge_agent_memory_mb ${memoryMB}`,
@@ -226,6 +291,51 @@ export class HealthCheckServer {
     }
   }
 
+  /**
+   * Update inbound queue stats (from InboundDispatcher)
+   */
+  setInboundQueueStats(stats: { queued: number; in_flight: number; shed_total: number }): void {
+    this.metrics.inboundQueueDepth = stats.queued;
+    this.metrics.inboundInFlight = stats.in_flight;
+    this.metrics.inboundShedTotal = stats.shed_total;
+  }
+
+  /**
+   * Update the count of duplicate inbound messages dropped (from SeenMessageSet)
+   */
+  setDuplicatesSuppressed(total: number): void {
+    this.metrics.inboundDuplicatesSuppressed = total;
+  }
+
+  /**
+   * Update outbound queue stats (from OutboundQueue)
+   */
+  setOutboundQueueStats(stats: { pending: number; dead_letter: number }): void {
+    this.metrics.outboundQueueDepth = stats.pending;
+    this.metrics.outboundDeadLetter = stats.dead_letter;
+  }
+
+  /**
+   * Update transport failover stats (from FailoverTransport)
+   */
+  setTransportStats(stats: { active: string; transport: string | null; failovers_total: number; recoveries_total: number }): void {
+    this.metrics.transportActive = stats.transport;
+    this.metrics.transportOnFallback = stats.active === 'fallback';
+    this.metrics.transportFailovers = stats.failovers_total;
+    this.metrics.transportRecoveries = stats.recoveries_total;
+  }
+
+  /**
+   * Update native helper state (from NativeHelperSupervisor)
+   */
+  setNativeHelperStatus(status: { state: string; restarts_total: number; last_restart_reason: string | null }): void {
+    this.metrics.nativeHelper = {
+      state: status.state,
+      restarts_total: status.restarts_total,
+      last_restart_reason: status.last_restart_reason
+    };
+  }
+
   /**
    * Update WebSocket connection status
    */
@@ -0,0 +1,217 @@
+import { IncomingMessage } from '../interfaces/IMessageTransport';
+import { ILogger } from '../interfaces/ILogger';
+
+/**
+ * What to do when the inbound queue is full:
+ * - shed_oldest:   drop the oldest queued (not yet started) message
+ * - pause_polling: keep everything, but stop polling until the queue drains
+ */
+export type InboundOverflowPolicy = 'shed_oldest' | 'pause_polling';
+
+export interface InboundDispatcherOptions {
+  maxConcurrency: number;
+  maxQueueDepth: number;
+  overflowPolicy: InboundOverflowPolicy;
+  /** Called whenever queue depth or in-flight count changes */
+  onStatsChange?: (stats: InboundDispatcherStats) => void;
+}
+
+export interface InboundDispatcherStats {
+  queued: number;
+  in_flight: number;
+  active_threads: number;
+  shed_total: number;
+}
+
+type MessageHandler = (message: IncomingMessage) => Promise<void>;
+
+interface QueuedMessage {
+  seq: number;
+  message: IncomingMessage;
+}
+
+/**
+ * InboundDispatcher - Ordered, bounded processing of inbound messages
+ *
+ * Messages in the same thread are processed one at a time in arrival order,
+ * so replies can't overtake each other. Different threads run in parallel
+ * up to maxConcurrency.
+ */
+export class InboundDispatcher {
+  private queues: Map<string, QueuedMessage[]> = new Map();
+  private readyThreads: string[] = [];
+  private activeThreads: Set<string> = new Set();
+  private queued = 0;
+  private shedTotal = 0;
+  private seq = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(
+    private readonly logger: ILogger,
+    private readonly handler: MessageHandler,
+    private readonly options: InboundDispatcherOptions
+  ) {}
+
+  /**
+   * Queue messages for processing
+   * Returns the messages shed to stay within maxQueueDepth (shed_oldest only)
+   */
+  dispatch(messages: IncomingMessage[]): IncomingMessage[] {
+    const shed: IncomingMessage[] = [];
+
+    for (const message of messages) {
+      if (this.options.overflowPolicy === 'shed_oldest' && this.queued >= this.options.maxQueueDepth) {
+        const oldest = this.shedOldest();
+        if (oldest) {
+          shed.push(oldest);
+        }
+      }
+
+      let queue = this.queues.get(message.threadId);
+      if (!queue) {
+        queue = [];
+        this.queues.set(message.threadId, queue);
+      }
+      queue.push({ seq: this.seq++, message });
+      this.queued++;
+
+      if (!this.activeThreads.has(message.threadId) && !this.readyThreads.includes(message.threadId)) {
+        this.readyThreads.push(message.threadId);
+      }
+    }
+
+    if (shed.length > 0) {
+      this.shedTotal += shed.length;
+      this.logger.warn(`⚠️  Inbound queue full - shed ${shed.length} oldest message(s)`);
+    }
+
+    this.pump();
+    this.notifyStats();
+    return shed;
+  }
+
+  /**
+   * True when polling should wait for the queue to drain (pause_polling only)
+   */
+  shouldPausePolling(): boolean {
+    return this.options.overflowPolicy === 'pause_polling' && this.queued >= this.options.maxQueueDepth;
+  }
+
+  /**
+   * Drop everything that hasn't started yet (in-flight messages finish)
+   */
+  clear(): number {
+    const dropped = this.queued;
+    this.queues.clear();
+    this.readyThreads = [];
+    this.queued = 0;
+    this.notifyStats();
+    this.resolveIdleIfDone();
+    return dropped;
+  }
+
+  /**
+   * Resolves once nothing is queued or in flight
+   */
+  onIdle(): Promise<void> {
+    if (this.queued === 0 && this.activeThreads.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Get dispatcher statistics
+   */
+  getStats(): InboundDispatcherStats {
+    return {
+      queued: this.queued,
+      in_flight: this.activeThreads.size,
+      active_threads: this.activeThreads.size + this.readyThreads.length,
+      shed_total: this.shedTotal
+    };
+  }
+
+  /**
+   * Start work for ready threads while there is spare concurrency
+   */
+  private pump(): void {
+    while (this.activeThreads.size < this.options.maxConcurrency && this.readyThreads.length > 0) {
+      const threadId = this.readyThreads.shift()!;
+      const queue = this.queues.get(threadId);
+      const next = queue?.shift();
+      if (!next) {
+        this.queues.delete(threadId);
+        continue;
+      }
+
+      this.queued--;
+      this.activeThreads.add(threadId);
+      this.run(threadId, next.message);
+    }
+  }
+
+  private async run(threadId: string, message: IncomingMessage): Promise<void> {
+    try {
+      await this.handler(message);
+    } catch (error: any) {
+      this.logger.error(`Inbound handler failed for ${threadId}: ${error.message}`);
+    } finally {
+      this.activeThreads.delete(threadId);
+
+      const queue = this.queues.get(threadId);
+      if (queue && queue.length > 0) {
+        this.readyThreads.push(threadId);
+      } else {
+        this.queues.delete(threadId);
+      }
+
+      this.pump();
+      this.notifyStats();
+      this.resolveIdleIfDone();
+    }
+  }
+
+  /**
+   * Remove the oldest queued message across all threads
+   * (each thread queue is FIFO, so only the heads need checking)
+   */
+  private shedOldest(): IncomingMessage | null {
+    let oldestThread: string | null = null;
+    let oldestSeq = Infinity;
+
+    for (const [threadId, queue] of this.queues) {
+      if (queue.length > 0 && queue[0].seq < oldestSeq) {
+        oldestSeq = queue[0].seq;
+        oldestThread = threadId;
+      }
+    }
+
+    if (oldestThread === null) {
+      return null;
+    }
+
+    const queue = this.queues.get(oldestThread)!;
+    const oldest = queue.shift()!;
+    this.queued--;
+
+    if (queue.length === 0) {
+      this.queues.delete(oldestThread);
+      this.readyThreads = this.readyThreads.filter(threadId => threadId !== oldestThread);
+    }
+
+    return oldest.message;
+  }
+
+  private notifyStats(): void {
+    this.options.onStatsChange?.(this.getStats());
+  }
+
+  private resolveIdleIfDone(): void {
+    if (this.queued === 0 && this.activeThreads.size === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ILogger } from '../interfaces/ILogger';
+import { IncomingMessage } from '../types/message.types';
+
+export type InboundJournalStatus = 'received' | 'forwarded' | 'responded' | 'failed';
+
+export interface InboundJournalEntry {
+  journal_id: string;
+  message_guid: string | null;
+  thread_id: string;
+  sender: string;
+  text: string;
+  status: InboundJournalStatus;
+  error: string | null;
+  attempts: number;
+  message_timestamp: string;
+  received_at: string;
+  updated_at: string;
+}
+
+export interface InboundJournalStats {
+  received: number;
+  forwarded: number;
+  responded: number;
+  failed: number;
+}
+
+/**
+ * InboundJournal - Write-ahead log of inbound messages
+ *
+ * Polling advances the chat.db cursor before the backend has seen a message.
+ * Each message is written here first and moves through
+ * received → forwarded (backend accepted it) → responded (handling finished),
+ * or to failed. On startup, messages still in `received` are replayed.
+ */
+export class InboundJournal {
+  private db: Database.Database;
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly logger: ILogger
+  ) {
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.initializeSchema();
+  }
+
+  /**
+   * Journal a freshly polled message; returns its journal ID.
+   * A message_guid that is already journaled returns the existing entry's ID.
+   */
+  record(message: IncomingMessage): string {
+    if (message.guid) {
+      const existing = this.db.prepare(`
+        SELECT journal_id FROM inbound_journal WHERE message_guid = ?
+      `).get(message.guid) as { journal_id: string } | undefined;
+      if (existing) {
+        return existing.journal_id;
+      }
+    }
+
+    const journalId = uuidv4();
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO inbound_journal (
+        journal_id, message_guid, thread_id, sender, payload, status, attempts,
+        message_timestamp, received_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, 'received', 0, ?, ?, ?)
+    `).run(
+      journalId,
+      message.guid ?? null,
+      message.threadId,
+      message.sender,
+      JSON.stringify({ ...message, journalIds: undefined }),
+      message.timestamp.toISOString(),
+      now,
+      now
+    );
+
+    return journalId;
+  }
+
+  /**
+   * The backend accepted the message
+   */
+  markForwarded(journalIds: string[] | undefined): void {
+    this.updateStatus(journalIds, 'forwarded', ['received']);
+  }
+
+  /**
+   * Handling finished (replied, or nothing to do); failed entries stay failed
+   */
+  markResponded(journalIds: string[] | undefined): void {
+    this.updateStatus(journalIds, 'responded', ['received', 'forwarded']);
+  }
+
+  /**
+   * Handling failed; the entry can be re-driven from the admin portal
+   */
+  markFailed(journalIds: string[] | undefined, error: string): void {
+    this.updateStatus(journalIds, 'failed', ['received', 'forwarded'], error);
+  }
+
+  /**
+   * Messages a crash or restart left unhandled.
+   * `received` entries newer than maxAgeSeconds are returned for replay; older
+   * ones, and `forwarded` ones (the backend may already have replied), are failed.
+   */
+  recoverInterrupted(maxAgeSeconds: number): IncomingMessage[] {
+    const now = new Date().toISOString();
+
+    const forwarded = this.db.prepare(`
+      UPDATE inbound_journal
+      SET status = 'failed', error = 'Interrupted after forwarding to backend', updated_at = ?
+      WHERE status = 'forwarded'
+    `).run(now);
+    if (forwarded.changes > 0) {
+      this.logger.warn(`⚠️  Marked ${forwarded.changes} forwarded message(s) as failed (no response recorded)`);
+    }
+
+    const cutoff = new Date(Date.now() - maxAgeSeconds * 1000).toISOString();
+    const stale = this.db.prepare(`
+      UPDATE inbound_journal
+      SET status = 'failed', error = 'Too old to replay', updated_at = ?
+      WHERE status = 'received' AND message_timestamp < ?
+    `).run(now, cutoff);
+    if (stale.changes > 0) {
+      this.logger.warn(`⚠️  Marked ${stale.changes} unhandled message(s) as too old to replay`);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM inbound_journal WHERE status = 'received' ORDER BY received_at ASC
+    `).all() as any[];
+
+    return rows.map(row => this.rowToMessage(row));
+  }
+
+  /**
+   * Put an entry back to `received` and return its message for re-processing
+   */
+  redrive(journalId: string): IncomingMessage | null {
+    const row = this.db.prepare(`SELECT * FROM inbound_journal WHERE journal_id = ?`).get(journalId) as any;
+    if (!row) {
+      return null;
+    }
+
+    this.db.prepare(`
+      UPDATE inbound_journal
+      SET status = 'received', error = NULL, attempts = attempts + 1, updated_at = ?
+      WHERE journal_id = ?
+    `).run(new Date().toISOString(), journalId);
+
+    return this.rowToMessage(row);
+  }
+
+  /**
+   * Get a journal entry by ID
+   */
+  get(journalId: string): InboundJournalEntry | null {
+    const row = this.db.prepare(`SELECT * FROM inbound_journal WHERE journal_id = ?`).get(journalId) as any;
+    return row ? this.rowToEntry(row) : null;
+  }
+
+  /**
+   * Get the journal entry for a chat.db message GUID
+   */
+  findByGuid(messageGuid: string): InboundJournalEntry | null {
+    const row = this.db.prepare(`SELECT * FROM inbound_journal WHERE message_guid = ?`).get(messageGuid) as any;
+    return row ? this.rowToEntry(row) : null;
+  }
+
+  /**
+   * Most recent entries, optionally filtered by status
+   */
+  list(options: { status?: InboundJournalStatus; limit?: number } = {}): InboundJournalEntry[] {
+    const limit = options.limit ?? 100;
+    const rows = options.status
+      ? this.db.prepare(`
+          SELECT * FROM inbound_journal WHERE status = ? ORDER BY received_at DESC LIMIT ?
+        `).all(options.status, limit)
+      : this.db.prepare(`
+          SELECT * FROM inbound_journal ORDER BY received_at DESC LIMIT ?
+        `).all(limit);
+
+    return (rows as any[]).map(row => this.rowToEntry(row));
+  }
+
+  /**
+   * Delete finished entries older than maxAgeDays to keep storage bounded
+   */
+  prune(maxAgeDays: number = 7): number {
+    const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    const result = this.db.prepare(`
+      DELETE FROM inbound_journal
+      WHERE status IN ('responded', 'failed') AND updated_at < ?
+    `).run(cutoff);
+
+    if (result.changes > 0) {
+      this.logger.info(`🧹 Pruned ${result.changes} inbound journal entries older than ${maxAgeDays}d`);
+    }
+
+    return result.changes;
+  }
+
+  /**
+   * Count of entries per status
+   */
+  getStats(): InboundJournalStats {
+    const rows = this.db.prepare(`
+      SELECT status, COUNT(*) as count FROM inbound_journal GROUP BY status
+    `).all() as Array<{ status: InboundJournalStatus; count: number }>;
+
+    const stats: InboundJournalStats = { received: 0, forwarded: 0, responded: 0, failed: 0 };
+    for (const row of rows) {
+      stats[row.status] = row.count;
+    }
+    return stats;
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private updateStatus(
+    journalIds: string[] | undefined,
+    status: InboundJournalStatus,
+    from: InboundJournalStatus[],
+    error?: string
+  ): void {
+    if (!journalIds || journalIds.length === 0) {
+      return;
+    }
+
+    const statement = this.db.prepare(`
+      UPDATE inbound_journal
+      SET status = ?, error = ?, updated_at = ?
+      WHERE journal_id = ? AND status IN (${from.map(() => '?').join(', ')})
+    `);
+    const now = new Date().toISOString();
+    for (const journalId of journalIds) {
+      statement.run(status, error ?? null, now, journalId, ...from);
+    }
+  }
+
+  /**
+   * Rebuild the IncomingMessage (JSON turned its Dates into strings)
+   */
+  private rowToMessage(row: any): IncomingMessage {
+    const payload = JSON.parse(row.payload);
+    return {
+      ...payload,
+      timestamp: new Date(payload.timestamp),
+      attachments: payload.attachments?.map((attachment: any) => ({
+        ...attachment,
+        createdAt: attachment.createdAt ? new Date(attachment.createdAt) : undefined
+      })),
+      coalesced: payload.coalesced?.map((part: any) => ({ ...part, timestamp: new Date(part.timestamp) })),
+      journalIds: [row.journal_id]
+    };
+  }
+
+  private rowToEntry(row: any): InboundJournalEntry {
+    const payload = JSON.parse(row.payload);
+    return {
+      journal_id: row.journal_id,
+      message_guid: row.message_guid,
+      thread_id: row.thread_id,
+      sender: row.sender,
+      text: payload.text ?? '',
+      status: row.status,
+      error: row.error,
+      attempts: row.attempts,
+      message_timestamp: row.message_timestamp,
+      received_at: row.received_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS inbound_journal (
+        journal_id TEXT PRIMARY KEY,
+        message_guid TEXT,
+        thread_id TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        message_timestamp TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_inbound_journal_guid
+      ON inbound_journal(message_guid) WHERE message_guid IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_inbound_journal_status
+      ON inbound_journal(status, received_at);
+    `);
+  }
+}
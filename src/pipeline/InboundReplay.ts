@@ -0,0 +1,91 @@
+import { IncomingMessage } from '../types/message.types';
+
+export type ReplaySkipReason = 'stale' | 'own_number' | 'email_sender' | 'already_handled';
+
+export interface ReplayRules {
+  isOwnHandle: (sender: string) => boolean;
+  maxAgeSeconds: number;
+  isEmailSender: (sender: string) => boolean;
+  isHandled: (message: IncomingMessage) => boolean;
+  now?: number;
+}
+
+export interface InboundReplaySummary {
+  dry_run: boolean;
+  matched: number;
+  replayed: number;  // Would be replayed, for a dry run
+  skipped: Record<ReplaySkipReason, number>;
+  messages: Array<{
+    message_guid?: string;
+    thread_id: string;
+    sender: string;
+    timestamp: number;
+    text: string;
+    action: 'replay' | ReplaySkipReason;
+  }>;
+}
+
+/**
+ * Why a re-read message must not be forwarded again, or null if it can be.
+ * Mirrors the checks live messages go through: own number, stale, email gate, dedupe.
+ */
+export function getReplaySkipReason(message: IncomingMessage, rules: ReplayRules): ReplaySkipReason | null {
+  if (rules.isOwnHandle(message.sender)) {
+    return 'own_number';
+  }
+
+  const ageSeconds = ((rules.now ?? Date.now()) - message.timestamp.getTime()) / 1000;
+  if (ageSeconds > rules.maxAgeSeconds) {
+    return 'stale';
+  }
+
+  // Live messages from email senders get a local rejection reply; never send it twice
+  if (rules.isEmailSender(message.sender)) {
+    return 'email_sender';
+  }
+
+  if (rules.isHandled(message)) {
+    return 'already_handled';
+  }
+
+  return null;
+}
+
+/**
+ * Split re-read messages into those to replay and a summary of the run
+ */
+export function planReplay(
+  messages: IncomingMessage[],
+  rules: ReplayRules,
+  dryRun: boolean
+): { toReplay: IncomingMessage[]; summary: InboundReplaySummary } {
+  const toReplay: IncomingMessage[] = [];
+  const summary: InboundReplaySummary = {
+    dry_run: dryRun,
+    matched: messages.length,
+    replayed: 0,
+    skipped: { stale: 0, own_number: 0, email_sender: 0, already_handled: 0 },
+    messages: []
+  };
+
+  for (const message of messages) {
+    const skipReason = getReplaySkipReason(message, rules);
+    if (skipReason) {
+      summary.skipped[skipReason]++;
+    } else {
+      toReplay.push(message);
+      summary.replayed++;
+    }
+
+    summary.messages.push({
+      message_guid: message.guid,
+      thread_id: message.threadId,
+      sender: message.sender,
+      timestamp: Math.floor(message.timestamp.getTime() / 1000),
+      text: message.text.substring(0, 80),
+      action: skipReason || 'replay'
+    });
+  }
+
+  return { toReplay, summary };
+}
@@ -0,0 +1,180 @@
+import { IncomingMessage } from '../interfaces/IMessageTransport';
+import { ILogger } from '../interfaces/ILogger';
+
+export interface MessageCoalescerOptions {
+  /** Quiet period after the latest message before the batch is released */
+  windowMs: number;
+  /** Upper bound on how long the first message of a batch can wait */
+  maxWaitMs: number;
+  /** Release the batch once it holds this many messages */
+  maxMessages: number;
+}
+
+export interface MessageCoalescerTimers {
+  setTimer: (callback: () => void, ms: number) => NodeJS.Timeout;
+  clearTimer: (timer: NodeJS.Timeout) => void;
+}
+
+type ReleaseFn = (message: IncomingMessage) => void;
+
+interface PendingBatch {
+  sender: string;
+  messages: IncomingMessage[];
+  startedAt: number;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * MessageCoalescer - Merges rapid-fire texts into one backend request
+ *
+ * People often send several short texts in a row ("hey" / "so" / "question").
+ * Consecutive messages from the same sender in a thread are held for a short
+ * debounce window and released as a single message. The window is cut short
+ * when a message looks complete, and attachments are never held.
+ */
+export class MessageCoalescer {
+  private batches: Map<string, PendingBatch> = new Map();
+
+  constructor(
+    private readonly logger: ILogger,
+    private readonly release: ReleaseFn,
+    private readonly options: MessageCoalescerOptions,
+    private readonly timers: MessageCoalescerTimers = {
+      setTimer: (callback, ms) => setTimeout(callback, ms),
+      clearTimer: (timer) => clearTimeout(timer)
+    }
+  ) {}
+
+  /**
+   * Add polled messages (in arrival order)
+   */
+  add(messages: IncomingMessage[]): void {
+    for (const message of messages) {
+      this.addOne(message);
+    }
+  }
+
+  /**
+   * Release every held batch now
+   */
+  flushAll(): void {
+    for (const threadId of Array.from(this.batches.keys())) {
+      this.flush(threadId);
+    }
+  }
+
+  /**
+   * Drop every held batch (used on shutdown); returns the number of messages dropped
+   */
+  clear(): number {
+    let dropped = 0;
+    for (const batch of this.batches.values()) {
+      if (batch.timer) {
+        this.timers.clearTimer(batch.timer);
+      }
+      dropped += batch.messages.length;
+    }
+    this.batches.clear();
+    return dropped;
+  }
+
+  /**
+   * Number of messages currently held
+   */
+  size(): number {
+    let held = 0;
+    for (const batch of this.batches.values()) {
+      held += batch.messages.length;
+    }
+    return held;
+  }
+
+  /**
+   * Merge a batch into a single message; the originals are kept in `coalesced`
+   */
+  static merge(messages: IncomingMessage[]): IncomingMessage {
+    if (messages.length === 1) {
+      return messages[0];
+    }
+
+    const last = messages[messages.length - 1];
+    return {
+      ...last,
+      text: messages.map(message => message.text).join('\n'),
+      // A burst usually starts with the inline reply that prompted it
+      replyTo: messages.find(message => message.replyTo)?.replyTo,
+      journalIds: messages.flatMap(message => message.journalIds || []),
+      coalesced: messages.map(message => ({ guid: message.guid, text: message.text, timestamp: message.timestamp }))
+    };
+  }
+
+  /**
+   * Heuristic for "this text finishes a thought"
+   */
+  static looksComplete(text: string): boolean {
+    const trimmed = text.trim();
+    if (trimmed.length >= 80) {
+      return true;
+    }
+    return /[.!?…]["')\]]*$/.test(trimmed);
+  }
+
+  private addOne(message: IncomingMessage): void {
+    const threadId = message.threadId;
+    const existing = this.batches.get(threadId);
+
+    // Another sender in the thread ends the current run
+    if (existing && existing.sender !== message.sender) {
+      this.flush(threadId);
+    }
+
+    // Attachments bypass the window (flush first to keep thread order)
+    if (message.attachments && message.attachments.length > 0) {
+      this.flush(threadId);
+      this.release(message);
+      return;
+    }
+
+    let batch = this.batches.get(threadId);
+    if (batch) {
+      if (batch.timer) {
+        this.timers.clearTimer(batch.timer);
+      }
+      batch.messages.push(message);
+    } else {
+      batch = {
+        sender: message.sender,
+        messages: [message],
+        startedAt: Date.now(),
+        timer: null
+      };
+      this.batches.set(threadId, batch);
+    }
+
+    if (MessageCoalescer.looksComplete(message.text) || batch.messages.length >= this.options.maxMessages) {
+      this.flush(threadId);
+      return;
+    }
+
+    const remainingMaxWait = this.options.maxWaitMs - (Date.now() - batch.startedAt);
+    const delay = Math.max(0, Math.min(this.options.windowMs, remainingMaxWait));
+    batch.timer = this.timers.setTimer(() => this.flush(threadId), delay);
+  }
+
+  private flush(threadId: string): void {
+    const batch = this.batches.get(threadId);
+    if (!batch) {
+      return;
+    }
+
+    if (batch.timer) {
+      this.timers.clearTimer(batch.timer);
+    }
+    this.batches.delete(threadId);
+
+    if (batch.messages.length > 1) {
+      this.logger.info(`🧩 Coalesced ${batch.messages.length} messages from ${batch.sender} in ${threadId}`);
+    }
+    this.release(MessageCoalescer.merge(batch.messages));
+  }
+}
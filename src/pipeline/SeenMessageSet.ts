@@ -0,0 +1,145 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../interfaces/ILogger';
+
+export interface SeenMessageSetOptions {
+  maxEntries: number;   // GUIDs kept in SQLite before the oldest are evicted
+  cacheSize: number;    // Most recent GUIDs kept in memory
+}
+
+export interface SeenMessageSetStats {
+  tracked: number;
+  suppressed_total: number;
+}
+
+const DEFAULT_OPTIONS: SeenMessageSetOptions = {
+  maxEntries: 50000,
+  cacheSize: 2000
+};
+
+/**
+ * SeenMessageSet - Bounded record of chat.db message GUIDs already polled
+ *
+ * The transports track their position by ROWID (in memory or in the native
+ * helper's state file). When that position is lost or reset, old rows are
+ * reported again; checking the GUID here suppresses them no matter which
+ * transport polled them first. Recent GUIDs are cached in an in-memory LRU
+ * in front of the SQLite table.
+ */
+export class SeenMessageSet {
+  private db: Database.Database;
+  private options: SeenMessageSetOptions;
+  private cache: Map<string, true> = new Map();
+  private suppressedTotal = 0;
+  private insertsSincePrune = 0;
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly logger: ILogger,
+    options: Partial<SeenMessageSetOptions> = {}
+  ) {
+    this.options = {
+      maxEntries: options.maxEntries ?? DEFAULT_OPTIONS.maxEntries,
+      cacheSize: options.cacheSize ?? DEFAULT_OPTIONS.cacheSize
+    };
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.initializeSchema();
+  }
+
+  /**
+   * Record a GUID; returns true (and counts a suppression) if it was seen before
+   */
+  checkAndMark(guid: string, threadId: string): boolean {
+    if (this.cache.has(guid)) {
+      this.touch(guid);
+      this.suppressedTotal++;
+      return true;
+    }
+
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO seen_messages (message_guid, thread_id, seen_at) VALUES (?, ?, ?)
+    `).run(guid, threadId, Date.now());
+    this.touch(guid);
+
+    if (result.changes === 0) {
+      this.suppressedTotal++;
+      return true;
+    }
+
+    // Evict in batches rather than on every insert
+    if (++this.insertsSincePrune >= 100) {
+      this.prune();
+    }
+    return false;
+  }
+
+  /**
+   * Drop the oldest GUIDs beyond maxEntries
+   */
+  prune(): number {
+    this.insertsSincePrune = 0;
+    const result = this.db.prepare(`
+      DELETE FROM seen_messages
+      WHERE message_guid IN (
+        SELECT message_guid FROM seen_messages ORDER BY seen_at DESC, rowid DESC LIMIT -1 OFFSET ?
+      )
+    `).run(this.options.maxEntries);
+
+    if (result.changes > 0) {
+      this.logger.debug(`🧹 Evicted ${result.changes} old message GUID(s) from the seen-set`);
+    }
+
+    return result.changes;
+  }
+
+  /**
+   * Number of GUIDs tracked and duplicates suppressed since startup
+   */
+  getStats(): SeenMessageSetStats {
+    const row = this.db.prepare(`SELECT COUNT(*) as count FROM seen_messages`).get() as { count: number };
+    return { tracked: row.count, suppressed_total: this.suppressedTotal };
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Move a GUID to the most-recent end of the in-memory LRU
+   */
+  private touch(guid: string): void {
+    this.cache.delete(guid);
+    this.cache.set(guid, true);
+
+    if (this.cache.size > this.options.cacheSize) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) {
+        this.cache.delete(oldest);
+      }
+    }
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS seen_messages (
+        message_guid TEXT PRIMARY KEY,
+        thread_id TEXT NOT NULL,
+        seen_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_seen_messages_seen_at
+      ON seen_messages(seen_at);
+    `);
+  }
+}
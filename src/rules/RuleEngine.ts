@@ -1,5 +1,6 @@
 import { ILogger } from '../interfaces/ILogger';
 import Database from 'better-sqlite3';
+import { HandleResolver } from '../identity/HandleResolver';
 
 /**
  * Rule types supported by the rule engine
@@ -62,9 +63,11 @@ export interface IncomingMessage {
 export class RuleEngine {
   private db: Database.Database;
   private logger: ILogger;
+  private handles: HandleResolver | null;
 
-  constructor(dbPath: string, logger: ILogger) {
+  constructor(dbPath: string, logger: ILogger, handles: HandleResolver | null = null) {
     this.logger = logger;
+    this.handles = handles;
     this.db = new Database(dbPath);
     this.initializeDatabase();
   }
@@ -262,6 +265,11 @@ export class RuleEngine {
       return condition.operator === 'equals' && fieldValue === condition.value;
     }
 
+    // Any handle of the same person matches a sender (e.g. "(310) 555-1234" or their email)
+    if (condition.field === 'sender' && condition.operator === 'equals' && this.handles) {
+      return this.handles.isSamePerson(fieldValue, String(condition.value));
+    }
+
     // Handle string conditions
     const conditionValue = String(condition.value).toLowerCase();
     const messageValue = fieldValue.toLowerCase();
@@ -0,0 +1,192 @@
+import { ILogger } from '../interfaces/ILogger';
+import { IMessageTransport } from '../interfaces/IMessageTransport';
+import { Scheduler } from '../scheduler/Scheduler';
+import { RuleEngine, Rule, IncomingMessage } from './RuleEngine';
+
+/**
+ * Outcome of running the rule engine against an inbound message
+ */
+export interface RuleExecutionResult {
+  rule: Rule;
+  action_taken: string;
+  success: boolean;
+  /**
+   * True when the rule fully handled the message and it must NOT be
+   * forwarded to the backend (block, local reply, scheduled reply)
+   */
+  handled: boolean;
+  error?: string;
+}
+
+/**
+ * RuleExecutor - Applies the action of the first matching rule
+ *
+ * - block:          drop the message
+ * - reply:          send parameters.message back to the thread
+ * - forward:        relay the message to parameters.forward_to, then continue
+ * - schedule_reply: schedule parameters.message after parameters.delay_seconds
+ */
+export class RuleExecutor {
+  private ruleEngine: RuleEngine;
+  private scheduler: Scheduler;
+  private transport: IMessageTransport;
+  private logger: ILogger;
+
+  constructor(
+    ruleEngine: RuleEngine,
+    scheduler: Scheduler,
+    transport: IMessageTransport,
+    logger: ILogger
+  ) {
+    this.ruleEngine = ruleEngine;
+    this.scheduler = scheduler;
+    this.transport = transport;
+    this.logger = logger;
+  }
+
+  /**
+   * Evaluate and execute rules for a message
+   * Returns null when no enabled rule matches
+   */
+  async execute(message: IncomingMessage): Promise<RuleExecutionResult | null> {
+    const rule = this.ruleEngine.evaluateMessage(message);
+    if (!rule) {
+      return null;
+    }
+
+    const params = rule.action?.parameters || {};
+
+    try {
+      switch (rule.action?.type) {
+        case 'block':
+          this.logger.info(`🚫 Rule ${rule.rule_id} blocked message from ${message.sender}`);
+          return { rule, action_taken: 'blocked', success: true, handled: true };
+
+        case 'reply':
+          return await this.executeReply(rule, message, params.message);
+
+        case 'forward':
+          return await this.executeForward(rule, message, params.forward_to);
+
+        case 'schedule_reply':
+          return this.executeScheduleReply(rule, message, params.message, params.delay_seconds);
+
+        default:
+          this.logger.warn(`Rule ${rule.rule_id} has unknown action type: ${rule.action?.type}`);
+          return {
+            rule,
+            action_taken: 'none',
+            success: false,
+            handled: false,
+            error: `Unknown action type: ${rule.action?.type}`
+          };
+      }
+    } catch (error: any) {
+      this.logger.error(`Rule ${rule.rule_id} action failed: ${error.message}`);
+      return {
+        rule,
+        action_taken: `${rule.action?.type}_failed`,
+        success: false,
+        handled: false,
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Reply locally in the same thread
+   */
+  private async executeReply(
+    rule: Rule,
+    message: IncomingMessage,
+    text: string | undefined
+  ): Promise<RuleExecutionResult> {
+    if (!text) {
+      return this.missingParameter(rule, 'message');
+    }
+
+    const sent = await this.transport.sendMessage(message.thread_id, text, message.is_group);
+    if (!sent) {
+      // Let the backend handle the message rather than silently dropping it
+      return {
+        rule,
+        action_taken: 'reply_failed',
+        success: false,
+        handled: false,
+        error: 'Failed to send rule reply via transport'
+      };
+    }
+
+    this.logger.info(`↩️  Rule ${rule.rule_id} replied to ${message.thread_id}`);
+    return { rule, action_taken: 'replied', success: true, handled: true };
+  }
+
+  /**
+   * Relay the message to another thread or handle
+   */
+  private async executeForward(
+    rule: Rule,
+    message: IncomingMessage,
+    forwardTo: string | undefined
+  ): Promise<RuleExecutionResult> {
+    if (!forwardTo) {
+      return this.missingParameter(rule, 'forward_to');
+    }
+
+    const text = `Fwd from ${message.sender}: ${message.content}`;
+    const sent = await this.transport.sendMessage(forwardTo, text, forwardTo.includes('chat'));
+
+    if (!sent) {
+      return {
+        rule,
+        action_taken: 'forward_failed',
+        success: false,
+        handled: false,
+        error: `Failed to forward message to ${forwardTo}`
+      };
+    }
+
+    this.logger.info(`➡️  Rule ${rule.rule_id} forwarded message to ${forwardTo}`);
+    return { rule, action_taken: 'forwarded', success: true, handled: false };
+  }
+
+  /**
+   * Schedule a delayed reply through the scheduler
+   */
+  private executeScheduleReply(
+    rule: Rule,
+    message: IncomingMessage,
+    text: string | undefined,
+    delaySeconds: number | undefined
+  ): RuleExecutionResult {
+    if (!text) {
+      return this.missingParameter(rule, 'message');
+    }
+
+    const delayMs = Math.max(0, Number(delaySeconds) || 0) * 1000;
+    const sendAt = new Date(Date.now() + delayMs);
+    const scheduleId = this.scheduler.scheduleMessage(
+      message.thread_id,
+      text,
+      sendAt,
+      message.is_group
+    );
+
+    this.logger.info(`⏰ Rule ${rule.rule_id} scheduled reply ${scheduleId} for ${sendAt.toISOString()}`);
+    return { rule, action_taken: 'reply_scheduled', success: true, handled: true };
+  }
+
+  /**
+   * Build a failure result for a rule missing a required action parameter
+   */
+  private missingParameter(rule: Rule, name: string): RuleExecutionResult {
+    this.logger.warn(`Rule ${rule.rule_id} (${rule.action.type}) is missing parameter: ${name}`);
+    return {
+      rule,
+      action_taken: `${rule.action.type}_failed`,
+      success: false,
+      handled: false,
+      error: `Missing action parameter: ${name}`
+    };
+  }
+}
@@ -3,6 +3,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { ILogger } from '../interfaces/ILogger';
 import { IMessageTransport } from '../interfaces/IMessageTransport';
 import { PostHogAnalytics } from '../monitoring/posthog';
+import { DeliveryWindowPolicy } from '../delivery/DeliveryWindowPolicy';
 
 /**
  * Scheduled message interface
@@ -17,6 +18,8 @@ export interface ScheduledMessage {
   created_at: Date;
   command_id?: string;
   error_message?: string;
+  bypass_quiet_hours: boolean;
+  reply_to_guid?: string;  // Sent as an inline reply where the transport supports it
 }
 
 /**
@@ -44,16 +47,19 @@ export class Scheduler {
   private maxCheckIntervalMs: number = 60000; // Max 60s between checks
   private checkBufferMs: number = 100; // Check 100ms before message is due
   private ackCallback: SchedulerAckCallback | null = null;
+  private deliveryWindow: DeliveryWindowPolicy | null = null;
 
   constructor(
     dbPath: string,
     transport: IMessageTransport,
     logger: ILogger,
-    posthog?: PostHogAnalytics
+    posthog?: PostHogAnalytics,
+    deliveryWindow?: DeliveryWindowPolicy
   ) {
     this.logger = logger;
     this.transport = transport;
     this.posthog = posthog || null;
+    this.deliveryWindow = deliveryWindow || null;
 
     // Initialize database
     this.db = new Database(dbPath);
@@ -84,10 +90,21 @@ export class Scheduler {
         status TEXT DEFAULT 'pending',
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         command_id TEXT,
-        error_message TEXT
+        error_message TEXT,
+        bypass_quiet_hours INTEGER DEFAULT 0,
+        reply_to_guid TEXT
       )
     `);
 
+    // Databases created before quiet hours existed
+    const columns = this.db.prepare('PRAGMA table_info(scheduled_messages)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'bypass_quiet_hours')) {
+      this.db.exec(`ALTER TABLE scheduled_messages ADD COLUMN bypass_quiet_hours INTEGER DEFAULT 0`);
+    }
+    if (!columns.some(column => column.name === 'reply_to_guid')) {
+      this.db.exec(`ALTER TABLE scheduled_messages ADD COLUMN reply_to_guid TEXT`);
+    }
+
     // Create index for efficient queries
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_send_at
@@ -100,20 +117,24 @@ export class Scheduler {
 
   /**
    * Schedule a new message
+   * @param bypassQuietHours - Send at sendAt even inside the recipient's quiet hours
+   * @param replyToGuid - Send as an inline reply to this message
    */
   scheduleMessage(
     threadId: string,
     messageText: string,
     sendAt: Date,
     isGroup: boolean = false,
-    commandId?: string
+    commandId?: string,
+    bypassQuietHours: boolean = false,
+    replyToGuid?: string
   ): string {
     const id = uuidv4();
 
     const stmt = this.db.prepare(`
       INSERT INTO scheduled_messages
-      (id, thread_id, message_text, send_at, is_group, command_id)
-      VALUES (?, ?, ?, ?, ?, ?)
+      (id, thread_id, message_text, send_at, is_group, command_id, bypass_quiet_hours, reply_to_guid)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -122,7 +143,9 @@ export class Scheduler {
       messageText,
       sendAt.toISOString(),
       isGroup ? 1 : 0,
-      commandId || null
+      commandId || null,
+      bypassQuietHours ? 1 : 0,
+      replyToGuid || null
     );
 
     this.logger.info(`Scheduled message ${id} for ${sendAt.toISOString()}`);
@@ -386,6 +409,11 @@ export class Scheduler {
       // Process each message
       // ATOMIC CLAIM: Mark each message as 'sent' BEFORE sending to prevent duplicates
       for (const row of rows) {
+        // Quiet hours: push the message to the recipient's next allowed window
+        if (this.deferIfQuietHours(row, now)) {
+          continue;
+        }
+
         // Atomically claim this message by updating status from pending → sent
         // If another concurrent checkNow() already claimed it, this UPDATE will affect 0 rows
         const claimStmt = this.db.prepare(`
@@ -421,6 +449,31 @@ export class Scheduler {
     }
   }
 
+  /**
+   * Move a due message to the end of the recipient's quiet hours; returns true if deferred
+   */
+  private deferIfQuietHours(row: any, now: Date): boolean {
+    if (!this.deliveryWindow || row.bypass_quiet_hours === 1) {
+      return false;
+    }
+
+    const deferredUntil = this.deliveryWindow.getDeferral(row.thread_id, row.is_group === 1, now);
+    if (!deferredUntil) {
+      return false;
+    }
+
+    const result = this.db.prepare(`
+      UPDATE scheduled_messages
+      SET send_at = ?
+      WHERE id = ? AND status = 'pending'
+    `).run(deferredUntil.toISOString(), row.id);
+
+    if (result.changes > 0) {
+      this.logger.info(`🌙 Scheduled message ${row.id} is in quiet hours for ${row.thread_id} - deferred to ${deferredUntil.toISOString()}`);
+    }
+    return true;
+  }
+
   /**
    * Execute a scheduled message (already atomically claimed as 'sent')
    */
@@ -439,14 +492,16 @@ export class Scheduler {
       if (message.command_id) {
         this.logger.info(`   Command ID: ${message.command_id}`);
       }
+      if (message.reply_to_guid) {
+        this.logger.info(`   Reply to: ${message.reply_to_guid}`);
+      }
       this.logger.info('='.repeat(60));
 
       // Send via transport (status is already 'sent' in database)
-      const success = await this.transport.sendMessage(
-        message.thread_id,
-        message.message_text,
-        message.is_group
-      );
+      const sendOptions = { commandId: message.command_id };
+      const success = message.reply_to_guid && this.transport.sendReply
+        ? await this.transport.sendReply(message.thread_id, message.message_text, message.is_group, message.reply_to_guid, sendOptions)
+        : await this.transport.sendMessage(message.thread_id, message.message_text, message.is_group, sendOptions);
 
       // Track scheduled message execution
       if (this.posthog) {
@@ -564,7 +619,9 @@ export class Scheduler {
       status: row.status,
       created_at: new Date(row.created_at),
       command_id: row.command_id || undefined,
-      error_message: row.error_message || undefined
+      error_message: row.error_message || undefined,
+      bypass_quiet_hours: row.bypass_quiet_hours === 1,
+      reply_to_guid: row.reply_to_guid || undefined
     };
   }
 
@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+import { ILogger } from '../interfaces/ILogger';
+import { SyntheticChatDb, SyntheticRow } from './SyntheticChatDb';
+
+const AttachmentSchema = z.object({
+  filename: z.string().min(1),
+  path: z.string().min(1).optional(),         // Copy an existing file
+  data_base64: z.string().optional(),         // Or inline bytes (neither: the file is missing on disk)
+  mime_type: z.string().optional(),
+  is_sticker: z.boolean().optional()
+});
+
+const at_ms = z.number().int().nonnegative().default(0);  // Offset from the start of playback
+
+/**
+ * One scripted change to a synthetic chat.db
+ */
+export const ChatDbEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('chat'),
+    at_ms,
+    thread_id: z.string().min(1),
+    display_name: z.string().optional(),
+    participants: z.array(z.string().min(1)).optional()
+  }),
+  z.object({
+    type: z.literal('message'),
+    at_ms,
+    thread_id: z.string().min(1),
+    text: z.string().optional(),
+    sender: z.string().min(1).optional(),
+    from_me: z.boolean().optional(),
+    guid: z.string().min(1).optional(),   // Name the message so later events can refer to it
+    reply_to_guid: z.string().min(1).optional(),
+    attributed_body_only: z.boolean().optional(),
+    attachments: z.array(AttachmentSchema).optional()
+  }),
+  z.object({
+    type: z.literal('reaction'),
+    at_ms,
+    thread_id: z.string().min(1),
+    target_guid: z.string().min(1),
+    kind: z.enum(['love', 'like', 'dislike', 'laugh', 'emphasize', 'question', 'emoji', 'sticker']),
+    sender: z.string().min(1).optional(),
+    removed: z.boolean().optional(),
+    emoji: z.string().optional(),
+    part: z.number().int().nonnegative().optional()
+  }),
+  z.object({
+    type: z.literal('rename'),
+    at_ms,
+    thread_id: z.string().min(1),
+    name: z.string(),
+    actor: z.string().min(1).optional()
+  }),
+  z.object({
+    type: z.enum(['add_member', 'remove_member']),
+    at_ms,
+    thread_id: z.string().min(1),
+    handle: z.string().min(1),
+    actor: z.string().min(1).optional()
+  }),
+  z.object({
+    type: z.literal('edit'),
+    at_ms,
+    guid: z.string().min(1),
+    text: z.string()
+  }),
+  z.object({
+    type: z.literal('unsend'),
+    at_ms,
+    guid: z.string().min(1)
+  }),
+  z.object({
+    type: z.enum(['read', 'failed']),   // Receipt for the agent's latest send with this text
+    at_ms,
+    thread_id: z.string().min(1),
+    text: z.string()
+  })
+]);
+
+export const ChatDbScriptSchema = z.array(ChatDbEventSchema);
+
+export type ChatDbEvent = z.infer<typeof ChatDbEventSchema>;
+export type ChatDbEventInput = z.input<typeof ChatDbEventSchema>;
+
+export interface ChatDbScriptTimers {
+  setTimer: (callback: () => void, ms: number) => NodeJS.Timeout;
+  clearTimer: (timer: NodeJS.Timeout) => void;
+}
+
+const DEFAULT_TIMERS: ChatDbScriptTimers = {
+  setTimer: (callback, ms) => setTimeout(callback, ms),
+  clearTimer: (timer) => clearTimeout(timer)
+};
+
+/**
+ * Read and validate a JSON script file
+ */
+export function loadChatDbScript(filePath: string): ChatDbEvent[] {
+  return ChatDbScriptSchema.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+}
+
+/**
+ * ChatDbScriptPlayer - Applies scripted events to a SyntheticChatDb over time
+ *
+ * Each event runs at its at_ms offset from the start of play(), so a poller
+ * reading the database sees messages, tapbacks, group changes, edits and
+ * receipts arrive the way they would from Messages.app. An event that fails
+ * (e.g. an edit of an unknown guid) is logged and playback continues.
+ */
+export class ChatDbScriptPlayer {
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private stopPlayback: (() => void) | null = null;
+
+  constructor(
+    private readonly chatDb: SyntheticChatDb,
+    private readonly logger: ILogger,
+    private readonly timerApi: ChatDbScriptTimers = DEFAULT_TIMERS
+  ) {}
+
+  /**
+   * Play events at their offsets; resolves after the last one ran (or stop())
+   */
+  play(events: ChatDbEventInput[]): Promise<void> {
+    const parsed = ChatDbScriptSchema.parse(events);
+    if (parsed.length === 0) {
+      return Promise.resolve();
+    }
+
+    let remaining = parsed.length;
+    return new Promise(resolve => {
+      parsed.forEach(event => {
+        const timer = this.timerApi.setTimer(() => {
+          this.timers.delete(timer);
+          this.runSafely(event);
+          if (--remaining === 0) {
+            resolve();
+          }
+        }, event.at_ms);
+        this.timers.add(timer);
+      });
+      this.stopPlayback = resolve;
+    });
+  }
+
+  /**
+   * Cancel events that haven't run yet
+   */
+  stop(): void {
+    this.timers.forEach(timer => this.timerApi.clearTimer(timer));
+    this.timers.clear();
+    this.stopPlayback?.();
+    this.stopPlayback = null;
+  }
+
+  /**
+   * Apply one event now
+   */
+  apply(input: ChatDbEventInput): SyntheticRow | null {
+    const event = ChatDbEventSchema.parse(input);
+
+    switch (event.type) {
+      case 'chat':
+        this.chatDb.ensureChat(event.thread_id, { displayName: event.display_name, participants: event.participants });
+        return null;
+      case 'message':
+        return this.chatDb.insertMessage({
+          ...event,
+          attachments: event.attachments?.map(attachment => ({
+            filename: attachment.filename,
+            mime_type: attachment.mime_type,
+            is_sticker: attachment.is_sticker,
+            data: attachment.path
+              ? fs.readFileSync(attachment.path)
+              : attachment.data_base64 ? Buffer.from(attachment.data_base64, 'base64') : undefined
+          }))
+        });
+      case 'reaction':
+        return this.chatDb.insertReaction(event);
+      case 'rename':
+        return this.chatDb.renameGroup(event.thread_id, event.name, event.actor);
+      case 'add_member':
+        return this.chatDb.addMember(event.thread_id, event.handle, event.actor);
+      case 'remove_member':
+        return this.chatDb.removeMember(event.thread_id, event.handle, event.actor);
+      case 'edit':
+        this.chatDb.editMessage(event.guid, event.text);
+        return null;
+      case 'unsend':
+        this.chatDb.unsendMessage(event.guid);
+        return null;
+      case 'read':
+      case 'failed': {
+        const sent = this.chatDb.findSentMessage(event.thread_id, event.text);
+        if (!sent) {
+          throw new Error(`No sent message "${event.text}" in ${event.thread_id}`);
+        }
+        if (event.type === 'read') {
+          this.chatDb.markRead(sent.guid);
+        } else {
+          this.chatDb.markFailed(sent.guid);
+        }
+        return sent;
+      }
+    }
+  }
+
+  private runSafely(event: ChatDbEvent): void {
+    try {
+      this.apply(event);
+      this.logger.debug(`Script event ${event.type} applied at +${event.at_ms}ms`);
+    } catch (error: any) {
+      this.logger.error(`❌ Script event ${event.type} at +${event.at_ms}ms failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import express, { Request, Response } from 'express';
+import { Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { z } from 'zod';
+import { ILogger } from '../interfaces/ILogger';
+import type { SimulatorTransport, SimulatedSend } from '../transports/SimulatorTransport';
+
+const MessageSchema = z.object({
+  sender: z.string().min(1),
+  text: z.string().optional(),
+  thread_id: z.string().min(1).optional(),
+  participants: z.array(z.string().min(1)).optional(),
+  group_name: z.string().optional(),
+  reply_to_guid: z.string().min(1).optional()
+});
+
+const AttachmentSchema = MessageSchema.extend({
+  filename: z.string().min(1),
+  data_base64: z.string().min(1),
+  mime_type: z.string().optional()
+});
+
+const ReactionSchema = z.object({
+  sender: z.string().min(1),
+  target_guid: z.string().min(1),
+  kind: z.enum(['love', 'like', 'dislike', 'laugh', 'emphasize', 'question', 'emoji', 'sticker']),
+  thread_id: z.string().min(1).optional(),
+  removed: z.boolean().optional(),
+  emoji: z.string().optional()
+});
+
+/**
+ * Frames a WebSocket client may send (the same bodies as the HTTP endpoints)
+ */
+const ClientFrameSchema = z.discriminatedUnion('type', [
+  MessageSchema.extend({ type: z.literal('message') }),
+  AttachmentSchema.extend({ type: z.literal('attachment') }),
+  ReactionSchema.extend({ type: z.literal('reaction') })
+]);
+
+export type SimulatorClientFrame = z.infer<typeof ClientFrameSchema>;
+
+export type SimulatorServerFrame =
+  | { type: 'sent'; send: SimulatedSend }
+  | { type: 'injected'; guid: string; thread_id: string }
+  | { type: 'error'; error: string };
+
+/**
+ * SimulatorServer - HTTP / WebSocket injection API for SimulatorTransport
+ *
+ * HTTP:
+ *   POST   /messages     inject a text message
+ *   POST   /attachments  inject a message with a file (data_base64)
+ *   POST   /reactions    inject a tapback on any message guid
+ *   GET    /sends        recorded sends (?thread_id, ?after_id, ?limit)
+ *   DELETE /sends        forget recorded sends
+ *
+ * WebSocket (/ws): every send is pushed as {type: 'sent'}; clients may
+ * inject with {type: 'message' | 'attachment' | 'reaction', ...body}.
+ */
+export class SimulatorServer {
+  private app: express.Application;
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly transport: SimulatorTransport,
+    private readonly logger: ILogger
+  ) {
+    this.app = express();
+    this.app.use(express.json({ limit: '50mb' }));
+    this.setupRoutes();
+  }
+
+  /**
+   * Start listening (resolves once the port is bound)
+   */
+  listen(port: number, host: string): Promise<void> {
+    const server = createServer(this.app);
+    this.server = server;
+    this.wss = new WebSocketServer({ server, path: '/ws' });
+    this.wss.on('connection', (socket) => this.handleConnection(socket));
+    this.unsubscribe = this.transport.onSend((send) => this.broadcast({ type: 'sent', send }));
+
+    return new Promise((resolve, reject) => {
+      server.once('error', (error: any) => {
+        if (error.code === 'EADDRINUSE') {
+          this.logger.error(`❌ Simulator port ${port} is already in use`);
+        }
+        reject(error);
+      });
+      server.listen(port, host, () => resolve());
+    });
+  }
+
+  /**
+   * Bound port, or null before listen()
+   */
+  getPort(): number | null {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address?.port ?? null;
+  }
+
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.wss) {
+      this.wss.clients.forEach(client => client.terminate());
+      this.wss.close();
+      this.wss = null;
+    }
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+
+  private setupRoutes(): void {
+    this.app.post('/messages', (req: Request, res: Response) => {
+      this.handleInjection(res, () => this.inject({ type: 'message', ...MessageSchema.parse(req.body) }));
+    });
+
+    this.app.post('/attachments', (req: Request, res: Response) => {
+      this.handleInjection(res, () => this.inject({ type: 'attachment', ...AttachmentSchema.parse(req.body) }));
+    });
+
+    this.app.post('/reactions', (req: Request, res: Response) => {
+      this.handleInjection(res, () => this.inject({ type: 'reaction', ...ReactionSchema.parse(req.body) }));
+    });
+
+    this.app.get('/sends', (req: Request, res: Response) => {
+      const afterId = req.query.after_id ? parseInt(req.query.after_id as string, 10) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      res.json({
+        sends: this.transport.getSends({
+          threadId: req.query.thread_id as string | undefined,
+          afterId,
+          limit
+        })
+      });
+    });
+
+    this.app.delete('/sends', (req: Request, res: Response) => {
+      res.json({ cleared: this.transport.clearSends() });
+    });
+  }
+
+  private handleInjection(res: Response, inject: () => { guid: string; thread_id: string }): void {
+    try {
+      res.status(201).json(inject());
+    } catch (error: any) {
+      res.status(400).json({ error: formatError(error) });
+    }
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    this.logger.info('🧪 Simulator client connected');
+
+    socket.on('message', (data) => {
+      let reply: SimulatorServerFrame;
+      try {
+        const frame = ClientFrameSchema.parse(JSON.parse(data.toString()));
+        reply = { type: 'injected', ...this.inject(frame) };
+      } catch (error: any) {
+        reply = { type: 'error', error: formatError(error) };
+      }
+      socket.send(JSON.stringify(reply));
+    });
+  }
+
+  private inject(frame: SimulatorClientFrame): { guid: string; thread_id: string } {
+    switch (frame.type) {
+      case 'reaction': {
+        const reaction = this.transport.injectReaction(frame);
+        return { guid: reaction.targetMessageGuid, thread_id: reaction.threadId };
+      }
+      case 'attachment': {
+        const { filename, data_base64, mime_type, ...message } = frame;
+        const injected = this.transport.injectMessage({
+          ...message,
+          attachment: { filename, data: Buffer.from(data_base64, 'base64'), mime_type }
+        });
+        return { guid: injected.guid!, thread_id: injected.threadId };
+      }
+      case 'message': {
+        const injected = this.transport.injectMessage(frame);
+        return { guid: injected.guid!, thread_id: injected.threadId };
+      }
+    }
+  }
+
+  private broadcast(frame: SimulatorServerFrame): void {
+    const data = JSON.stringify(frame);
+    this.wss?.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    });
+  }
+}
+
+function formatError(error: any): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+  }
+  return error instanceof SyntaxError ? 'Invalid JSON' : error.message;
+}
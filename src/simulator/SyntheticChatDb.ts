@@ -0,0 +1,677 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ReactionKind } from '../interfaces/IMessageTransport';
+import { attributedBodyToText } from '../transports/AttributedBodyDecoder';
+import { toAppleTimestamp } from '../transports/appleTime';
+
+export type MacOSVersion = 'ventura' | 'sonoma' | 'sequoia';
+
+export const MACOS_VERSIONS: MacOSVersion[] = ['ventura', 'sonoma', 'sequoia'];
+
+export interface SyntheticChatDbOptions {
+  macosVersion: MacOSVersion;
+  attachmentsPath: string;  // Where attachment files are written (chat.db stores ~/Library/Messages/Attachments paths)
+}
+
+export interface SyntheticAttachmentInput {
+  filename: string;
+  data?: Buffer;        // Written under attachmentsPath; omit for a row whose file is missing
+  mime_type?: string;
+  uti?: string;
+  is_sticker?: boolean;
+}
+
+export interface SyntheticMessageInput {
+  thread_id: string;          // chat_identifier: a handle for 1:1 chats, "chat…" for groups
+  text?: string;
+  sender?: string;            // Group sender (1:1 messages come from thread_id)
+  from_me?: boolean;
+  guid?: string;
+  date?: Date;
+  reply_to_guid?: string;
+  attributed_body_only?: boolean;  // NULL text column, content only in attributedBody
+  attachments?: SyntheticAttachmentInput[];
+}
+
+export interface SyntheticReactionInput {
+  thread_id: string;
+  target_guid: string;
+  kind: ReactionKind;
+  sender?: string;
+  removed?: boolean;
+  emoji?: string;   // kind 'emoji' (Sequoia and later)
+  part?: number;
+  date?: Date;
+}
+
+export interface SyntheticRow {
+  rowId: number;
+  guid: string;
+}
+
+const DEFAULT_OPTIONS: SyntheticChatDbOptions = {
+  macosVersion: 'sonoma',
+  attachmentsPath: './data/synthetic/Attachments'
+};
+
+const REACTION_OFFSETS: Record<ReactionKind, number> = {
+  love: 0,
+  like: 1,
+  dislike: 2,
+  laugh: 3,
+  emphasize: 4,
+  question: 5,
+  emoji: 6,
+  sticker: 7
+};
+
+const REACTION_VERBS: Record<ReactionKind, string> = {
+  love: 'Loved',
+  like: 'Liked',
+  dislike: 'Disliked',
+  laugh: 'Laughed at',
+  emphasize: 'Emphasized',
+  question: 'Questioned',
+  emoji: 'Reacted to',
+  sticker: 'Stickered'
+};
+
+const UTIS: Record<string, string> = {
+  'image/jpeg': 'public.jpeg',
+  'image/png': 'public.png',
+  'image/gif': 'com.compuserve.gif',
+  'image/heic': 'public.heic',
+  'application/pdf': 'com.adobe.pdf',
+  'video/quicktime': 'com.apple.quicktime-movie'
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+  '.pdf': 'application/pdf',
+  '.mov': 'video/quicktime'
+};
+
+/**
+ * Columns each release added on top of the previous one
+ * (Ventura: edit / unsend; Sonoma: Key Transparency, SOS; Sequoia: emoji tapbacks, Send Later)
+ */
+const MESSAGE_COLUMNS: Record<MacOSVersion, string[]> = {
+  ventura: [
+    'date_retracted INTEGER DEFAULT 0',
+    'date_edited INTEGER DEFAULT 0',
+    'was_detonated INTEGER DEFAULT 0',
+    'part_count INTEGER'
+  ],
+  sonoma: [
+    'is_stewie INTEGER DEFAULT 0',
+    'is_kt_verified INTEGER DEFAULT 0',
+    'is_sos INTEGER DEFAULT 0',
+    'is_critical INTEGER DEFAULT 0',
+    'bia_reference_id TEXT DEFAULT NULL',
+    'fallback_hash TEXT DEFAULT NULL'
+  ],
+  sequoia: [
+    'associated_message_emoji TEXT DEFAULT NULL',
+    'is_pending_satellite_send INTEGER DEFAULT 0',
+    'needs_relay INTEGER DEFAULT 0',
+    'schedule_type INTEGER DEFAULT 0',
+    'schedule_state INTEGER DEFAULT 0',
+    'sent_or_received_off_grid INTEGER DEFAULT 0'
+  ]
+};
+
+const ATTACHMENT_COLUMNS: Record<MacOSVersion, string[]> = {
+  ventura: ['is_commsafety_sensitive INTEGER DEFAULT 0'],
+  sonoma: [],
+  sequoia: [
+    'emoji_image_content_identifier TEXT DEFAULT NULL',
+    'emoji_image_short_description TEXT DEFAULT NULL'
+  ]
+};
+
+const CHAT_COLUMNS: Record<MacOSVersion, string[]> = {
+  ventura: ['is_recovered INTEGER DEFAULT 0'],
+  sonoma: ['is_deleting_incoming_messages INTEGER DEFAULT 0'],
+  sequoia: []
+};
+
+// attributedBody for plain text, as Messages writes it (NSAttributedString with one message part)
+const ATTRIBUTED_BODY_PREFIX = Buffer.from(
+  '040b73747265616d747970656481e803840140848484124e5341747472696275746564537472696e67008484084e534f626a6563740085' +
+  '92848484084e53537472696e67019484012b',
+  'hex'
+);
+const ATTRIBUTED_BODY_RANGE = Buffer.from('868402694901', 'hex');
+const ATTRIBUTED_BODY_SUFFIX = Buffer.from(
+  '928484840c4e5344696374696f6e617279009484016901928496961d5f5f6b494d4d657373616765506172744174747269627574654e61' +
+  '6d658692848484084e534e756d626572008484074e5356616c7565009484012a999900868686',
+  'hex'
+);
+
+/**
+ * SyntheticChatDb - A realistic Messages chat.db for development and tests
+ *
+ * Creates the chat.db layout of a given macOS release (message, chat, handle,
+ * attachment and the join tables, with the columns that release has) and
+ * writes rows the way Messages.app does: inbound and outbound messages,
+ * attributedBody-only text, attachments, inline replies, tapbacks, group
+ * renames / joins / leaves, edits, unsends and delivery receipts. The real
+ * MessagesDB reads it exactly as it reads ~/Library/Messages/chat.db.
+ */
+export class SyntheticChatDb {
+  private db: Database.Database;
+  private options: SyntheticChatDbOptions;
+
+  constructor(
+    private readonly dbPath: string,
+    options: Partial<SyntheticChatDbOptions> = {}
+  ) {
+    this.options = {
+      macosVersion: options.macosVersion ?? DEFAULT_OPTIONS.macosVersion,
+      attachmentsPath: options.attachmentsPath ?? DEFAULT_OPTIONS.attachmentsPath
+    };
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.db.pragma('busy_timeout = 5000');  // The agent's sender and a script may write at once
+    this.initializeSchema();
+  }
+
+  getMacOSVersion(): MacOSVersion {
+    return this.options.macosVersion;
+  }
+
+  /**
+   * ROWID of a handle, creating it if needed
+   */
+  ensureHandle(id: string, personCentricId?: string): number {
+    const existing = this.db.prepare(`SELECT ROWID as id FROM handle WHERE id = ?`).get(id) as any;
+    if (existing) {
+      if (personCentricId) {
+        this.db.prepare(`UPDATE handle SET person_centric_id = ? WHERE ROWID = ?`).run(personCentricId, existing.id);
+      }
+      return existing.id;
+    }
+
+    const result = this.db.prepare(`
+      INSERT INTO handle (id, country, service, uncanonicalized_id, person_centric_id)
+      VALUES (?, 'us', 'iMessage', NULL, ?)
+    `).run(id, personCentricId ?? null);
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * ROWID of a chat, creating it (and its members) if needed
+   */
+  ensureChat(chatIdentifier: string, details: { displayName?: string; participants?: string[] } = {}): number {
+    const existing = this.db.prepare(`SELECT ROWID as id FROM chat WHERE chat_identifier = ?`).get(chatIdentifier) as any;
+    if (existing) {
+      return existing.id;
+    }
+
+    const isGroup = chatIdentifier.startsWith('chat');
+    const result = this.db.prepare(`
+      INSERT INTO chat (guid, style, state, chat_identifier, service_name, room_name, display_name, group_id)
+      VALUES (?, ?, 3, ?, 'iMessage', ?, ?, ?)
+    `).run(
+      `iMessage;${isGroup ? '+' : '-'};${chatIdentifier}`,
+      isGroup ? 43 : 45,
+      chatIdentifier,
+      isGroup ? chatIdentifier : null,
+      details.displayName ?? null,
+      uuidv4().toUpperCase()
+    );
+    const chatId = Number(result.lastInsertRowid);
+
+    const members = isGroup ? details.participants ?? [] : [chatIdentifier];
+    members.forEach(handle => this.joinChat(chatId, handle));
+    return chatId;
+  }
+
+  /**
+   * Insert a message (inbound unless from_me) with any attachments
+   */
+  insertMessage(input: SyntheticMessageInput): SyntheticRow {
+    const isGroup = input.thread_id.startsWith('chat');
+    const chatId = this.ensureChat(input.thread_id);
+    const fromMe = input.from_me ?? false;
+    const sender = isGroup ? input.sender : input.thread_id;
+    if (isGroup && !fromMe && !sender) {
+      throw new Error(`Group message in ${input.thread_id} needs a sender`);
+    }
+    if (isGroup && sender) {
+      this.joinChat(chatId, sender);
+    }
+
+    const attachments = input.attachments ?? [];
+    const text = input.text ?? (attachments.length > 0 ? '\uFFFC' : '');
+    const attributedOnly = input.attributed_body_only ?? this.options.macosVersion === 'sequoia';
+    const guid = input.guid ?? uuidv4().toUpperCase();
+    const date = toAppleTimestamp(input.date ?? new Date());
+
+    const rowId = this.insertMessageRow(chatId, {
+      guid,
+      text: attributedOnly ? null : text,
+      attributedBody: encodeAttributedBody(text),
+      handle_id: sender ? this.ensureHandle(sender) : 0,
+      date,
+      is_from_me: fromMe ? 1 : 0,
+      is_sent: fromMe ? 1 : 0,
+      is_read: fromMe ? 0 : 1,
+      cache_has_attachments: attachments.length > 0 ? 1 : 0,
+      thread_originator_guid: input.reply_to_guid ?? null,
+      thread_originator_part: input.reply_to_guid ? '0:0:0' : null,
+      part_count: 1
+    });
+
+    attachments.forEach(attachment => this.insertAttachment(rowId, attachment, fromMe, date));
+    return { rowId, guid };
+  }
+
+  /**
+   * Insert a tapback row (or the removal of one)
+   */
+  insertReaction(input: SyntheticReactionInput): SyntheticRow {
+    if (input.kind === 'emoji' && !this.hasColumn('message', 'associated_message_emoji')) {
+      throw new Error(`Emoji tapbacks need macOS Sequoia or later (this chat.db is ${this.options.macosVersion})`);
+    }
+
+    const isGroup = input.thread_id.startsWith('chat');
+    const sender = isGroup ? input.sender : input.thread_id;
+    const target = this.db.prepare(`SELECT text FROM message WHERE guid = ?`).get(input.target_guid) as any;
+    const verb = input.removed ? `Removed a ${input.kind} from` : REACTION_VERBS[input.kind];
+    const text = `${verb} “${target?.text ?? 'a message'}”`;
+    const guid = uuidv4().toUpperCase();
+
+    const rowId = this.insertMessageRow(this.ensureChat(input.thread_id), {
+      guid,
+      text,
+      attributedBody: encodeAttributedBody(text),
+      handle_id: sender ? this.ensureHandle(sender) : 0,
+      date: toAppleTimestamp(input.date ?? new Date()),
+      associated_message_guid: `p:${input.part ?? 0}/${input.target_guid}`,
+      associated_message_type: (input.removed ? 3000 : 2000) + REACTION_OFFSETS[input.kind],
+      associated_message_range_length: target?.text?.length ?? 0,
+      ...(input.emoji ? { associated_message_emoji: input.emoji } : {})
+    });
+    return { rowId, guid };
+  }
+
+  /**
+   * Rename a group (item_type 2 system row)
+   */
+  renameGroup(chatIdentifier: string, displayName: string, actor?: string): SyntheticRow {
+    const chatId = this.ensureChat(chatIdentifier);
+    this.db.prepare(`UPDATE chat SET display_name = ? WHERE ROWID = ?`).run(displayName, chatId);
+    return this.insertSystemRow(chatId, { item_type: 2, group_title: displayName }, actor);
+  }
+
+  /**
+   * Add a member to a group (item_type 1, group_action_type 0)
+   */
+  addMember(chatIdentifier: string, handle: string, actor?: string): SyntheticRow {
+    const chatId = this.ensureChat(chatIdentifier);
+    this.joinChat(chatId, handle);
+    return this.insertSystemRow(chatId, { item_type: 1, group_action_type: 0, other_handle: this.ensureHandle(handle) }, actor);
+  }
+
+  /**
+   * Remove a member (item_type 1, group_action_type 1), or record them leaving
+   * (item_type 3) when they are their own actor
+   */
+  removeMember(chatIdentifier: string, handle: string, actor?: string): SyntheticRow {
+    const chatId = this.ensureChat(chatIdentifier);
+    const handleId = this.ensureHandle(handle);
+    this.db.prepare(`DELETE FROM chat_handle_join WHERE chat_id = ? AND handle_id = ?`).run(chatId, handleId);
+
+    return actor === handle
+      ? this.insertSystemRow(chatId, { item_type: 3, group_action_type: 0 }, actor)
+      : this.insertSystemRow(chatId, { item_type: 1, group_action_type: 1, other_handle: handleId }, actor);
+  }
+
+  /**
+   * Edit a message: the new text lands in attributedBody, `text` keeps the original
+   */
+  editMessage(guid: string, text: string, date: Date = new Date()): void {
+    this.updateMessage(guid, `attributedBody = ?, date_edited = ?`, [encodeAttributedBody(text), toAppleTimestamp(date)]);
+  }
+
+  /**
+   * Unsend a message: content is cleared and date_retracted set
+   */
+  unsendMessage(guid: string, date: Date = new Date()): void {
+    this.updateMessage(guid, `text = NULL, attributedBody = NULL, date_retracted = ?`, [toAppleTimestamp(date)]);
+  }
+
+  markDelivered(guid: string, date: Date = new Date()): void {
+    this.updateMessage(guid, `is_delivered = 1, date_delivered = ?`, [toAppleTimestamp(date)]);
+  }
+
+  markRead(guid: string, date: Date = new Date()): void {
+    this.updateMessage(guid, `is_delivered = 1, is_read = 1, date_read = ?`, [toAppleTimestamp(date)]);
+  }
+
+  markFailed(guid: string, errorCode: number = 22): void {
+    this.updateMessage(guid, `error = ?`, [errorCode]);
+  }
+
+  /**
+   * GUID of the newest outbound message in a chat with this text (what our sends became)
+   */
+  findSentMessage(chatIdentifier: string, text: string): SyntheticRow | null {
+    const rows = this.db.prepare(`
+      SELECT m.ROWID as rowId, m.guid, m.text, m.attributedBody as attributed_body
+      FROM message m
+      JOIN chat_message_join cmj ON m.ROWID = cmj.message_id
+      JOIN chat c ON cmj.chat_id = c.ROWID
+      WHERE c.chat_identifier = ? AND m.is_from_me = 1
+      ORDER BY m.ROWID DESC
+      LIMIT 100
+    `).all(chatIdentifier) as any[];
+
+    const row = rows.find(candidate => (candidate.text ?? attributedBodyToText(candidate.attributed_body)) === text);
+    return row ? { rowId: row.rowId, guid: row.guid } : null;
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private insertMessageRow(chatId: number, values: Record<string, string | number | Buffer | null>): number {
+    const columns = Object.keys(values);
+    const result = this.db.prepare(`
+      INSERT INTO message (${columns.join(', ')}, service, account, is_finished)
+      VALUES (${columns.map(() => '?').join(', ')}, 'iMessage', 'E:edge@icloud.com', 1)
+    `).run(...Object.values(values));
+    const rowId = Number(result.lastInsertRowid);
+
+    this.db.prepare(`
+      INSERT INTO chat_message_join (chat_id, message_id, message_date) VALUES (?, ?, ?)
+    `).run(chatId, rowId, values.date);
+    return rowId;
+  }
+
+  private insertSystemRow(chatId: number, values: Record<string, string | number>, actor?: string): SyntheticRow {
+    const guid = uuidv4().toUpperCase();
+    const rowId = this.insertMessageRow(chatId, {
+      guid,
+      text: null,
+      handle_id: actor ? this.ensureHandle(actor) : 0,
+      date: toAppleTimestamp(new Date()),
+      is_from_me: 0,
+      ...values
+    });
+    return { rowId, guid };
+  }
+
+  private insertAttachment(messageId: number, input: SyntheticAttachmentInput, isOutgoing: boolean, date: number): void {
+    const guid = `at_0_${uuidv4().toUpperCase()}`;
+    const mimeType = input.mime_type ?? MIME_TYPES[path.extname(input.filename).toLowerCase()] ?? null;
+
+    // Messages keeps each file in a per-attachment folder under Attachments/
+    const relativePath = path.join(guid.slice(-2), guid, input.filename);
+    if (input.data) {
+      const absolutePath = path.join(this.options.attachmentsPath, relativePath);
+      fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+      fs.writeFileSync(absolutePath, input.data);
+    }
+
+    const result = this.db.prepare(`
+      INSERT INTO attachment (guid, created_date, start_date, filename, uti, mime_type, transfer_state, is_outgoing, transfer_name, total_bytes, is_sticker)
+      VALUES (?, ?, 0, ?, ?, ?, 5, ?, ?, ?, ?)
+    `).run(
+      guid,
+      date,
+      relativePath,
+      input.uti ?? (mimeType ? UTIS[mimeType] ?? null : null),
+      mimeType,
+      isOutgoing ? 1 : 0,
+      input.filename,
+      input.data?.length ?? 0,
+      input.is_sticker ? 1 : 0
+    );
+
+    this.db.prepare(`
+      INSERT INTO message_attachment_join (message_id, attachment_id) VALUES (?, ?)
+    `).run(messageId, result.lastInsertRowid);
+  }
+
+  private joinChat(chatId: number, handle: string): void {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO chat_handle_join (chat_id, handle_id) VALUES (?, ?)
+    `).run(chatId, this.ensureHandle(handle));
+  }
+
+  private updateMessage(guid: string, assignments: string, params: Array<string | number | Buffer>): void {
+    const result = this.db.prepare(`UPDATE message SET ${assignments} WHERE guid = ?`).run(...params, guid);
+    if (result.changes === 0) {
+      throw new Error(`No message with guid ${guid}`);
+    }
+  }
+
+  private hasColumn(table: string, column: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    return columns.some(entry => entry.name === column);
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    const releases = MACOS_VERSIONS.slice(0, MACOS_VERSIONS.indexOf(this.options.macosVersion) + 1);
+    const versionColumns = (columns: Record<MacOSVersion, string[]>) =>
+      releases.flatMap(release => columns[release]).map(column => `,\n        ${column}`).join('');
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS handle (
+        ROWID INTEGER PRIMARY KEY AUTOINCREMENT UNIQUE,
+        id TEXT NOT NULL,
+        country TEXT,
+        service TEXT NOT NULL DEFAULT 'iMessage',
+        uncanonicalized_id TEXT,
+        person_centric_id TEXT,
+        UNIQUE (id, service)
+      );
+
+      CREATE TABLE IF NOT EXISTS chat (
+        ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+        guid TEXT UNIQUE NOT NULL,
+        style INTEGER,
+        state INTEGER,
+        account_id TEXT,
+        properties BLOB,
+        chat_identifier TEXT,
+        service_name TEXT,
+        room_name TEXT,
+        account_login TEXT,
+        is_archived INTEGER DEFAULT 0,
+        last_addressed_handle TEXT,
+        display_name TEXT,
+        group_id TEXT,
+        is_filtered INTEGER DEFAULT 0,
+        successful_query INTEGER,
+        engram_id TEXT,
+        server_change_token TEXT,
+        ck_sync_state INTEGER DEFAULT 0,
+        original_group_id TEXT,
+        last_read_message_timestamp INTEGER DEFAULT 0,
+        cloudkit_record_id TEXT,
+        last_addressed_sim_id TEXT,
+        is_blackholed INTEGER DEFAULT 0,
+        syndication_date INTEGER DEFAULT 0,
+        syndication_type INTEGER DEFAULT 0${versionColumns(CHAT_COLUMNS)}
+      );
+
+      CREATE TABLE IF NOT EXISTS message (
+        ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+        guid TEXT UNIQUE NOT NULL,
+        text TEXT,
+        replace INTEGER DEFAULT 0,
+        service_center TEXT,
+        handle_id INTEGER DEFAULT 0,
+        subject TEXT,
+        country TEXT,
+        attributedBody BLOB,
+        version INTEGER DEFAULT 10,
+        type INTEGER DEFAULT 0,
+        service TEXT,
+        account TEXT,
+        account_guid TEXT,
+        error INTEGER DEFAULT 0,
+        date INTEGER,
+        date_read INTEGER DEFAULT 0,
+        date_delivered INTEGER DEFAULT 0,
+        is_delivered INTEGER DEFAULT 0,
+        is_finished INTEGER DEFAULT 0,
+        is_emote INTEGER DEFAULT 0,
+        is_from_me INTEGER DEFAULT 0,
+        is_empty INTEGER DEFAULT 0,
+        is_delayed INTEGER DEFAULT 0,
+        is_auto_reply INTEGER DEFAULT 0,
+        is_prepared INTEGER DEFAULT 0,
+        is_read INTEGER DEFAULT 0,
+        is_system_message INTEGER DEFAULT 0,
+        is_sent INTEGER DEFAULT 0,
+        has_dd_results INTEGER DEFAULT 0,
+        is_service_message INTEGER DEFAULT 0,
+        is_forward INTEGER DEFAULT 0,
+        was_downgraded INTEGER DEFAULT 0,
+        is_archive INTEGER DEFAULT 0,
+        cache_has_attachments INTEGER DEFAULT 0,
+        cache_roomnames TEXT,
+        was_data_detected INTEGER DEFAULT 0,
+        was_deduplicated INTEGER DEFAULT 0,
+        is_audio_message INTEGER DEFAULT 0,
+        is_played INTEGER DEFAULT 0,
+        date_played INTEGER,
+        item_type INTEGER DEFAULT 0,
+        other_handle INTEGER DEFAULT 0,
+        group_title TEXT,
+        group_action_type INTEGER DEFAULT 0,
+        share_status INTEGER DEFAULT 0,
+        share_direction INTEGER DEFAULT 0,
+        is_expirable INTEGER DEFAULT 0,
+        expire_state INTEGER DEFAULT 0,
+        message_action_type INTEGER DEFAULT 0,
+        message_source INTEGER DEFAULT 0,
+        associated_message_guid TEXT,
+        associated_message_type INTEGER DEFAULT 0,
+        balloon_bundle_id TEXT,
+        payload_data BLOB,
+        expressive_send_style_id TEXT,
+        associated_message_range_location INTEGER DEFAULT 0,
+        associated_message_range_length INTEGER DEFAULT 0,
+        time_expressive_send_played INTEGER,
+        message_summary_info BLOB,
+        ck_sync_state INTEGER DEFAULT 0,
+        ck_record_id TEXT,
+        ck_record_change_tag TEXT,
+        destination_caller_id TEXT,
+        is_corrupt INTEGER DEFAULT 0,
+        reply_to_guid TEXT,
+        sort_id INTEGER,
+        is_spam INTEGER DEFAULT 0,
+        has_unseen_mention INTEGER DEFAULT 0,
+        thread_originator_guid TEXT,
+        thread_originator_part TEXT,
+        syndication_ranges TEXT,
+        synced_syndication_ranges TEXT,
+        was_delivered_quietly INTEGER DEFAULT 0,
+        did_notify_recipient INTEGER DEFAULT 0${versionColumns(MESSAGE_COLUMNS)}
+      );
+
+      CREATE TABLE IF NOT EXISTS attachment (
+        ROWID INTEGER PRIMARY KEY AUTOINCREMENT,
+        guid TEXT UNIQUE NOT NULL,
+        created_date INTEGER DEFAULT 0,
+        start_date INTEGER DEFAULT 0,
+        filename TEXT,
+        uti TEXT,
+        mime_type TEXT,
+        transfer_state INTEGER DEFAULT 0,
+        is_outgoing INTEGER DEFAULT 0,
+        user_info BLOB,
+        transfer_name TEXT,
+        total_bytes INTEGER DEFAULT 0,
+        is_sticker INTEGER DEFAULT 0,
+        sticker_user_info BLOB,
+        attribution_info BLOB,
+        hide_attachment INTEGER DEFAULT 0,
+        ck_sync_state INTEGER DEFAULT 0,
+        ck_server_change_token_blob BLOB,
+        ck_record_id TEXT,
+        original_guid TEXT UNIQUE${versionColumns(ATTACHMENT_COLUMNS)}
+      );
+
+      CREATE TABLE IF NOT EXISTS chat_handle_join (
+        chat_id INTEGER REFERENCES chat (ROWID) ON DELETE CASCADE,
+        handle_id INTEGER REFERENCES handle (ROWID) ON DELETE CASCADE,
+        UNIQUE (chat_id, handle_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS chat_message_join (
+        chat_id INTEGER REFERENCES chat (ROWID) ON DELETE CASCADE,
+        message_id INTEGER REFERENCES message (ROWID) ON DELETE CASCADE,
+        message_date INTEGER DEFAULT 0,
+        PRIMARY KEY (chat_id, message_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS message_attachment_join (
+        message_id INTEGER REFERENCES message (ROWID) ON DELETE CASCADE,
+        attachment_id INTEGER REFERENCES attachment (ROWID) ON DELETE CASCADE,
+        UNIQUE (message_id, attachment_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS chat_message_join_idx_message_id_only ON chat_message_join (message_id);
+      CREATE INDEX IF NOT EXISTS message_idx_handle ON message (handle_id, date);
+      CREATE INDEX IF NOT EXISTS message_idx_thread_originator_guid ON message (thread_originator_guid);
+      CREATE INDEX IF NOT EXISTS message_idx_associated_message ON message (associated_message_guid);
+    `);
+  }
+}
+
+/**
+ * Typedstream NSAttributedString for plain text (the blob Messages stores in attributedBody)
+ */
+export function encodeAttributedBody(text: string): Buffer {
+  const utf8 = Buffer.from(text, 'utf8');
+  return Buffer.concat([
+    ATTRIBUTED_BODY_PREFIX,
+    encodeInteger(utf8.length),
+    utf8,
+    ATTRIBUTED_BODY_RANGE,
+    encodeInteger(text.length),  // Attribute range is in UTF-16 units
+    ATTRIBUTED_BODY_SUFFIX
+  ]);
+}
+
+/**
+ * Typedstream integer: a byte, or 0x81 + int16 LE, or 0x82 + int32 LE
+ */
+function encodeInteger(value: number): Buffer {
+  if (value >= 0 && value < 0x80) {
+    return Buffer.from([value & 0xff]);
+  }
+  if (value < 0x8000) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = 0x81;
+    buffer.writeInt16LE(value, 1);
+    return buffer;
+  }
+  const buffer = Buffer.alloc(5);
+  buffer[0] = 0x82;
+  buffer.writeInt32LE(value, 1);
+  return buffer;
+}
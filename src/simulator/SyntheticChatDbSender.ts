@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../interfaces/ILogger';
+import { MessageSender } from '../transports/AppleScriptSender';
+import { SyntheticChatDb } from './SyntheticChatDb';
+
+/**
+ * SyntheticChatDbSender - Stands in for AppleScriptSender on a synthetic chat.db
+ *
+ * Each send is written as an is_from_me row, which is what Messages.app does
+ * once it accepts a message, so the transport's outbound receipt tracking
+ * sees it. Sends are marked delivered straight away; scripts can mark them
+ * read or failed later (SyntheticChatDb.markRead / markFailed).
+ */
+export class SyntheticChatDbSender implements MessageSender {
+  constructor(
+    private readonly chatDb: SyntheticChatDb,
+    private readonly logger: ILogger
+  ) {}
+
+  async testConnection(): Promise<boolean> {
+    this.logger.info(`✅ Using synthetic chat.db (macOS ${this.chatDb.getMacOSVersion()}) instead of Messages.app`);
+    return true;
+  }
+
+  async sendMessage(threadId: string, text: string, isGroup: boolean): Promise<boolean> {
+    this.write(threadId, text);
+    return true;
+  }
+
+  async sendMultiBubble(threadId: string, bubbles: string[], isGroup: boolean): Promise<boolean> {
+    bubbles.forEach(bubble => this.write(threadId, bubble));
+    return true;
+  }
+
+  async sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string): Promise<boolean> {
+    const filename = typeof file === 'string' ? path.basename(file) : 'attachment.bin';
+    const data = typeof file === 'string' ? fs.readFileSync(file) : file;
+    this.write(threadId, caption, { filename, data });
+    return true;
+  }
+
+  private write(threadId: string, text: string | undefined, attachment?: { filename: string; data: Buffer }): void {
+    const row = this.chatDb.insertMessage({
+      thread_id: threadId,
+      text,
+      from_me: true,
+      attachments: attachment ? [attachment] : undefined
+    });
+    this.chatDb.markDelivered(row.guid);
+    this.logger.debug(`Wrote outbound row ${row.rowId} to synthetic chat.db for ${threadId}`);
+  }
+}
@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import WebSocket from 'ws';
+import type { SimulatorClientFrame, SimulatorServerFrame } from './SimulatorServer';
+import type { SimulatedSend } from '../transports/SimulatorTransport';
+
+/**
+ * Terminal chat client for the simulator transport
+ *
+ * Usage: npm run simulator:chat -- [--url ws://127.0.0.1:3200/ws] [--from +15551234567] [--thread chat123]
+ *
+ * Lines you type are injected as inbound messages from --from; the agent's
+ * replies in the thread are printed as they are sent.
+ *   /react <kind> [guid]      tapback (defaults to the agent's last message)
+ *   /attach <path> [caption]  send a file
+ *   /quit
+ */
+
+interface ChatOptions {
+  url: string;
+  from: string;
+  thread: string;
+}
+
+function parseArgs(argv: string[]): ChatOptions {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args[argv[i].slice(2)] = argv[i + 1];
+    }
+  }
+
+  const from = args.from || '+15555550100';
+  return {
+    url: args.url || 'ws://127.0.0.1:3200/ws',
+    from,
+    thread: args.thread || from
+  };
+}
+
+function formatSend(send: SimulatedSend): string {
+  switch (send.kind) {
+    case 'bubbles':
+      return send.bubbles!.map(bubble => `🤖 ${bubble}`).join('\n');
+    case 'attachment':
+      return `🤖 [attachment ${send.file_path}]${send.caption ? ` ${send.caption}` : ''}`;
+    case 'reply':
+      return `🤖 ↪ ${send.text}`;
+    default:
+      return `🤖 ${send.text}`;
+  }
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const socket = new WebSocket(options.url);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' });
+  let lastAgentGuid: string | null = null;
+
+  const print = (line: string) => {
+    readline.clearLine(process.stdout, 0);
+    readline.cursorTo(process.stdout, 0);
+    console.log(line);
+    rl.prompt(true);
+  };
+
+  const send = (frame: SimulatorClientFrame) => socket.send(JSON.stringify(frame));
+
+  socket.on('open', () => {
+    console.log(`Connected to ${options.url} as ${options.from} in ${options.thread}`);
+    console.log('Commands: /react <kind> [guid], /attach <path> [caption], /quit');
+    rl.prompt();
+  });
+
+  socket.on('message', (data) => {
+    const frame = JSON.parse(data.toString()) as SimulatorServerFrame;
+    if (frame.type === 'sent' && frame.send.thread_id === options.thread) {
+      lastAgentGuid = frame.send.guid;
+      print(formatSend(frame.send));
+    } else if (frame.type === 'error') {
+      print(`⚠️  ${frame.error}`);
+    }
+  });
+
+  socket.on('close', () => {
+    console.log('\nDisconnected from simulator');
+    process.exit(0);
+  });
+
+  socket.on('error', (error) => {
+    console.error(`Could not connect to ${options.url}: ${error.message}`);
+    process.exit(1);
+  });
+
+  rl.on('line', (line) => {
+    const input = line.trim();
+    const thread_id = options.thread;
+    const sender = options.from;
+
+    if (input === '/quit') {
+      socket.close();
+      return;
+    }
+
+    if (input.startsWith('/react ')) {
+      const [, kind, guid] = input.split(/\s+/);
+      const target = guid || lastAgentGuid;
+      if (!target) {
+        print('⚠️  Nothing to react to yet');
+        return;
+      }
+      send({ type: 'reaction', sender, thread_id, kind: kind as any, target_guid: target });
+    } else if (input.startsWith('/attach ')) {
+      const [, filePath, ...caption] = input.split(/\s+/);
+      try {
+        send({
+          type: 'attachment',
+          sender,
+          thread_id,
+          filename: path.basename(filePath),
+          data_base64: fs.readFileSync(filePath).toString('base64'),
+          text: caption.length > 0 ? caption.join(' ') : undefined
+        });
+      } catch (error: any) {
+        print(`⚠️  ${error.message}`);
+        return;
+      }
+    } else if (input) {
+      send({ type: 'message', sender, thread_id, text: input });
+    }
+
+    rl.prompt();
+  });
+
+  rl.on('close', () => socket.close());
+}
+
+if (require.main === module) {
+  main();
+}
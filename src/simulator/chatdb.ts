@@ -0,0 +1,59 @@
+import { SyntheticChatDb, MacOSVersion, MACOS_VERSIONS } from './SyntheticChatDb';
+import { ChatDbScriptPlayer, loadChatDbScript } from './ChatDbScript';
+import { Logger } from '../utils/logger';
+
+/**
+ * Create a synthetic chat.db and optionally play a script into it
+ *
+ * Usage: npm run chatdb -- --out ./data/synthetic-chat.db [--macos sonoma] [--script scenario.json]
+ *                          [--attachments ./data/synthetic/Attachments] [--verbose 1]
+ *
+ * Run it next to an agent in `synthetic` transport mode (same db_path) to
+ * feed the live poller, or on its own to build a fixture database.
+ */
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args[argv[i].slice(2)] = argv[i + 1];
+    }
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.out) {
+    console.error('Usage: npm run chatdb -- --out <chat.db> [--macos ventura|sonoma|sequoia] [--script <file.json>]');
+    process.exit(1);
+  }
+
+  const macosVersion = (args.macos || 'sonoma') as MacOSVersion;
+  if (!MACOS_VERSIONS.includes(macosVersion)) {
+    console.error(`Unknown macOS version "${args.macos}" (expected ${MACOS_VERSIONS.join(', ')})`);
+    process.exit(1);
+  }
+
+  const chatDb = new SyntheticChatDb(args.out, { macosVersion, attachmentsPath: args.attachments });
+  console.log(`Synthetic chat.db (macOS ${macosVersion}) ready at ${args.out}`);
+
+  if (args.script) {
+    const events = loadChatDbScript(args.script);
+    const player = new ChatDbScriptPlayer(chatDb, new Logger(args.verbose ? 'debug' : 'info'));
+    process.on('SIGINT', () => player.stop());
+
+    console.log(`Playing ${events.length} event(s) from ${args.script}...`);
+    await player.play(events);
+    console.log('Script finished');
+  }
+
+  chatDb.close();
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
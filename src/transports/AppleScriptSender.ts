@@ -1,10 +1,18 @@
 import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import { promisify } from 'util';
 import { ILogger } from '../interfaces/ILogger';
 import { RateLimiter } from '../utils/RateLimiter';
+import { OutboundAttachmentStager } from '../attachments/OutboundAttachmentStager';
 
 const execAsync = promisify(exec);
 
+/**
+ * What AppleScriptTransport needs from a sender (a synthetic chat.db can stand in for Messages.app)
+ */
+export type MessageSender = Pick<AppleScriptSender, 'testConnection' | 'sendMessage' | 'sendMultiBubble' | 'sendAttachment'>;
+
 /**
  * AppleScriptSender - Send iMessages using AppleScript
  * This is the most reliable way to send messages without private APIs
@@ -14,10 +22,12 @@ export class AppleScriptSender {
   private logger: ILogger;
   private rateLimiter: RateLimiter;
   private cleanupInterval: NodeJS.Timeout;
+  private attachmentStager: OutboundAttachmentStager;
 
-  constructor(logger: ILogger) {
+  constructor(logger: ILogger, attachmentStager?: OutboundAttachmentStager) {
     this.logger = logger;
     this.rateLimiter = new RateLimiter(logger);
+    this.attachmentStager = attachmentStager || new OutboundAttachmentStager(logger);
 
     // Cleanup rate limiter every minute
     this.cleanupInterval = setInterval(() => this.rateLimiter.cleanup(), 60000);
@@ -158,6 +168,84 @@ EOF`);
     }
   }
 
+  /**
+   * Send a file (by path, or raw bytes staged to a temp file) with an optional caption
+   */
+  async sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string): Promise<boolean> {
+    try {
+      const allowed = await this.rateLimiter.checkLimit({
+        maxRequests: 60,
+        windowMs: 60000,
+        identifier: 'send_message'
+      });
+
+      if (!allowed) {
+        this.logger.error('❌ Rate limit exceeded for message sending');
+        throw new Error('Rate limit exceeded: max 60 messages/minute');
+      }
+
+      const filePath = Buffer.isBuffer(file)
+        ? (await this.attachmentStager.stageBuffer(file)).path
+        : file;
+      const safePath = this.sanitizeFilePath(filePath);
+      const safeThreadId = this.sanitizeThreadId(threadId);
+
+      this.logger.debug(`Sending attachment to ${threadId} (group: ${isGroup}): ${safePath}`);
+
+      let script: string;
+      if (isGroup) {
+        const fullChatId = safeThreadId.startsWith('iMessage;') ? safeThreadId : `iMessage;+;${safeThreadId}`;
+        script = `tell application "Messages"
+  set targetChat to first chat whose id is "${fullChatId}"
+  send (POSIX file "${safePath}") to targetChat
+end tell`;
+      } else {
+        const recipient = this.extractRecipientFromThreadId(safeThreadId);
+        const safeRecipient = this.sanitizeThreadId(recipient);
+        script = `tell application "Messages"
+  set targetService to 1st account whose service type = iMessage
+  set targetBuddy to participant "${safeRecipient}" of targetService
+  send (POSIX file "${safePath}") to targetBuddy
+end tell`;
+      }
+
+      await execAsync(`osascript <<'EOF'
+${script}
+EOF`);
+
+      this.logger.info(`✅ Sent attachment to ${safeThreadId}`);
+
+      if (caption) {
+        return await this.sendMessage(threadId, caption, isGroup);
+      }
+      return true;
+    } catch (error: any) {
+      this.logger.error(`❌ Failed to send attachment to ${threadId}:`, error.message);
+
+      if (error.message.includes('Rate limit') || error.message.includes('forbidden') || error.message.includes('exceeds')) {
+        throw error;
+      }
+
+      return false;
+    }
+  }
+
+  /**
+   * Validate a file path for use inside an AppleScript string
+   */
+  private sanitizeFilePath(filePath: string): string {
+    if (!path.isAbsolute(filePath)) {
+      throw new Error(`Attachment path must be absolute: ${filePath}`);
+    }
+    if (/["\\\n\r]/.test(filePath)) {
+      throw new Error('Attachment path contains forbidden characters');
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Attachment not found: ${filePath}`);
+    }
+    return filePath;
+  }
+
   /**
    * Extract recipient (phone/email) from thread ID
    * Thread ID format: "iMessage;-;+15551234567" or "iMessage;-;user@icloud.com"
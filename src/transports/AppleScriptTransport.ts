@@ -1,6 +1,6 @@
-import { IMessageTransport, IncomingMessage } from '../interfaces/IMessageTransport';
+import { IMessageTransport, IncomingMessage, IncomingReaction, IncomingCorrection, IncomingGroupChange, OutboundReceipt, MessageHistoryQuery } from '../interfaces/IMessageTransport';
 import { MessagesDB } from './MessagesDB';
-import { AppleScriptSender } from './AppleScriptSender';
+import { AppleScriptSender, MessageSender } from './AppleScriptSender';
 import { ILogger } from '../interfaces/ILogger';
 
 /**
@@ -11,7 +11,7 @@ import { ILogger } from '../interfaces/ILogger';
  */
 export class AppleScriptTransport implements IMessageTransport {
   private messagesDB: MessagesDB;
-  private sender: AppleScriptSender;
+  private sender: MessageSender;
   private logger: ILogger;
   private pollInterval: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
@@ -19,11 +19,12 @@ export class AppleScriptTransport implements IMessageTransport {
   constructor(
     dbPath: string,
     attachmentsDir: string,
-    logger: ILogger
+    logger: ILogger,
+    sender?: MessageSender
   ) {
     this.logger = logger;
     this.messagesDB = new MessagesDB(dbPath, attachmentsDir, logger);
-    this.sender = new AppleScriptSender(logger);
+    this.sender = sender || new AppleScriptSender(logger);
   }
 
   /**
@@ -70,6 +71,94 @@ export class AppleScriptTransport implements IMessageTransport {
     return this.messagesDB.pollNewMessages();
   }
 
+  /**
+   * Tapbacks seen by the last polls
+   */
+  async pollReactions(): Promise<IncomingReaction[]> {
+    if (!this.isRunning) {
+      return [];
+    }
+
+    return this.messagesDB.drainReactions();
+  }
+
+  /**
+   * Edits and unsends of recently received messages
+   */
+  async pollCorrections(): Promise<IncomingCorrection[]> {
+    if (!this.isRunning) {
+      return [];
+    }
+
+    return this.messagesDB.pollCorrections();
+  }
+
+  /**
+   * Group renames and member joins / leaves seen by the last polls
+   */
+  async pollGroupChanges(): Promise<IncomingGroupChange[]> {
+    if (!this.isRunning) {
+      return [];
+    }
+
+    return this.messagesDB.drainGroupChanges();
+  }
+
+  /**
+   * Delivered / read / failed transitions of our sent messages
+   */
+  async pollReceipts(): Promise<OutboundReceipt[]> {
+    if (!this.isRunning) {
+      return [];
+    }
+
+    return this.messagesDB.pollReceipts();
+  }
+
+  /**
+   * Re-read past inbound messages (replay / backfill)
+   */
+  async readMessages(query: MessageHistoryQuery): Promise<IncomingMessage[]> {
+    return this.messagesDB.readMessages(query);
+  }
+
+  /**
+   * Running once Messages.app answered the connection test
+   */
+  isHealthy(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * chat.db ROWID the poller has read up to
+   */
+  getCursor(): number {
+    return this.messagesDB.getCursor();
+  }
+
+  /**
+   * Start polling after this chat.db ROWID instead of the newest row
+   */
+  setCursor(rowId: number): void {
+    this.messagesDB.setCursor(rowId);
+  }
+
+  /**
+   * Send a photo / file with an optional caption
+   */
+  async sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string): Promise<boolean> {
+    if (!this.isRunning) {
+      this.logger.warn('Transport not running, cannot send attachment');
+      return false;
+    }
+
+    const sent = await this.sender.sendAttachment(threadId, file, isGroup, caption);
+    if (sent && caption) {
+      this.messagesDB.expectOutbound(threadId, caption);
+    }
+    return sent;
+  }
+
   /**
    * Send a message to a thread
    */
@@ -79,7 +168,11 @@ export class AppleScriptTransport implements IMessageTransport {
       return false;
     }
 
-    return this.sender.sendMessage(threadId, text, isGroup);
+    const sent = await this.sender.sendMessage(threadId, text, isGroup);
+    if (sent) {
+      this.messagesDB.expectOutbound(threadId, text);
+    }
+    return sent;
   }
 
   /**
@@ -92,7 +185,11 @@ export class AppleScriptTransport implements IMessageTransport {
       return false;
     }
 
-    return this.sender.sendMultiBubble(threadId, bubbles, isGroup, batched);
+    const sent = await this.sender.sendMultiBubble(threadId, bubbles, isGroup, batched);
+    if (sent) {
+      bubbles.forEach(bubble => this.messagesDB.expectOutbound(threadId, bubble));
+    }
+    return sent;
   }
 
   /**
@@ -0,0 +1,486 @@
+/**
+ * AttributedBodyDecoder - Reads message.attributedBody blobs from chat.db
+ *
+ * On recent macOS many messages (edited, rich and some group messages) have a
+ * NULL `text` column and only carry their content in `attributedBody`, an
+ * NSAttributedString serialized with NSArchiver's "typedstream" format.
+ *
+ * Format summary:
+ * - Header: version (4), "streamtyped", system version (1000)
+ * - Integers: a signed byte, or 0x81 + int16 LE, or 0x82 + int32 LE
+ * - Tags: 0x84 new, 0x85 nil, 0x86 end of object; bytes >= 0x92 are
+ *   back-references (0x92 = first entry) into the shared string table or
+ *   the object/class table
+ * - Values are written in groups: a type encoding string ("@", "iI", "+")
+ *   followed by one value per type character
+ */
+
+export interface AttributedBodyMention {
+  start: number;   // UTF-16 offset into text
+  length: number;
+  handle: string;  // Phone number / Apple ID of the mentioned participant
+}
+
+export interface AttributedBodyLink {
+  start: number;   // UTF-16 offset into text
+  length: number;
+  url: string;
+}
+
+export interface DecodedAttributedBody {
+  text: string;
+  mentions: AttributedBodyMention[];
+  links: AttributedBodyLink[];
+}
+
+const TAG_INTEGER_2 = 0x81;
+const TAG_INTEGER_4 = 0x82;
+const TAG_FLOATING_POINT = 0x83;
+const TAG_NEW = 0x84;
+const TAG_NIL = 0x85;
+const TAG_END_OF_OBJECT = 0x86;
+const FIRST_REFERENCE = 0x92;
+
+const MENTION_ATTRIBUTE = '__kIMMentionConfirmedMention';
+const LINK_ATTRIBUTE = '__kIMLinkAttributeName';
+
+interface TypedClass {
+  name: string;
+  version: number;
+  superclass: TypedClass | null;
+}
+
+interface TypedObject {
+  className: string;
+  groups: TypedValue[][];
+}
+
+type TypedValue = number | string | Buffer | TypedObject | TypedClass | null | TypedValue[];
+
+/**
+ * Decode an attributedBody blob
+ * Returns null if the blob is not a readable typedstream NSAttributedString
+ */
+export function decodeAttributedBody(blob: Buffer | Uint8Array | null | undefined): DecodedAttributedBody | null {
+  if (!blob || blob.length === 0) {
+    return null;
+  }
+
+  const buffer = Buffer.isBuffer(blob) ? blob : Buffer.from(blob);
+
+  try {
+    const root = new TypedStreamReader(buffer).readRoot();
+    if (root && isObject(root)) {
+      const decoded = readAttributedString(root);
+      if (decoded) {
+        return decoded;
+      }
+    }
+  } catch {
+    // Fall through to the byte-scan fallback below
+  }
+
+  const text = scanForText(buffer);
+  return text === null ? null : { text, mentions: [], links: [] };
+}
+
+/**
+ * Convenience wrapper: plain text only
+ */
+export function attributedBodyToText(blob: Buffer | Uint8Array | null | undefined): string | null {
+  return decodeAttributedBody(blob)?.text ?? null;
+}
+
+/**
+ * Minimal typedstream reader (little-endian streams, as written by macOS)
+ */
+class TypedStreamReader {
+  private offset = 0;
+  private sharedStrings: string[] = [];
+  private objects: Array<TypedObject | TypedClass> = [];
+
+  constructor(private readonly buffer: Buffer) {}
+
+  readRoot(): TypedValue {
+    this.readHeader();
+    const values = this.readGroup();
+    return values ? values[0] : null;
+  }
+
+  private readHeader(): void {
+    const version = this.readInteger(false);
+    const signature = this.readUnsharedBytes().toString('latin1');
+    if (version !== 4 || signature !== 'streamtyped') {
+      throw new Error(`Unsupported typedstream header (${version}, ${signature})`);
+    }
+    this.readInteger(false); // system version
+  }
+
+  /**
+   * Read one type encoding + its values; null at end of object / stream
+   */
+  private readGroup(): TypedValue[] | null {
+    if (this.offset >= this.buffer.length) {
+      return null;
+    }
+    if (this.peek() === TAG_END_OF_OBJECT) {
+      this.offset++;
+      return null;
+    }
+
+    const encoding = this.readSharedString();
+    if (encoding === null) {
+      throw new Error('Missing type encoding');
+    }
+
+    return splitEncoding(encoding).map(type => this.readValue(type));
+  }
+
+  private readValue(type: string): TypedValue {
+    switch (type[0]) {
+      case '@':
+        return this.readObject();
+      case '#':
+        return this.readClass();
+      case '*':
+      case '%':
+      case ':':
+        return this.readSharedString();
+      case '+':
+        return this.readUnsharedBytes();
+      case 'c':
+      case 's':
+      case 'i':
+      case 'l':
+      case 'q':
+        return this.readInteger(true);
+      case 'C':
+      case 'S':
+      case 'I':
+      case 'L':
+      case 'Q':
+        return this.readInteger(false);
+      case 'f':
+      case 'd':
+        return this.readFloat(type[0]);
+      case '[':
+        return this.readArray(type);
+      case '{':
+        return splitEncoding(type.slice(type.indexOf('=') + 1, -1)).map(field => this.readValue(field));
+      default:
+        throw new Error(`Unsupported type encoding '${type}'`);
+    }
+  }
+
+  private readObject(): TypedObject | null {
+    const tag = this.readByte();
+    if (tag === TAG_NIL) {
+      return null;
+    }
+    if (tag !== TAG_NEW) {
+      const referenced = this.lookup(this.objects, tag);
+      if (!isObject(referenced)) {
+        throw new Error('Object reference points at a class');
+      }
+      return referenced;
+    }
+
+    // Objects are registered before their class so references line up
+    const object: TypedObject = { className: '', groups: [] };
+    this.objects.push(object);
+
+    const typedClass = this.readClass();
+    object.className = typedClass?.name ?? '';
+
+    let group = this.readGroup();
+    while (group !== null) {
+      object.groups.push(group);
+      group = this.readGroup();
+    }
+
+    return object;
+  }
+
+  private readClass(): TypedClass | null {
+    const tag = this.readByte();
+    if (tag === TAG_NIL) {
+      return null;
+    }
+    if (tag !== TAG_NEW) {
+      const referenced = this.lookup(this.objects, tag);
+      if (isObject(referenced)) {
+        throw new Error('Class reference points at an object');
+      }
+      return referenced;
+    }
+
+    const name = this.readSharedString() ?? '';
+    const version = this.readInteger(false);
+    const typedClass: TypedClass = { name, version, superclass: null };
+    this.objects.push(typedClass);
+    typedClass.superclass = this.readClass();
+    return typedClass;
+  }
+
+  private readSharedString(): string | null {
+    const tag = this.readByte();
+    if (tag === TAG_NIL) {
+      return null;
+    }
+    if (tag !== TAG_NEW) {
+      return this.lookup(this.sharedStrings, tag);
+    }
+
+    const value = this.readUnsharedBytes().toString('utf8');
+    this.sharedStrings.push(value);
+    return value;
+  }
+
+  private readUnsharedBytes(): Buffer {
+    const length = this.readInteger(false);
+    return this.take(length);
+  }
+
+  private readArray(type: string): TypedValue {
+    const match = /^\[(\d+)(.+)\]$/.exec(type);
+    if (!match) {
+      throw new Error(`Malformed array encoding '${type}'`);
+    }
+
+    const count = parseInt(match[1], 10);
+    const elementType = match[2];
+    if (elementType === 'c' || elementType === 'C') {
+      return this.take(count);
+    }
+
+    const values: TypedValue[] = [];
+    for (let i = 0; i < count; i++) {
+      values.push(this.readValue(elementType));
+    }
+    return values;
+  }
+
+  private readInteger(signed: boolean): number {
+    const head = this.readByte();
+    if (head === TAG_INTEGER_2) {
+      const value = signed ? this.buffer.readInt16LE(this.offset) : this.buffer.readUInt16LE(this.offset);
+      this.offset += 2;
+      return value;
+    }
+    if (head === TAG_INTEGER_4) {
+      const value = signed ? this.buffer.readInt32LE(this.offset) : this.buffer.readUInt32LE(this.offset);
+      this.offset += 4;
+      return value;
+    }
+    return signed && head > 0x7f ? head - 0x100 : head;
+  }
+
+  private readFloat(type: string): number {
+    if (this.peek() !== TAG_FLOATING_POINT) {
+      return this.readInteger(true);
+    }
+
+    this.offset++;
+    if (type === 'f') {
+      const value = this.buffer.readFloatLE(this.offset);
+      this.offset += 4;
+      return value;
+    }
+    const value = this.buffer.readDoubleLE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  private lookup<T>(table: T[], tag: number): T {
+    const index = tag - FIRST_REFERENCE;
+    if (tag < FIRST_REFERENCE || index >= table.length) {
+      throw new Error(`Invalid reference 0x${tag.toString(16)}`);
+    }
+    return table[index];
+  }
+
+  private peek(): number {
+    if (this.offset >= this.buffer.length) {
+      throw new Error('Unexpected end of typedstream');
+    }
+    return this.buffer[this.offset];
+  }
+
+  private readByte(): number {
+    const byte = this.peek();
+    this.offset++;
+    return byte;
+  }
+
+  private take(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Unexpected end of typedstream');
+    }
+    const slice = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+}
+
+/**
+ * Split a type encoding like "iI" or "@{_NSRange=QQ}" into single types
+ */
+function splitEncoding(encoding: string): string[] {
+  const types: string[] = [];
+  let i = 0;
+
+  while (i < encoding.length) {
+    const open = encoding[i];
+    if (open === '[' || open === '{') {
+      const close = open === '[' ? ']' : '}';
+      let depth = 0;
+      let j = i;
+      for (; j < encoding.length; j++) {
+        if (encoding[j] === open) depth++;
+        if (encoding[j] === close) depth--;
+        if (depth === 0) break;
+      }
+      types.push(encoding.slice(i, j + 1));
+      i = j + 1;
+    } else {
+      types.push(open);
+      i++;
+    }
+  }
+
+  return types;
+}
+
+function isObject(value: TypedValue | TypedClass | undefined): value is TypedObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !Buffer.isBuffer(value) && 'groups' in value;
+}
+
+/**
+ * NSAttributedString layout: [@ string] then runs of [i attributeIndex, I length],
+ * each followed by [@ NSDictionary] the first time an attribute index is used
+ */
+function readAttributedString(root: TypedObject): DecodedAttributedBody | null {
+  if (!root.className.includes('AttributedString') || root.groups.length === 0) {
+    return null;
+  }
+
+  const text = objectToString(root.groups[0][0]);
+  if (text === null) {
+    return null;
+  }
+
+  const mentions: AttributedBodyMention[] = [];
+  const links: AttributedBodyLink[] = [];
+  const dictionaries: Array<Map<string, TypedValue>> = [];
+  let position = 0;
+
+  for (let g = 1; g < root.groups.length; g++) {
+    const group = root.groups[g];
+    if (group.length !== 2 || typeof group[0] !== 'number' || typeof group[1] !== 'number') {
+      continue;
+    }
+
+    const [attributeIndex, length] = group as number[];
+    const next = root.groups[g + 1];
+    if (attributeIndex > dictionaries.length && next && next.length === 1 && isObject(next[0])) {
+      dictionaries.push(readDictionary(next[0]));
+      g++;
+    }
+
+    const attributes = dictionaries[attributeIndex - 1];
+    if (attributes) {
+      const mention = objectToString(attributes.get(MENTION_ATTRIBUTE) ?? null);
+      if (mention) {
+        mentions.push({ start: position, length, handle: mention });
+      }
+
+      const link = objectToString(attributes.get(LINK_ATTRIBUTE) ?? null);
+      if (link) {
+        links.push({ start: position, length, url: link });
+      }
+    }
+
+    position += length;
+  }
+
+  return { text, mentions, links };
+}
+
+function readDictionary(object: TypedObject): Map<string, TypedValue> {
+  const entries = new Map<string, TypedValue>();
+  if (!object.className.includes('Dictionary')) {
+    return entries;
+  }
+
+  // [i count] then alternating [@ key] [@ value]
+  for (let g = 1; g + 1 < object.groups.length; g += 2) {
+    const key = objectToString(object.groups[g][0]);
+    if (key !== null) {
+      entries.set(key, object.groups[g + 1][0]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Read the string content of NSString / NSMutableString / NSURL objects
+ */
+function objectToString(value: TypedValue): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('utf8');
+  }
+  if (!isObject(value)) {
+    return null;
+  }
+
+  // NSURL: [c isRelative] [@ base URL or nil] [@ NSString]; NSString: [+ bytes]
+  for (let g = value.groups.length - 1; g >= 0; g--) {
+    for (const item of value.groups[g]) {
+      if (Buffer.isBuffer(item)) {
+        return item.toString('utf8');
+      }
+      if (isObject(item)) {
+        const nested = objectToString(item);
+        if (nested !== null) {
+          return nested;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Fallback for blobs the structured reader can't follow: the message text is
+ * the first "+" string after the NSString class name
+ */
+function scanForText(buffer: Buffer): string | null {
+  const marker = buffer.indexOf('NSString');
+  if (marker === -1) {
+    return null;
+  }
+
+  // Skip class version and superclass, then expect the "+" type tag
+  const plus = buffer.indexOf(0x2b, marker + 'NSString'.length);
+  if (plus === -1 || plus + 1 >= buffer.length) {
+    return null;
+  }
+
+  let offset = plus + 1;
+  let length = buffer[offset++];
+  if (length === TAG_INTEGER_2) {
+    length = buffer.readUInt16LE(offset);
+    offset += 2;
+  } else if (length === TAG_INTEGER_4) {
+    length = buffer.readUInt32LE(offset);
+    offset += 4;
+  }
+
+  if (offset + length > buffer.length) {
+    return null;
+  }
+  return buffer.subarray(offset, offset + length).toString('utf8');
+}
@@ -0,0 +1,367 @@
+import {
+  IMessageTransport,
+  IncomingMessage,
+  IncomingReaction,
+  IncomingCorrection,
+  IncomingGroupChange,
+  OutboundReceipt,
+  MessageHistoryQuery
+} from '../interfaces/IMessageTransport';
+import { ILogger } from '../interfaces/ILogger';
+
+export interface FailoverTransportOptions {
+  healthCheckIntervalMs: number;  // How often the primary's health is checked
+  recoveryIntervalMs: number;     // How often the primary is retried while on the fallback
+}
+
+export interface FailoverTransportTimers {
+  setTimer: (callback: () => void, ms: number) => NodeJS.Timeout;
+  clearTimer: (timer: NodeJS.Timeout) => void;
+}
+
+export interface TransportSwitch {
+  direction: 'failover' | 'recovery';
+  from: string;     // getName() of the transport switched away from
+  to: string;
+  reason: string;
+  cursor: number;   // chat.db ROWID the new transport resumes after
+  timestamp: Date;
+}
+
+export interface FailoverStats {
+  active: 'primary' | 'fallback' | 'none';
+  transport: string | null;
+  failovers_total: number;
+  recoveries_total: number;
+}
+
+type SwitchCallback = (event: TransportSwitch, stats: FailoverStats) => void;
+
+const DEFAULT_OPTIONS: FailoverTransportOptions = {
+  healthCheckIntervalMs: 5000,
+  recoveryIntervalMs: 60 * 1000
+};
+
+/**
+ * FailoverTransport - Runs the primary transport and falls back when it dies
+ *
+ * The primary (the native helper) is health-checked on an interval. If it
+ * fails to start or stops being healthy, the fallback (MessagesDB polling +
+ * AppleScript) is started from the primary's chat.db cursor, so no rows are
+ * skipped or read twice. While on the fallback the primary is retried, and
+ * once it starts again it resumes from the fallback's cursor. Anything the old
+ * transport had already read is drained before it is stopped and handed out
+ * by the next polls; polls during a switch return nothing new so neither
+ * cursor moves. Receipts for sends made before a switch are not tracked by the
+ * new transport.
+ *
+ * Transports are built by factories: each activation gets a fresh instance
+ * and a stopped one is never restarted.
+ */
+export class FailoverTransport implements IMessageTransport {
+  private options: FailoverTransportOptions;
+  private active: IMessageTransport | null = null;
+  private onFallback = false;
+  private running = false;
+  private switching = false;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private lastRecoveryAttempt = 0;
+  private failoversTotal = 0;
+  private recoveriesTotal = 0;
+  private switchCallback: SwitchCallback | null = null;
+
+  // Drained from the previous transport during a switch, returned by the next polls
+  private carriedMessages: IncomingMessage[] = [];
+  private carriedReactions: IncomingReaction[] = [];
+  private carriedCorrections: IncomingCorrection[] = [];
+  private carriedGroupChanges: IncomingGroupChange[] = [];
+  private carriedReceipts: OutboundReceipt[] = [];
+
+  constructor(
+    private readonly createPrimary: () => IMessageTransport,
+    private readonly createFallback: () => IMessageTransport,
+    private readonly logger: ILogger,
+    options: Partial<FailoverTransportOptions> = {},
+    private readonly timers: FailoverTransportTimers = {
+      setTimer: (callback, ms) => setTimeout(callback, ms),
+      clearTimer: (timer) => clearTimeout(timer)
+    }
+  ) {
+    this.options = {
+      healthCheckIntervalMs: options.healthCheckIntervalMs ?? DEFAULT_OPTIONS.healthCheckIntervalMs,
+      recoveryIntervalMs: options.recoveryIntervalMs ?? DEFAULT_OPTIONS.recoveryIntervalMs
+    };
+  }
+
+  /**
+   * Set callback for every switch between primary and fallback
+   */
+  onSwitch(callback: SwitchCallback): void {
+    this.switchCallback = callback;
+  }
+
+  /**
+   * Start the primary, or the fallback if the primary can't start
+   */
+  async start(): Promise<void> {
+    const primary = this.createPrimary();
+    try {
+      await primary.start();
+      this.active = primary;
+      this.onFallback = false;
+    } catch (error: any) {
+      this.logger.error(`❌ ${primary.getName()} failed to start: ${error.message}`);
+      const cursor = primary.getCursor?.() ?? 0;
+      primary.stop();
+
+      // Nothing works at all - let the agent fail to start as before
+      const fallback = await this.startTransport(this.createFallback, cursor);
+      this.active = fallback;
+      this.onFallback = true;
+      this.lastRecoveryAttempt = Date.now();
+      this.recordSwitch('failover', primary.getName(), fallback.getName(), `start failed: ${error.message}`, cursor);
+    }
+
+    this.running = true;
+    this.scheduleCheck();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.checkTimer) {
+      this.timers.clearTimer(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    this.active?.stop();
+    this.active = null;
+  }
+
+  getStats(): FailoverStats {
+    return {
+      active: !this.active ? 'none' : this.onFallback ? 'fallback' : 'primary',
+      transport: this.active?.getName() ?? null,
+      failovers_total: this.failoversTotal,
+      recoveries_total: this.recoveriesTotal
+    };
+  }
+
+  isHealthy(): boolean {
+    return !!this.active && (this.active.isHealthy?.() ?? true);
+  }
+
+  getCursor(): number {
+    return this.active?.getCursor?.() ?? 0;
+  }
+
+  async pollNewMessages(): Promise<IncomingMessage[]> {
+    return this.collect(this.carriedMessages, transport => transport.pollNewMessages());
+  }
+
+  async pollReactions(): Promise<IncomingReaction[]> {
+    return this.collect(this.carriedReactions, transport => transport.pollReactions?.());
+  }
+
+  async pollCorrections(): Promise<IncomingCorrection[]> {
+    return this.collect(this.carriedCorrections, transport => transport.pollCorrections?.());
+  }
+
+  async pollGroupChanges(): Promise<IncomingGroupChange[]> {
+    return this.collect(this.carriedGroupChanges, transport => transport.pollGroupChanges?.());
+  }
+
+  async pollReceipts(): Promise<OutboundReceipt[]> {
+    return this.collect(this.carriedReceipts, transport => transport.pollReceipts?.());
+  }
+
+  async readMessages(query: MessageHistoryQuery): Promise<IncomingMessage[]> {
+    if (!this.active?.readMessages) {
+      return [];
+    }
+
+    return this.active.readMessages(query);
+  }
+
+  async sendMessage(threadId: string, text: string, isGroup: boolean): Promise<boolean> {
+    const transport = this.sendingTransport('message');
+    return transport ? transport.sendMessage(threadId, text, isGroup) : false;
+  }
+
+  async sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string): Promise<boolean> {
+    const transport = this.sendingTransport('attachment');
+    return transport ? transport.sendAttachment(threadId, file, isGroup, caption) : false;
+  }
+
+  async sendMultiBubble(threadId: string, bubbles: string[], isGroup: boolean, batched?: boolean): Promise<boolean> {
+    const transport = this.sendingTransport('multi-bubble');
+    return transport ? transport.sendMultiBubble(threadId, bubbles, isGroup, batched) : false;
+  }
+
+  getName(): string {
+    return this.active ? `FailoverTransport(${this.active.getName()})` : 'FailoverTransport';
+  }
+
+  /**
+   * Carried-over items plus a fresh poll of the active transport
+   */
+  private async collect<T>(
+    carried: T[],
+    poll: (transport: IMessageTransport) => Promise<T[]> | undefined
+  ): Promise<T[]> {
+    const items = carried.splice(0, carried.length);
+    if (this.switching || !this.active) {
+      return items;
+    }
+
+    const polled = await poll(this.active);
+    return polled ? items.concat(polled) : items;
+  }
+
+  /**
+   * A failed send is retried by the outbound queue, so there is no point
+   * sending through a transport that is being swapped out
+   */
+  private sendingTransport(kind: string): IMessageTransport | null {
+    if (!this.active || this.switching) {
+      this.logger.warn(`Transport unavailable (switching: ${this.switching}), cannot send ${kind}`);
+      return null;
+    }
+
+    return this.active;
+  }
+
+  private scheduleCheck(): void {
+    this.checkTimer = this.timers.setTimer(() => {
+      this.checkTimer = null;
+      this.check()
+        .catch((error: any) => this.logger.error(`Transport health check failed: ${error.message}`))
+        .finally(() => {
+          if (this.running) {
+            this.scheduleCheck();
+          }
+        });
+    }, this.options.healthCheckIntervalMs);
+  }
+
+  private async check(): Promise<void> {
+    if (!this.onFallback) {
+      if (this.active && this.active.isHealthy && !this.active.isHealthy()) {
+        await this.failover(`${this.active.getName()} is unhealthy`);
+      }
+      return;
+    }
+
+    if (Date.now() - this.lastRecoveryAttempt >= this.options.recoveryIntervalMs) {
+      this.lastRecoveryAttempt = Date.now();
+      await this.recover();
+    }
+  }
+
+  /**
+   * Primary → fallback
+   */
+  private async failover(reason: string): Promise<void> {
+    const primary = this.active!;
+    this.switching = true;
+    try {
+      await this.carryOver(primary);
+      const cursor = primary.getCursor?.() ?? 0;
+      primary.stop();
+      this.active = null;
+      this.onFallback = true;
+      this.lastRecoveryAttempt = Date.now();
+
+      try {
+        this.active = await this.startTransport(this.createFallback, cursor);
+      } catch (error: any) {
+        // Keep retrying on the recovery interval (primary first, then the fallback again)
+        this.logger.error(`❌ Fallback transport failed to start: ${error.message} - no transport is running`);
+        return;
+      }
+
+      this.recordSwitch('failover', primary.getName(), this.active.getName(), reason, cursor);
+    } finally {
+      this.switching = false;
+    }
+  }
+
+  /**
+   * Fallback → primary (or, if nothing is running, another go at the fallback)
+   */
+  private async recover(): Promise<void> {
+    const fallback = this.active;
+    this.switching = true;
+    try {
+      if (fallback) {
+        await this.carryOver(fallback);
+      }
+      const cursor = fallback?.getCursor?.() ?? 0;
+
+      let primary: IMessageTransport;
+      try {
+        primary = await this.startTransport(this.createPrimary, cursor);
+      } catch (error: any) {
+        this.logger.info(`Primary transport still unavailable: ${error.message}`);
+        if (!fallback) {
+          this.active = await this.startTransport(this.createFallback, cursor).catch((fallbackError: any) => {
+            this.logger.error(`❌ Fallback transport failed to start: ${fallbackError.message}`);
+            return null;
+          });
+        }
+        return;
+      }
+
+      fallback?.stop();
+      this.active = primary;
+      this.onFallback = false;
+      this.recordSwitch('recovery', fallback?.getName() ?? 'none', primary.getName(), 'primary recovered', cursor);
+    } finally {
+      this.switching = false;
+    }
+  }
+
+  /**
+   * Build, position and start a transport; a failed one is stopped again
+   */
+  private async startTransport(create: () => IMessageTransport, cursor: number): Promise<IMessageTransport> {
+    let transport: IMessageTransport | null = null;
+    try {
+      transport = create();
+      if (cursor > 0) {
+        transport.setCursor?.(cursor);
+      }
+      await transport.start();
+      return transport;
+    } catch (error) {
+      transport?.stop();
+      throw error;
+    }
+  }
+
+  /**
+   * Keep whatever the outgoing transport already read but nobody polled yet
+   */
+  private async carryOver(transport: IMessageTransport): Promise<void> {
+    try {
+      this.carriedMessages.push(...await transport.pollNewMessages());
+      this.carriedReactions.push(...(await transport.pollReactions?.() ?? []));
+      this.carriedCorrections.push(...(await transport.pollCorrections?.() ?? []));
+      this.carriedGroupChanges.push(...(await transport.pollGroupChanges?.() ?? []));
+      this.carriedReceipts.push(...(await transport.pollReceipts?.() ?? []));
+    } catch (error: any) {
+      this.logger.warn(`Failed to drain ${transport.getName()} before switching: ${error.message}`);
+    }
+  }
+
+  private recordSwitch(direction: TransportSwitch['direction'], from: string, to: string, reason: string, cursor: number): void {
+    if (direction === 'failover') {
+      this.failoversTotal++;
+      this.logger.warn(`⚠️  Transport failover: ${from} → ${to} (${reason}), resuming after message ID ${cursor}`);
+    } else {
+      this.recoveriesTotal++;
+      this.logger.info(`✅ Transport recovered: ${from} → ${to}, resuming after message ID ${cursor}`);
+    }
+
+    this.switchCallback?.({ direction, from, to, reason, cursor, timestamp: new Date() }, this.getStats());
+  }
+}
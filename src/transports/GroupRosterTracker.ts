@@ -0,0 +1,118 @@
+import Database from 'better-sqlite3';
+import { IncomingGroupChange } from '../interfaces/IMessageTransport';
+
+interface GroupRoster {
+  displayName: string | null;
+  participants: Set<string>;
+}
+
+export interface GroupSnapshot {
+  threadId: string;
+  displayName: string | null;
+  participants: string[];
+}
+
+/**
+ * Group system rows in chat.db (message.item_type / group_action_type)
+ *
+ * item_type 1: member change (group_action_type 0 = added, 1 = removed)
+ * item_type 2: rename (message.group_title holds the new name)
+ * item_type 3: member left (group_action_type 0); 1/2 are group photo changes
+ */
+export const GROUP_SYSTEM_ITEM_TYPES = [1, 2, 3];
+
+/**
+ * GroupRosterTracker - Keeps the last known name and members of each group chat
+ *
+ * Each observation is diffed against the previous one. The first observation
+ * of a chat only records it, so restarts don't replay the whole roster.
+ */
+export class GroupRosterTracker {
+  private rosters: Map<string, GroupRoster> = new Map();
+
+  /**
+   * Record the current state of a group; returns what changed since last time
+   */
+  observe(
+    snapshot: GroupSnapshot,
+    context: { actor?: string; timestamp?: Date } = {}
+  ): IncomingGroupChange[] {
+    const previous = this.rosters.get(snapshot.threadId);
+    const current: GroupRoster = {
+      displayName: snapshot.displayName || null,
+      participants: new Set(snapshot.participants)
+    };
+    this.rosters.set(snapshot.threadId, current);
+
+    if (!previous) {
+      return [];
+    }
+
+    const timestamp = context.timestamp || new Date();
+    const base = { threadId: snapshot.threadId, actor: context.actor, timestamp };
+    const changes: IncomingGroupChange[] = [];
+
+    for (const handle of current.participants) {
+      if (!previous.participants.has(handle)) {
+        changes.push({ ...base, kind: 'member_added', handle });
+      }
+    }
+
+    for (const handle of previous.participants) {
+      if (!current.participants.has(handle)) {
+        changes.push({ ...base, kind: 'member_removed', handle });
+      }
+    }
+
+    if (current.displayName !== previous.displayName) {
+      changes.push({
+        ...base,
+        kind: 'renamed',
+        displayName: current.displayName || undefined,
+        previousDisplayName: previous.displayName || undefined
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Last known display name of a group
+   */
+  getDisplayName(threadId: string): string | undefined {
+    return this.rosters.get(threadId)?.displayName || undefined;
+  }
+
+  /**
+   * Number of groups being tracked
+   */
+  size(): number {
+    return this.rosters.size;
+  }
+}
+
+/**
+ * Current name and members of every group chat in chat.db
+ */
+export function loadGroupSnapshots(db: Database.Database): GroupSnapshot[] {
+  const chats = db.prepare(`
+    SELECT ROWID as id, chat_identifier, display_name
+    FROM chat
+    WHERE chat_identifier LIKE 'chat%'
+  `).all() as Array<{ id: number; chat_identifier: string; display_name: string | null }>;
+
+  const members = db.prepare(`
+    SELECT DISTINCT h.id
+    FROM handle h
+    JOIN chat_handle_join chj ON h.ROWID = chj.handle_id
+    WHERE chj.chat_id = ?
+  `);
+
+  return chats.map(chat => ({
+    threadId: chat.chat_identifier,
+    displayName: chat.display_name,
+    participants: (members.all(chat.id) as Array<{ id: string }>)
+      .map(row => row.id)
+      .filter(id => id && id.length > 0)
+  }));
+}
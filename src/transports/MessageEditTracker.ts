@@ -0,0 +1,139 @@
+import Database from 'better-sqlite3';
+import { IncomingCorrection } from '../interfaces/IMessageTransport';
+import { ILogger } from '../interfaces/ILogger';
+import { decodeAttributedBody } from './AttributedBodyDecoder';
+import { fromAppleTimestamp } from './appleTime';
+
+interface TrackedMessage {
+  guid: string;
+  threadId: string;
+  sender: string;
+  isGroup: boolean;
+  dateEdited: number;
+  seenAt: number;
+}
+
+/**
+ * MessageEditTracker - Detects edits and unsends of recently received messages
+ *
+ * Polling only looks at new ROWIDs, but edits and unsends update existing rows
+ * (date_edited / date_retracted). Inbound messages are tracked for the iMessage
+ * edit window and re-checked on every poll.
+ */
+export class MessageEditTracker {
+  private tracked: Map<number, TrackedMessage> = new Map();
+
+  constructor(
+    private readonly db: Database.Database,
+    private readonly logger: ILogger,
+    private readonly windowMs: number = 15 * 60 * 1000,  // iMessage allows edits for 15 minutes
+    private readonly maxTracked: number = 500
+  ) {}
+
+  /**
+   * True if the chat.db schema has the edit/unsend columns (macOS 13+)
+   */
+  static isSupported(columns: Set<string>): boolean {
+    return columns.has('guid')
+      && columns.has('attributedBody')
+      && columns.has('date_edited')
+      && columns.has('date_retracted');
+  }
+
+  /**
+   * Start watching an inbound message
+   */
+  track(rowId: number, message: { guid: string; threadId: string; sender: string; isGroup: boolean; dateEdited?: number }): void {
+    this.tracked.set(rowId, {
+      guid: message.guid,
+      threadId: message.threadId,
+      sender: message.sender,
+      isGroup: message.isGroup,
+      dateEdited: message.dateEdited || 0,
+      seenAt: Date.now()
+    });
+
+    // Map keeps insertion order, so the first key is the oldest
+    while (this.tracked.size > this.maxTracked) {
+      this.tracked.delete(this.tracked.keys().next().value as number);
+    }
+  }
+
+  /**
+   * Check tracked messages for edits and unsends since the last poll
+   */
+  poll(): IncomingCorrection[] {
+    this.pruneExpired();
+    if (this.tracked.size === 0) {
+      return [];
+    }
+
+    const rowIds = Array.from(this.tracked.keys());
+    const rows = this.db.prepare(`
+      SELECT ROWID as id, text, attributedBody as attributed_body, date_edited, date_retracted
+      FROM message
+      WHERE ROWID IN (${rowIds.map(() => '?').join(', ')})
+        AND (date_edited > 0 OR date_retracted > 0)
+    `).all(...rowIds) as any[];
+
+    const corrections: IncomingCorrection[] = [];
+
+    for (const row of rows) {
+      const tracked = this.tracked.get(row.id);
+      if (!tracked) {
+        continue;
+      }
+
+      if (row.date_retracted > 0) {
+        this.tracked.delete(row.id);
+        corrections.push({
+          kind: 'unsent',
+          messageGuid: tracked.guid,
+          threadId: tracked.threadId,
+          sender: tracked.sender,
+          isGroup: tracked.isGroup,
+          timestamp: fromAppleTimestamp(row.date_retracted)
+        });
+        continue;
+      }
+
+      if (row.date_edited > tracked.dateEdited) {
+        tracked.dateEdited = row.date_edited;
+
+        // Edited content lives in attributedBody; text may still hold the original
+        const decoded = row.attributed_body ? decodeAttributedBody(row.attributed_body) : null;
+        corrections.push({
+          kind: 'edited',
+          messageGuid: tracked.guid,
+          threadId: tracked.threadId,
+          sender: tracked.sender,
+          isGroup: tracked.isGroup,
+          text: decoded?.text ?? row.text ?? undefined,
+          timestamp: fromAppleTimestamp(row.date_edited)
+        });
+      }
+    }
+
+    if (corrections.length > 0) {
+      this.logger.debug(`Detected ${corrections.length} edit/unsend correction(s)`);
+    }
+
+    return corrections;
+  }
+
+  /**
+   * Number of messages currently watched
+   */
+  size(): number {
+    return this.tracked.size;
+  }
+
+  private pruneExpired(): void {
+    const cutoff = Date.now() - this.windowMs;
+    for (const [rowId, tracked] of this.tracked) {
+      if (tracked.seenAt < cutoff) {
+        this.tracked.delete(rowId);
+      }
+    }
+  }
+}
@@ -1,8 +1,15 @@
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
-import { IncomingMessage, MessageAttachment } from '../interfaces/IMessageTransport';
+import { IncomingMessage, IncomingReaction, IncomingCorrection, IncomingGroupChange, OutboundReceipt, MessageAttachment, MessageHistoryQuery } from '../interfaces/IMessageTransport';
 import { ILogger } from '../interfaces/ILogger';
+import { decodeAttributedBody } from './AttributedBodyDecoder';
+import { parseReaction, isReactionType } from './reactions';
+import { MessageEditTracker } from './MessageEditTracker';
+import { OutboundTracker } from './OutboundTracker';
+import { GroupRosterTracker, GROUP_SYSTEM_ITEM_TYPES, loadGroupSnapshots } from './GroupRosterTracker';
+import { lookupReplyReference } from './replies';
+import { toAppleTimestamp, fromAppleTimestamp } from './appleTime';
 
 /**
  * MessagesDB - Direct access to iMessage database for monitoring
@@ -13,6 +20,14 @@ export class MessagesDB {
   private lastMessageId: number = 0;
   private attachmentsDir: string;
   private logger: ILogger;
+  private messageColumns: Set<string> = new Set();
+  private hasAttributedBody: boolean = false;
+  private hasAssociatedMessages: boolean = false;
+  private pendingReactions: IncomingReaction[] = [];
+  private editTracker: MessageEditTracker | null = null;
+  private outboundTracker: OutboundTracker | null = null;
+  private groupRosters: GroupRosterTracker = new GroupRosterTracker();
+  private pendingGroupChanges: IncomingGroupChange[] = [];
 
   constructor(dbPath: string, attachmentsDir: string, logger: ILogger) {
     this.logger = logger;
@@ -29,8 +44,47 @@ export class MessagesDB {
     // Open database in read-only mode
     this.db = new Database(dbPath, { readonly: true });
 
+    // Older chat.db schemas lack attributedBody / tapback columns
+    this.messageColumns = this.loadMessageColumns();
+    this.hasAttributedBody = this.messageColumns.has('attributedBody');
+    this.hasAssociatedMessages = this.messageColumns.has('associated_message_type')
+      && this.messageColumns.has('associated_message_guid');
+    if (MessageEditTracker.isSupported(this.messageColumns)) {
+      this.editTracker = new MessageEditTracker(this.db, this.logger);
+    }
+    if (OutboundTracker.isSupported(this.messageColumns)) {
+      this.outboundTracker = new OutboundTracker(this.db, this.logger);
+    }
+
     // Load last message ID
     this.loadLastMessageId();
+
+    // Baseline group names / members so later polls can report what changed
+    this.seedGroupRosters();
+  }
+
+  /**
+   * Record the current roster of every group chat
+   */
+  private seedGroupRosters(): void {
+    try {
+      loadGroupSnapshots(this.db).forEach(snapshot => this.groupRosters.observe(snapshot));
+      this.logger.debug(`Tracking ${this.groupRosters.size()} group chat roster(s)`);
+    } catch (error: any) {
+      this.logger.warn(`Failed to load group rosters: ${error.message}`);
+    }
+  }
+
+  /**
+   * Column names of the message table in this database
+   */
+  private loadMessageColumns(): Set<string> {
+    try {
+      const columns = this.db.prepare('PRAGMA table_info(message)').all() as Array<{ name: string }>;
+      return new Set(columns.map(column => column.name));
+    } catch {
+      return new Set();
+    }
   }
 
   /**
@@ -47,6 +101,21 @@ export class MessagesDB {
     }
   }
 
+  /**
+   * ROWID of the last message row read by pollNewMessages
+   */
+  getCursor(): number {
+    return this.lastMessageId;
+  }
+
+  /**
+   * Continue polling after this ROWID (e.g. where another reader stopped)
+   */
+  setCursor(rowId: number): void {
+    this.lastMessageId = rowId;
+    this.logger.info(`Resuming from message ID: ${rowId}`);
+  }
+
   /**
    * Poll for new messages since last check
    */
@@ -57,7 +126,7 @@ export class MessagesDB {
       const fastCheck = this.db.prepare(`
         SELECT COUNT(*) as count
         FROM message
-        WHERE ROWID > ? AND is_from_me = 0 AND text IS NOT NULL
+        WHERE ROWID > ? AND is_from_me = 0 AND ${this.hasContent('')}
         LIMIT 1
       `).get(this.lastMessageId) as any;
 
@@ -67,27 +136,7 @@ export class MessagesDB {
       }
 
       // New messages exist - run full query with JOINs
-      const query = `
-        SELECT
-          m.ROWID as id,
-          m.text,
-          m.date,
-          m.is_from_me,
-          c.chat_identifier as thread_id,
-          c.display_name as chat_name,
-          h.id as sender
-        FROM message m
-        JOIN chat_message_join cmj ON m.ROWID = cmj.message_id
-        JOIN chat c ON cmj.chat_id = c.ROWID
-        LEFT JOIN handle h ON m.handle_id = h.ROWID
-        WHERE m.ROWID > ?
-          AND m.is_from_me = 0
-          AND m.text IS NOT NULL
-        ORDER BY m.ROWID ASC
-        LIMIT 100
-      `;
-
-      const rows = this.db.prepare(query).all(this.lastMessageId) as any[];
+      const rows = this.queryMessages(['m.ROWID > ?'], [this.lastMessageId], 100);
       const messages: IncomingMessage[] = [];
 
       for (const row of rows) {
@@ -96,37 +145,45 @@ export class MessagesDB {
           this.lastMessageId = row.id;
         }
 
-        // Determine if group chat
-        // Group chats have chat_identifier that starts with "chat" (e.g., "chat655304561542537998")
-        // Direct chats have phone numbers or emails (e.g., "+15551234567" or "user@icloud.com")
-        // Note: The guid column contains ";-;" for direct and ";+;" for group, but we use chat_identifier
-        const isGroup = row.thread_id.startsWith('chat');
-
-        // Convert Apple's epoch (2001-01-01) to Unix timestamp
-        // Apple's date is in nanoseconds from 2001-01-01 00:00:00 GMT
-        const appleEpoch = 978307200; // Unix timestamp for 2001-01-01
-        const timestamp = new Date((row.date / 1000000000 + appleEpoch) * 1000);
-
-        // Get participants if it's a group chat
-        const participants = isGroup ? this.getGroupParticipants(row.thread_id) : [];
-
-        const attachments = this.getAttachmentsForMessage(row.id);
-
-        // For 1-on-1 chats where is_from_me = 0, the sender is the thread_id (the other person)
-        // For group chats, use the handle from the database
-        const sender = isGroup ? (row.sender || 'unknown') : row.thread_id;
-
-        messages.push({
-          threadId: row.thread_id,
-          sender,
-          text: row.text || '',
-          timestamp,
-          isGroup,
-          participants,
-          attachments
-        });
-
-        this.logger.debug(`New message from ${row.sender}: "${row.text.substring(0, 50)}..."`);
+        // Tapbacks are reported separately, never as chat text ("Loved “…”")
+        if (isReactionType(row.associated_message_type)) {
+          this.collectReaction(row);
+          continue;
+        }
+
+        // Group renames / joins / leaves are reported as roster changes
+        if (GROUP_SYSTEM_ITEM_TYPES.includes(row.item_type)) {
+          if (row.thread_id.startsWith('chat')) {
+            this.collectGroupChanges(row);
+          }
+          continue;
+        }
+
+        const message = this.toIncomingMessage(row);
+        if (!message) {
+          continue;
+        }
+
+        if (message.isGroup) {
+          this.pendingGroupChanges.push(...this.groupRosters.observe(
+            { threadId: message.threadId, displayName: row.chat_name, participants: message.participants },
+            { timestamp: message.timestamp }
+          ));
+        }
+
+        // Watch for later edits / unsends of this message
+        if (this.editTracker && row.guid) {
+          this.editTracker.track(row.id, {
+            guid: row.guid,
+            threadId: message.threadId,
+            sender: message.sender,
+            isGroup: message.isGroup,
+            dateEdited: row.date_edited
+          });
+        }
+
+        messages.push(message);
+        this.logger.debug(`New message from ${row.sender}: "${message.text.substring(0, 50)}..."`);
       }
 
       if (messages.length > 0) {
@@ -140,6 +197,256 @@ export class MessagesDB {
     }
   }
 
+  /**
+   * Re-read past inbound messages by ROWID range and/or time window.
+   * Unlike polling, this doesn't move the cursor or record reactions,
+   * roster changes or edit tracking; tapbacks and system rows are skipped.
+   */
+  readMessages(query: MessageHistoryQuery): IncomingMessage[] {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.fromRowId !== undefined) {
+      conditions.push('m.ROWID >= ?');
+      params.push(query.fromRowId);
+    }
+    if (query.toRowId !== undefined) {
+      conditions.push('m.ROWID <= ?');
+      params.push(query.toRowId);
+    }
+    if (query.since) {
+      conditions.push('m.date >= ?');
+      params.push(toAppleTimestamp(query.since));
+    }
+    if (query.until) {
+      conditions.push('m.date <= ?');
+      params.push(toAppleTimestamp(query.until));
+    }
+    if (query.threadId) {
+      conditions.push('c.chat_identifier = ?');
+      params.push(query.threadId);
+    }
+
+    const messages: IncomingMessage[] = [];
+    for (const row of this.queryMessages(conditions, params, query.limit)) {
+      if (isReactionType(row.associated_message_type) || GROUP_SYSTEM_ITEM_TYPES.includes(row.item_type)) {
+        continue;
+      }
+
+      const message = this.toIncomingMessage(row);
+      if (message) {
+        messages.push(message);
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Messages may carry their content only in attributedBody (text is NULL);
+   * group system rows (renames, joins, leaves) have no content at all
+   */
+  private hasContent(alias: string): string {
+    const conditions = [`${alias}text IS NOT NULL`];
+    if (this.hasAttributedBody) {
+      conditions.push(`${alias}attributedBody IS NOT NULL`);
+    }
+    if (this.messageColumns.has('item_type')) {
+      conditions.push(`${alias}item_type IN (${GROUP_SYSTEM_ITEM_TYPES.join(', ')})`);
+    }
+    return conditions.length > 1 ? `(${conditions.join(' OR ')})` : conditions[0];
+  }
+
+  /**
+   * Inbound message rows (with chat and sender) matching extra WHERE conditions
+   */
+  private queryMessages(conditions: string[], params: any[], limit: number): any[] {
+    const query = `
+      SELECT
+        m.ROWID as id,
+        ${this.messageColumns.has('guid') ? 'm.guid,' : ''}
+        m.text,
+        ${this.hasAttributedBody ? 'm.attributedBody as attributed_body,' : ''}
+        ${this.hasAssociatedMessages ? 'm.associated_message_type, m.associated_message_guid,' : ''}
+        ${this.messageColumns.has('associated_message_emoji') ? 'm.associated_message_emoji,' : ''}
+        ${this.editTracker ? 'm.date_edited,' : ''}
+        ${this.messageColumns.has('thread_originator_guid') ? 'm.thread_originator_guid,' : ''}
+        ${this.messageColumns.has('item_type') ? 'm.item_type,' : ''}
+        m.date,
+        m.is_from_me,
+        c.chat_identifier as thread_id,
+        c.display_name as chat_name,
+        h.id as sender
+      FROM message m
+      JOIN chat_message_join cmj ON m.ROWID = cmj.message_id
+      JOIN chat c ON cmj.chat_id = c.ROWID
+      LEFT JOIN handle h ON m.handle_id = h.ROWID
+      WHERE m.is_from_me = 0
+        AND ${this.hasContent('m.')}
+        ${conditions.map(condition => `AND ${condition}`).join('\n        ')}
+      ORDER BY m.ROWID ASC
+      LIMIT ?
+    `;
+
+    return this.db.prepare(query).all(...params, limit) as any[];
+  }
+
+  /**
+   * Build an IncomingMessage from a message row; null if it has no readable text
+   */
+  private toIncomingMessage(row: any): IncomingMessage | null {
+    // Edited / rich messages: decode the NSAttributedString blob
+    const decoded = row.attributed_body ? decodeAttributedBody(row.attributed_body) : null;
+    const text: string | null = row.text ?? decoded?.text ?? null;
+    if (text === null) {
+      this.logger.warn(`Skipping message ${row.id}: NULL text and undecodable attributedBody`);
+      return null;
+    }
+
+    // Determine if group chat
+    // Group chats have chat_identifier that starts with "chat" (e.g., "chat655304561542537998")
+    // Direct chats have phone numbers or emails (e.g., "+15551234567" or "user@icloud.com")
+    // Note: The guid column contains ";-;" for direct and ";+;" for group, but we use chat_identifier
+    const isGroup = row.thread_id.startsWith('chat');
+
+    // Convert Apple's epoch (2001-01-01) to Unix timestamp
+    // Apple's date is in nanoseconds from 2001-01-01 00:00:00 GMT
+    const timestamp = fromAppleTimestamp(row.date);
+
+    // Get participants if it's a group chat
+    const participants = isGroup ? this.getGroupParticipants(row.thread_id) : [];
+
+    // For 1-on-1 chats where is_from_me = 0, the sender is the thread_id (the other person)
+    // For group chats, use the handle from the database
+    const sender = isGroup ? (row.sender || 'unknown') : row.thread_id;
+
+    return {
+      guid: row.guid || undefined,
+      threadId: row.thread_id,
+      sender,
+      text,
+      timestamp,
+      isGroup,
+      participants,
+      attachments: this.getAttachmentsForMessage(row.id),
+      mentions: decoded && decoded.mentions.length > 0 ? decoded.mentions : undefined,
+      links: decoded && decoded.links.length > 0 ? decoded.links : undefined,
+      groupName: isGroup ? row.chat_name || undefined : undefined,
+      replyTo: row.thread_originator_guid ? this.getReplyReference(row.thread_originator_guid) : undefined
+    };
+  }
+
+  /**
+   * Tapbacks collected by the last polls (cleared on read)
+   */
+  drainReactions(): IncomingReaction[] {
+    return this.pendingReactions.splice(0, this.pendingReactions.length);
+  }
+
+  /**
+   * Group roster changes collected by the last polls (cleared on read)
+   */
+  drainGroupChanges(): IncomingGroupChange[] {
+    return this.pendingGroupChanges.splice(0, this.pendingGroupChanges.length);
+  }
+
+  /**
+   * Edits and unsends of recently polled messages
+   */
+  pollCorrections(): IncomingCorrection[] {
+    if (!this.editTracker) {
+      return [];
+    }
+
+    try {
+      return this.editTracker.poll();
+    } catch (error: any) {
+      this.logger.error('Failed to check for edited messages:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Remember a send so its delivered / read receipts can be matched
+   */
+  expectOutbound(threadId: string, text: string): void {
+    this.outboundTracker?.expect(threadId, text);
+  }
+
+  /**
+   * Receipt transitions of our sent messages
+   */
+  pollReceipts(): OutboundReceipt[] {
+    if (!this.outboundTracker) {
+      return [];
+    }
+
+    try {
+      return this.outboundTracker.poll();
+    } catch (error: any) {
+      this.logger.error('Failed to check outbound receipts:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Turn a tapback row into an IncomingReaction
+   */
+  private collectReaction(row: any): void {
+    const parsed = parseReaction(row.associated_message_type, row.associated_message_guid);
+    if (!parsed) {
+      return;
+    }
+
+    const isGroup = row.thread_id.startsWith('chat');
+
+    this.pendingReactions.push({
+      threadId: row.thread_id,
+      sender: isGroup ? (row.sender || 'unknown') : row.thread_id,
+      targetMessageGuid: parsed.targetMessageGuid,
+      targetPartIndex: parsed.targetPartIndex,
+      kind: parsed.kind,
+      removed: parsed.removed,
+      emoji: row.associated_message_emoji || undefined,
+      timestamp: fromAppleTimestamp(row.date),
+      isGroup
+    });
+
+    this.logger.debug(`Reaction ${parsed.removed ? 'removed' : 'added'}: ${parsed.kind} on ${parsed.targetMessageGuid}`);
+  }
+
+  /**
+   * Re-read a group's name and members after a system row, and record the diff
+   */
+  private collectGroupChanges(row: any): void {
+    const changes = this.groupRosters.observe(
+      {
+        threadId: row.thread_id,
+        displayName: row.chat_name,
+        participants: this.getGroupParticipants(row.thread_id)
+      },
+      {
+        actor: row.sender || undefined,
+        timestamp: fromAppleTimestamp(row.date)
+      }
+    );
+
+    this.pendingGroupChanges.push(...changes);
+    this.logger.debug(`Group system message in ${row.thread_id}: ${changes.length} roster change(s)`);
+  }
+
+  /**
+   * Quoted message for an inline reply
+   */
+  private getReplyReference(originatorGuid: string): IncomingMessage['replyTo'] {
+    try {
+      return lookupReplyReference(this.db, originatorGuid, this.hasAttributedBody);
+    } catch (error: any) {
+      this.logger.warn(`Failed to look up reply target ${originatorGuid}: ${error.message}`);
+      return { guid: originatorGuid };
+    }
+  }
+
   /**
    * Fetch attachments for a given message
    */
@@ -172,10 +479,7 @@ export class MessagesDB {
         this.logger.debug(`  Raw row data: ${JSON.stringify(row)}`);
 
         const paths = this.resolveAttachmentPath(row.filename);
-        const appleEpoch = 978307200;
-        const createdAt = row.created_date
-          ? new Date(((row.created_date / 1000000000) + appleEpoch) * 1000)
-          : undefined;
+        const createdAt = row.created_date ? fromAppleTimestamp(row.created_date) : undefined;
 
         return {
           id: row.id,
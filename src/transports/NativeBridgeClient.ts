@@ -21,9 +21,20 @@ export interface BridgeAttachmentPayload {
 
 export interface BridgeMessagePayload {
   id: number;
+  guid?: string;
   thread_id: string;
   sender: string;
   text: string;
+  attributed_body?: string;  // base64 attributedBody blob, sent when text is NULL
+  associated_message_type?: number;  // 2000-3007 for tapbacks
+  associated_message_guid?: string;
+  associated_message_emoji?: string;  // The emoji of a custom-emoji tapback (macOS Sequoia+)
+  item_type?: number;   // Non-zero for system rows (1-3: group member / name changes)
+  chat_name?: string;   // chat.display_name
+  reply_to?: {  // Inline reply target (thread_originator_guid)
+    guid: string;
+    text?: string;  // Quoted text, when the original has a plain text column
+  };
   timestamp: string;
   participants: string[];
   is_group: boolean;
@@ -46,6 +57,7 @@ export declare interface NativeBridgeClient {
   on(event: 'message', listener: (payload: BridgeMessagePayload) => void): this;
   on(event: 'log', listener: (payload: any) => void): this;
   on(event: 'error', listener: (payload: any) => void): this;
+  on(event: 'exit', listener: (payload: { code: number | null; signal: string | null }) => void): this;
 }
 
 export class NativeBridgeClient extends EventEmitter {
@@ -78,6 +90,7 @@ export class NativeBridgeClient extends EventEmitter {
       );
 
       let resolved = false;
+      const child = this.child;
 
       this.child.once('spawn', () => {
         resolved = true;
@@ -87,12 +100,26 @@ export class NativeBridgeClient extends EventEmitter {
       this.child.once('error', (error) => {
         this.logger.error(`Native bridge failed to start: ${error.message}`);
         if (!resolved) {
+          this.child = undefined;
           reject(error);
         } else {
           this.emit('error', { message: error.message });
         }
       });
 
+      this.child.once('exit', (code, signal) => {
+        // stop() clears this.child first - only report exits nobody asked for
+        if (this.child !== child) {
+          return;
+        }
+
+        this.logger.error(`Native helper exited unexpectedly (code ${code}, signal ${signal})`);
+        this.rl?.close();
+        this.rl = undefined;
+        this.child = undefined;
+        this.emit('exit', { code, signal });
+      });
+
       this.child.stderr.on('data', (chunk) => {
         const text = chunk.toString();
         this.logger.warn(`[native-helper] ${text.trim()}`);
@@ -129,13 +156,21 @@ export class NativeBridgeClient extends EventEmitter {
     });
   }
 
+  /**
+   * Whether the helper process is still running
+   */
+  isAlive(): boolean {
+    return !!this.child && this.child.exitCode === null && this.child.signalCode === null;
+  }
+
   stop(): void {
     this.rl?.close();
     this.rl = undefined;
 
     if (this.child) {
-      this.child.kill('SIGTERM');
+      const child = this.child;
       this.child = undefined;
+      child.kill('SIGTERM');
     }
   }
 }
@@ -1,7 +1,23 @@
-import { IMessageTransport, IncomingMessage, MessageAttachment } from '../interfaces/IMessageTransport';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import { IMessageTransport, IncomingMessage, IncomingReaction, IncomingCorrection, IncomingGroupChange, OutboundReceipt, MessageAttachment, MessageHistoryQuery } from '../interfaces/IMessageTransport';
 import { AppleScriptSender } from './AppleScriptSender';
 import { ILogger } from '../interfaces/ILogger';
 import { NativeBridgeClient, BridgeMessagePayload, BridgeAttachmentPayload } from './NativeBridgeClient';
+import { decodeAttributedBody } from './AttributedBodyDecoder';
+import { parseReaction } from './reactions';
+import { MessageEditTracker } from './MessageEditTracker';
+import { OutboundTracker } from './OutboundTracker';
+import { GroupRosterTracker, GROUP_SYSTEM_ITEM_TYPES, loadGroupSnapshots } from './GroupRosterTracker';
+import { lookupReplyReference, toReplySnippet } from './replies';
+import { MessagesDB } from './MessagesDB';
+import {
+  NativeHelperSupervisor,
+  NativeHelperSupervisorOptions,
+  NativeHelperSupervisorTimers,
+  NativeHelperStatus,
+  NativeHelperAlert
+} from './NativeHelperSupervisor';
 
 interface NativeBridgeTransportOptions {
   executable: string;
@@ -10,17 +26,30 @@ interface NativeBridgeTransportOptions {
   dbPath: string;
   stateFilePath?: string;
   maxMessageAgeSeconds?: number;
+  heartbeatIntervalMs?: number;  // Ask the helper for heartbeat envelopes (supervisor liveness check)
+  supervisor?: Partial<NativeHelperSupervisorOptions>;
 }
 
 export class NativeBridgeTransport implements IMessageTransport {
   private readonly sender: AppleScriptSender;
   private readonly bridge: NativeBridgeClient;
+  private readonly supervisor: NativeHelperSupervisor;
   private readonly queue: IncomingMessage[] = [];
+  private readonly reactionQueue: IncomingReaction[] = [];
+  private readonly groupChangeQueue: IncomingGroupChange[] = [];
+  private readonly groupRosters = new GroupRosterTracker();
   private running = false;
+  private lastRowId = 0;  // Highest chat.db ROWID the helper has reported
+  // Read-only chat.db handle for edit/unsend checks, receipts and reply lookups (the helper only reports new inbound rows)
+  private chatDb: Database.Database | null = null;
+  private chatDbHasAttributedBody = false;
+  private editTracker: MessageEditTracker | null = null;
+  private outboundTracker: OutboundTracker | null = null;
 
   constructor(
     private readonly options: NativeBridgeTransportOptions,
-    private readonly logger: ILogger
+    private readonly logger: ILogger,
+    timers?: NativeHelperSupervisorTimers
   ) {
     this.sender = new AppleScriptSender(logger);
     const bridgeArgs = [
@@ -40,6 +69,10 @@ export class NativeBridgeTransport implements IMessageTransport {
       bridgeArgs.push('--max-message-age-seconds', String(options.maxMessageAgeSeconds));
     }
 
+    if (options.heartbeatIntervalMs) {
+      bridgeArgs.push('--heartbeat-interval-ms', String(options.heartbeatIntervalMs));
+    }
+
     this.bridge = new NativeBridgeClient(
       {
         executable: options.executable,
@@ -52,6 +85,9 @@ export class NativeBridgeTransport implements IMessageTransport {
     this.bridge.on('error', (payload) => {
       this.logger.error(`Native helper error: ${JSON.stringify(payload)}`);
     });
+
+    // Restarts the helper after exits / missed heartbeats
+    this.supervisor = new NativeHelperSupervisor(this.bridge, logger, options.supervisor, timers);
   }
 
   async start(): Promise<void> {
@@ -60,13 +96,18 @@ export class NativeBridgeTransport implements IMessageTransport {
       throw new Error('Cannot connect to Messages.app via AppleScript');
     }
 
-    await this.bridge.start();
+    await this.supervisor.start();
+    this.openChatDb();
     this.running = true;
     this.logger.info('Native bridge transport started');
   }
 
   stop(): void {
-    this.bridge.stop();
+    this.supervisor.stop();
+    this.chatDb?.close();
+    this.chatDb = null;
+    this.editTracker = null;
+    this.outboundTracker = null;
     this.running = false;
     this.sender.destroy();
   }
@@ -80,13 +121,85 @@ export class NativeBridgeTransport implements IMessageTransport {
     return messages;
   }
 
+  async pollReactions(): Promise<IncomingReaction[]> {
+    if (!this.running) {
+      return [];
+    }
+
+    return this.reactionQueue.splice(0, this.reactionQueue.length);
+  }
+
+  async pollGroupChanges(): Promise<IncomingGroupChange[]> {
+    if (!this.running) {
+      return [];
+    }
+
+    return this.groupChangeQueue.splice(0, this.groupChangeQueue.length);
+  }
+
+  async pollCorrections(): Promise<IncomingCorrection[]> {
+    if (!this.running || !this.editTracker) {
+      return [];
+    }
+
+    try {
+      return this.editTracker.poll();
+    } catch (error: any) {
+      this.logger.error(`Failed to check for edited messages: ${error.message}`);
+      return [];
+    }
+  }
+
+  async pollReceipts(): Promise<OutboundReceipt[]> {
+    if (!this.running || !this.outboundTracker) {
+      return [];
+    }
+
+    try {
+      return this.outboundTracker.poll();
+    } catch (error: any) {
+      this.logger.error(`Failed to check outbound receipts: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Re-read past inbound messages straight from chat.db (the helper only streams new rows)
+   */
+  async readMessages(query: MessageHistoryQuery): Promise<IncomingMessage[]> {
+    const messagesDB = new MessagesDB(this.options.dbPath, this.options.attachmentsPath, this.logger);
+    try {
+      return messagesDB.readMessages(query);
+    } finally {
+      messagesDB.close();
+    }
+  }
+
   async sendMessage(threadId: string, text: string, isGroup: boolean): Promise<boolean> {
     if (!this.running) {
       this.logger.warn('Transport not running, cannot send message');
       return false;
     }
 
-    return this.sender.sendMessage(threadId, text, isGroup);
+    const sent = await this.sender.sendMessage(threadId, text, isGroup);
+    if (sent) {
+      this.outboundTracker?.expect(threadId, text);
+    }
+    return sent;
+  }
+
+  async sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string): Promise<boolean> {
+    if (!this.running) {
+      this.logger.warn('Transport not running, cannot send attachment');
+      return false;
+    }
+
+    // The helper only reads chat.db; sends go through AppleScript
+    const sent = await this.sender.sendAttachment(threadId, file, isGroup, caption);
+    if (sent && caption) {
+      this.outboundTracker?.expect(threadId, caption);
+    }
+    return sent;
   }
 
   async sendMultiBubble(
@@ -100,27 +213,183 @@ export class NativeBridgeTransport implements IMessageTransport {
       return false;
     }
 
-    return this.sender.sendMultiBubble(threadId, bubbles, isGroup, batched);
+    const sent = await this.sender.sendMultiBubble(threadId, bubbles, isGroup, batched);
+    if (sent) {
+      bubbles.forEach(bubble => this.outboundTracker?.expect(threadId, bubble));
+    }
+    return sent;
   }
 
   getName(): string {
     return 'NativeBridgeTransport';
   }
 
+  /**
+   * Healthy while the helper runs or the supervisor is still restarting it
+   */
+  isHealthy(): boolean {
+    return this.running && this.supervisor.isHealthy();
+  }
+
+  getHelperStatus(): NativeHelperStatus {
+    return this.supervisor.getStatus();
+  }
+
+  /**
+   * Set callback for when the supervisor gives up on the helper (crash loop)
+   */
+  onHelperAlert(callback: (alert: NativeHelperAlert) => void): void {
+    this.supervisor.onAlert(callback);
+  }
+
+  /**
+   * Last ROWID the helper reached (what it reported, or what it saved to its state file)
+   */
+  getCursor(): number {
+    return Math.max(this.lastRowId, this.readStateFile());
+  }
+
+  /**
+   * Point the helper's state file at this ROWID so the next start() resumes after it
+   */
+  setCursor(rowId: number): void {
+    if (!this.options.stateFilePath) {
+      this.logger.warn('Native helper has no state file - it will start from the newest message');
+      return;
+    }
+
+    try {
+      fs.writeFileSync(this.options.stateFilePath, String(rowId));
+      this.lastRowId = rowId;
+      this.logger.info(`Native helper will resume from message ID: ${rowId}`);
+    } catch (error: any) {
+      this.logger.error(`Failed to write native helper state file: ${error.message}`);
+    }
+  }
+
+  private readStateFile(): number {
+    if (!this.options.stateFilePath) {
+      return 0;
+    }
+
+    try {
+      return parseInt(fs.readFileSync(this.options.stateFilePath, 'utf8').trim(), 10) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
   private handleBridgeMessage(payload: BridgeMessagePayload): void {
+    this.lastRowId = Math.max(this.lastRowId, payload.id);
+
+    // Tapbacks are reported separately, never as chat text
+    const reaction = parseReaction(payload.associated_message_type, payload.associated_message_guid);
+    if (reaction) {
+      this.reactionQueue.push({
+        threadId: payload.thread_id,
+        sender: payload.sender,
+        targetMessageGuid: reaction.targetMessageGuid,
+        targetPartIndex: reaction.targetPartIndex,
+        kind: reaction.kind,
+        removed: reaction.removed,
+        emoji: payload.associated_message_emoji || undefined,
+        timestamp: new Date(payload.timestamp),
+        isGroup: payload.is_group
+      });
+      return;
+    }
+
+    // The helper sends the roster as of this row; diff it against the last one
+    const isGroupSystemRow = GROUP_SYSTEM_ITEM_TYPES.includes(payload.item_type ?? 0);
+    if (payload.is_group && payload.thread_id.startsWith('chat')) {
+      this.groupChangeQueue.push(...this.groupRosters.observe(
+        { threadId: payload.thread_id, displayName: payload.chat_name || null, participants: payload.participants || [] },
+        { actor: isGroupSystemRow ? payload.sender : undefined, timestamp: new Date(payload.timestamp) }
+      ));
+    }
+
+    // Renames / joins / leaves are not chat text
+    if (isGroupSystemRow) {
+      return;
+    }
+
+    // Edited / rich messages only carry their content in attributedBody
+    const decoded = payload.attributed_body
+      ? decodeAttributedBody(Buffer.from(payload.attributed_body, 'base64'))
+      : null;
+
+    if (this.editTracker && payload.guid) {
+      this.editTracker.track(payload.id, {
+        guid: payload.guid,
+        threadId: payload.thread_id,
+        sender: payload.sender,
+        isGroup: payload.is_group
+      });
+    }
+
     const message: IncomingMessage = {
+      guid: payload.guid,
       threadId: payload.thread_id,
       sender: payload.sender,
-      text: payload.text || '',
+      text: payload.text || decoded?.text || '',
       timestamp: new Date(payload.timestamp),
       isGroup: payload.is_group,
       participants: payload.participants || [],
-      attachments: (payload.attachments || []).map(this.mapAttachment)
+      attachments: (payload.attachments || []).map(this.mapAttachment),
+      mentions: decoded && decoded.mentions.length > 0 ? decoded.mentions : undefined,
+      links: decoded && decoded.links.length > 0 ? decoded.links : undefined,
+      groupName: payload.is_group ? payload.chat_name || undefined : undefined,
+      replyTo: payload.reply_to ? this.resolveReplyTo(payload.reply_to) : undefined
     };
 
     this.queue.push(message);
   }
 
+  /**
+   * The helper only sends quoted text from the plain text column; fill it in
+   * from attributedBody when that is where the original's content lives
+   */
+  private resolveReplyTo(replyTo: NonNullable<BridgeMessagePayload['reply_to']>): IncomingMessage['replyTo'] {
+    if (replyTo.text || !this.chatDb) {
+      return { guid: replyTo.guid, text: toReplySnippet(replyTo.text) };
+    }
+
+    try {
+      return lookupReplyReference(this.chatDb, replyTo.guid, this.chatDbHasAttributedBody);
+    } catch (error: any) {
+      this.logger.warn(`Failed to look up reply target ${replyTo.guid}: ${error.message}`);
+      return { guid: replyTo.guid };
+    }
+  }
+
+  private openChatDb(): void {
+    try {
+      this.chatDb = new Database(this.options.dbPath, { readonly: true });
+      const columns = this.chatDb.prepare('PRAGMA table_info(message)').all() as Array<{ name: string }>;
+      const columnNames = new Set(columns.map(column => column.name));
+      this.chatDbHasAttributedBody = columnNames.has('attributedBody');
+      if (MessageEditTracker.isSupported(columnNames)) {
+        this.editTracker = new MessageEditTracker(this.chatDb, this.logger);
+      } else {
+        this.logger.info('chat.db has no edit/unsend columns - edit detection disabled');
+      }
+      if (OutboundTracker.isSupported(columnNames)) {
+        this.outboundTracker = new OutboundTracker(this.chatDb, this.logger);
+      }
+    } catch (error: any) {
+      this.logger.warn(`Edit/unsend and receipt tracking unavailable: ${error.message}`);
+      this.chatDb = null;
+      return;
+    }
+
+    // Baseline group names / members so later rows can report what changed
+    try {
+      loadGroupSnapshots(this.chatDb).forEach(snapshot => this.groupRosters.observe(snapshot));
+    } catch (error: any) {
+      this.logger.warn(`Failed to load group rosters: ${error.message}`);
+    }
+  }
+
   private mapAttachment(attachment: BridgeAttachmentPayload): MessageAttachment {
     return {
       id: attachment.id,
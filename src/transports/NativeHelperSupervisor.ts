@@ -0,0 +1,250 @@
+import { ILogger } from '../interfaces/ILogger';
+import { NativeBridgeClient } from './NativeBridgeClient';
+
+export interface NativeHelperSupervisorOptions {
+  heartbeatTimeoutMs: number;  // Restart when the helper is silent this long (0 = exits only)
+  baseBackoffMs: number;       // First restart delay (doubles per recent restart)
+  maxBackoffMs: number;        // Cap on restart delay
+  maxRestarts: number;         // Restarts allowed within crashLoopWindowMs before giving up
+  crashLoopWindowMs: number;
+  onStatusChange?: (status: NativeHelperStatus) => void;
+}
+
+export interface NativeHelperSupervisorTimers {
+  setTimer: (callback: () => void, ms: number) => NodeJS.Timeout;
+  clearTimer: (timer: NodeJS.Timeout) => void;
+}
+
+export type NativeHelperState = 'stopped' | 'starting' | 'running' | 'restarting' | 'crash_loop';
+
+export interface NativeHelperStatus {
+  state: NativeHelperState;
+  restarts_total: number;
+  last_restart_reason: string | null;
+  last_exit_at: string | null;
+  last_heartbeat_at: string | null;
+  next_restart_at: string | null;
+}
+
+export interface NativeHelperAlert {
+  kind: 'crash_loop';
+  message: string;
+  restarts: number;      // Restarts within the crash-loop window
+  window_ms: number;
+  last_reason: string;
+}
+
+type AlertCallback = (alert: NativeHelperAlert) => void;
+
+const DEFAULT_OPTIONS: Omit<NativeHelperSupervisorOptions, 'onStatusChange'> = {
+  heartbeatTimeoutMs: 30 * 1000,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 60 * 1000,
+  maxRestarts: 5,
+  crashLoopWindowMs: 10 * 60 * 1000
+};
+
+/**
+ * NativeHelperSupervisor - Keeps the Swift messages helper running
+ *
+ * Restarts the helper when it exits or stops producing output (it sends a
+ * heartbeat `log` envelope when started with --heartbeat-interval-ms; any
+ * message counts too). Restarts back off exponentially with the number of
+ * recent restarts. If the helper needs more than maxRestarts restarts within
+ * crashLoopWindowMs the supervisor gives up, enters `crash_loop` and raises an
+ * alert - a FailoverTransport then moves to chat.db polling until a fresh
+ * helper starts cleanly. The helper resumes from its state file, so restarts
+ * neither skip nor repeat rows.
+ */
+export class NativeHelperSupervisor {
+  private options: NativeHelperSupervisorOptions;
+  private state: NativeHelperState = 'stopped';
+  private restartTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private recentRestarts: number[] = [];  // Timestamps within the crash-loop window
+  private restartsTotal = 0;
+  private lastRestartReason: string | null = null;
+  private lastExitAt: Date | null = null;
+  private lastHeartbeatAt: Date | null = null;
+  private nextRestartAt: Date | null = null;
+  private alertCallback: AlertCallback | null = null;
+
+  constructor(
+    private readonly client: NativeBridgeClient,
+    private readonly logger: ILogger,
+    options: Partial<NativeHelperSupervisorOptions> = {},
+    private readonly timers: NativeHelperSupervisorTimers = {
+      setTimer: (callback, ms) => setTimeout(callback, ms),
+      clearTimer: (timer) => clearTimeout(timer)
+    }
+  ) {
+    this.options = {
+      heartbeatTimeoutMs: options.heartbeatTimeoutMs ?? DEFAULT_OPTIONS.heartbeatTimeoutMs,
+      baseBackoffMs: options.baseBackoffMs ?? DEFAULT_OPTIONS.baseBackoffMs,
+      maxBackoffMs: options.maxBackoffMs ?? DEFAULT_OPTIONS.maxBackoffMs,
+      maxRestarts: options.maxRestarts ?? DEFAULT_OPTIONS.maxRestarts,
+      crashLoopWindowMs: options.crashLoopWindowMs ?? DEFAULT_OPTIONS.crashLoopWindowMs,
+      onStatusChange: options.onStatusChange
+    };
+
+    this.client.on('exit', ({ code, signal }) => {
+      this.lastExitAt = new Date();
+      this.scheduleRestart(`exited (code ${code}, signal ${signal})`);
+    });
+    this.client.on('log', () => this.heartbeat());
+    this.client.on('message', () => this.heartbeat());
+  }
+
+  /**
+   * Set callback for when the supervisor gives up on the helper
+   */
+  onAlert(callback: AlertCallback): void {
+    this.alertCallback = callback;
+  }
+
+  /**
+   * Start the helper; a failure here is left to the caller (nothing is retried yet)
+   */
+  async start(): Promise<void> {
+    this.setState('starting');
+    try {
+      await this.client.start();
+    } catch (error) {
+      this.setState('stopped');
+      throw error;
+    }
+
+    this.heartbeat();
+    this.setState('running');
+  }
+
+  stop(): void {
+    this.clearTimers();
+    this.nextRestartAt = null;
+    this.setState('stopped');
+    this.client.stop();
+  }
+
+  /**
+   * Running, or expected to be running again shortly
+   */
+  isHealthy(): boolean {
+    return this.state === 'running' || this.state === 'restarting' || this.state === 'starting';
+  }
+
+  getStatus(): NativeHelperStatus {
+    return {
+      state: this.state,
+      restarts_total: this.restartsTotal,
+      last_restart_reason: this.lastRestartReason,
+      last_exit_at: this.lastExitAt?.toISOString() ?? null,
+      last_heartbeat_at: this.lastHeartbeatAt?.toISOString() ?? null,
+      next_restart_at: this.nextRestartAt?.toISOString() ?? null
+    };
+  }
+
+  private heartbeat(): void {
+    if (this.state !== 'running' && this.state !== 'starting') {
+      return;
+    }
+
+    this.lastHeartbeatAt = new Date();
+    if (this.options.heartbeatTimeoutMs <= 0) {
+      return;
+    }
+
+    if (this.heartbeatTimer) {
+      this.timers.clearTimer(this.heartbeatTimer);
+    }
+    this.heartbeatTimer = this.timers.setTimer(() => {
+      this.heartbeatTimer = null;
+      this.logger.error(`❌ Native helper sent nothing for ${this.options.heartbeatTimeoutMs / 1000}s - restarting it`);
+      this.client.stop();
+      this.scheduleRestart('missed heartbeat');
+    }, this.options.heartbeatTimeoutMs);
+  }
+
+  private scheduleRestart(reason: string): void {
+    if (this.state === 'stopped' || this.state === 'crash_loop' || this.restartTimer) {
+      return;
+    }
+
+    this.clearTimers();
+    this.lastRestartReason = reason;
+
+    const now = Date.now();
+    this.recentRestarts = this.recentRestarts.filter(at => now - at < this.options.crashLoopWindowMs);
+    if (this.recentRestarts.length >= this.options.maxRestarts) {
+      this.giveUp(reason);
+      return;
+    }
+
+    this.recentRestarts.push(now);
+    const delayMs = Math.min(
+      this.options.baseBackoffMs * Math.pow(2, this.recentRestarts.length - 1),
+      this.options.maxBackoffMs
+    );
+    this.nextRestartAt = new Date(now + delayMs);
+    this.logger.warn(`⚠️  Native helper ${reason} - restarting in ${delayMs}ms (${this.recentRestarts.length}/${this.options.maxRestarts})`);
+    this.setState('restarting');
+
+    this.restartTimer = this.timers.setTimer(() => {
+      this.restartTimer = null;
+      this.restart();
+    }, delayMs);
+  }
+
+  private async restart(): Promise<void> {
+    this.nextRestartAt = null;
+    this.restartsTotal++;
+    try {
+      await this.client.start();
+    } catch (error: any) {
+      this.scheduleRestart(`failed to restart: ${error.message}`);
+      return;
+    }
+
+    // stop() may have been called while the helper was spawning
+    if (this.state !== 'restarting') {
+      this.client.stop();
+      return;
+    }
+
+    this.logger.info(`✅ Native helper restarted (${this.restartsTotal} restart(s) so far)`);
+    this.setState('running');
+    this.heartbeat();
+  }
+
+  private giveUp(reason: string): void {
+    const message = `Native helper restarted ${this.recentRestarts.length} times in ` +
+      `${Math.round(this.options.crashLoopWindowMs / 60000)}min (last: ${reason}) - giving up`;
+    this.logger.error(`❌ ${message}`);
+    this.nextRestartAt = null;
+    this.client.stop();
+    this.setState('crash_loop');
+
+    this.alertCallback?.({
+      kind: 'crash_loop',
+      message,
+      restarts: this.recentRestarts.length,
+      window_ms: this.options.crashLoopWindowMs,
+      last_reason: reason
+    });
+  }
+
+  private clearTimers(): void {
+    if (this.restartTimer) {
+      this.timers.clearTimer(this.restartTimer);
+      this.restartTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      this.timers.clearTimer(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private setState(state: NativeHelperState): void {
+    this.state = state;
+    this.options.onStatusChange?.(this.getStatus());
+  }
+}
@@ -0,0 +1,212 @@
+import Database from 'better-sqlite3';
+import { OutboundReceipt } from '../interfaces/IMessageTransport';
+import { ILogger } from '../interfaces/ILogger';
+import { decodeAttributedBody } from './AttributedBodyDecoder';
+import { fromAppleTimestamp } from './appleTime';
+
+interface ExpectedSend {
+  threadId: string;
+  text: string;
+  sentAt: number;
+}
+
+interface TrackedSend {
+  guid: string;
+  threadId: string;
+  text: string;
+  sentAt: Date;
+  delivered: boolean;
+  trackedAt: number;
+}
+
+export interface OutboundTrackerOptions {
+  matchWindowMs?: number;   // How long a send may take to show up in chat.db
+  trackWindowMs?: number;   // How long to wait for delivered / read
+  maxTracked?: number;
+}
+
+/**
+ * OutboundTracker - Follows our sent messages through chat.db
+ *
+ * osascript exiting only means Messages.app accepted the send. Each send is
+ * matched to its is_from_me = 1 row (same chat, same text), and that row is
+ * watched until it is read, fails, or ages out.
+ */
+export class OutboundTracker {
+  private expected: ExpectedSend[] = [];
+  private tracked: Map<number, TrackedSend> = new Map();
+  private lastRowId: number;
+  private readonly matchWindowMs: number;
+  private readonly trackWindowMs: number;
+  private readonly maxTracked: number;
+
+  constructor(
+    private readonly db: Database.Database,
+    private readonly logger: ILogger,
+    options: OutboundTrackerOptions = {}
+  ) {
+    this.matchWindowMs = options.matchWindowMs ?? 60 * 1000;
+    this.trackWindowMs = options.trackWindowMs ?? 60 * 60 * 1000;
+    this.maxTracked = options.maxTracked ?? 500;
+
+    // Only sends made from now on are ours to match
+    const result = this.db.prepare('SELECT MAX(ROWID) as max_id FROM message').get() as { max_id: number | null };
+    this.lastRowId = result.max_id || 0;
+  }
+
+  /**
+   * True if the chat.db schema has the receipt columns
+   */
+  static isSupported(columns: Set<string>): boolean {
+    return ['guid', 'attributedBody', 'is_delivered', 'is_read', 'date_delivered', 'date_read', 'error']
+      .every(column => columns.has(column));
+  }
+
+  /**
+   * Record a send that was handed to Messages.app
+   */
+  expect(threadId: string, text: string): void {
+    this.expected.push({ threadId, text: text.trim(), sentAt: Date.now() });
+  }
+
+  /**
+   * Match new sent rows and report delivered / read / failed transitions
+   */
+  poll(): OutboundReceipt[] {
+    this.pruneExpired();
+    this.matchNewRows();
+
+    if (this.tracked.size === 0) {
+      return [];
+    }
+
+    const rowIds = Array.from(this.tracked.keys());
+    const rows = this.db.prepare(`
+      SELECT ROWID as id, is_delivered, is_read, date_delivered, date_read, error
+      FROM message
+      WHERE ROWID IN (${rowIds.map(() => '?').join(', ')})
+        AND (is_delivered = 1 OR is_read = 1 OR error != 0)
+    `).all(...rowIds) as any[];
+
+    const receipts: OutboundReceipt[] = [];
+
+    for (const row of rows) {
+      const tracked = this.tracked.get(row.id);
+      if (!tracked) {
+        continue;
+      }
+
+      if (row.error) {
+        this.tracked.delete(row.id);
+        receipts.push(this.toReceipt('failed', tracked, new Date(), row.error));
+        continue;
+      }
+
+      if (row.is_delivered && !tracked.delivered) {
+        tracked.delivered = true;
+        receipts.push(this.toReceipt('delivered', tracked, this.toDate(row.date_delivered)));
+      }
+
+      // Read is final; group chats never send read receipts and age out instead
+      if (row.is_read) {
+        this.tracked.delete(row.id);
+        receipts.push(this.toReceipt('read', tracked, this.toDate(row.date_read)));
+      }
+    }
+
+    if (receipts.length > 0) {
+      this.logger.debug(`Detected ${receipts.length} outbound receipt(s)`);
+    }
+
+    return receipts;
+  }
+
+  /**
+   * Sends waiting to be matched, and matched sends being watched
+   */
+  getStats(): { awaiting_match: number; tracked: number } {
+    return { awaiting_match: this.expected.length, tracked: this.tracked.size };
+  }
+
+  /**
+   * Pair new is_from_me rows with the sends we are expecting
+   */
+  private matchNewRows(): void {
+    if (this.expected.length === 0) {
+      return;
+    }
+
+    const rows = this.db.prepare(`
+      SELECT m.ROWID as id, m.guid, m.text, m.attributedBody as attributed_body, m.date,
+             c.chat_identifier as thread_id
+      FROM message m
+      JOIN chat_message_join cmj ON m.ROWID = cmj.message_id
+      JOIN chat c ON cmj.chat_id = c.ROWID
+      WHERE m.ROWID > ? AND m.is_from_me = 1
+      ORDER BY m.ROWID ASC
+      LIMIT 100
+    `).all(this.lastRowId) as any[];
+
+    for (const row of rows) {
+      this.lastRowId = Math.max(this.lastRowId, row.id);
+
+      const text: string = (row.text ?? (row.attributed_body ? decodeAttributedBody(row.attributed_body)?.text : null) ?? '').trim();
+      const index = this.expected.findIndex(send => send.threadId === row.thread_id && send.text === text);
+      if (index === -1) {
+        continue;  // Sent by hand, or by something other than this agent
+      }
+
+      const [send] = this.expected.splice(index, 1);
+      this.tracked.set(row.id, {
+        guid: row.guid,
+        threadId: send.threadId,
+        text: send.text,
+        sentAt: this.toDate(row.date),
+        delivered: false,
+        trackedAt: Date.now()
+      });
+    }
+
+    // Map keeps insertion order, so the first key is the oldest
+    while (this.tracked.size > this.maxTracked) {
+      this.tracked.delete(this.tracked.keys().next().value as number);
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+
+    const unmatched = this.expected.filter(send => now - send.sentAt > this.matchWindowMs);
+    if (unmatched.length > 0) {
+      this.logger.warn(`${unmatched.length} sent message(s) never appeared in chat.db`);
+      this.expected = this.expected.filter(send => now - send.sentAt <= this.matchWindowMs);
+    }
+
+    for (const [rowId, tracked] of this.tracked) {
+      if (now - tracked.trackedAt > this.trackWindowMs) {
+        this.tracked.delete(rowId);
+      }
+    }
+  }
+
+  private toReceipt(
+    status: OutboundReceipt['status'],
+    tracked: TrackedSend,
+    timestamp: Date,
+    errorCode?: number
+  ): OutboundReceipt {
+    return {
+      status,
+      messageGuid: tracked.guid,
+      threadId: tracked.threadId,
+      text: tracked.text,
+      errorCode,
+      sentAt: tracked.sentAt,
+      timestamp
+    };
+  }
+
+  private toDate(appleNanoseconds: number | null): Date {
+    return appleNanoseconds ? fromAppleTimestamp(appleNanoseconds) : new Date();
+  }
+}
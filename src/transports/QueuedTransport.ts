@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import {
+  IMessageTransport,
+  IncomingMessage,
+  IncomingReaction,
+  IncomingCorrection,
+  IncomingGroupChange,
+  OutboundReceipt,
+  MessageHistoryQuery,
+  SendOptions
+} from '../interfaces/IMessageTransport';
+import { ILogger } from '../interfaces/ILogger';
+import { OutboundQueue, OutboundItem, OutboundAttemptResult } from '../delivery/OutboundQueue';
+import { OutboundAttachmentStager } from '../attachments/OutboundAttachmentStager';
+
+// Sender errors that fail the same way on every retry (rate limits are worth retrying)
+const PERMANENT_ERROR = /forbidden|exceeds|not allowed|no longer exists/i;
+
+/**
+ * QueuedTransport - Routes every send through the persistent OutboundQueue
+ *
+ * Wraps the real transport: polling is passed straight through, while sends
+ * are queued and delivered by the queue's per-thread lanes. A send resolves
+ * true once the item is safely queued, not when Messages.app accepted it;
+ * items that are never delivered end up in the dead-letter table and are
+ * reported through OutboundQueue.onDeadLetter() along with the command_id
+ * passed in SendOptions.
+ */
+export class QueuedTransport implements IMessageTransport {
+  readonly queuesSends = true;
+  pollReactions?: () => Promise<IncomingReaction[]>;
+  pollCorrections?: () => Promise<IncomingCorrection[]>;
+  pollGroupChanges?: () => Promise<IncomingGroupChange[]>;
+  pollReceipts?: () => Promise<OutboundReceipt[]>;
+  readMessages?: (query: MessageHistoryQuery) => Promise<IncomingMessage[]>;
+  sendReply?: (threadId: string, text: string, isGroup: boolean, replyToGuid: string, options?: SendOptions) => Promise<boolean>;
+
+  constructor(
+    private readonly inner: IMessageTransport,
+    private readonly queue: OutboundQueue,
+    private readonly logger: ILogger,
+    private readonly attachmentStager: OutboundAttachmentStager = new OutboundAttachmentStager(logger)
+  ) {
+    // Only expose the optional capabilities the wrapped transport has
+    if (inner.pollReactions) {
+      this.pollReactions = () => inner.pollReactions!();
+    }
+    if (inner.pollCorrections) {
+      this.pollCorrections = () => inner.pollCorrections!();
+    }
+    if (inner.pollGroupChanges) {
+      this.pollGroupChanges = () => inner.pollGroupChanges!();
+    }
+    if (inner.pollReceipts) {
+      this.pollReceipts = () => inner.pollReceipts!();
+    }
+    if (inner.readMessages) {
+      this.readMessages = (query) => inner.readMessages!(query);
+    }
+    if (inner.sendReply) {
+      this.sendReply = async (threadId, text, isGroup, replyToGuid, options) => {
+        this.queue.enqueue(threadId, isGroup, 'reply', { text, reply_to_guid: replyToGuid }, options?.commandId);
+        return true;
+      };
+    }
+  }
+
+  async start(): Promise<void> {
+    await this.inner.start();
+    this.queue.start((item) => this.deliver(item));
+  }
+
+  stop(): void {
+    this.queue.stop();
+    this.inner.stop();
+  }
+
+  async pollNewMessages(): Promise<IncomingMessage[]> {
+    return this.inner.pollNewMessages();
+  }
+
+  async sendMessage(threadId: string, text: string, isGroup: boolean, options?: SendOptions): Promise<boolean> {
+    this.queue.enqueue(threadId, isGroup, 'text', { text }, options?.commandId);
+    return true;
+  }
+
+  async sendMultiBubble(
+    threadId: string,
+    bubbles: string[],
+    isGroup: boolean,
+    _batched?: boolean,
+    options?: SendOptions
+  ): Promise<boolean> {
+    // One item per bubble: a retry resumes at the bubble that failed instead of
+    // re-sending the ones already delivered (the thread lane keeps them in order)
+    for (const bubble of bubbles) {
+      this.queue.enqueue(threadId, isGroup, 'text', { text: bubble }, options?.commandId);
+    }
+    return true;
+  }
+
+  async sendAttachment(
+    threadId: string,
+    file: string | Buffer,
+    isGroup: boolean,
+    caption?: string,
+    options?: SendOptions
+  ): Promise<boolean> {
+    // Raw bytes can't be persisted in the queue - stage them to disk first
+    let filePath: string;
+    try {
+      filePath = typeof file === 'string'
+        ? file
+        : (await this.attachmentStager.stageBuffer(file)).path;
+    } catch (error: any) {
+      this.logger.error(`❌ Cannot queue attachment for ${threadId}: ${error.message}`);
+      return false;
+    }
+
+    // The caption is its own item, so a failed caption never re-sends the file
+    this.queue.enqueue(threadId, isGroup, 'attachment', { file_path: filePath }, options?.commandId);
+    if (caption) {
+      this.queue.enqueue(threadId, isGroup, 'text', { text: caption }, options?.commandId);
+    }
+    return true;
+  }
+
+  getName(): string {
+    return this.inner.getName();
+  }
+
+  /**
+   * One delivery attempt through the wrapped transport
+   */
+  private async deliver(item: OutboundItem): Promise<OutboundAttemptResult> {
+    const { payload } = item;
+    try {
+      let sent: boolean;
+      switch (item.kind) {
+        case 'text':
+          sent = await this.inner.sendMessage(item.thread_id, payload.text!, item.is_group);
+          break;
+        case 'bubbles':  // Queued by versions that sent bubbles as one item
+          sent = await this.inner.sendMultiBubble(item.thread_id, payload.bubbles!, item.is_group, payload.batched);
+          break;
+        case 'reply':
+          sent = this.inner.sendReply
+            ? await this.inner.sendReply(item.thread_id, payload.text!, item.is_group, payload.reply_to_guid!)
+            : await this.inner.sendMessage(item.thread_id, payload.text!, item.is_group);
+          break;
+        case 'attachment':
+          if (!fs.existsSync(payload.file_path!)) {
+            return { delivered: false, error: 'Attachment file no longer exists', permanent: true };
+          }
+          sent = await this.inner.sendAttachment(item.thread_id, payload.file_path!, item.is_group, payload.caption);
+          break;
+        default:
+          return { delivered: false, error: `Unknown outbound kind ${item.kind}`, permanent: true };
+      }
+
+      return sent
+        ? { delivered: true }
+        : { delivered: false, error: `${this.inner.getName()} failed to send` };
+    } catch (error: any) {
+      return { delivered: false, error: error.message, permanent: PERMANENT_ERROR.test(error.message) };
+    }
+  }
+}
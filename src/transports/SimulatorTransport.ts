@@ -0,0 +1,385 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  IMessageTransport,
+  IncomingMessage,
+  IncomingReaction,
+  MessageAttachment,
+  ReactionKind
+} from '../interfaces/IMessageTransport';
+import { ILogger } from '../interfaces/ILogger';
+import { SimulatorServer } from '../simulator/SimulatorServer';
+
+export interface SimulatorTransportOptions {
+  host: string;             // Interface the injection API listens on
+  port: number;             // 0 picks a free port (see getAddress())
+  attachmentsPath: string;  // Where injected attachment bytes are written
+}
+
+export interface SimulatedMessageInput {
+  sender: string;
+  text?: string;
+  thread_id?: string;        // Defaults to the sender (1:1 chat); group ids start with "chat"
+  participants?: string[];   // Group members besides the sender
+  group_name?: string;
+  reply_to_guid?: string;
+  attachment?: {
+    filename: string;
+    data: Buffer;
+    mime_type?: string;
+  };
+}
+
+export interface SimulatedReactionInput {
+  sender: string;
+  target_guid: string;
+  kind: ReactionKind;
+  thread_id?: string;
+  removed?: boolean;
+  emoji?: string;
+}
+
+export type SimulatedSendKind = 'text' | 'bubbles' | 'reply' | 'attachment';
+
+export interface SimulatedSend {
+  id: number;
+  guid: string;
+  thread_id: string;
+  is_group: boolean;
+  kind: SimulatedSendKind;
+  text: string | null;
+  bubbles: string[] | null;
+  reply_to_guid: string | null;
+  file_path: string | null;
+  caption: string | null;
+  sent_at: string;
+}
+
+export interface SimulatedSendQuery {
+  threadId?: string;
+  afterId?: number;
+  limit?: number;
+}
+
+type OutboundListener = (send: SimulatedSend) => void;
+
+const DEFAULT_OPTIONS: SimulatorTransportOptions = {
+  host: '127.0.0.1',
+  port: 3200,
+  attachmentsPath: './data/simulator/attachments'
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.heic': 'image/heic',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.m4a': 'audio/mp4',
+  '.mp3': 'audio/mpeg'
+};
+
+// Text chat.db stores for an attachment-only message
+const OBJECT_REPLACEMENT = '\uFFFC';
+
+/**
+ * SimulatorTransport - Loopback transport for running the agent without a Mac
+ *
+ * Inbound messages, attachments and tapbacks are injected through a local
+ * HTTP / WebSocket API (SimulatorServer) and handed to the agent on the next
+ * poll, shaped the way chat.db would produce them. Everything the agent
+ * sends is recorded in SQLite (simulator_outbound) and pushed to connected
+ * WebSocket clients, so a test or the chat CLI can see the replies.
+ */
+export class SimulatorTransport implements IMessageTransport {
+  private db: Database.Database;
+  private options: SimulatorTransportOptions;
+  private server: SimulatorServer;
+  private inbound: IncomingMessage[] = [];
+  private reactions: IncomingReaction[] = [];
+  private knownMessages: Map<string, { threadId: string; text: string }> = new Map();  // For reply snippets / tapback threads
+  private groupMembers: Map<string, Set<string>> = new Map();
+  private outboundListeners: OutboundListener[] = [];
+  private nextAttachmentId = 1;
+
+  constructor(
+    private readonly dbPath: string,
+    private readonly logger: ILogger,
+    options: Partial<SimulatorTransportOptions> = {}
+  ) {
+    this.options = {
+      host: options.host ?? DEFAULT_OPTIONS.host,
+      port: options.port ?? DEFAULT_OPTIONS.port,
+      attachmentsPath: options.attachmentsPath ?? DEFAULT_OPTIONS.attachmentsPath
+    };
+    this.ensureDirectory();
+    this.db = new Database(dbPath);
+    this.initializeSchema();
+    this.server = new SimulatorServer(this, logger);
+  }
+
+  async start(): Promise<void> {
+    await this.server.listen(this.options.port, this.options.host);
+    this.logger.info(`🧪 Simulator transport listening on ${this.getAddress()}`);
+  }
+
+  stop(): void {
+    this.logger.info('Stopping simulator transport...');
+    this.server.close();
+    this.db.close();
+  }
+
+  /**
+   * Base URL of the injection API (valid after start())
+   */
+  getAddress(): string {
+    return `http://${this.options.host}:${this.server.getPort() ?? this.options.port}`;
+  }
+
+  async pollNewMessages(): Promise<IncomingMessage[]> {
+    const messages = this.inbound;
+    this.inbound = [];
+    return messages;
+  }
+
+  async pollReactions(): Promise<IncomingReaction[]> {
+    const reactions = this.reactions;
+    this.reactions = [];
+    return reactions;
+  }
+
+  async sendMessage(threadId: string, text: string, isGroup: boolean): Promise<boolean> {
+    this.record(threadId, isGroup, 'text', { text });
+    return true;
+  }
+
+  async sendReply(threadId: string, text: string, isGroup: boolean, replyToGuid: string): Promise<boolean> {
+    this.record(threadId, isGroup, 'reply', { text, reply_to_guid: replyToGuid });
+    return true;
+  }
+
+  async sendMultiBubble(threadId: string, bubbles: string[], isGroup: boolean): Promise<boolean> {
+    this.record(threadId, isGroup, 'bubbles', { bubbles });
+    return true;
+  }
+
+  async sendAttachment(threadId: string, file: string | Buffer, isGroup: boolean, caption?: string): Promise<boolean> {
+    const filePath = typeof file === 'string'
+      ? file
+      : this.writeAttachment(`outbound-${uuidv4()}.bin`, file);
+    this.record(threadId, isGroup, 'attachment', { file_path: filePath, caption });
+    return true;
+  }
+
+  getName(): string {
+    return 'SimulatorTransport';
+  }
+
+  /**
+   * Queue an inbound message for the next poll
+   */
+  injectMessage(input: SimulatedMessageInput): IncomingMessage {
+    const threadId = input.thread_id || input.sender;
+    const isGroup = threadId.startsWith('chat');
+    const guid = `sim-in-${uuidv4()}`;
+
+    const attachments: MessageAttachment[] = [];
+    if (input.attachment) {
+      const { filename, data } = input.attachment;
+      const absolutePath = this.writeAttachment(`${guid}-${path.basename(filename)}`, data);
+      attachments.push({
+        id: this.nextAttachmentId++,
+        guid: `${guid}-att`,
+        filename,
+        transferName: filename,
+        mimeType: input.attachment.mime_type ?? MIME_TYPES[path.extname(filename).toLowerCase()],
+        totalBytes: data.length,
+        createdAt: new Date(),
+        absolutePath
+      });
+    }
+
+    const text = input.text ?? (attachments.length > 0 ? OBJECT_REPLACEMENT : '');
+    const replyText = input.reply_to_guid ? this.knownMessages.get(input.reply_to_guid)?.text : undefined;
+
+    const message: IncomingMessage = {
+      guid,
+      threadId,
+      sender: input.sender,
+      text,
+      timestamp: new Date(),
+      isGroup,
+      participants: isGroup ? this.updateGroupMembers(threadId, input.sender, input.participants) : [],
+      attachments: attachments.length > 0 ? attachments : undefined,
+      groupName: isGroup ? input.group_name : undefined,
+      replyTo: input.reply_to_guid ? { guid: input.reply_to_guid, text: replyText } : undefined
+    };
+
+    this.inbound.push(message);
+    this.knownMessages.set(guid, { threadId, text });
+    this.logger.info(`🧪 Injected message ${guid} from ${input.sender} in ${threadId}`);
+    return message;
+  }
+
+  /**
+   * Queue an inbound tapback for the next poll
+   */
+  injectReaction(input: SimulatedReactionInput): IncomingReaction {
+    const threadId = input.thread_id || this.knownMessages.get(input.target_guid)?.threadId || input.sender;
+    const reaction: IncomingReaction = {
+      threadId,
+      sender: input.sender,
+      targetMessageGuid: input.target_guid,
+      targetPartIndex: 0,
+      kind: input.kind,
+      removed: input.removed ?? false,
+      emoji: input.emoji,
+      timestamp: new Date(),
+      isGroup: threadId.startsWith('chat')
+    };
+
+    this.reactions.push(reaction);
+    this.logger.info(`🧪 Injected ${reaction.kind} reaction from ${input.sender} on ${input.target_guid}`);
+    return reaction;
+  }
+
+  /**
+   * Recorded sends, oldest first
+   */
+  getSends(query: SimulatedSendQuery = {}): SimulatedSend[] {
+    const conditions = ['id > ?'];
+    const params: any[] = [query.afterId ?? 0];
+    if (query.threadId) {
+      conditions.push('thread_id = ?');
+      params.push(query.threadId);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM simulator_outbound
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY id ASC
+      LIMIT ?
+    `).all(...params, query.limit ?? 100) as any[];
+
+    return rows.map(row => this.rowToSend(row));
+  }
+
+  /**
+   * Forget all recorded sends
+   */
+  clearSends(): number {
+    return this.db.prepare(`DELETE FROM simulator_outbound`).run().changes;
+  }
+
+  /**
+   * Called with every send the agent makes
+   */
+  onSend(listener: OutboundListener): () => void {
+    this.outboundListeners.push(listener);
+    return () => {
+      this.outboundListeners = this.outboundListeners.filter(entry => entry !== listener);
+    };
+  }
+
+  private record(
+    threadId: string,
+    isGroup: boolean,
+    kind: SimulatedSendKind,
+    fields: { text?: string; bubbles?: string[]; reply_to_guid?: string; file_path?: string; caption?: string }
+  ): void {
+    const guid = `sim-out-${uuidv4()}`;
+    const result = this.db.prepare(`
+      INSERT INTO simulator_outbound (guid, thread_id, is_group, kind, text, bubbles, reply_to_guid, file_path, caption, sent_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      guid,
+      threadId,
+      isGroup ? 1 : 0,
+      kind,
+      fields.text ?? null,
+      fields.bubbles ? JSON.stringify(fields.bubbles) : null,
+      fields.reply_to_guid ?? null,
+      fields.file_path ?? null,
+      fields.caption ?? null,
+      new Date().toISOString()
+    );
+
+    const send = this.rowToSend(
+      this.db.prepare(`SELECT * FROM simulator_outbound WHERE id = ?`).get(result.lastInsertRowid)
+    );
+    this.knownMessages.set(guid, { threadId, text: send.text ?? send.bubbles?.join('\n') ?? send.caption ?? '' });
+    this.logger.info(`🧪 Recorded ${kind} send ${guid} to ${threadId}`);
+
+    for (const listener of this.outboundListeners) {
+      try {
+        listener(send);
+      } catch (error: any) {
+        this.logger.warn(`⚠️  Simulator send listener failed: ${error.message}`);
+      }
+    }
+  }
+
+  private updateGroupMembers(threadId: string, sender: string, participants: string[] = []): string[] {
+    const members = this.groupMembers.get(threadId) ?? new Set<string>();
+    [sender, ...participants].forEach(handle => members.add(handle));
+    this.groupMembers.set(threadId, members);
+    return Array.from(members);
+  }
+
+  private writeAttachment(filename: string, data: Buffer): string {
+    fs.mkdirSync(this.options.attachmentsPath, { recursive: true });
+    const filePath = path.resolve(this.options.attachmentsPath, filename);
+    fs.writeFileSync(filePath, data);
+    return filePath;
+  }
+
+  private rowToSend(row: any): SimulatedSend {
+    return {
+      id: row.id,
+      guid: row.guid,
+      thread_id: row.thread_id,
+      is_group: row.is_group === 1,
+      kind: row.kind,
+      text: row.text,
+      bubbles: row.bubbles ? JSON.parse(row.bubbles) : null,
+      reply_to_guid: row.reply_to_guid,
+      file_path: row.file_path,
+      caption: row.caption,
+      sent_at: row.sent_at
+    };
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS simulator_outbound (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guid TEXT NOT NULL UNIQUE,
+        thread_id TEXT NOT NULL,
+        is_group INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        text TEXT,
+        bubbles TEXT,
+        reply_to_guid TEXT,
+        file_path TEXT,
+        caption TEXT,
+        sent_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_simulator_outbound_thread
+        ON simulator_outbound(thread_id, id);
+    `);
+  }
+}
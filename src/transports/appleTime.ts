@@ -0,0 +1,14 @@
+/**
+ * chat.db dates: nanoseconds since 2001-01-01 00:00:00 GMT
+ */
+
+// Unix timestamp of 2001-01-01, the epoch of chat.db dates
+export const APPLE_EPOCH = 978307200;
+
+export function toAppleTimestamp(date: Date): number {
+  return (date.getTime() / 1000 - APPLE_EPOCH) * 1000000000;
+}
+
+export function fromAppleTimestamp(appleNanoseconds: number): Date {
+  return new Date((appleNanoseconds / 1000000000 + APPLE_EPOCH) * 1000);
+}
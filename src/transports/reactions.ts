@@ -0,0 +1,68 @@
+import { ReactionKind } from '../interfaces/IMessageTransport';
+
+/**
+ * Tapback encoding in chat.db
+ *
+ * message.associated_message_type: 2000-2007 add a reaction, 3000-3007 remove it
+ * message.associated_message_guid: "p:<part>/<GUID>" or "bp:<GUID>" (target message)
+ */
+const REACTION_KINDS: Record<number, ReactionKind> = {
+  0: 'love',
+  1: 'like',
+  2: 'dislike',
+  3: 'laugh',
+  4: 'emphasize',
+  5: 'question',
+  6: 'emoji',
+  7: 'sticker'
+};
+
+export interface ParsedReaction {
+  kind: ReactionKind;
+  removed: boolean;
+  targetMessageGuid: string;
+  targetPartIndex: number;
+}
+
+/**
+ * True if associated_message_type marks the row as a tapback
+ */
+export function isReactionType(associatedMessageType: number | null | undefined): boolean {
+  if (typeof associatedMessageType !== 'number') {
+    return false;
+  }
+  const offset = associatedMessageType % 1000;
+  return (associatedMessageType >= 2000 && associatedMessageType < 4000) && offset in REACTION_KINDS;
+}
+
+/**
+ * Parse a tapback row; returns null if the row is not a reaction
+ */
+export function parseReaction(
+  associatedMessageType: number | null | undefined,
+  associatedMessageGuid: string | null | undefined
+): ParsedReaction | null {
+  if (!isReactionType(associatedMessageType) || !associatedMessageGuid) {
+    return null;
+  }
+
+  const type = associatedMessageType as number;
+  let targetMessageGuid = associatedMessageGuid;
+  let targetPartIndex = 0;
+
+  // "p:1/GUID" targets part 1 of a multi-part message; "bp:GUID" is the whole bubble
+  const partMatch = /^p:(\d+)\/(.+)$/.exec(associatedMessageGuid);
+  if (partMatch) {
+    targetPartIndex = parseInt(partMatch[1], 10);
+    targetMessageGuid = partMatch[2];
+  } else if (associatedMessageGuid.startsWith('bp:')) {
+    targetMessageGuid = associatedMessageGuid.slice(3);
+  }
+
+  return {
+    kind: REACTION_KINDS[type % 1000],
+    removed: type >= 3000,
+    targetMessageGuid,
+    targetPartIndex
+  };
+}
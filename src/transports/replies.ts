@@ -0,0 +1,51 @@
+import Database from 'better-sqlite3';
+import { ReplyReference } from '../interfaces/IMessageTransport';
+import { decodeAttributedBody } from './AttributedBodyDecoder';
+
+/**
+ * Inline replies in chat.db
+ *
+ * message.thread_originator_guid: GUID of the message being replied to (NULL otherwise)
+ * message.thread_originator_part: "<part>:<start>:<length>" of the quoted part
+ */
+export const REPLY_SNIPPET_LENGTH = 200;
+
+/**
+ * Trim quoted text to a snippet suitable for backend context
+ */
+export function toReplySnippet(text: string | null | undefined): string | undefined {
+  if (!text) {
+    return undefined;
+  }
+  const trimmed = text.trim();
+  return trimmed.length > REPLY_SNIPPET_LENGTH
+    ? `${trimmed.substring(0, REPLY_SNIPPET_LENGTH - 1)}…`
+    : trimmed;
+}
+
+/**
+ * Build the reply reference for a message replying to `originatorGuid`.
+ * The quoted text is looked up by guid; a missing row still yields the guid.
+ */
+export function lookupReplyReference(
+  db: Database.Database,
+  originatorGuid: string,
+  hasAttributedBody: boolean
+): ReplyReference {
+  const row = db.prepare(`
+    SELECT text${hasAttributedBody ? ', attributedBody as attributed_body' : ''}
+    FROM message
+    WHERE guid = ?
+    LIMIT 1
+  `).get(originatorGuid) as { text: string | null; attributed_body?: Buffer | null } | undefined;
+
+  if (!row) {
+    return { guid: originatorGuid };
+  }
+
+  const decoded = !row.text && row.attributed_body ? decodeAttributedBody(row.attributed_body) : null;
+  return {
+    guid: originatorGuid,
+    text: toReplySnippet(row.text ?? decoded?.text)
+  };
+}
@@ -1,5 +1,22 @@
 import { z } from 'zod';
 
+const ClockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a 24-hour HH:MM time');
+
+const TimeZoneSchema = z.string().refine((timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Unknown IANA timezone');
+
+const DeliveryWindowOverrideSchema = z.object({
+  timezone: TimeZoneSchema.optional(),
+  quiet_start: ClockTimeSchema.optional(),
+  quiet_end: ClockTimeSchema.optional()
+});
+
 /**
  * Zod schema for runtime configuration validation
  * Ensures config.yaml and environment variables are valid
@@ -9,6 +26,7 @@ export const ConfigSchema = z.object({
     agent_id: z.string().min(1, 'agent_id is required'),
     user_phone: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Invalid phone number format (E.164)'),
     persona_id: z.string().min(1).regex(/^[a-z][a-z0-9_]*$/, 'persona_id must be lowercase alphanumeric').default('luna'),
+    default_region: z.string().regex(/^[A-Z]{2}$/, 'default_region must be a two-letter country code').optional(),
   }),
 
   backend: z.object({
@@ -31,9 +49,30 @@ export const ConfigSchema = z.object({
     poll_interval_seconds: z.number().min(0.1).max(60),
     db_path: z.string().min(1),
     attachments_path: z.string().optional(),
-    transport_mode: z.enum(['applescript', 'native_helper']).optional(),
+    transport_mode: z.enum(['applescript', 'native_helper', 'simulator', 'synthetic']).optional(),
     bridge_executable: z.string().optional(),
     bridge_args: z.array(z.string()).optional(),
+    failover: z.object({
+      enabled: z.boolean().optional(),  // Fall back to AppleScript polling when the native helper dies (default true)
+      health_check_interval_seconds: z.number().min(1).max(300).optional(),
+      recovery_interval_seconds: z.number().min(5).max(3600).optional()
+    }).optional(),
+    helper_supervisor: z.object({
+      heartbeat_interval_seconds: z.number().min(1).max(60).optional(),
+      heartbeat_timeout_seconds: z.number().min(0).max(600).optional(),  // 0 = only restart on exit
+      max_restarts: z.number().int().min(1).max(100).optional(),
+      crash_loop_window_seconds: z.number().min(60).max(86400).optional(),
+      max_backoff_seconds: z.number().min(1).max(3600).optional()
+    }).optional(),
+    simulator: z.object({
+      host: z.string().optional(),
+      port: z.number().int().min(0).max(65535).optional(),
+      attachments_path: z.string().optional()
+    }).optional(),
+    synthetic: z.object({
+      macos_version: z.enum(['ventura', 'sonoma', 'sequoia']).optional(),
+      script_path: z.string().optional()
+    }).optional(),
     enable_fast_check: z.boolean().optional(),
     max_messages_per_poll: z.number().min(1).max(1000).optional(),
     max_message_age_seconds: z.number().min(60).max(86400).optional()
@@ -46,6 +85,40 @@ export const ConfigSchema = z.object({
     plans_path: z.string().optional()
   }),
 
+  events: z.object({
+    outbox_max_size: z.number().min(100).max(100000).optional(),
+    max_attempts: z.number().min(1).max(100).optional(),
+    flush_interval_seconds: z.number().min(1).max(300).optional()
+  }).optional(),
+
+  coalescing: z.object({
+    enabled: z.boolean().optional(),
+    window_ms: z.number().int().nonnegative().optional(),
+    max_wait_ms: z.number().int().nonnegative().optional(),
+    max_messages: z.number().int().positive().optional()
+  }).optional(),
+
+  outbound_attachments: z.object({
+    max_bytes: z.number().int().min(1024).max(100 * 1024 * 1024).optional(),
+    allowed_mime_types: z.array(z.string()).optional()
+  }).optional(),
+
+  delivery: z.object({
+    burst_interrupt_default: z.enum(['cancel', 'supersede', 'none']).optional(),
+    max_attempts: z.number().int().min(1).max(20).optional(),
+    retry_base_ms: z.number().int().min(100).optional(),
+    retry_max_ms: z.number().int().min(1000).optional(),
+    max_concurrent_threads: z.number().int().min(1).max(10).optional()
+  }).optional(),
+
+  delivery_windows: z.object({
+    enabled: z.boolean().optional(),
+    timezone: TimeZoneSchema.optional(),  // Recipients without a recorded timezone
+    quiet_start: ClockTimeSchema.optional(),
+    quiet_end: ClockTimeSchema.optional(),
+    personas: z.record(z.string(), DeliveryWindowOverrideSchema).optional()
+  }).optional(),
+
   scheduler: z.object({
     check_interval_seconds: z.number().min(1).max(300).optional(),
     adaptive_mode: z.boolean().optional()
@@ -54,6 +127,9 @@ export const ConfigSchema = z.object({
   performance: z.object({
     profile: z.enum(['balanced', 'low-latency', 'low-resource']).optional(),
     parallel_message_processing: z.boolean().optional(),
+    max_concurrent_messages: z.number().int().positive().optional(),
+    max_inbound_queue_depth: z.number().int().positive().optional(),
+    inbound_overflow_policy: z.enum(['shed_oldest', 'pause_polling']).optional(),
     batch_applescript_sends: z.boolean().optional()
   }).optional(),
 
@@ -19,13 +19,41 @@ const AttachmentMetadataSchema = z.object({
 });
 
 export const IncomingMessageSchema = z.object({
+  guid: z.string().optional(),
   threadId: z.string().min(1, 'threadId is required'),
   sender: z.string().min(1, 'sender is required'),
   text: z.string(),
   timestamp: z.date(),
   isGroup: z.boolean(),
   participants: z.array(z.string()),
-  attachments: z.array(AttachmentMetadataSchema).optional()
+  attachments: z.array(AttachmentMetadataSchema).optional(),
+  // Original texts when rapid-fire messages were merged by the coalescer
+  coalesced: z.array(z.object({
+    guid: z.string().optional(),
+    text: z.string(),
+    timestamp: z.date()
+  })).optional(),
+  // Mention / link ranges decoded from attributedBody (UTF-16 offsets)
+  mentions: z.array(z.object({
+    start: z.number(),
+    length: z.number(),
+    handle: z.string()
+  })).optional(),
+  links: z.array(z.object({
+    start: z.number(),
+    length: z.number(),
+    url: z.string()
+  })).optional(),
+  groupName: z.string().optional(),  // chat.display_name for named group chats
+  // Inline reply target (thread_originator_guid) with a snippet of the quoted text
+  replyTo: z.object({
+    guid: z.string(),
+    text: z.string().optional()
+  }).optional(),
+  // Inbound journal entries this message covers (several when coalesced)
+  journalIds: z.array(z.string()).optional(),
+  // Re-read from chat.db by a replay_messages backfill
+  replayed: z.boolean().optional()
 });
 
 /**
@@ -44,6 +72,10 @@ export const BackendMessageRequestSchema = z.object({
   text: z.string(),                    // Message text (max 50,000 chars)
   timestamp: z.number(),               // Unix timestamp
   participants: z.array(z.string()),   // All participants in conversation
+  reply_to: z.object({                 // Inline reply target
+    message_guid: z.string(),
+    text: z.string().optional()
+  }).optional(),
   metadata: z.object({
     is_first_message: z.boolean().optional(),
     mentioned_luna: z.boolean().optional(),
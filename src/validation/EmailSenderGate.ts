@@ -1,11 +1,14 @@
 import { ILogger } from '../interfaces/ILogger';
+import { HandleResolver } from '../identity/HandleResolver';
+import { isEmailHandle } from '../identity/handles';
 
 /**
  * Email Sender Gate
  *
  * Phone number is the primary user identifier. If someone messages from
  * an email-based Apple ID, we block immediately and reply in-persona
- * asking them to text from their phone number instead.
+ * asking them to text from their phone number instead. An email handle
+ * linked to a phone number of the same person is not blocked.
  *
  * Runs entirely on the edge client — zero backend cost.
  */
@@ -36,16 +39,25 @@ const DEFAULT_REJECTION =
 
 export class EmailSenderGate {
   private logger: ILogger;
+  private handles: HandleResolver | null;
 
-  constructor(logger: ILogger) {
+  constructor(logger: ILogger, handles: HandleResolver | null = null) {
     this.logger = logger;
+    this.handles = handles;
+  }
+
+  /**
+   * Whether the sender is an email Apple ID with no known phone number (and would be rejected)
+   */
+  isEmailSender(sender: string): boolean {
+    return this.handles ? this.handles.isEmailOnly(sender) : isEmailHandle(sender);
   }
 
   /**
    * Returns a rejection message if sender is an email, null if it's a phone number.
    */
   check(sender: string, personaId: string): string | null {
-    if (!sender.includes('@')) {
+    if (!this.isEmailSender(sender)) {
       return null;
     }
 
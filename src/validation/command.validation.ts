@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isValidTimeZone } from '../delivery/DeliveryWindowPolicy';
 
 /**
  * Command validation schemas
@@ -6,11 +7,20 @@ import { z } from 'zod';
  * Prevents injection attacks and malformed data
  */
 
+/**
+ * Marker attached to issues that indicate an injection attempt rather than
+ * a merely malformed payload
+ */
+const SECURITY_PARAMS = { security: true };
+
 // Thread ID validation - only allow safe characters
 const ThreadIdSchema = z.string()
   .min(1, 'Thread ID required')
   .max(200, 'Thread ID too long')
-  .regex(/^[a-zA-Z0-9+@._\-;]+$/, 'Invalid thread ID format - contains forbidden characters');
+  .refine(
+    (threadId) => /^[a-zA-Z0-9+@._\-;]+$/.test(threadId),
+    { message: 'Invalid thread ID format - contains forbidden characters', params: SECURITY_PARAMS }
+  );
 
 // Message text validation with length limits
 const MessageTextSchema = z.string()
@@ -18,9 +28,27 @@ const MessageTextSchema = z.string()
   .max(5000, 'Message exceeds 5000 character limit')
   .refine(
     (text) => !containsAppleScriptInjection(text),
-    'Message contains forbidden AppleScript commands'
+    { message: 'Message contains forbidden AppleScript commands', params: SECURITY_PARAMS }
   );
 
+// Command ID validation - backend IDs look like "cmd_1234567890" or UUIDs
+const CommandIdSchema = z.string()
+  .min(1, 'Command ID required')
+  .max(128, 'Command ID too long')
+  .regex(/^[a-zA-Z0-9_\-:.]+$/, 'Invalid command ID format');
+
+// Generic identifier validation (attachment GUIDs, room IDs, app IDs)
+const IdentifierSchema = z.string()
+  .min(1, 'Identifier required')
+  .max(200, 'Identifier too long')
+  .regex(/^[a-zA-Z0-9_\-:.;+@\/]+$/, 'Invalid identifier format');
+
+// Event type validation - snake_case style names only
+const EventTypeSchema = z.string()
+  .min(1, 'Event type required')
+  .max(100, 'Event type too long')
+  .regex(/^[a-zA-Z0-9_.\-]+$/, 'Invalid event type format');
+
 /**
  * Detect potential AppleScript injection attempts
  * Checks for dangerous patterns that could execute arbitrary code
@@ -43,14 +71,14 @@ function containsAppleScriptInjection(text: string): boolean {
 const UUIDSchema = z.string().uuid('Invalid UUID format');
 
 // ISO8601 timestamp validation
+// Past timestamps are allowed: the scheduler sends overdue messages immediately
 const ISO8601Schema = z.string()
-  .datetime('Invalid ISO8601 timestamp')
+  .datetime({ offset: true, message: 'Invalid ISO8601 timestamp' })
   .refine((date) => {
     const sendTime = new Date(date);
-    const now = new Date();
-    const maxFuture = new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000); // 1 year
-    return sendTime >= now && sendTime <= maxFuture;
-  }, 'Timestamp must be between now and 1 year in future');
+    const maxFuture = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000); // 1 year
+    return sendTime <= maxFuture;
+  }, 'Timestamp must be no more than 1 year in future');
 
 /**
  * send_message_now command payload validation
@@ -58,7 +86,8 @@ const ISO8601Schema = z.string()
 export const SendMessageNowPayloadSchema = z.object({
   thread_id: ThreadIdSchema,
   text: MessageTextSchema,
-  bubble_type: z.enum(['reflex', 'burst', 'normal']).optional()
+  bubble_type: z.enum(['reflex', 'burst', 'normal']).optional(),
+  reply_to_guid: IdentifierSchema.optional()  // Reply inline to this message where the transport supports it
 });
 
 export type SendMessageNowPayload = z.infer<typeof SendMessageNowPayloadSchema>;
@@ -87,16 +116,28 @@ export type CancelScheduledPayload = z.infer<typeof CancelScheduledPayloadSchema
 /**
  * set_rule command payload validation
  */
+const RuleConditionSchema = z.object({
+  field: z.enum(['sender', 'content', 'thread_id', 'is_group']),
+  operator: z.enum(['equals', 'contains', 'matches', 'starts_with', 'ends_with']),
+  value: z.union([z.string().max(500), z.boolean()])
+});
+
+const RuleActionSchema = z.object({
+  type: z.enum(['reply', 'forward', 'block', 'schedule_reply']),
+  parameters: z.object({
+    message: MessageTextSchema.optional(),
+    delay_seconds: z.number().int().min(0).max(365 * 24 * 60 * 60).optional(),
+    forward_to: ThreadIdSchema.optional()
+  }).catchall(z.any()).optional()
+});
+
 export const SetRulePayloadSchema = z.object({
   rule_type: z.enum(['auto_reply', 'forward', 'filter', 'schedule_reply']),
   rule_config: z.object({
-    name: z.string().min(1).max(100),
-    enabled: z.boolean(),
-    conditions: z.array(z.any()).min(1, 'At least one condition required'),
-    action: z.object({
-      type: z.string().min(1),
-      params: z.record(z.string(), z.any()).optional()
-    })
+    name: z.string().min(1).max(100).optional(),
+    enabled: z.boolean().optional(),
+    conditions: z.array(RuleConditionSchema).min(1, 'At least one condition required'),
+    action: RuleActionSchema
   })
 });
 
@@ -112,90 +153,255 @@ export const UpdatePlanPayloadSchema = z.object({
 
 export type UpdatePlanPayload = z.infer<typeof UpdatePlanPayloadSchema>;
 
+/**
+ * context_update command payload validation
+ */
+export const ContextUpdatePayloadSchema = z.object({
+  chat_guid: ThreadIdSchema,
+  thread_id: ThreadIdSchema,
+  app_id: IdentifierSchema,
+  room_id: IdentifierSchema.optional(),
+  state: z.enum(['active', 'completed']).optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+  notify_text: MessageTextSchema.optional()
+});
+
+export type ContextUpdatePayload = z.infer<typeof ContextUpdatePayloadSchema>;
+
+/**
+ * context_reset command payload validation
+ */
+export const ContextResetPayloadSchema = z.object({
+  chat_guid: ThreadIdSchema,
+  thread_id: ThreadIdSchema,
+  reason: z.string().max(500).optional(),
+  notify_text: MessageTextSchema.optional()
+});
+
+export type ContextResetPayload = z.infer<typeof ContextResetPayloadSchema>;
+
+/**
+ * upload_retry command payload validation
+ */
+export const UploadRetryPayloadSchema = z.object({
+  attachment_guid: IdentifierSchema,
+  chat_guid: ThreadIdSchema.optional(),
+  thread_id: ThreadIdSchema.optional(),
+  reason: z.string().max(500).optional(),
+  retry_count: z.number().int().min(0).max(100).optional()
+});
+
+export type UploadRetryPayload = z.infer<typeof UploadRetryPayloadSchema>;
+
+/**
+ * emit_event command payload validation
+ */
+export const EmitEventPayloadSchema = z.object({
+  event_type: EventTypeSchema,
+  chat_guid: ThreadIdSchema.optional(),
+  thread_id: ThreadIdSchema.optional(),
+  room_id: IdentifierSchema.optional(),
+  event_data: z.any().optional()
+});
+
+export type EmitEventPayload = z.infer<typeof EmitEventPayloadSchema>;
+
+/**
+ * replay_messages command payload validation
+ * Needs a ROWID range or a time window so a replay never scans all of chat.db
+ */
+export const ReplayMessagesPayloadSchema = z.object({
+  from_rowid: z.number().int().min(0).optional(),
+  to_rowid: z.number().int().min(0).optional(),
+  since: z.string().datetime({ offset: true, message: 'Invalid ISO8601 timestamp' }).optional(),
+  until: z.string().datetime({ offset: true, message: 'Invalid ISO8601 timestamp' }).optional(),
+  thread_id: ThreadIdSchema.optional(),
+  dry_run: z.boolean().optional(),
+  limit: z.number().int().min(1).max(500).optional()
+})
+  .refine(
+    (payload) => payload.from_rowid !== undefined || payload.to_rowid !== undefined
+      || payload.since !== undefined || payload.until !== undefined,
+    'Either a ROWID range (from_rowid / to_rowid) or a time window (since / until) is required'
+  )
+  .refine(
+    (payload) => payload.from_rowid === undefined || payload.to_rowid === undefined
+      || payload.from_rowid <= payload.to_rowid,
+    'from_rowid must not be greater than to_rowid'
+  )
+  .refine(
+    (payload) => !payload.since || !payload.until || new Date(payload.since) <= new Date(payload.until),
+    'since must not be after until'
+  );
+
+export type ReplayMessagesPayload = z.infer<typeof ReplayMessagesPayloadSchema>;
+
+/**
+ * send_attachment command payload validation
+ * The file comes from an HTTPS URL or inline base64; size and type are checked again once staged
+ */
+export const SendAttachmentPayloadSchema = z.object({
+  thread_id: ThreadIdSchema,
+  url: z.string().url('Invalid attachment URL').max(2048).refine(
+    (url) => url.startsWith('https://'),
+    'Attachment URL must use HTTPS'
+  ).optional(),
+  data_base64: z.string()
+    .max(35 * 1024 * 1024, 'Attachment exceeds 25MB limit')
+    .regex(/^[A-Za-z0-9+/=\s]+$/, 'Invalid base64 data')
+    .optional(),
+  mime_type: z.string().max(100).regex(/^[a-z]+\/[a-z0-9.+\-]+$/, 'Invalid MIME type').optional(),
+  caption: MessageTextSchema.optional()
+})
+  .refine(
+    (payload) => (payload.url === undefined) !== (payload.data_base64 === undefined),
+    'Exactly one of url or data_base64 is required'
+  );
+
+export type SendAttachmentPayload = z.infer<typeof SendAttachmentPayloadSchema>;
+
+/**
+ * set_delivery_window command payload validation
+ * Records a thread's / contact's timezone and quiet hours (omitted fields inherit)
+ */
+const ClockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a 24-hour HH:MM time');
+
+export const SetDeliveryWindowPayloadSchema = z.object({
+  thread_id: ThreadIdSchema,
+  is_group: z.boolean().optional(),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Unknown IANA timezone').optional(),
+  quiet_start: ClockTimeSchema.optional(),
+  quiet_end: ClockTimeSchema.optional(),
+  clear: z.boolean().optional()  // Drop the thread's own window
+})
+  .refine(
+    (payload) => payload.clear || payload.timezone !== undefined
+      || payload.quiet_start !== undefined || payload.quiet_end !== undefined,
+    'One of timezone, quiet_start, quiet_end or clear is required'
+  );
+
+export type SetDeliveryWindowPayload = z.infer<typeof SetDeliveryWindowPayloadSchema>;
+
+export type CommandPayload =
+  | SendMessageNowPayload
+  | ScheduleMessagePayload
+  | CancelScheduledPayload
+  | SetRulePayload
+  | UpdatePlanPayload
+  | ContextUpdatePayload
+  | ContextResetPayload
+  | UploadRetryPayload
+  | EmitEventPayload
+  | ReplayMessagesPayload
+  | SendAttachmentPayload
+  | SetDeliveryWindowPayload;
+
 /**
  * Command wrapper schema
  * Validates the outer command structure
  */
 export const EdgeCommandSchema = z.object({
-  command_id: UUIDSchema,
+  command_id: CommandIdSchema,
   command_type: z.enum([
     'send_message_now',
     'schedule_message',
     'cancel_scheduled',
     'set_rule',
-    'update_plan'
+    'update_plan',
+    'context_update',
+    'context_reset',
+    'upload_retry',
+    'emit_event',
+    'replay_messages',
+    'send_attachment',
+    'set_delivery_window'
   ]),
   payload: z.any(), // Will be validated based on command_type
-  timestamp: z.string().datetime().optional(),
+  timestamp: z.string().datetime({ offset: true }).optional(),
   priority: z.enum(['normal', 'immediate']).optional()
 });
 
 export type ValidatedCommand = z.infer<typeof EdgeCommandSchema>;
 
+/**
+ * Payload schema for each supported command type
+ */
+const PAYLOAD_SCHEMAS: Record<ValidatedCommand['command_type'], z.ZodType<CommandPayload>> = {
+  send_message_now: SendMessageNowPayloadSchema,
+  schedule_message: ScheduleMessagePayloadSchema,
+  cancel_scheduled: CancelScheduledPayloadSchema,
+  set_rule: SetRulePayloadSchema,
+  update_plan: UpdatePlanPayloadSchema,
+  context_update: ContextUpdatePayloadSchema,
+  context_reset: ContextResetPayloadSchema,
+  upload_retry: UploadRetryPayloadSchema,
+  emit_event: EmitEventPayloadSchema,
+  replay_messages: ReplayMessagesPayloadSchema,
+  send_attachment: SendAttachmentPayloadSchema,
+  set_delivery_window: SetDeliveryWindowPayloadSchema
+};
+
 /**
  * Validate command and payload together
  * Returns validated command with strongly-typed payload
  */
 export function validateCommand(command: unknown): {
   command: ValidatedCommand;
-  payload: SendMessageNowPayload | ScheduleMessagePayload | CancelScheduledPayload | SetRulePayload | UpdatePlanPayload;
+  payload: CommandPayload;
 } {
   // First validate command wrapper
   const validatedCommand = EdgeCommandSchema.parse(command) as ValidatedCommand;
 
-  // Then validate payload based on command type
-  let validatedPayload: SendMessageNowPayload | ScheduleMessagePayload | CancelScheduledPayload | SetRulePayload | UpdatePlanPayload;
-
-  switch (validatedCommand.command_type) {
-    case 'send_message_now':
-      validatedPayload = SendMessageNowPayloadSchema.parse(validatedCommand.payload);
-      break;
-
-    case 'schedule_message':
-      validatedPayload = ScheduleMessagePayloadSchema.parse(validatedCommand.payload);
-      break;
-
-    case 'cancel_scheduled':
-      validatedPayload = CancelScheduledPayloadSchema.parse(validatedCommand.payload);
-      break;
-
-    case 'set_rule':
-      validatedPayload = SetRulePayloadSchema.parse(validatedCommand.payload);
-      break;
-
-    case 'update_plan':
-      validatedPayload = UpdatePlanPayloadSchema.parse(validatedCommand.payload);
-      break;
-
-    default: {
-      const _exhaustive: never = validatedCommand.command_type;
-      throw new Error(`Unknown command type: ${_exhaustive}`);
-    }
+  // Then validate payload based on command type (issues are reported under "payload.*")
+  const payloadResult = PAYLOAD_SCHEMAS[validatedCommand.command_type].safeParse(validatedCommand.payload);
+  if (!payloadResult.success) {
+    throw new z.ZodError(
+      payloadResult.error.issues.map(issue => ({ ...issue, path: ['payload', ...issue.path] }))
+    );
   }
 
   return {
     command: validatedCommand,
-    payload: validatedPayload
+    payload: payloadResult.data
   };
 }
 
+/**
+ * Structured per-field validation error (sent back in command_ack)
+ */
+export interface CommandValidationIssue {
+  field: string;
+  message: string;
+  code: string;
+}
+
 /**
  * Safe validation with detailed error messages
  */
 export function validateCommandSafe(command: unknown): {
   success: boolean;
-  data?: { command: ValidatedCommand; payload: SendMessageNowPayload | ScheduleMessagePayload | CancelScheduledPayload | SetRulePayload | UpdatePlanPayload };
+  data?: { command: ValidatedCommand; payload: CommandPayload };
   errors?: string[];
+  issues?: CommandValidationIssue[];
+  securityViolation?: boolean;
 } {
   try {
     const result = validateCommand(command);
     return { success: true, data: result };
   } catch (error) {
     if (error instanceof z.ZodError) {
-      const errors = error.issues.map(
-        (err: z.ZodIssue) => `${err.path.join('.')}: ${err.message}`
-      );
-      return { success: false, errors };
+      const issues: CommandValidationIssue[] = error.issues.map((err: z.ZodIssue) => ({
+        field: err.path.join('.') || '(root)',
+        message: err.message,
+        code: isSecurityIssue(err) ? 'security_violation' : err.code
+      }));
+      const errors = issues.map(issue => `${issue.field}: ${issue.message}`);
+      return {
+        success: false,
+        errors,
+        issues,
+        securityViolation: issues.some(issue => issue.code === 'security_violation')
+      };
     }
 
     return {
@@ -204,3 +410,18 @@ export function validateCommandSafe(command: unknown): {
     };
   }
 }
+
+/**
+ * Check whether a zod issue was raised by one of the injection guards
+ */
+function isSecurityIssue(issue: z.ZodIssue): boolean {
+  return issue.code === 'custom' && issue.params?.security === true;
+}
+
+/**
+ * Check whether a command_id is well-formed enough to key the command ledger
+ * and the sync cursor on, even if the rest of the command is invalid
+ */
+export function isValidCommandId(commandId: unknown): commandId is string {
+  return CommandIdSchema.safeParse(commandId).success;
+}